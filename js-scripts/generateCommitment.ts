@@ -1,14 +1,90 @@
 import { Barretenberg, Fr } from "@aztec/bb.js";
 import { ethers } from "ethers";
+import { parseArgs } from "util";
+import { fieldToHex } from "../relayer/src/field";
+import { createNote, encryptNote, formatNote } from "../relayer/src/note";
+import type { TicketSeed } from "../relayer/src/seed";
+
+// Usage:
+//   generateCommitment.ts
+//       ABI-encoded (commitment, nullifier, secret), as used by the forge tests
+//   generateCommitment.ts --chain-id <id> --contract <address> --raffle-id <id> [--encrypt] [--index <k>]
+//       JSON { commitment, note }; --encrypt reads the password from RAFFERO_NOTE_PASSWORD.
+//       --index derives ticket k's secrets from RAFFERO_MNEMONIC (and RAFFERO_MNEMONIC_PASSPHRASE)
+//       or RAFFERO_SEED_SIGNATURE instead of drawing them at random
 
 export default async function generateCommitment(): Promise<string> {
+    const { values } = parseArgs({
+        options: {
+            "chain-id": { type: "string" },
+            "contract": { type: "string" },
+            "raffle-id": { type: "string" },
+            "encrypt": { type: "boolean", default: false },
+            "index": { type: "string" },
+        },
+    });
+
     const bb = await Barretenberg.new();
-    const nullifier = Fr.random();
-    const secret = Fr.random();
 
-    const commitment: Fr = await bb.poseidon2Hash([secret, nullifier]);
-    const result = ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "bytes32", "bytes32"], [commitment.toBuffer(), nullifier.toBuffer(), secret.toBuffer()]);
-    return result;
+    if (values["chain-id"] === undefined) {
+        const nullifier = Fr.random();
+        const secret = Fr.random();
+
+        const commitment: Fr = await bb.poseidon2Hash([secret, nullifier]);
+        return ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "bytes32", "bytes32"], [commitment.toBuffer(), nullifier.toBuffer(), secret.toBuffer()]);
+    }
+
+    if (!values["contract"] || values["raffle-id"] === undefined) {
+        throw new Error("--chain-id needs --contract and --raffle-id");
+    }
+
+    const position = {
+        chainId: values["chain-id"],
+        raffleId: values["raffle-id"],
+        contract: values["contract"],
+    };
+    const note = createNote(values["index"] === undefined
+        ? position
+        : { ...position, ...await deriveFromEnv({ ...position, index: Number(values["index"]) }) });
+    const commitment: Fr = await bb.poseidon2Hash([
+        Fr.fromString(fieldToHex(note.secret)),
+        Fr.fromString(fieldToHex(note.nullifier)),
+    ]);
+
+    let text = formatNote(note);
+    if (values["encrypt"]) {
+        const password = process.env.RAFFERO_NOTE_PASSWORD;
+        if (!password) {
+            throw new Error("--encrypt needs RAFFERO_NOTE_PASSWORD");
+        }
+        text = await encryptNote(note, password);
+    }
+
+    return JSON.stringify({ commitment: commitment.toString(), note: text }, null, 2) + "\n";
+}
+
+// seed.ts needs ethers from relayer/node_modules, so it is only loaded for
+// --index: the forge FFI tests run this script with js-scripts' own packages
+async function deriveFromEnv(position: { chainId: string; contract: string; raffleId: string; index: number }) {
+    let seed: typeof import("../relayer/src/seed");
+    try {
+        seed = await import("../relayer/src/seed");
+    } catch (error: any) {
+        if (error?.code === "MODULE_NOT_FOUND" || error?.code === "ERR_MODULE_NOT_FOUND") {
+            throw new Error("--index needs the relayer's dependencies; run npm install in relayer/");
+        }
+        throw error;
+    }
+
+    let ticketSeed: TicketSeed;
+    if (process.env.RAFFERO_MNEMONIC) {
+        ticketSeed = seed.seedFromMnemonic(process.env.RAFFERO_MNEMONIC, process.env.RAFFERO_MNEMONIC_PASSPHRASE ?? "");
+    } else if (process.env.RAFFERO_SEED_SIGNATURE) {
+        ticketSeed = seed.seedFromSignature(process.env.RAFFERO_SEED_SIGNATURE);
+    } else {
+        throw new Error("--index needs RAFFERO_MNEMONIC or RAFFERO_SEED_SIGNATURE");
+    }
+    return seed.deriveTicketSecrets(ticketSeed, position);
 }
 
 (async () => {
@@ -21,4 +97,4 @@ export default async function generateCommitment(): Promise<string> {
         console.error(error);
         process.exit(1);
     });
-})();
\ No newline at end of file
+})();
@@ -2,6 +2,9 @@ import { Barretenberg, Fr, UltraHonkBackend } from "@aztec/bb.js";
 import { ethers } from "ethers";
 import { Noir } from "@noir-lang/noir_js";
 import { PoseidonIMT, bytes32HexToBigInt } from "./merkleTree";
+import { addressToField, fieldToHex } from "../relayer/src/field";
+import { decryptNote } from "../relayer/src/note";
+import { parseArgs } from "util";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -11,26 +14,80 @@ const circuit = JSON.parse(
 
 const MAX_DEPTH = 32;
 
+// Usage:
+//   generateProof.ts <nullifier> <secret> <recipient bytes32> <raffleId> <winnerIndex> <treeDepth> <leaves...>
+//       as used by the forge tests
+//   generateProof.ts --note <note> --recipient <address> --tree-depth <depth> [--winner-index <i>] <leaves...>
+//       winner index defaults to the note's leaf index; encrypted notes read
+//       their password from RAFFERO_NOTE_PASSWORD
+// Both print ABI-encoded (proof, publicInputs).
+
+interface ProofArgs {
+    nullifier: Fr;
+    secret: Fr;
+    recipient: Fr;
+    raffleId: string;
+    winnerIndex: number;
+    treeDepth: number;
+    leafHexes: string[];
+}
+
+async function readArgs(argv: string[]): Promise<ProofArgs> {
+    if (!argv.includes("--note")) {
+        return {
+            nullifier: Fr.fromString(argv[0]),
+            secret: Fr.fromString(argv[1]),
+            recipient: Fr.fromString(argv[2]),
+            raffleId: argv[3],
+            winnerIndex: Number(BigInt(argv[4])),
+            treeDepth: Number(BigInt(argv[5])),
+            leafHexes: argv.slice(6),
+        };
+    }
+
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            "note": { type: "string" },
+            "recipient": { type: "string" },
+            "tree-depth": { type: "string" },
+            "winner-index": { type: "string" },
+        },
+    });
+    if (!values["recipient"] || values["tree-depth"] === undefined) {
+        throw new Error("--note needs --recipient and --tree-depth");
+    }
+
+    const note = await decryptNote(values["note"]!, process.env.RAFFERO_NOTE_PASSWORD ?? "");
+    const winnerIndex = values["winner-index"] !== undefined ? Number(values["winner-index"]) : note.leafIndex;
+    if (winnerIndex === null) {
+        throw new Error("Note has no leaf index yet; pass --winner-index");
+    }
+
+    return {
+        nullifier: Fr.fromString(fieldToHex(note.nullifier)),
+        secret: Fr.fromString(fieldToHex(note.secret)),
+        recipient: Fr.fromString(fieldToHex(addressToField(values["recipient"]))),
+        raffleId: note.raffleId.toString(),
+        winnerIndex,
+        treeDepth: Number(values["tree-depth"]),
+        leafHexes: positionals,
+    };
+}
+
 export default async function generateProof() {
     const bb = await Barretenberg.new();
-    const inputs = process.argv.slice(2);
-    const nullifier = Fr.fromString(inputs[0]);
-    const secret = Fr.fromString(inputs[1]); 
-    const recipient = Fr.fromString(inputs[2]);
-    const raffleId = inputs[3];
-    const winnerIndex = Number(BigInt(inputs[4]));
-    const treeDepth = Number(BigInt(inputs[5]));
+    const { nullifier, secret, recipient, raffleId, winnerIndex, treeDepth, leafHexes } =
+        await readArgs(process.argv.slice(2));
 
     //const commitment = await bb.poseidon2Hash([secret, nullifier]);
-    const leafHexes = inputs.slice(6);
     const leaves = leafHexes.map((hex) => bytes32HexToBigInt(hex));
 
     const tree = new PoseidonIMT(bb, treeDepth);
     await tree.initEmpty();
 
-    for (const leaf of leaves) {
-        await tree.insert(leaf);
-    }
+    await tree.insertMany(leaves);
 
     // Compute proof for winnerIndex
     const merkleProof = tree.proof(winnerIndex);
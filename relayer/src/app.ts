@@ -0,0 +1,561 @@
+/**
+ * HTTP API of the relayer
+ *
+ * createRelayerApp only wires routes to services that are already running,
+ * so index.ts can serve it and tests can drive it with stand-ins.
+ */
+
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { ethers } from 'ethers';
+import { RaffleProver } from './prover.js';
+import { CircuitInputError } from './circuit.js';
+import { ProverBusyError, ProverPool } from './prover/pool.js';
+import { WitnessPublicKey, isEncryptedProofInputs } from './witness.js';
+import { RaffleIndexer } from './indexer/indexer.js';
+import { PoseidonIMT } from './merkleTree.js';
+import { fieldToHex } from './field.js';
+import { PrivateRaffleContract, RaffleStatus, toRaffle } from './contracts/PrivateRaffle.js';
+import { ClaimError, fromFeeQuoteError as fromClaimFeeQuoteError } from './claim/errors.js';
+import { ClaimRequest, preflightClaim, validateClaimRequest, validateProofGenerationRequest } from './claim/preflight.js';
+import { ClaimQueue } from './claim/queue.js';
+import { ClaimJob } from './claim/jobs.js';
+import { FeeEngine } from './fees/engine.js';
+import { TicketError, fromFeeQuoteError as fromTicketFeeQuoteError } from './tickets/errors.js';
+import { assertOnSale, assertPaymentUnused, validateTicketRequest, verifyPayment } from './tickets/preflight.js';
+import { TicketQueue } from './tickets/queue.js';
+import { TicketJob } from './tickets/jobs.js';
+import { RaffleKeeper } from './keeper/keeper.js';
+import { createLogger } from './logging/logger.js';
+import { privacy } from './logging/privacy.js';
+import { redact } from './logging/redact.js';
+
+const log = createLogger('relayer');
+
+export interface RelayerAppConfig {
+  privacyMode: 'standard' | 'strict';
+  requestJitterMs: number;
+  witnessEncryption: 'optional' | 'strict';
+  // Shown by /health; the fee engine prices with its own copy
+  fee: {
+    claimGas: bigint;
+    ticketGas: bigint;
+    marginPercent: number;
+    maxPrizePercent: number;
+  };
+}
+
+/**
+ * Services behind the routes. Anything left null answers 503, as when the
+ * relayer runs without a contract address or a compiled circuit.
+ */
+export interface RelayerAppOptions {
+  provider: Pick<ethers.Provider, 'getBalance' | 'getNetwork' | 'getTransaction' | 'getTransactionCount'>;
+  signer: Pick<ethers.Signer, 'getAddress'>;
+  contract: Pick<PrivateRaffleContract, 'getRaffle' | 'getRoot' | 'commitmentUsed' | 'claimPrize'> | null;
+  prover: Pick<RaffleProver, 'ready' | 'buildCircuitInputs'> | null;
+  proverPool?: Pick<ProverPool, 'ready' | 'checkCapacity' | 'metrics'> | null;
+  witnessKey?: WitnessPublicKey | null;
+  indexer?: Pick<RaffleIndexer, 'getTree' | 'sync'> | null;
+  claimQueue?: ClaimQueue | null;
+  ticketQueue?: TicketQueue | null;
+  feeEngine?: FeeEngine | null;
+  keeper?: Pick<RaffleKeeper, 'status'> | null;
+  config: RelayerAppConfig;
+}
+
+/**
+ * Public view of a claim job (never includes the proof or recipient)
+ */
+function describeJob(job: ClaimJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    raffleId: job.raffleId,
+    txHash: job.txHash,
+    blockNumber: job.blockNumber,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+  };
+}
+
+/**
+ * Public view of a ticket job (never includes the commitment or payment)
+ */
+function describeTicketJob(job: TicketJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    raffleId: job.raffleId,
+    paymentHash: job.paymentHash,
+    txHash: job.txHash,
+    blockNumber: job.blockNumber,
+    leafIndex: job.leafIndex,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+  };
+}
+
+export function createRelayerApp(options: RelayerAppOptions): Express {
+  const { provider, signer, contract, prover, config } = options;
+  const proverPool = options.proverPool ?? null;
+  const witnessKey = options.witnessKey ?? null;
+  const indexer = options.indexer ?? null;
+  const claimQueue = options.claimQueue ?? null;
+  const ticketQueue = options.ticketQueue ?? null;
+  const feeEngine = options.feeEngine ?? null;
+  const keeper = options.keeper ?? null;
+
+  const app = express();
+  app.disable('x-powered-by');
+
+  // In strict mode the proxy's forwarding headers are dropped, not trusted
+  app.set('trust proxy', config.privacyMode !== 'strict');
+
+  // No identifying headers, timing jitter, no client IP in strict mode. Error
+  // bodies are the routes' own, except RPC and ethers messages, which can
+  // quote a whole transaction and are passed through redact()
+  app.use(privacy({ jitterMs: config.requestJitterMs, noIpRetention: config.privacyMode === 'strict' }));
+  app.use(express.json());
+
+  /**
+   * Key to encrypt the witness for /claim-with-proof-generation with
+   */
+  app.get('/pubkey', (req: Request, res: Response) => {
+    if (!witnessKey) {
+      return res.status(503).json({ error: 'Prover not available' });
+    }
+    res.json({ ...witnessKey, strict: config.witnessEncryption === 'strict' });
+  });
+
+  /**
+   * Health check endpoint
+   */
+  app.get('/health', async (req: Request, res: Response) => {
+    const balance = await provider.getBalance(await signer.getAddress());
+
+    res.json({
+      status: 'ok',
+      relayerBalance: ethers.formatEther(balance),
+      fee: {
+        marginPercent: config.fee.marginPercent,
+        maxPrizePercent: config.fee.maxPrizePercent,
+        claimGasEstimate: feeEngine?.gasEstimate.toString() ?? config.fee.claimGas.toString(),
+        ticketGasEstimate: feeEngine?.ticketGasEstimate.toString() ?? config.fee.ticketGas.toString(),
+      },
+      contractConfigured: !!contract,
+      prover: proverPool?.metrics() ?? null,
+      keeper: keeper?.status() ?? null,
+    });
+  });
+
+  /**
+   * Get raffle info (public data only)
+   */
+  app.get('/raffle/:raffleId', async (req: Request, res: Response) => {
+    try {
+      const raffleId = req.params.raffleId;
+
+      if (!contract) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      const raffle = toRaffle(await contract.getRaffle(raffleId));
+
+      // winnerIndex is only meaningful once the VRF callback closed the raffle
+      const winnerSelected = raffle.status === RaffleStatus.Closed || raffle.status === RaffleStatus.Claimed;
+
+      res.json({
+        raffleId,
+        ticketPrice: raffle.ticketPrice.toString(),
+        maxParticipants: raffle.maxParticipants.toString(),
+        participants: raffle.nextIndex.toString(),
+        status: RaffleStatus[raffle.status],
+        randomnessRequested: raffle.randomnessRequested,
+        winnerIndex: winnerSelected ? raffle.winnerIndex.toString() : null,
+        root: raffle.root,
+        endTime: raffle.endTime.toString(),
+        prizePool: ethers.formatEther(raffle.prizePool),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: redact(error.message) });
+    }
+  });
+
+  /**
+   * Load the indexed tree for a raffle, making sure it matches the contract root.
+   * Sends the error response and returns null if it cannot be served.
+   */
+  async function getVerifiedTree(raffleId: string, res: Response): Promise<PoseidonIMT | null> {
+    if (!contract || !indexer) {
+      res.status(503).json({ error: 'Contract not configured' });
+      return null;
+    }
+
+    if (!/^\d+$/.test(raffleId) || !indexer.getTree(raffleId)) {
+      res.status(404).json({ error: 'Raffle not indexed' });
+      return null;
+    }
+
+    let contractRoot = fieldToHex(await contract.getRoot(raffleId));
+    let indexedRoot = fieldToHex(indexer.getTree(raffleId)!.root());
+
+    // The indexer may be a poll behind the chain; catch up once before giving up
+    if (indexedRoot !== contractRoot) {
+      await indexer.sync();
+      contractRoot = fieldToHex(await contract.getRoot(raffleId));
+      indexedRoot = fieldToHex(indexer.getTree(raffleId)!.root());
+    }
+
+    if (indexedRoot !== contractRoot) {
+      res.status(409).json({
+        error: 'Indexed root does not match contract root',
+        indexedRoot,
+        contractRoot,
+      });
+      return null;
+    }
+
+    return indexer.getTree(raffleId)!;
+  }
+
+  /**
+   * Merkle path for one leaf (same shape as MerkleProof in js-scripts/merkleTree.ts)
+   *
+   * Note: the requested index reveals which ticket the caller cares about.
+   * Use /raffle/:raffleId/leaves to build the path locally instead.
+   */
+  app.get('/raffle/:raffleId/path/:leafIndex', async (req: Request, res: Response) => {
+    try {
+      const { raffleId, leafIndex } = req.params;
+
+      const tree = await getVerifiedTree(raffleId, res);
+      if (!tree) return;
+
+      const index = Number(leafIndex);
+      if (!/^\d+$/.test(leafIndex) || index >= tree.getTotalLeaves()) {
+        return res.status(404).json({ error: 'Leaf not found' });
+      }
+
+      const proof = tree.proof(index);
+
+      res.json({
+        raffleId,
+        leafIndex: index,
+        treeDepth: tree.levels,
+        root: fieldToHex(proof.root),
+        leaf: fieldToHex(proof.leaf),
+        pathElements: proof.pathElements.map(e => fieldToHex(e)),
+        pathIndices: proof.pathIndices.map(i => Number(i)),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: redact(error.message) });
+    }
+  });
+
+  /**
+   * All commitments of a raffle, in leaf order, for rebuilding the tree client-side
+   */
+  app.get('/raffle/:raffleId/leaves', async (req: Request, res: Response) => {
+    try {
+      const { raffleId } = req.params;
+
+      const tree = await getVerifiedTree(raffleId, res);
+      if (!tree) return;
+
+      res.json({
+        raffleId,
+        treeDepth: tree.levels,
+        root: fieldToHex(tree.root()),
+        zeroValue: fieldToHex(tree.zeros[0]),
+        leaves: tree.leaves().map(leaf => fieldToHex(leaf)),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: redact(error.message) });
+    }
+  });
+
+  /**
+   * Fee for a claim: the signed quote the winner accepted, or a fresh quote
+   * for clients that do not send one
+   */
+  async function resolveRelayerFee(raffleId: string, feeQuote: unknown): Promise<string> {
+    if (feeQuote !== undefined) {
+      try {
+        return feeEngine!.verify(feeQuote, raffleId).toString();
+      } catch (error) {
+        throw fromClaimFeeQuoteError(error);
+      }
+    }
+    return (await feeEngine!.quote(raffleId)).feeWei;
+  }
+
+  /**
+   * Submit claim with pre-generated proof
+   *
+   * The winner generates the proof locally and only sends:
+   * - proof (bytes)
+   * - publicInputs (for verification)
+   * - recipient (clean address)
+   * - feeQuote (optional, from GET /fee; the fee charged is exactly the quoted one)
+   *
+   * A claim PrivateRaffle would refuse (not the winner, stale root, spent
+   * nullifier, ...) is answered right away with its ClaimError status.
+   * Otherwise returns 202 with a job id; poll GET /claim/:jobId for the outcome.
+   *
+   * Note: Do NOT log recipient or any identifying info
+   */
+  app.post('/claim', async (req: Request, res: Response) => {
+    try {
+      const { raffleId, proof, publicInputs, recipient, feeQuote } = req.body;
+
+      // Validate inputs
+      if (!raffleId || !proof || !publicInputs || !recipient) {
+        return res.status(400).json({ error: 'Missing required fields', code: 'INVALID_REQUEST' });
+      }
+
+      if (!contract || !claimQueue || !feeEngine) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      const claim: ClaimRequest = {
+        raffleId: raffleId.toString(),
+        proof,
+        publicInputs,
+        recipient,
+        relayerFee: '0',
+      };
+      validateClaimRequest(claim);
+      claim.relayerFee = await resolveRelayerFee(claim.raffleId, feeQuote);
+      // The eth_call runs the verifier contract too; the local verifier
+      // check is left to the job, which repeats the whole preflight before sending
+      await preflightClaim(contract, null, claim);
+
+      const job = await claimQueue.enqueueClaim(claim);
+      log.debug(`Claim job ${job.id} queued for raffle ${raffleId}`);
+      // Note: NOT logging recipient for privacy
+
+      res.status(202).json(describeJob(job));
+
+    } catch (error: any) {
+      if (error instanceof ClaimError) {
+        return res.status(error.status).json(error);
+      }
+      log.error('Claim error:', error);
+      res.status(500).json({ error: 'Claim failed' });
+    }
+  });
+
+  /**
+   * Status of a claim job: queued -> proving -> submitted -> confirmed / failed
+   */
+  app.get('/claim/:jobId', (req: Request, res: Response) => {
+    if (!claimQueue) {
+      return res.status(503).json({ error: 'Contract not configured' });
+    }
+
+    const job = claimQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Claim job not found' });
+    }
+
+    res.json(describeJob(job));
+  });
+
+  /**
+   * Generate proof and submit claim
+   *
+   * For users who can't generate proofs locally.
+   * WARNING: This requires sharing private inputs with the relayer.
+   * Use only if you trust the relayer operator.
+   *
+   * Send the secret and nullifier as a `witness` envelope sealed to the key from
+   * GET /pubkey: it is only opened inside a prover worker. Plaintext `secret`
+   * and `nullifier` are refused when WITNESS_ENCRYPTION=strict.
+   *
+   * The private inputs are kept in memory only; if the relayer restarts before
+   * proving, the job fails with INTERRUPTED and must be resubmitted.
+   */
+  app.post('/claim-with-proof-generation', async (req: Request, res: Response) => {
+    try {
+      if (!claimQueue || !feeEngine) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      if (!prover?.ready || !proverPool?.ready) {
+        return res.status(503).json({ error: 'Prover not available' });
+      }
+
+      const proofInputs = validateProofGenerationRequest(req.body, {
+        requireEncryption: config.witnessEncryption === 'strict',
+        witnessKeyId: witnessKey?.keyId ?? null,
+      });
+
+      // Reject inputs that do not fit the circuit now rather than in the job;
+      // a sealed secret and nullifier are checked by the worker that opens them
+      await prover.buildCircuitInputs(
+        isEncryptedProofInputs(proofInputs) ? { ...proofInputs, secret: '0', nullifier: '0' } : proofInputs
+      );
+
+      const relayerFee = await resolveRelayerFee(proofInputs.raffleId, req.body.feeQuote);
+
+      // Refuse rather than queue behind more proofs than the pool accepts
+      proverPool.checkCapacity();
+      const job = await claimQueue.enqueueProofGeneration(proofInputs, req.body.recipient, relayerFee);
+      log.debug(`Claim job ${job.id} queued for proof generation`);
+
+      res.status(202).json(describeJob(job));
+
+    } catch (error: any) {
+      if (error instanceof CircuitInputError) {
+        return res.status(400).json({ error: error.message, code: 'INVALID_REQUEST' });
+      }
+      if (error instanceof ProverBusyError) {
+        res.set('Retry-After', error.retryAfter.toString());
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof ClaimError) {
+        return res.status(error.status).json(error);
+      }
+      log.error('Claim with proof generation error:', error);
+      res.status(500).json({ error: 'Claim failed' });
+    }
+  });
+
+  /**
+   * Signed, time-limited fee quote for claiming a raffle.
+   * Send it back as `feeQuote` with the claim to be charged exactly this fee.
+   */
+  app.get('/fee', async (req: Request, res: Response) => {
+    try {
+      const raffleId = req.query.raffleId;
+
+      if (typeof raffleId !== 'string' || !/^\d+$/.test(raffleId)) {
+        return res.status(400).json({ error: 'raffleId query parameter required' });
+      }
+
+      if (!feeEngine) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      const quote = await feeEngine.quote(raffleId);
+
+      res.json({ ...quote, feeEth: ethers.formatEther(quote.feeWei) });
+    } catch (error: any) {
+      res.status(500).json({ error: redact(error.message) });
+    }
+  });
+
+  /**
+   * Signed, time-limited fee quote for buying a ticket through the relayer.
+   * `total` is the minimum payment: ticket price plus fee.
+   */
+  app.get('/ticket/fee', async (req: Request, res: Response) => {
+    try {
+      const raffleId = req.query.raffleId;
+
+      if (typeof raffleId !== 'string' || !/^\d+$/.test(raffleId)) {
+        return res.status(400).json({ error: 'raffleId query parameter required' });
+      }
+
+      if (!feeEngine) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      const quote = await feeEngine.quoteTicket(raffleId);
+
+      res.json({ ...quote, feeEth: ethers.formatEther(quote.feeWei), totalEth: ethers.formatEther(quote.total) });
+    } catch (error: any) {
+      res.status(500).json({ error: redact(error.message) });
+    }
+  });
+
+  /**
+   * Buy a ticket from the relayer wallet
+   *
+   * The buyer sends:
+   * - commitment (bytes32)
+   * - payment: a signed transfer of at least ticket price + fee to the relayer,
+   *   from any address, that has not been broadcast yet
+   * - feeQuote (optional, from GET /ticket/fee)
+   *
+   * Returns 202 with a job id; poll GET /ticket/:jobId for the leaf index.
+   * Once paid, the ticket is buffered with other buyers' tickets and sent at a
+   * random time, so the leaf index can take up to TICKET_MAX_DELAY_MS (or until
+   * shortly before endTime, if the raffle is slow to fill the batch).
+   *
+   * Note: Do NOT log the commitment or the payment
+   */
+  app.post('/ticket', async (req: Request, res: Response) => {
+    try {
+      if (!contract || !ticketQueue || !feeEngine) {
+        return res.status(503).json({ error: 'Contract not configured' });
+      }
+
+      const request = validateTicketRequest(req.body);
+
+      const raffle = toRaffle(await contract.getRaffle(request.raffleId));
+      assertOnSale(raffle, Math.floor(Date.now() / 1000));
+      if (await contract.commitmentUsed(request.raffleId, request.commitment)) {
+        throw new TicketError('COMMITMENT_ALREADY_USED', 409, 'Commitment is already in the raffle');
+      }
+
+      const { feeQuote } = req.body;
+      let feeWei: bigint;
+      try {
+        feeWei = feeQuote !== undefined
+          ? feeEngine.verifyTicket(feeQuote, request.raffleId)
+          : BigInt((await feeEngine.quoteTicket(request.raffleId)).feeWei);
+      } catch (error) {
+        throw fromTicketFeeQuoteError(error);
+      }
+
+      const payment = verifyPayment(request.payment, {
+        chainId: (await provider.getNetwork()).chainId,
+        relayer: await signer.getAddress(),
+        minValue: raffle.ticketPrice + feeWei,
+      });
+      await assertPaymentUnused(provider, payment);
+
+      const job = await ticketQueue.enqueue({
+        ...request,
+        paymentHash: payment.hash,
+        feeWei: feeWei.toString(),
+      });
+      log.debug(`Ticket job ${job.id} queued for raffle ${request.raffleId}`);
+
+      res.status(202).json(describeTicketJob(job));
+
+    } catch (error: any) {
+      if (error instanceof TicketError) {
+        return res.status(error.status).json(error);
+      }
+      log.error('Ticket error:', error);
+      res.status(500).json({ error: 'Ticket purchase failed' });
+    }
+  });
+
+  /**
+   * Status of a ticket job: queued -> paying -> buffered -> submitted -> confirmed / failed
+   */
+  app.get('/ticket/:jobId', (req: Request, res: Response) => {
+    if (!ticketQueue) {
+      return res.status(503).json({ error: 'Contract not configured' });
+    }
+
+    const job = ticketQueue.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Ticket job not found' });
+    }
+
+    res.json(describeTicketJob(job));
+  });
+
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    log.error('Unhandled error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return app;
+}
@@ -0,0 +1,163 @@
+/**
+ * Compiled circuit loading and ABI checks
+ *
+ * The prover reads the circuit's parameter list (names, visibility, array
+ * lengths) from the nargo artifact instead of hardcoding it, so a recompiled
+ * circuit with a different MAX_DEPTH is picked up automatically and an
+ * incompatible one is rejected before witness generation.
+ */
+
+import * as fs from 'fs';
+import type { CompiledCircuit } from '@noir-lang/noir_js';
+import { toField } from './field.js';
+
+export type { CompiledCircuit };
+
+export interface CircuitAbiType {
+  kind: string;             // 'field', 'array', 'integer', ...
+  length?: number;          // for arrays
+  type?: CircuitAbiType;    // array element type
+}
+
+export interface CircuitAbiParameter {
+  name: string;
+  type: CircuitAbiType;
+  visibility: 'public' | 'private';
+}
+
+export type CircuitInputs = Record<string, string | string[]>;
+
+/**
+ * Inputs that do not fit the circuit's declared ABI
+ */
+export class CircuitInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CircuitInputError';
+  }
+}
+
+// Parameters the relayer fills in; must all be present in the compiled circuit
+const REQUIRED_PARAMETERS = [
+  'secret',
+  'nullifier',
+  'siblings',
+  'path_indices',
+  'recipient',
+  'root',
+  'nullifier_hash',
+  'recipient_binding',
+  'raffle_id',
+  'winner_index',
+  'tree_depth',
+];
+
+/**
+ * Read a nargo-compiled circuit JSON from disk
+ */
+export function loadCircuit(circuitPath: string): CompiledCircuit {
+  const circuit = JSON.parse(fs.readFileSync(circuitPath, 'utf-8'));
+
+  if (!circuit?.abi?.parameters || typeof circuit.bytecode !== 'string') {
+    throw new Error(`Not a compiled Noir circuit: ${circuitPath}`);
+  }
+
+  return circuit as CompiledCircuit;
+}
+
+export class CircuitAbi {
+  public readonly parameters: CircuitAbiParameter[];
+  public readonly maxDepth: number;
+
+  constructor(circuit: CompiledCircuit) {
+    this.parameters = circuit.abi.parameters as CircuitAbiParameter[];
+
+    const names = this.parameters.map(p => p.name);
+    const missing = REQUIRED_PARAMETERS.filter(name => !names.includes(name));
+    if (missing.length > 0) {
+      throw new Error(`Circuit ABI is missing parameters: ${missing.join(', ')}`);
+    }
+
+    const siblings = this.getParameter('siblings');
+    const pathIndices = this.getParameter('path_indices');
+
+    if (siblings.type.kind !== 'array' || siblings.type.length === undefined) {
+      throw new Error('Circuit ABI: siblings must be an array');
+    }
+    if (pathIndices.type.kind !== 'array' || pathIndices.type.length !== siblings.type.length) {
+      throw new Error(
+        `Circuit ABI: path_indices must be an array of length ${siblings.type.length}`
+      );
+    }
+
+    // MAX_DEPTH in main.nr
+    this.maxDepth = siblings.type.length;
+  }
+
+  /**
+   * Names of the public parameters, in the order the proof exposes them
+   */
+  get publicParameterNames(): string[] {
+    return this.parameters
+      .filter(p => p.visibility === 'public')
+      .map(p => p.name);
+  }
+
+  getParameter(name: string): CircuitAbiParameter {
+    const parameter = this.parameters.find(p => p.name === name);
+    if (!parameter) {
+      throw new Error(`Circuit ABI has no parameter "${name}"`);
+    }
+    return parameter;
+  }
+
+  /**
+   * Check that inputs match the declared ABI exactly: no missing or unknown
+   * parameters, arrays of the declared length, canonical field elements.
+   */
+  validate(inputs: CircuitInputs): void {
+    const declared = new Set(this.parameters.map(p => p.name));
+    const unknown = Object.keys(inputs).filter(name => !declared.has(name));
+    if (unknown.length > 0) {
+      throw new CircuitInputError(`Circuit inputs not declared in ABI: ${unknown.join(', ')}`);
+    }
+
+    for (const parameter of this.parameters) {
+      const value = inputs[parameter.name];
+      if (value === undefined) {
+        throw new CircuitInputError(`Missing circuit input "${parameter.name}"`);
+      }
+      this.validateValue(parameter.name, parameter.type, value);
+    }
+  }
+
+  /**
+   * Public input values, in ABI order
+   */
+  publicInputs(inputs: CircuitInputs): string[] {
+    return this.publicParameterNames.map(name => inputs[name] as string);
+  }
+
+  private validateValue(name: string, type: CircuitAbiType, value: string | string[]): void {
+    if (type.kind === 'array') {
+      if (!Array.isArray(value) || value.length !== type.length) {
+        const got = Array.isArray(value) ? `length ${value.length}` : typeof value;
+        throw new CircuitInputError(`Circuit input "${name}" must be an array of length ${type.length}, got ${got}`);
+      }
+      value.forEach((item, i) => this.validateValue(`${name}[${i}]`, type.type!, item));
+      return;
+    }
+
+    if (type.kind !== 'field') {
+      throw new CircuitInputError(`Circuit input "${name}" has unsupported ABI type "${type.kind}"`);
+    }
+    if (typeof value !== 'string') {
+      throw new CircuitInputError(`Circuit input "${name}" must be a field element`);
+    }
+    try {
+      toField(value);
+    } catch (error: any) {
+      throw new CircuitInputError(`Circuit input "${name}": ${error.message}`);
+    }
+  }
+}
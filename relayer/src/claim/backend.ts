@@ -0,0 +1,75 @@
+/**
+ * Claim queue backend: proofs from the prover pool, claimPrize through the
+ * transaction manager
+ */
+
+import { PrivateRaffleContract } from '../contracts/PrivateRaffle.js';
+import { ProverPool } from '../prover/pool.js';
+import { RaffleProver } from '../prover.js';
+import { FeeEngine } from '../fees/engine.js';
+import { TransactionDroppedError, TransactionManager } from '../tx/manager.js';
+import { ClaimError, fromContractError } from './errors.js';
+import { preflightClaim } from './preflight.js';
+import { ClaimBackend } from './queue.js';
+
+export interface ClaimBackendOptions {
+  contract: PrivateRaffleContract;
+  txManager: Pick<TransactionManager, 'send' | 'wait'>;
+  // Verifies proofs before they are sent; null leaves that to the verifier contract
+  prover: Pick<RaffleProver, 'ready' | 'verifyProof' | 'formatProofForContract' | 'formatPublicInputsForContract'> | null;
+  proverPool: Pick<ProverPool, 'generateProof'> | null;
+  feeEngine?: Pick<FeeEngine, 'recordClaimGas'> | null;
+}
+
+export function createClaimBackend(options: ClaimBackendOptions): ClaimBackend {
+  const { contract, txManager, prover, proverPool, feeEngine } = options;
+
+  return {
+    async prove(inputs) {
+      if (!proverPool || !prover) {
+        throw new Error('Prover pool not available');
+      }
+      const { proof, publicInputs } = await proverPool.generateProof(inputs);
+      return {
+        proof: prover.formatProofForContract(proof),
+        publicInputs: prover.formatPublicInputsForContract(publicInputs),
+      };
+    },
+
+    // Nothing is sent unless the proof verifies and claimPrize succeeds in an eth_call
+    preflight: claim => preflightClaim(contract, prover?.ready ? prover : null, claim),
+
+    async submit(claim, beforeBroadcast) {
+      try {
+        return await txManager.send({
+          to: await contract.getAddress(),
+          data: contract.interface.encodeFunctionData('claimPrize', [
+            claim.raffleId,
+            claim.proof,
+            claim.publicInputs,
+            claim.recipient,
+            claim.relayerFee,
+          ]),
+        }, beforeBroadcast);
+      } catch (error) {
+        // State can still change between the simulation and sending
+        throw fromContractError(error);
+      }
+    },
+
+    async waitForReceipt(txHash) {
+      try {
+        const receipt = await txManager.wait(txHash);
+        if (receipt.status === 1) {
+          feeEngine?.recordClaimGas(receipt.gasUsed);
+        }
+        return { txHash: receipt.hash, blockNumber: receipt.blockNumber, success: receipt.status === 1 };
+      } catch (error: any) {
+        if (error instanceof TransactionDroppedError) {
+          throw new ClaimError('TRANSACTION_DROPPED', 502, 'Claim transaction was dropped; submit the claim again');
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Claim failures as structured errors
+ *
+ * Every reason a claim can be refused, locally or by PrivateRaffle, maps to a
+ * stable code and HTTP status so wallets can tell "wrong ticket" from
+ * "try again with the current root" without parsing messages.
+ */
+
+import { ethers } from 'ethers';
+import { CodedError } from '../errors.js';
+import { PRIVATE_RAFFLE_ABI, RaffleStatus } from '../contracts/PrivateRaffle.js';
+import { FeeQuoteError } from '../fees/quote.js';
+
+export type ClaimErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_PUBLIC_INPUTS'
+  | 'INVALID_PROOF'
+  | 'INVALID_RAFFLE_ID'
+  | 'STALE_ROOT'
+  | 'NOT_WINNER'
+  | 'RAFFLE_NOT_CLOSED'
+  | 'NULLIFIER_ALREADY_USED'
+  | 'INVALID_RECIPIENT_BINDING'
+  | 'PAYOUT_FAILED'
+  | 'CLAIM_REVERTED'
+  | 'TRANSACTION_DROPPED'
+  | 'INVALID_FEE_QUOTE'
+  | 'FEE_QUOTE_EXPIRED'
+  | 'PLAINTEXT_WITNESS'
+  | 'INVALID_WITNESS_ENVELOPE';
+
+export class ClaimError extends CodedError<ClaimErrorCode> {}
+
+interface ContractErrorMapping {
+  code: ClaimErrorCode;
+  status: number;
+  message: string;
+}
+
+// PrivateRaffle custom errors reachable from claimPrize
+const CONTRACT_ERRORS: Record<string, ContractErrorMapping> = {
+  InvalidProof: {
+    code: 'INVALID_PROOF',
+    status: 422,
+    message: 'Proof rejected by the verifier',
+  },
+  InvalidRaffleId: {
+    code: 'INVALID_RAFFLE_ID',
+    status: 422,
+    message: 'Proof was generated for a different raffle',
+  },
+  InvalidRootMismatch: {
+    code: 'STALE_ROOT',
+    status: 409,
+    message: 'Proof root does not match the raffle root; rebuild the proof against the current tree',
+  },
+  NotWinner: {
+    code: 'NOT_WINNER',
+    status: 403,
+    message: 'Proof winner index is not the selected winner',
+  },
+  RaffleNotClosed: {
+    code: 'RAFFLE_NOT_CLOSED',
+    status: 409,
+    message: 'Raffle is not closed for claims',
+  },
+  NullifierAlreadyUsed: {
+    code: 'NULLIFIER_ALREADY_USED',
+    status: 409,
+    message: 'Prize already claimed with this nullifier',
+  },
+  InvalidRecipientBinding: {
+    code: 'INVALID_RECIPIENT_BINDING',
+    status: 422,
+    message: 'Proof is bound to a different recipient',
+  },
+  TransferFailed: {
+    code: 'PAYOUT_FAILED',
+    status: 422,
+    message: 'Prize transfer failed (relayer fee above prize, or recipient rejects ETH)',
+  },
+};
+
+const raffleInterface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+
+/**
+ * Revert data carried by an ethers CALL_EXCEPTION, if any
+ */
+function revertData(error: any): string | null {
+  for (const candidate of [error?.data, error?.error?.data, error?.info?.error?.data]) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate) && candidate.length >= 10) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function formatArg(name: string, value: unknown): string {
+  if (name === 'status' && typeof value === 'bigint') {
+    return RaffleStatus[Number(value)] ?? value.toString();
+  }
+  return String(value);
+}
+
+/**
+ * Decoded PrivateRaffle revert of a CALL_EXCEPTION: the custom error name,
+ * its arguments as strings and a readable reason. Null if there is no
+ * decodable revert data.
+ */
+export function decodeRevert(error: unknown): { name: string; details: Record<string, string>; reason: string } | null {
+  const data = revertData(error);
+  const decoded = data ? raffleInterface.parseError(data) : null;
+  if (!decoded) {
+    return null;
+  }
+
+  const details: Record<string, string> = {};
+  decoded.fragment.inputs.forEach((input, i) => {
+    details[input.name || `arg${i}`] = formatArg(input.name, decoded.args[i]);
+  });
+
+  // require(...) reverts decode as Error(string)
+  const reason = decoded.name === 'Error' ? String(decoded.args[0]) : decoded.name;
+  return { name: decoded.name, details, reason };
+}
+
+/**
+ * A rejected feeQuote as a ClaimError. Other errors are returned as-is.
+ */
+export function fromFeeQuoteError(error: unknown): unknown {
+  if (error instanceof FeeQuoteError) {
+    return new ClaimError(error.code, error.status, error.message, error.details);
+  }
+  return error;
+}
+
+/**
+ * Decode a failed claimPrize call (staticCall, gas estimation or a mined
+ * revert) into a ClaimError. Errors that are not reverts are returned as-is.
+ */
+export function fromContractError(error: unknown): unknown {
+  if (error instanceof ClaimError || !ethers.isError(error as any, 'CALL_EXCEPTION')) {
+    return error;
+  }
+
+  const decoded = decodeRevert(error);
+  if (!decoded) {
+    return new ClaimError('CLAIM_REVERTED', 422, 'Claim transaction would revert');
+  }
+
+  const mapping = CONTRACT_ERRORS[decoded.name];
+  if (mapping) {
+    return new ClaimError(mapping.code, mapping.status, mapping.message, { error: decoded.name, ...decoded.details });
+  }
+
+  // require(publicInputs.length == 6, ...) and anything not specific to claims
+  return new ClaimError('CLAIM_REVERTED', 422, `Claim transaction would revert: ${decoded.reason}`, {
+    error: decoded.name,
+    ...decoded.details,
+  });
+}
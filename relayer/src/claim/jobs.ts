@@ -0,0 +1,44 @@
+/**
+ * Claim job persistence
+ *
+ * A job is written before any work starts and after every status change, so
+ * a restarted relayer knows which transactions it already sent and only
+ * has to watch them instead of sending them again.
+ *
+ * Private witnesses for /claim-with-proof-generation are never written here;
+ * only the finished proof is.
+ */
+
+import { ErrorBody } from '../errors.js';
+import { ProverBusyError } from '../prover/pool.js';
+import { FileStateStore, JobState, MemoryStateStore, StateStore } from '../jsonStore.js';
+import { ClaimErrorCode } from './errors.js';
+import { ClaimRequest } from './preflight.js';
+
+export type ClaimJobStatus = 'queued' | 'proving' | 'submitted' | 'confirmed' | 'failed';
+
+export type ClaimJobError = ErrorBody<ClaimErrorCode | ProverBusyError['code'] | 'INTERRUPTED' | 'INTERNAL_ERROR'>;
+
+export interface ClaimJob {
+  id: string;
+  status: ClaimJobStatus;
+  raffleId: string;
+  needsProof: boolean;            // submitted via /claim-with-proof-generation
+  claim: ClaimRequest | null;     // set once the proof exists, cleared when the job ends
+  txHash: string | null;
+  blockNumber: number | null;
+  error: ClaimJobError | null;
+  createdAt: number;              // ms since epoch
+  updatedAt: number;
+}
+
+export type ClaimJobState = JobState<ClaimJob>;
+export type ClaimJobStore = StateStore<ClaimJobState>;
+
+export class FileClaimJobStore extends FileStateStore<ClaimJobState> {
+  constructor(filePath: string) {
+    super(filePath, 'claim job');
+  }
+}
+
+export class MemoryClaimJobStore extends MemoryStateStore<ClaimJobState> {}
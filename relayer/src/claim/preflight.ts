@@ -0,0 +1,158 @@
+/**
+ * Pre-flight checks run before the relayer spends gas on a claim
+ *
+ * A claim is only sent once its proof verifies locally (same keccak UltraHonk
+ * flavour as the on-chain verifier) and an eth_call of claimPrize from the
+ * relayer account succeeds. Anything else is reported as a ClaimError.
+ */
+
+import { ethers } from 'ethers';
+import { PrivateRaffleContract } from '../contracts/PrivateRaffle.js';
+import { toField } from '../field.js';
+import { ProofRequest, WitnessEnvelopeError, checkWitnessEnvelope } from '../witness.js';
+import { ClaimError, fromContractError } from './errors.js';
+
+// root, nullifier_hash, recipient_binding, raffle_id, winner_index, tree_depth
+export const CLAIM_PUBLIC_INPUTS = 6;
+
+export interface ClaimRequest {
+  raffleId: string;
+  proof: string;            // 0x-prefixed proof bytes
+  publicInputs: string[];   // bytes32, circuit ABI order
+  recipient: string;
+  relayerFee: string;       // wei
+}
+
+export interface ProofGenerationOptions {
+  requireEncryption: boolean;     // strict mode: refuse a plaintext secret and nullifier
+  witnessKeyId: string | null;    // key envelopes must be sealed to; null if there is none
+}
+
+export interface ProofVerifier {
+  verifyProof(proof: Uint8Array, publicInputs: string[]): Promise<boolean>;
+}
+
+function toFieldOrNull(value: string): bigint | null {
+  try {
+    return toField(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the request shape before touching the prover or the chain
+ */
+export function validateClaimRequest(claim: ClaimRequest): void {
+  if (!/^\d+$/.test(String(claim.raffleId))) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'raffleId must be a decimal integer');
+  }
+  if (!ethers.isAddress(claim.recipient)) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'Invalid recipient address');
+  }
+  if (typeof claim.proof !== 'string' || !ethers.isHexString(claim.proof) || claim.proof.length <= 2) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'proof must be a 0x-prefixed hex string');
+  }
+  if (!Array.isArray(claim.publicInputs) || claim.publicInputs.length !== CLAIM_PUBLIC_INPUTS) {
+    throw new ClaimError(
+      'INVALID_PUBLIC_INPUTS',
+      400,
+      `Expected ${CLAIM_PUBLIC_INPUTS} public inputs, got ${Array.isArray(claim.publicInputs) ? claim.publicInputs.length : 0}`
+    );
+  }
+  claim.publicInputs.forEach((input, i) => {
+    if (typeof input !== 'string' || !ethers.isHexString(input, 32) || toFieldOrNull(input) === null) {
+      throw new ClaimError('INVALID_PUBLIC_INPUTS', 400, `publicInputs[${i}] must be a bytes32 field element`);
+    }
+  });
+}
+
+/**
+ * Read a /claim-with-proof-generation body into the prover's inputs. The
+ * ticket's secret and nullifier come either in plaintext or, sealed to the
+ * relayer's witness key, as a `witness` envelope; in strict mode only the
+ * envelope is accepted.
+ */
+export function validateProofGenerationRequest(body: any, options: ProofGenerationOptions): ProofRequest {
+  const { raffleId, secret, nullifier, witness, siblings, recipient, winnerIndex, root, treeDepth } = body ?? {};
+  if (!raffleId || !siblings || !recipient || winnerIndex === undefined || !root || !treeDepth) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'Missing required fields');
+  }
+  if (!ethers.isAddress(recipient)) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'Invalid recipient address');
+  }
+
+  // Path indices are derived from winnerIndex by the prover
+  const publicInputs = {
+    siblings,
+    recipient: BigInt(recipient).toString(),
+    root,
+    raffleId: raffleId.toString(),
+    winnerIndex: winnerIndex.toString(),
+    treeDepth: treeDepth.toString(),
+  };
+  const plaintext = secret !== undefined || nullifier !== undefined;
+
+  if (witness !== undefined) {
+    if (plaintext) {
+      throw new ClaimError('INVALID_REQUEST', 400, 'Send either witness or secret and nullifier, not both');
+    }
+    if (!options.witnessKeyId) {
+      throw new ClaimError('INVALID_WITNESS_ENVELOPE', 400, 'This relayer does not accept encrypted witnesses');
+    }
+    try {
+      checkWitnessEnvelope(witness, options.witnessKeyId);
+    } catch (error) {
+      if (error instanceof WitnessEnvelopeError) {
+        throw new ClaimError('INVALID_WITNESS_ENVELOPE', 400, error.message);
+      }
+      throw error;
+    }
+    return { ...publicInputs, witness };
+  }
+
+  if (options.requireEncryption) {
+    throw new ClaimError(
+      'PLAINTEXT_WITNESS',
+      400,
+      'This relayer only accepts an encrypted witness; seal secret and nullifier to the key from GET /pubkey'
+    );
+  }
+  if (!secret || !nullifier) {
+    throw new ClaimError('INVALID_REQUEST', 400, 'Missing required fields');
+  }
+  return { ...publicInputs, secret, nullifier };
+}
+
+/**
+ * Throws a ClaimError if submitting `claim` would fail.
+ *
+ * `verifier` may be null when no circuit is loaded; the verifier contract
+ * still checks the proof during the eth_call.
+ */
+export async function preflightClaim(
+  contract: Pick<PrivateRaffleContract, 'claimPrize'>,
+  verifier: ProofVerifier | null,
+  claim: ClaimRequest
+): Promise<void> {
+  validateClaimRequest(claim);
+
+  if (verifier) {
+    const valid = await verifier.verifyProof(ethers.getBytes(claim.proof), claim.publicInputs);
+    if (!valid) {
+      throw new ClaimError('INVALID_PROOF', 422, 'Proof does not verify against the relayer circuit');
+    }
+  }
+
+  try {
+    await contract.claimPrize.staticCall(
+      claim.raffleId,
+      claim.proof,
+      claim.publicInputs,
+      claim.recipient,
+      claim.relayerFee
+    );
+  } catch (error) {
+    throw fromContractError(error);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Claim job queue
+ *
+ * Claims are accepted immediately and processed by a single worker
+ * (queued -> proving -> submitted -> confirmed / failed), so HTTP requests
+ * never wait on proving or on a receipt. One worker keeps the relayer's
+ * transactions in submission order; proofs are generated and receipts
+ * watched concurrently.
+ */
+
+import { randomUUID } from 'crypto';
+import { CircuitInputError } from '../circuit.js';
+import { ProofRequest, WitnessEnvelopeError } from '../witness.js';
+import { ProverBusyError } from '../prover/pool.js';
+import { createLogger } from '../logging/logger.js';
+import { DEFAULT_JOB_RETENTION_MS, StateWriter, pruneJobs } from '../jsonStore.js';
+import { ClaimError, fromContractError } from './errors.js';
+import { ClaimJob, ClaimJobError, ClaimJobState, ClaimJobStore } from './jobs.js';
+import { ClaimRequest } from './preflight.js';
+
+const log = createLogger('claims');
+
+export interface ClaimReceipt {
+  txHash: string;         // the mined version, which may be a fee-bumped replacement
+  blockNumber: number;
+  success: boolean;
+}
+
+/**
+ * Chain and prover operations the queue drives
+ */
+export interface ClaimBackend {
+  prove(inputs: ProofRequest): Promise<{ proof: string; publicInputs: string[] }>;
+  preflight(claim: ClaimRequest): Promise<void>;
+  // Resolves with the tx hash once broadcast; `beforeBroadcast` gets it first
+  submit(claim: ClaimRequest, beforeBroadcast: (txHash: string) => Promise<void>): Promise<string>;
+  // Rejects with ClaimError if the transaction can never be mined
+  waitForReceipt(txHash: string): Promise<ClaimReceipt>;
+}
+
+export interface ClaimQueueOptions {
+  store: ClaimJobStore;
+  backend: ClaimBackend;
+  retentionMs?: number;           // how long confirmed and failed jobs are kept
+}
+
+// Kept in memory only: a restart loses the witness, not just the job
+interface PendingProof {
+  proof: Promise<{ proof: string; publicInputs: string[] }>;
+  recipient: string;
+  relayerFee: string;
+}
+
+export class ClaimQueue {
+  private readonly store: StateWriter<ClaimJobState>;
+  private readonly backend: ClaimBackend;
+  private readonly retentionMs: number;
+
+  private state: ClaimJobState | null = null;
+  private pending: string[] = [];
+  private pendingProofs = new Map<string, PendingProof>();
+  private working: Promise<void> | null = null;
+  private watchers = new Map<string, Promise<void>>();
+
+  constructor(options: ClaimQueueOptions) {
+    this.store = new StateWriter(options.store);
+    this.backend = options.backend;
+    this.retentionMs = options.retentionMs ?? DEFAULT_JOB_RETENTION_MS;
+  }
+
+  /**
+   * Load persisted jobs: requeue unsent claims, watch sent transactions and
+   * fail proof generation that was cut short by the restart. A queued job
+   * with a hash may have been broadcast just before the restart, so it is
+   * watched rather than sent again.
+   */
+  async initialize(): Promise<void> {
+    this.state = (await this.store.load()) ?? { version: 1, jobs: {} };
+    this.pending = [];
+    pruneJobs(this.state, this.retentionMs);
+
+    let requeued = 0;
+    let watching = 0;
+    for (const job of Object.values(this.state.jobs)) {
+      if (job.status === 'submitted' || (job.status === 'queued' && job.txHash)) {
+        job.status = 'submitted';
+        this.watch(job);
+        watching++;
+      } else if (job.status === 'queued' || job.status === 'proving') {
+        if (job.claim) {
+          job.status = 'queued';
+          this.pending.push(job.id);
+          requeued++;
+        } else {
+          this.setFailed(job, {
+            error: 'Relayer restarted before the proof was generated; submit the claim again',
+            code: 'INTERRUPTED',
+            details: {},
+          });
+        }
+      }
+    }
+
+    await this.persist();
+    log.info(`Claim queue resuming (${requeued} queued, ${watching} awaiting receipts)`);
+    this.kick();
+  }
+
+  /**
+   * Queue a claim whose proof was generated by the winner
+   */
+  async enqueueClaim(claim: ClaimRequest): Promise<ClaimJob> {
+    const job = this.createJob(claim.raffleId, false);
+    job.claim = claim;
+    return this.add(job);
+  }
+
+  /**
+   * Queue a claim the relayer has to prove first. Proving starts right away,
+   * alongside other jobs' proofs; the claim is sent in queue order.
+   */
+  async enqueueProofGeneration(inputs: ProofRequest, recipient: string, relayerFee: string): Promise<ClaimJob> {
+    const job = this.createJob(inputs.raffleId, true);
+    job.status = 'proving';
+    const proof = this.backend.prove(inputs);
+    proof.catch(() => {});   // handled when the worker reaches the job
+    this.pendingProofs.set(job.id, { proof, recipient, relayerFee });
+    return this.add(job);
+  }
+
+  getJob(jobId: string): ClaimJob | undefined {
+    const job = this.getState().jobs[jobId];
+    return job ? structuredClone(job) : undefined;
+  }
+
+  /**
+   * Resolve once every queued job has been sent and every watched
+   * transaction has settled
+   */
+  async drain(): Promise<void> {
+    while (this.working || this.watchers.size > 0) {
+      await Promise.all([this.working, ...this.watchers.values()]);
+    }
+    await this.store.flush();
+  }
+
+  private createJob(raffleId: string, needsProof: boolean): ClaimJob {
+    const now = Date.now();
+    return {
+      id: randomUUID(),
+      status: 'queued',
+      raffleId,
+      needsProof,
+      claim: null,
+      txHash: null,
+      blockNumber: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private async add(job: ClaimJob): Promise<ClaimJob> {
+    pruneJobs(this.getState(), this.retentionMs);
+    this.getState().jobs[job.id] = job;
+    await this.persist();
+    this.pending.push(job.id);
+    this.kick();
+    return structuredClone(job);
+  }
+
+  private kick(): void {
+    if (this.working || this.pending.length === 0) {
+      return;
+    }
+    this.working = this.work().finally(() => {
+      this.working = null;
+      this.kick();
+    });
+  }
+
+  private async work(): Promise<void> {
+    while (this.pending.length > 0) {
+      await this.process(this.getState().jobs[this.pending.shift()!]);
+    }
+  }
+
+  private async process(job: ClaimJob): Promise<void> {
+    try {
+      if (!job.claim) {
+        const pendingProof = this.pendingProofs.get(job.id);
+        if (!pendingProof) {
+          throw new Error(`Claim job ${job.id} has neither a proof nor a witness`);
+        }
+
+        const { proof, publicInputs } = await pendingProof.proof;
+        this.pendingProofs.delete(job.id);
+
+        await this.update(job, {
+          claim: {
+            raffleId: job.raffleId,
+            proof,
+            publicInputs,
+            recipient: pendingProof.recipient,
+            relayerFee: pendingProof.relayerFee,
+          },
+        });
+      }
+
+      await this.backend.preflight(job.claim!);
+      const txHash = await this.backend.submit(job.claim!, txHash => this.update(job, { txHash }));
+
+      await this.update(job, { status: 'submitted', txHash });
+      log.info(`Claim job ${job.id}: transaction submitted ${txHash}`);
+      this.watch(job);
+    } catch (error) {
+      this.pendingProofs.delete(job.id);
+      // A hash recorded here was never broadcast
+      job.txHash = null;
+      this.setFailed(job, toJobError(job, error));
+      await this.persist();
+    }
+  }
+
+  private watch(job: ClaimJob): void {
+    const watcher = (async () => {
+      try {
+        const receipt = await this.backend.waitForReceipt(job.txHash!);
+        if (receipt.success) {
+          await this.update(job, {
+            status: 'confirmed',
+            txHash: receipt.txHash,
+            blockNumber: receipt.blockNumber,
+            claim: null,
+          });
+        } else {
+          Object.assign(job, { txHash: receipt.txHash, blockNumber: receipt.blockNumber });
+          this.setFailed(job, { error: 'Claim transaction reverted', code: 'CLAIM_REVERTED', details: {} });
+          await this.persist();
+        }
+      } catch (error: any) {
+        if (error instanceof ClaimError) {
+          this.setFailed(job, error.toJSON());
+          await this.persist();
+          return;
+        }
+        // Still 'submitted': the transaction may be mined, and is watched again after a restart
+        log.error(`Claim job ${job.id}: waiting for ${job.txHash} failed:`, error.message);
+      }
+    })().finally(() => this.watchers.delete(job.id));
+
+    this.watchers.set(job.id, watcher);
+  }
+
+  private setFailed(job: ClaimJob, error: ClaimJobError): void {
+    // The proof and recipient are only needed to send the transaction
+    Object.assign(job, { status: 'failed', error, claim: null, updatedAt: Date.now() });
+  }
+
+  private async update(job: ClaimJob, patch: Partial<ClaimJob>): Promise<void> {
+    Object.assign(job, patch, { updatedAt: Date.now() });
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save(this.getState());
+  }
+
+  private getState(): ClaimJobState {
+    if (!this.state) {
+      throw new Error('Claim queue not initialized. Call initialize() first.');
+    }
+    return this.state;
+  }
+}
+
+function toJobError(job: ClaimJob, error: unknown): ClaimJobError {
+  const decoded = fromContractError(error);
+  // The pool can turn a queued proof away too; details.retryAfter says when to resubmit
+  if (decoded instanceof ClaimError || decoded instanceof ProverBusyError) {
+    return decoded.toJSON();
+  }
+  if (decoded instanceof CircuitInputError) {
+    return { error: decoded.message, code: 'INVALID_REQUEST', details: {} };
+  }
+  if (decoded instanceof WitnessEnvelopeError) {
+    return { error: decoded.message, code: 'INVALID_WITNESS_ENVELOPE', details: {} };
+  }
+
+  log.error(`Claim job ${job.id} failed:`, (decoded as Error)?.message);
+  return { error: 'Claim failed', code: 'INTERNAL_ERROR', details: {} };
+}
+
+export default ClaimQueue;
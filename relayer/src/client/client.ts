@@ -0,0 +1,559 @@
+/**
+ * Raffle participant SDK
+ *
+ * One entry point for the whole ticket lifecycle, on top of the same pieces
+ * the relayer runs (contract binding, Poseidon2Hasher, PoseidonIMT,
+ * RaffleProver), so a dApp or script never re-implements hashing, tree
+ * layout or public input order:
+ *
+ *   const client = await RafferoClient.connect({ address, runner: wallet, relayerUrl });
+ *   const ticket = await client.buyTicket(await client.createTicket(raffleId));
+ *   // ...keep formatNote(ticket.note) safe, wait for the draw...
+ *   if (await client.isWinner(ticket.note)) {
+ *     const claim = await client.buildClaimProof(ticket.note, freshAddress);
+ *     const job = await client.submitClaimViaRelayer(claim);
+ *   }
+ *
+ * Leaf lookups always download every commitment of the raffle (from the
+ * relayer when configured, otherwise from the TicketPurchased logs) and
+ * rebuild the tree locally, so neither the relayer nor the RPC learns which
+ * ticket is ours.
+ */
+
+import { ethers } from 'ethers';
+import { Poseidon2Hasher } from '../poseidon.js';
+import { PoseidonIMT } from '../merkleTree.js';
+import { RaffleProver } from '../prover.js';
+import { addressToField, fieldToHex, toField } from '../field.js';
+import { CreateNoteParams, TicketNote, createNote } from '../note.js';
+import { TicketSeed, deriveTicketSecrets, recoverTickets } from '../seed.js';
+import { WitnessPublicKey, encryptWitness } from '../witness.js';
+import { parseRaffleLog } from '../indexer/events.js';
+import { ContractLogSource, RaffleLogSource } from '../indexer/source.js';
+import {
+  PrivateRaffleContract,
+  Raffle,
+  RaffleStatus,
+  connectPrivateRaffle,
+  toRaffle,
+} from '../contracts/PrivateRaffle.js';
+import type { FeeQuote } from '../fees/quote.js';
+import { RelayerClaim, RelayerClaimJob, RelayerClient, RelayerProofGenerationRequest } from './relayer.js';
+
+/**
+ * Contract methods the client uses
+ */
+export type RaffleContract = Pick<
+  PrivateRaffleContract,
+  'getAddress' | 'getRaffle' | 'getRoot' | 'commitments' | 'purchaseTicket'
+>;
+
+/**
+ * Anything that turns ProofInputs into a proof (RaffleProver, or a remote prover)
+ */
+export type ClaimProver = Pick<RaffleProver, 'generateProof'>;
+
+export interface RafferoClientOptions {
+  contract: RaffleContract;
+  chainId: bigint;
+  relayer?: RelayerClient | null;
+  prover?: ClaimProver | null;   // default: RaffleProver(circuitPath), loaded on first proof
+  circuitPath?: string;
+  logs?: RaffleLogSource | null;  // TicketPurchased scan; without it, contract.commitments()
+  fromBlock?: number;             // first block to scan, e.g. the deployment block
+  logBatchSize?: number;          // blocks per eth_getLogs
+}
+
+export interface ConnectOptions {
+  address: string;
+  runner: ethers.Signer | ethers.Provider;   // a Signer is needed for buyTicket
+  relayerUrl?: string;
+  circuitPath?: string;
+  prover?: ClaimProver;
+  fromBlock?: number;
+  logBatchSize?: number;
+}
+
+export interface Ticket {
+  note: TicketNote;
+  commitment: string;       // bytes32
+}
+
+export interface PurchasedTicket extends Ticket {
+  txHash: string;
+}
+
+export interface WinnerCheck {
+  raffleId: bigint;
+  status: RaffleStatus;
+  leafIndex: number | null;     // null if the note's commitment was never bought
+  winnerIndex: number | null;   // null until WinnerSelected
+  won: boolean;
+}
+
+/**
+ * Tree of `leaves`, in insertion order, as the contract builds it
+ */
+export async function treeFromLeaves(hasher: Poseidon2Hasher, levels: number, leaves: bigint[]): Promise<PoseidonIMT> {
+  const tree = new PoseidonIMT(hasher, levels);
+  await tree.initEmpty();
+  await tree.insertMany(leaves);
+  return tree;
+}
+
+export interface ProveClaimParams {
+  prover: ClaimProver;
+  hasher: Poseidon2Hasher;
+  tree: PoseidonIMT;
+  note: TicketNote;
+  winnerIndex: number;
+  recipient: string;
+}
+
+/**
+ * Prove that `note` holds leaf `winnerIndex` of `tree`, bound to
+ * `recipient`. The tree must already be trusted (checked against the
+ * contract root, or brought by the caller for offline proving).
+ */
+export async function proveClaim(params: ProveClaimParams): Promise<RelayerClaim> {
+  const { prover, hasher, tree, note, winnerIndex, recipient } = params;
+  const commitment = await hasher.commitment(note.secret, note.nullifier);
+  if (tree.leaves()[winnerIndex] !== commitment) {
+    throw new Error(`Note is not the winning ticket of raffle ${note.raffleId}`);
+  }
+
+  const path = tree.proof(winnerIndex);
+  const generated = await prover.generateProof({
+    secret: note.secret.toString(),
+    nullifier: note.nullifier.toString(),
+    siblings: path.pathElements.map(e => fieldToHex(e)),
+    recipient: addressToField(recipient).toString(),
+    root: fieldToHex(path.root),
+    raffleId: note.raffleId.toString(),
+    winnerIndex: winnerIndex.toString(),
+    treeDepth: tree.levels.toString(),
+  });
+
+  return {
+    raffleId: note.raffleId.toString(),
+    proof: ethers.hexlify(generated.proof),
+    publicInputs: generated.publicInputs.map(input => fieldToHex(input)),
+    recipient: ethers.getAddress(recipient),
+  };
+}
+
+export interface SealClaimParams {
+  hasher: Poseidon2Hasher;
+  tree: PoseidonIMT;
+  note: TicketNote;
+  winnerIndex: number;
+  recipient: string;
+  relayerKey: WitnessPublicKey;
+}
+
+/**
+ * What proveClaim would prove, as a request for the relayer to prove it:
+ * the path in the clear, the note's secret and nullifier sealed to
+ * `relayerKey` and bound to the path, root and recipient
+ */
+export async function sealClaimWitness(params: SealClaimParams): Promise<RelayerProofGenerationRequest> {
+  const { hasher, tree, note, winnerIndex, recipient, relayerKey } = params;
+  const commitment = await hasher.commitment(note.secret, note.nullifier);
+  if (tree.leaves()[winnerIndex] !== commitment) {
+    throw new Error(`Note is not the winning ticket of raffle ${note.raffleId}`);
+  }
+
+  const path = tree.proof(winnerIndex);
+  const request = {
+    raffleId: note.raffleId.toString(),
+    siblings: path.pathElements.map(e => fieldToHex(e)),
+    recipient: ethers.getAddress(recipient),
+    winnerIndex: winnerIndex.toString(),
+    root: fieldToHex(path.root),
+    treeDepth: tree.levels.toString(),
+  };
+  const witness = encryptWitness(relayerKey, note, {
+    ...request,
+    recipient: addressToField(request.recipient).toString(),
+  });
+  return { ...request, witness };
+}
+
+export class RafferoClient {
+  readonly chainId: bigint;
+  readonly relayer: RelayerClient | null;
+  private readonly contract: RaffleContract;
+  private readonly circuitPath: string | undefined;
+  private readonly logs: RaffleLogSource | null;
+  private readonly fromBlock: number;
+  private readonly logBatchSize: number;
+  private prover: ClaimProver | null;
+  private ownedProver: RaffleProver | null = null;
+  private hasher: Poseidon2Hasher | null = null;
+  private address = '';
+
+  constructor(options: RafferoClientOptions) {
+    this.contract = options.contract;
+    this.chainId = options.chainId;
+    this.relayer = options.relayer ?? null;
+    this.prover = options.prover ?? null;
+    this.circuitPath = options.circuitPath;
+    this.logs = options.logs ?? null;
+    this.fromBlock = options.fromBlock ?? 0;
+    this.logBatchSize = options.logBatchSize ?? 2000;
+  }
+
+  /**
+   * Client for the PrivateRaffle at `address`, initialized
+   */
+  static async connect(options: ConnectOptions): Promise<RafferoClient> {
+    const provider = 'getNetwork' in options.runner ? options.runner : options.runner.provider;
+    if (!provider) {
+      throw new Error('runner must be a Provider or a Signer connected to one');
+    }
+
+    const client = new RafferoClient({
+      contract: connectPrivateRaffle(options.address, options.runner),
+      chainId: (await provider.getNetwork()).chainId,
+      relayer: options.relayerUrl ? new RelayerClient(options.relayerUrl) : null,
+      prover: options.prover,
+      circuitPath: options.circuitPath,
+      logs: new ContractLogSource(provider, options.address),
+      fromBlock: options.fromBlock,
+      logBatchSize: options.logBatchSize,
+    });
+    await client.initialize();
+    return client;
+  }
+
+  async initialize(): Promise<void> {
+    this.address = ethers.getAddress(await this.contract.getAddress());
+    this.hasher = await Poseidon2Hasher.create();
+  }
+
+  /**
+   * Fresh secret and nullifier for `raffleId`. Nothing is sent anywhere;
+   * the note is the only copy of the secrets.
+   */
+  async createTicket(
+    raffleId: bigint | number | string,
+    secrets: Pick<CreateNoteParams, 'secret' | 'nullifier'> = {}
+  ): Promise<Ticket> {
+    const note = createNote({ ...secrets, chainId: this.chainId, raffleId, contract: this.address });
+    return { note, commitment: fieldToHex(await this.commitment(note)) };
+  }
+
+  /**
+   * Ticket `index` of `raffleId` with secrets derived from `seed`, so it can
+   * be recovered without its note (see recoverTickets)
+   */
+  async deriveTicket(seed: TicketSeed, raffleId: bigint | number | string, index: number): Promise<Ticket> {
+    const position = { chainId: this.chainId, contract: this.address, raffleId, index };
+    return this.createTicket(raffleId, deriveTicketSecrets(seed, position));
+  }
+
+  /**
+   * Re-derive this seed's tickets of `raffleId` and match them against the
+   * raffle's commitments; returns a note (with leaf index) per ticket found
+   */
+  async recoverTickets(
+    seed: TicketSeed,
+    raffleId: bigint | number | string,
+    options: { gapLimit?: number } = {}
+  ): Promise<TicketNote[]> {
+    const hasher = this.getHasher();
+    return recoverTickets({
+      seed,
+      chainId: this.chainId,
+      contract: this.address,
+      raffleId,
+      commitments: await this.loadLeaves(BigInt(raffleId)),
+      commitment: (secret, nullifier) => hasher.commitment(secret, nullifier),
+      gapLimit: options.gapLimit,
+    });
+  }
+
+  /**
+   * Buy `ticket` from the connected signer, paying the ticket price.
+   * The returned note has its leaf index filled in.
+   */
+  async buyTicket(ticket: Ticket): Promise<PurchasedTicket> {
+    this.checkNote(ticket.note);
+    const raffle = await this.getRaffle(ticket.note.raffleId);
+
+    const tx = await this.contract.purchaseTicket(ticket.note.raffleId, ticket.commitment, {
+      value: raffle.ticketPrice,
+    });
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`purchaseTicket transaction ${tx.hash} failed`);
+    }
+
+    for (const log of receipt.logs) {
+      const event = parseRaffleLog({ ...log, logIndex: log.index });
+      if (event?.type === 'TicketPurchased' && toField(event.commitment) === toField(ticket.commitment)) {
+        return {
+          note: { ...ticket.note, leafIndex: Number(event.leafIndex) },
+          commitment: ticket.commitment,
+          txHash: tx.hash,
+        };
+      }
+    }
+    throw new Error(`purchaseTicket transaction ${tx.hash} has no TicketPurchased event for this commitment`);
+  }
+
+  /**
+   * Leaf index of the note's commitment, or null if it was never bought
+   */
+  async findMyLeafIndex(note: TicketNote): Promise<number | null> {
+    this.checkNote(note);
+    return this.leafIndexIn(await this.loadLeaves(note.raffleId), note);
+  }
+
+  /**
+   * Find the note's leaf and compare it with the drawn winnerIndex. Only
+   * public data is read; the commitment is computed and matched locally.
+   */
+  async checkWinner(note: TicketNote): Promise<WinnerCheck> {
+    this.checkNote(note);
+    const raffle = await this.getRaffle(note.raffleId);
+    const drawn = raffle.status !== RaffleStatus.Active;
+
+    // Once drawn the tree no longer changes, so the leaves can be checked
+    // against the contract root before trusting the answer
+    const leaves = drawn
+      ? (await this.buildTree(note.raffleId, raffle)).leaves()
+      : await this.loadLeaves(note.raffleId);
+    const leafIndex = await this.leafIndexIn(leaves, note);
+    const winnerIndex = drawn ? Number(raffle.winnerIndex) : null;
+
+    return {
+      raffleId: note.raffleId,
+      status: raffle.status,
+      leafIndex,
+      winnerIndex,
+      won: leafIndex !== null && leafIndex === winnerIndex,
+    };
+  }
+
+  /**
+   * True once the raffle is drawn and the note's ticket was selected
+   */
+  async isWinner(note: TicketNote): Promise<boolean> {
+    return (await this.checkWinner(note)).won;
+  }
+
+  /**
+   * Prove locally that the note holds the winning ticket, bound to
+   * `recipient`. The result can be sent to any relayer or to claimPrize.
+   */
+  async buildClaimProof(note: TicketNote, recipient: string): Promise<RelayerClaim> {
+    this.checkNote(note);
+    const raffle = await this.getRaffle(note.raffleId);
+    if (raffle.status !== RaffleStatus.Closed) {
+      throw new Error(`Raffle ${note.raffleId} is ${RaffleStatus[raffle.status]}, not Closed`);
+    }
+
+    return proveClaim({
+      prover: await this.getProver(),
+      hasher: this.getHasher(),
+      tree: await this.buildTree(note.raffleId, raffle),
+      note,
+      winnerIndex: Number(raffle.winnerIndex),
+      recipient,
+    });
+  }
+
+  /**
+   * Let the relayer prove the claim without seeing the note: its secret and
+   * nullifier are sealed to the relayer's key (GET /pubkey), to be opened
+   * only by the relayer's prover. Send the result with
+   * submitProofGenerationViaRelayer.
+   */
+  async encryptClaimForRelayer(note: TicketNote, recipient: string): Promise<RelayerProofGenerationRequest> {
+    this.checkNote(note);
+    const raffle = await this.getRaffle(note.raffleId);
+    if (raffle.status !== RaffleStatus.Closed) {
+      throw new Error(`Raffle ${note.raffleId} is ${RaffleStatus[raffle.status]}, not Closed`);
+    }
+
+    return sealClaimWitness({
+      hasher: this.getHasher(),
+      tree: await this.buildTree(note.raffleId, raffle),
+      note,
+      winnerIndex: Number(raffle.winnerIndex),
+      recipient,
+      relayerKey: await this.getRelayer().getWitnessKey(),
+    });
+  }
+
+  /**
+   * Queue an encrypted claim for the relayer to prove and send, with a fresh
+   * fee quote unless one is given
+   */
+  async submitProofGenerationViaRelayer(
+    request: RelayerProofGenerationRequest,
+    options: { feeQuote?: FeeQuote } = {}
+  ): Promise<RelayerClaimJob> {
+    const relayer = this.getRelayer();
+    const feeQuote = options.feeQuote ?? request.feeQuote ?? await relayer.getFeeQuote(request.raffleId);
+    const { raffleId, feeWei, expiresAt, signature } = feeQuote;
+    return relayer.requestProofGeneration({ ...request, feeQuote: { raffleId, feeWei, expiresAt, signature } });
+  }
+
+  /**
+   * Queue the claim with the relayer. Without `feeQuote`, a fresh quote is
+   * fetched and sent along, so the fee charged is the one just quoted.
+   */
+  async submitClaimViaRelayer(
+    claim: RelayerClaim,
+    options: { feeQuote?: FeeQuote } = {}
+  ): Promise<RelayerClaimJob> {
+    const relayer = this.getRelayer();
+    const feeQuote = options.feeQuote ?? claim.feeQuote ?? await relayer.getFeeQuote(claim.raffleId);
+    const { raffleId, feeWei, expiresAt, signature } = feeQuote;
+    return relayer.submitClaim({ ...claim, feeQuote: { raffleId, feeWei, expiresAt, signature } });
+  }
+
+  /**
+   * Poll a claim job until it is confirmed or failed
+   */
+  async waitForClaim(
+    jobId: string,
+    options: { intervalMs?: number; timeoutMs?: number } = {}
+  ): Promise<RelayerClaimJob> {
+    const { intervalMs = 3000, timeoutMs = 600_000 } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const job = await this.getRelayer().getClaimJob(jobId);
+      if (job.status === 'confirmed' || job.status === 'failed') {
+        return job;
+      }
+      if (Date.now() + intervalMs > deadline) {
+        throw new Error(`Claim job ${jobId} still ${job.status} after ${timeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  async destroy(): Promise<void> {
+    await this.ownedProver?.destroy();
+    await this.hasher?.destroy();
+    this.ownedProver = null;
+    this.hasher = null;
+  }
+
+  /**
+   * commitment = Poseidon2(secret, nullifier), as inserted by purchaseTicket
+   */
+  async commitment(note: TicketNote): Promise<bigint> {
+    return this.getHasher().commitment(note.secret, note.nullifier);
+  }
+
+  /**
+   * The raffle's commitment tree, rebuilt locally and checked against the
+   * contract root
+   */
+  async buildTree(raffleId: bigint, raffle?: Raffle): Promise<PoseidonIMT> {
+    const levels = Number((raffle ?? await this.getRaffle(raffleId)).levels);
+    const tree = await treeFromLeaves(this.getHasher(), levels, await this.loadLeaves(raffleId));
+
+    const contractRoot = toField(await this.contract.getRoot(raffleId));
+    if (tree.root() !== contractRoot) {
+      throw new Error(
+        `Rebuilt root ${fieldToHex(tree.root())} does not match contract root ${fieldToHex(contractRoot)}`
+      );
+    }
+    return tree;
+  }
+
+  private async leafIndexIn(leaves: bigint[], note: TicketNote): Promise<number | null> {
+    const commitment = await this.commitment(note);
+    if (note.leafIndex !== null && leaves[note.leafIndex] === commitment) {
+      return note.leafIndex;
+    }
+    const index = leaves.indexOf(commitment);
+    return index === -1 ? null : index;
+  }
+
+  private async loadLeaves(raffleId: bigint): Promise<bigint[]> {
+    if (this.relayer) {
+      const { leaves } = await this.relayer.getLeaves(raffleId.toString());
+      return leaves.map(leaf => toField(leaf));
+    }
+    if (this.logs) {
+      return this.scanLeaves(this.logs, raffleId);
+    }
+
+    const { nextIndex } = await this.getRaffle(raffleId);
+    const leaves: bigint[] = [];
+    for (let i = 0n; i < nextIndex; i++) {
+      leaves.push(toField(await this.contract.commitments(raffleId, i)));
+    }
+    return leaves;
+  }
+
+  /**
+   * Every TicketPurchased of the raffle since fromBlock, by leaf index
+   */
+  private async scanLeaves(logs: RaffleLogSource, raffleId: bigint): Promise<bigint[]> {
+    const head = await logs.getBlockNumber();
+    const leaves: bigint[] = [];
+
+    for (let from = this.fromBlock; from <= head; from += this.logBatchSize) {
+      const to = Math.min(from + this.logBatchSize - 1, head);
+      for (const event of await logs.getEvents(from, to)) {
+        if (event.type === 'TicketPurchased' && event.raffleId === raffleId) {
+          leaves[Number(event.leafIndex)] = toField(event.commitment);
+        }
+      }
+    }
+
+    const missing = leaves.findIndex(leaf => leaf === undefined);
+    if (missing !== -1) {
+      throw new Error(`No TicketPurchased log for leaf ${missing} of raffle ${raffleId}; is fromBlock too late?`);
+    }
+    return leaves;
+  }
+
+  private async getRaffle(raffleId: bigint): Promise<Raffle> {
+    return toRaffle(await this.contract.getRaffle(raffleId));
+  }
+
+  private checkNote(note: TicketNote): void {
+    if (note.chainId !== this.chainId || ethers.getAddress(note.contract) !== this.address) {
+      throw new Error(
+        `Note is for ${note.contract} on chain ${note.chainId}, not ${this.address} on chain ${this.chainId}`
+      );
+    }
+  }
+
+  private async getProver(): Promise<ClaimProver> {
+    if (!this.prover) {
+      if (!this.circuitPath) {
+        throw new Error('No prover configured. Pass prover or circuitPath.');
+      }
+      this.ownedProver = new RaffleProver(this.circuitPath);
+      await this.ownedProver.initialize();
+      this.prover = this.ownedProver;
+    }
+    return this.prover;
+  }
+
+  private getRelayer(): RelayerClient {
+    if (!this.relayer) {
+      throw new Error('No relayer configured. Pass relayerUrl.');
+    }
+    return this.relayer;
+  }
+
+  private getHasher(): Poseidon2Hasher {
+    if (!this.hasher) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+    return this.hasher;
+  }
+}
+
+export default RafferoClient;
@@ -0,0 +1,206 @@
+/**
+ * Raffle operator helpers
+ *
+ * What `npm run cli -- raffle ...` does, on the same contract binding and
+ * log source as the relayer: create a raffle (checked against the
+ * contract's own rules before anything is sent), list raffles from their
+ * RaffleCreated logs, describe one, and draw it.
+ */
+
+import { PrivateRaffleContract, RaffleStatus, toRaffle } from '../contracts/PrivateRaffle.js';
+import { RaffleEvent, parseRaffleLog } from '../indexer/events.js';
+import { RaffleLogSource } from '../indexer/source.js';
+import { decodeRevert } from '../claim/errors.js';
+
+/**
+ * Contract methods the operator commands use
+ */
+export type OperatorContract = Pick<
+  PrivateRaffleContract,
+  'MAX_LEVELS' | 'createRaffle' | 'getRaffle' | 'canDrawWinner' | 'drawWinner'
+>;
+
+export interface CreateRaffleParams {
+  ticketPrice: bigint;   // wei
+  levels: number;        // tree depth; 2^levels tickets
+  duration: number;      // seconds
+  prize: bigint;         // wei, sent with createRaffle
+}
+
+export interface CreatedRaffle {
+  raffleId: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+export type RaffleCreatedEvent = Extract<RaffleEvent, { type: 'RaffleCreated' }>;
+
+export interface RaffleSummary {
+  raffleId: bigint;
+  creator: string;
+  status: string;              // RaffleStatus name
+  ticketPrice: bigint;
+  prizePool: bigint;
+  participants: number;
+  maxParticipants: number;
+  levels: number;
+  createdAt: number;           // unix seconds
+  endTime: number;             // unix seconds
+  timeRemaining: number;       // seconds until endTime, 0 once it has passed
+  canDraw: boolean;            // drawWinner would be accepted now
+  randomnessRequested: boolean;
+  requestId: bigint | null;
+  winnerIndex: number | null;  // set once WinnerSelected
+}
+
+export interface DrawnRaffle {
+  txHash: string;
+  requestId: bigint;
+}
+
+/**
+ * "90", "90s", "15m", "2h" or "7d", in seconds
+ */
+export function parseDuration(text: string): number {
+  const match = /^(\d+)\s*([smhd]?)$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${text}"; use seconds or a number with s, m, h or d`);
+  }
+  const unit = { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2]]!;
+  return Number(match[1]) * unit;
+}
+
+/**
+ * The checks createRaffle makes, so a bad raffle fails here instead of
+ * costing a reverted transaction
+ */
+export async function validateCreateRaffle(contract: OperatorContract, params: CreateRaffleParams): Promise<void> {
+  const maxLevels = Number(await contract.MAX_LEVELS());
+  if (!Number.isInteger(params.levels) || params.levels < 1 || params.levels > maxLevels) {
+    throw new Error(`levels must be an integer from 1 to ${maxLevels} (MAX_LEVELS), got ${params.levels}`);
+  }
+  if (!Number.isInteger(params.duration) || params.duration <= 0) {
+    throw new Error(`duration must be a positive number of seconds, got ${params.duration}`);
+  }
+  if (params.prize <= 0n) {
+    throw new Error('prize must be more than zero');
+  }
+  if (params.ticketPrice < 0n) {
+    throw new Error('ticket price cannot be negative');
+  }
+}
+
+export async function createRaffle(contract: OperatorContract, params: CreateRaffleParams): Promise<CreatedRaffle> {
+  await validateCreateRaffle(contract, params);
+
+  const tx = await contract.createRaffle(params.ticketPrice, params.levels, params.duration, { value: params.prize });
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`createRaffle transaction ${tx.hash} failed`);
+  }
+  for (const log of receipt.logs) {
+    const event = parseRaffleLog({ ...log, logIndex: log.index });
+    if (event?.type === 'RaffleCreated') {
+      return { raffleId: event.raffleId, txHash: tx.hash, blockNumber: receipt.blockNumber };
+    }
+  }
+  throw new Error(`createRaffle transaction ${tx.hash} has no RaffleCreated event`);
+}
+
+/**
+ * Every RaffleCreated since fromBlock, oldest first
+ */
+export async function listCreatedRaffles(logs: RaffleLogSource, fromBlock = 0, batchSize = 2000): Promise<RaffleCreatedEvent[]> {
+  const head = await logs.getBlockNumber();
+  const created: RaffleCreatedEvent[] = [];
+  for (let from = fromBlock; from <= head; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, head);
+    for (const event of await logs.getEvents(from, to)) {
+      if (event.type === 'RaffleCreated') {
+        created.push(event);
+      }
+    }
+  }
+  return created;
+}
+
+/**
+ * A raffle's state as of `now` (unix seconds; pass the latest block's
+ * timestamp so time remaining follows the chain, not the local clock)
+ */
+export async function describeRaffle(contract: OperatorContract, raffleId: bigint, now: number): Promise<RaffleSummary> {
+  const raffle = toRaffle(await contract.getRaffle(raffleId));
+  if (raffle.createdAt === 0n) {
+    throw new Error(`Raffle ${raffleId} does not exist`);
+  }
+
+  const endTime = Number(raffle.endTime);
+  return {
+    raffleId,
+    creator: raffle.creator,
+    status: RaffleStatus[raffle.status],
+    ticketPrice: raffle.ticketPrice,
+    prizePool: raffle.prizePool,
+    participants: Number(raffle.nextIndex),
+    maxParticipants: Number(raffle.maxParticipants),
+    levels: Number(raffle.levels),
+    createdAt: Number(raffle.createdAt),
+    endTime,
+    timeRemaining: Math.max(0, endTime - now),
+    // canDrawWinner does not look at randomnessRequested; drawWinner does
+    canDraw: !raffle.randomnessRequested && await contract.canDrawWinner(raffleId),
+    randomnessRequested: raffle.randomnessRequested,
+    requestId: raffle.randomnessRequested ? raffle.requestId : null,
+    winnerIndex: raffle.status === RaffleStatus.Active ? null : Number(raffle.winnerIndex),
+  };
+}
+
+/**
+ * describeRaffle for each id, in order, `batchSize` raffles at a time so a
+ * long list does not hit an RPC endpoint's rate limit all at once
+ */
+export async function describeRaffles(
+  contract: OperatorContract,
+  raffleIds: readonly bigint[],
+  now: number,
+  batchSize = 5
+): Promise<RaffleSummary[]> {
+  const summaries: RaffleSummary[] = [];
+  for (let i = 0; i < raffleIds.length; i += batchSize) {
+    const batch = raffleIds.slice(i, i + batchSize);
+    summaries.push(...await Promise.all(batch.map(raffleId => describeRaffle(contract, raffleId, now))));
+  }
+  return summaries;
+}
+
+/**
+ * Request the raffle's randomness. The call is simulated first, so a raffle
+ * that cannot be drawn fails with the contract's reason and costs nothing.
+ */
+export async function drawRaffle(contract: OperatorContract, raffleId: bigint): Promise<DrawnRaffle> {
+  try {
+    await contract.drawWinner.staticCall(raffleId);
+  } catch (error: any) {
+    const decoded = decodeRevert(error);
+    if (!decoded) {
+      throw error;
+    }
+    const details = decoded.name === 'Error'
+      ? ''
+      : Object.entries(decoded.details).map(([name, value]) => `${name} ${value}`).join(', ');
+    throw new Error(`Raffle ${raffleId} cannot be drawn: ${decoded.reason}${details ? ` (${details})` : ''}`);
+  }
+
+  const tx = await contract.drawWinner(raffleId);
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`drawWinner transaction ${tx.hash} failed`);
+  }
+  for (const log of receipt.logs) {
+    const event = parseRaffleLog({ ...log, logIndex: log.index });
+    if (event?.type === 'RandomnessRequested') {
+      return { txHash: tx.hash, requestId: event.requestId };
+    }
+  }
+  throw new Error(`drawWinner transaction ${tx.hash} has no RandomnessRequested event`);
+}
@@ -0,0 +1,145 @@
+/**
+ * HTTP client for the relayer API (see index.ts)
+ */
+
+import type { FeeQuote } from '../fees/quote.js';
+import type { RelayerFeeQuote } from '../fees/engine.js';
+import type { WitnessEnvelope, WitnessPublicKey } from '../witness.js';
+
+export type ClaimJobStatus = 'queued' | 'proving' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * Claim job as returned by POST /claim and GET /claim/:jobId
+ */
+export interface RelayerClaimJob {
+  jobId: string;
+  status: ClaimJobStatus;
+  raffleId: string;
+  txHash: string | null;
+  blockNumber: number | null;
+  error: { error: string; code: string; details?: Record<string, string> } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RelayerLeaves {
+  raffleId: string;
+  treeDepth: number;
+  root: string;
+  zeroValue: string;
+  leaves: string[];
+}
+
+export interface RelayerClaim {
+  raffleId: string;
+  proof: string;            // 0x hex
+  publicInputs: string[];   // bytes32, circuit ABI order
+  recipient: string;
+  feeQuote?: FeeQuote;
+}
+
+/**
+ * POST /claim-with-proof-generation body, with the secret and nullifier
+ * sealed to the relayer's witness key
+ */
+export interface RelayerProofGenerationRequest {
+  raffleId: string;
+  witness: WitnessEnvelope;
+  siblings: string[];       // bytes32, leaf level first
+  recipient: string;
+  winnerIndex: string;
+  root: string;             // bytes32
+  treeDepth: string;
+  feeQuote?: FeeQuote;
+}
+
+/**
+ * GET /pubkey; `strict` relayers refuse a plaintext secret and nullifier
+ */
+export interface RelayerWitnessKey extends WitnessPublicKey {
+  strict: boolean;
+}
+
+/**
+ * Non-2xx answer from the relayer; `code` is the ClaimErrorCode when there is one
+ */
+export class RelayerRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string | null = null,
+    readonly details: Record<string, string> | null = null
+  ) {
+    super(message);
+    this.name = 'RelayerRequestError';
+  }
+}
+
+export class RelayerClient {
+  private readonly baseUrl: string;
+  private readonly fetch: typeof fetch;
+
+  constructor(baseUrl: string, fetchImpl: typeof fetch = fetch) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetch = fetchImpl;
+  }
+
+  async getFeeQuote(raffleId: string): Promise<RelayerFeeQuote> {
+    return this.request('GET', `/fee?raffleId=${encodeURIComponent(raffleId)}`);
+  }
+
+  /**
+   * Every commitment of a raffle; fetching all of them does not reveal
+   * which one is ours
+   */
+  async getLeaves(raffleId: string): Promise<RelayerLeaves> {
+    return this.request('GET', `/raffle/${encodeURIComponent(raffleId)}/leaves`);
+  }
+
+  async submitClaim(claim: RelayerClaim): Promise<RelayerClaimJob> {
+    return this.request('POST', '/claim', claim);
+  }
+
+  async getWitnessKey(): Promise<RelayerWitnessKey> {
+    return this.request('GET', '/pubkey');
+  }
+
+  /**
+   * Have the relayer prove and submit the claim
+   */
+  async requestProofGeneration(request: RelayerProofGenerationRequest): Promise<RelayerClaimJob> {
+    return this.request('POST', '/claim-with-proof-generation', request);
+  }
+
+  async getClaimJob(jobId: string): Promise<RelayerClaimJob> {
+    return this.request('GET', `/claim/${encodeURIComponent(jobId)}`);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await this.fetch(this.baseUrl + path, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    let json: any = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      // fall through with the raw text as the message
+    }
+
+    if (!response.ok) {
+      throw new RelayerRequestError(
+        response.status,
+        json?.error ?? (text || `Relayer answered ${response.status}`),
+        json?.code ?? null,
+        json?.details ?? null
+      );
+    }
+    return json as T;
+  }
+}
+
+export default RelayerClient;
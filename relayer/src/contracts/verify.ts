@@ -0,0 +1,85 @@
+/**
+ * Startup check that the deployed contract matches the generated binding
+ *
+ * Solidity dispatchers push every external function selector, and every
+ * emitted event pushes its topic hash, so a binding generated from a
+ * different contract (or an outdated build) shows up as missing constants
+ * in the runtime bytecode.
+ */
+
+import { ethers } from 'ethers';
+
+const PUSH1 = 0x60;
+const PUSH32 = 0x7f;
+
+/**
+ * All PUSH1..PUSH32 immediates in runtime bytecode, as lowercase hex
+ * without leading zero bytes
+ */
+function pushedConstants(bytecode: string): Set<string> {
+  const code = ethers.getBytes(bytecode);
+  const constants = new Set<string>();
+
+  for (let pc = 0; pc < code.length; pc++) {
+    const op = code[pc];
+    if (op >= PUSH1 && op <= PUSH32) {
+      const size = op - PUSH1 + 1;
+      const value = ethers.hexlify(code.slice(pc + 1, pc + 1 + size));
+      constants.add(ethers.toBeHex(BigInt(value === '0x' ? 0 : value)));
+      pc += size;
+    }
+  }
+  return constants;
+}
+
+/**
+ * Functions and events of `abi` not found in `bytecode`
+ */
+export function findAbiBytecodeMismatches(abi: ethers.InterfaceAbi, bytecode: string): string[] {
+  const iface = new ethers.Interface(abi);
+  const constants = pushedConstants(bytecode);
+  const missing: string[] = [];
+
+  iface.forEachFunction(fn => {
+    if (!constants.has(ethers.toBeHex(BigInt(fn.selector)))) {
+      missing.push(`function ${fn.format()}`);
+    }
+  });
+  iface.forEachEvent(event => {
+    if (!constants.has(ethers.toBeHex(BigInt(event.topicHash)))) {
+      missing.push(`event ${event.format()}`);
+    }
+  });
+
+  return missing;
+}
+
+/**
+ * Values of `constants` never pushed by `bytecode`
+ */
+export function findMissingConstants(bytecode: string, constants: bigint[]): bigint[] {
+  const pushed = pushedConstants(bytecode);
+  return constants.filter(value => !pushed.has(ethers.toBeHex(value)));
+}
+
+/**
+ * Throw if `address` has no code or its code does not implement `abi`
+ */
+export async function assertDeployedBytecodeMatchesAbi(
+  provider: ethers.Provider,
+  address: string,
+  abi: ethers.InterfaceAbi
+): Promise<void> {
+  const code = await provider.getCode(address);
+  if (code === '0x') {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+
+  const missing = findAbiBytecodeMismatches(abi, code);
+  if (missing.length > 0) {
+    throw new Error(
+      `Contract at ${address} does not match the generated ABI ` +
+      `(regenerate with \`npm run generate-contracts\`). Missing:\n  ${missing.join('\n  ')}`
+    );
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Circuit / verifier / contract consistency checks
+ *
+ * The relayer proves with whatever CIRCUIT_PATH points at, while the chain
+ * verifies with the HonkVerifier generated from circuits/target/vk. If the
+ * two drift apart, every claim fails on chain with InvalidProof. These checks
+ * catch that before a winner does:
+ *
+ * - circuit:          the artifact loads and declares every input we fill in
+ * - public inputs:    the circuit exposes them in the order _parsePublicInputs reads
+ * - verification key: the key computed from the circuit equals circuits/target/vk
+ * - verifier:         the deployed verifier pushes every point of that key
+ * - sample proof:     a proof of a throwaway ticket verifies locally and in a
+ *                     staticCall of the deployed verifier
+ *
+ * Used by `npm run doctor` and, without the sample proof, at relayer startup.
+ */
+
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+import { RaffleProver } from './prover.js';
+import { Poseidon2Hasher } from './poseidon.js';
+import { PoseidonIMT } from './merkleTree.js';
+import { fieldToHex } from './field.js';
+import { randomField } from './note.js';
+import { connectPrivateRaffle } from './contracts/PrivateRaffle.js';
+import { findMissingConstants } from './contracts/verify.js';
+
+/**
+ * PrivateRaffle._parsePublicInputs layout, as circuit parameter names
+ */
+export const CONTRACT_PUBLIC_INPUTS = [
+  'root',
+  'nullifier_hash',
+  'recipient_binding',
+  'raffle_id',
+  'winner_index',
+  'tree_depth',
+];
+
+export const VERIFIER_ABI = [
+  'function verify(bytes _proof, bytes32[] _publicInputs) view returns (bool)',
+];
+
+const VK_HEADER_LENGTH = 32;   // circuit size, log circuit size, public inputs, public input offset (u64 each)
+const SAMPLE_TREE_DEPTH = 2;
+const SAMPLE_RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface VerificationKey {
+  circuitSize: number;
+  logCircuitSize: number;
+  publicInputsSize: number;
+  points: [bigint, bigint][];   // selector and permutation commitments, in file order
+}
+
+export interface DoctorOptions {
+  prover: RaffleProver;           // initialized by the checks if it is not ready
+  vkPath: string;                 // circuits/target/vk
+  provider?: ethers.Provider;
+  raffleAddress?: string;         // PrivateRaffle; its verifier() is checked
+  sampleProof?: boolean;          // prove and verify a throwaway ticket (slow)
+}
+
+/**
+ * Parse a `bb write_vk` UltraHonk verification key
+ */
+export function parseVerificationKey(bytes: Uint8Array): VerificationKey {
+  if (bytes.length < VK_HEADER_LENGTH || (bytes.length - VK_HEADER_LENGTH) % 64 !== 0) {
+    throw new Error(`Not an UltraHonk verification key (${bytes.length} bytes)`);
+  }
+
+  const header = Buffer.from(bytes.subarray(0, VK_HEADER_LENGTH));
+  const points: [bigint, bigint][] = [];
+  for (let offset = VK_HEADER_LENGTH; offset < bytes.length; offset += 64) {
+    points.push([
+      BigInt(ethers.hexlify(bytes.subarray(offset, offset + 32))),
+      BigInt(ethers.hexlify(bytes.subarray(offset + 32, offset + 64))),
+    ]);
+  }
+
+  return {
+    circuitSize: Number(header.readBigUInt64BE(0)),
+    logCircuitSize: Number(header.readBigUInt64BE(8)),
+    publicInputsSize: Number(header.readBigUInt64BE(16)),
+    points,
+  };
+}
+
+/**
+ * Problem with the circuit's public input order, or null if it matches the contract
+ */
+export function checkPublicInputOrder(names: string[]): string | null {
+  if (names.join(',') === CONTRACT_PUBLIC_INPUTS.join(',')) {
+    return null;
+  }
+  return `circuit exposes [${names.join(', ')}], contract reads [${CONTRACT_PUBLIC_INPUTS.join(', ')}]`;
+}
+
+/**
+ * Run every check whose inputs are available; later checks are skipped
+ * when the ones they depend on fail
+ */
+export async function runDoctor(options: DoctorOptions): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  const record = (name: string, status: CheckStatus, detail: string) => {
+    results.push({ name, status, detail });
+    return status === 'pass';
+  };
+  const { prover } = options;
+
+  // Circuit
+  let circuitOk = prover.ready;
+  if (!circuitOk) {
+    try {
+      await prover.initialize();
+      circuitOk = true;
+    } catch (error: any) {
+      record('circuit', 'fail', error.message);
+    }
+  }
+  if (circuitOk) {
+    record('circuit', 'pass', `MAX_DEPTH = ${prover.maxDepth}`);
+    const problem = checkPublicInputOrder(prover.publicParameterNames);
+    record('public inputs', problem ? 'fail' : 'pass', problem ?? CONTRACT_PUBLIC_INPUTS.join(', '));
+  } else {
+    record('public inputs', 'skip', 'circuit did not load');
+  }
+
+  // Verification key file
+  let vkFile: Uint8Array | null = null;
+  let vk: VerificationKey | null = null;
+  try {
+    vkFile = fs.readFileSync(options.vkPath);
+    vk = parseVerificationKey(vkFile);
+  } catch (error: any) {
+    record('verification key', 'fail', `${options.vkPath}: ${error.message}`);
+  }
+
+  if (vkFile && circuitOk) {
+    try {
+      const computed = await prover.getVerificationKey();
+      const matches = Buffer.from(computed).equals(Buffer.from(vkFile));
+      record(
+        'verification key',
+        matches ? 'pass' : 'fail',
+        matches
+          ? `circuit matches ${options.vkPath} (N = ${vk!.circuitSize})`
+          : `circuit key differs from ${options.vkPath}; regenerate the vk and verifier (bb write_vk, bb write_solidity_verifier)`
+      );
+    } catch (error: any) {
+      record('verification key', 'fail', `could not compute the circuit's key: ${error.message}`);
+    }
+  } else if (vkFile) {
+    record('verification key', 'skip', 'circuit did not load');
+  }
+
+  // Deployed verifier
+  let verifier: ethers.Contract | null = null;
+  if (!options.provider || !options.raffleAddress) {
+    record('verifier', 'skip', 'no contract configured');
+  } else {
+    try {
+      const address = await connectPrivateRaffle(options.raffleAddress, options.provider).verifier();
+      const code = await options.provider.getCode(address);
+      if (code === '0x') {
+        record('verifier', 'fail', `no contract at verifier() ${address}`);
+      } else if (vk) {
+        const missing = findMissingConstants(code, vk.points.flat());
+        verifier = new ethers.Contract(address, VERIFIER_ABI, options.provider);
+        record(
+          'verifier',
+          missing.length === 0 ? 'pass' : 'fail',
+          missing.length === 0
+            ? `${address} embeds ${options.vkPath}`
+            : `${address} does not embed ${missing.length} of ${vk.points.length * 2} key coordinates; it was generated from another vk`
+        );
+      } else {
+        verifier = new ethers.Contract(address, VERIFIER_ABI, options.provider);
+        record('verifier', 'skip', `${address} has code, but there is no vk to compare it with`);
+      }
+    } catch (error: any) {
+      record('verifier', 'fail', error.message);
+    }
+  }
+
+  // Sample proof
+  if (!options.sampleProof) {
+    return results;
+  }
+  if (!circuitOk) {
+    record('sample proof', 'skip', 'circuit did not load');
+    return results;
+  }
+  try {
+    const { proof, publicInputs } = await sampleProof(prover);
+    if (!await prover.verifyProof(proof, publicInputs)) {
+      record('sample proof', 'fail', 'proof does not verify locally');
+    } else if (!verifier) {
+      record('sample proof', 'pass', 'verifies locally (no deployed verifier to call)');
+    } else {
+      const accepted = await verifier.verify.staticCall(ethers.hexlify(proof), publicInputs.map(input => fieldToHex(input)));
+      record(
+        'sample proof',
+        accepted ? 'pass' : 'fail',
+        accepted ? 'verifies locally and on the deployed verifier' : 'deployed verifier returned false'
+      );
+    }
+  } catch (error: any) {
+    record('sample proof', 'fail', error.shortMessage ?? error.message);
+  }
+
+  return results;
+}
+
+/**
+ * Proof for a throwaway ticket in a two-leaf tree
+ */
+async function sampleProof(prover: RaffleProver) {
+  const hasher = await Poseidon2Hasher.create();
+  try {
+    const secret = randomField();
+    const nullifier = randomField();
+    const tree = new PoseidonIMT(hasher, SAMPLE_TREE_DEPTH);
+    await tree.initEmpty();
+    await tree.insert(randomField());
+    const winnerIndex = await tree.insert(await hasher.commitment(secret, nullifier));
+
+    const path = tree.proof(winnerIndex);
+    return await prover.generateProof({
+      secret: secret.toString(),
+      nullifier: nullifier.toString(),
+      siblings: path.pathElements.map(e => fieldToHex(e)),
+      recipient: BigInt(SAMPLE_RECIPIENT).toString(),
+      root: fieldToHex(path.root),
+      raffleId: '1',
+      winnerIndex: winnerIndex.toString(),
+      treeDepth: SAMPLE_TREE_DEPTH.toString(),
+    });
+  } finally {
+    await hasher.destroy();
+  }
+}
+
+/**
+ * One line per check, for logs and the doctor command
+ */
+export function formatResults(results: CheckResult[]): string {
+  const icons: Record<CheckStatus, string> = { pass: '✅', fail: '❌', skip: '⏭️ ' };
+  return results.map(r => `${icons[r.status]} ${r.name}: ${r.detail}`).join('\n');
+}
@@ -0,0 +1,29 @@
+/**
+ * Errors with a stable code
+ *
+ * Claims, tickets, fee quotes and the prover pool all refuse requests the
+ * same way: a code clients can switch on, the HTTP status to answer with,
+ * and string details. The JSON form is the error response body.
+ */
+
+export interface ErrorBody<C extends string = string> {
+  error: string;
+  code: C;
+  details: Record<string, string>;
+}
+
+export class CodedError<C extends string = string> extends Error {
+  constructor(
+    public readonly code: C,
+    public readonly status: number,
+    message: string,
+    public readonly details: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): ErrorBody<C> {
+    return { error: this.message, code: this.code, details: this.details };
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Relayer fee engine
+ *
+ * fee = claimPrize gas x current max fee per gas x (1 + margin),
+ * capped at a share of the raffle's prize pool so the fee can never exceed
+ * the prize (which would make claimPrize revert with TransferFailed).
+ *
+ * claimPrize cannot be estimated without a valid proof, so the gas figure
+ * starts from configuration (dominated by the UltraHonk verifier) and then
+ * follows the gas actually used by recent claims.
+ *
+ * Tickets bought through the relayer (POST /ticket) are priced the same way
+ * from purchaseTicket gas, without the prize cap: the buyer pays the ticket
+ * price plus this fee up front.
+ */
+
+import { ethers } from 'ethers';
+import { PrivateRaffleContract, toRaffle } from '../contracts/PrivateRaffle.js';
+import { FeeQuote, TICKET_FEE_QUOTE_TYPES, feeQuoteDomain, signFeeQuote, verifyFeeQuote } from './quote.js';
+
+// Recent transactions whose gas usage feeds the estimates
+const GAS_HISTORY = 20;
+
+export interface FeeEngineOptions {
+  provider: Pick<ethers.Provider, 'getFeeData' | 'getNetwork'>;
+  contract: Pick<PrivateRaffleContract, 'getRaffle' | 'getAddress'>;
+  signer: ethers.Signer;
+  claimGas: bigint;             // initial claimPrize gas estimate, verifier included
+  ticketGas?: bigint;           // initial purchaseTicket gas estimate (default 1,000,000)
+  marginPercent: number;        // added on top of the gas cost
+  maxPrizePercent: number;      // fee never exceeds this share of prizePool
+  quoteTtlSeconds: number;
+  now?: () => number;           // ms
+}
+
+export interface RelayerFeeQuote extends FeeQuote {
+  relayer: string;
+  prizePool: string;            // wei, at quote time
+  recipientReceives: string;    // prizePool - fee
+  gasEstimate: string;
+  maxFeePerGas: string;
+  gasCost: string;              // gasEstimate x maxFeePerGas, before margin and cap
+  capped: boolean;              // fee was limited by maxPrizePercent
+}
+
+export interface TicketFeeQuote extends FeeQuote {
+  relayer: string;              // pay ticketPrice + feeWei to this address
+  ticketPrice: string;
+  total: string;                // minimum payment
+  gasEstimate: string;
+  maxFeePerGas: string;
+  gasCost: string;
+}
+
+export class FeeEngine {
+  private readonly options: FeeEngineOptions;
+  private readonly now: () => number;
+  private domain: ethers.TypedDataDomain | null = null;
+  private relayer = '';
+  private observedGas: bigint[] = [];
+  private observedTicketGas: bigint[] = [];
+
+  constructor(options: FeeEngineOptions) {
+    if (options.maxPrizePercent <= 0 || options.maxPrizePercent > 100) {
+      throw new Error('maxPrizePercent must be in (0, 100]');
+    }
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  async initialize(): Promise<void> {
+    const { chainId } = await this.options.provider.getNetwork();
+    this.domain = feeQuoteDomain(chainId, await this.options.contract.getAddress());
+    this.relayer = await this.options.signer.getAddress();
+  }
+
+  /**
+   * Gas expected for one claimPrize: the largest of the recent claims, or
+   * the configured figure until a claim has been seen
+   */
+  get gasEstimate(): bigint {
+    return maxOr(this.observedGas, this.options.claimGas);
+  }
+
+  /**
+   * Gas expected for one purchaseTicket, chosen the same way
+   */
+  get ticketGasEstimate(): bigint {
+    return maxOr(this.observedTicketGas, this.options.ticketGas ?? 1_000_000n);
+  }
+
+  recordClaimGas(gasUsed: bigint): void {
+    this.observedGas = [...this.observedGas, gasUsed].slice(-GAS_HISTORY);
+  }
+
+  recordTicketGas(gasUsed: bigint): void {
+    this.observedTicketGas = [...this.observedTicketGas, gasUsed].slice(-GAS_HISTORY);
+  }
+
+  /**
+   * Price a claim of `raffleId` and sign the result
+   */
+  async quote(raffleId: string): Promise<RelayerFeeQuote> {
+    const raffle = toRaffle(await this.options.contract.getRaffle(raffleId));
+    const feePerGas = await this.feePerGas();
+
+    const gasEstimate = this.gasEstimate;
+    const gasCost = gasEstimate * feePerGas;
+    const withMargin = this.withMargin(gasCost);
+    const cap = (raffle.prizePool * BigInt(Math.round(this.options.maxPrizePercent * 100))) / 10_000n;
+    const fee = withMargin < cap ? withMargin : cap;
+
+    const signed = await signFeeQuote(this.options.signer, this.getDomain(), {
+      raffleId,
+      feeWei: fee.toString(),
+      expiresAt: Math.floor(this.now() / 1000) + this.options.quoteTtlSeconds,
+    });
+
+    return {
+      ...signed,
+      relayer: this.relayer,
+      prizePool: raffle.prizePool.toString(),
+      recipientReceives: (raffle.prizePool - fee).toString(),
+      gasEstimate: gasEstimate.toString(),
+      maxFeePerGas: feePerGas.toString(),
+      gasCost: gasCost.toString(),
+      capped: fee < withMargin,
+    };
+  }
+
+  /**
+   * Price buying a ticket of `raffleId` through the relayer and sign the result
+   */
+  async quoteTicket(raffleId: string): Promise<TicketFeeQuote> {
+    const raffle = toRaffle(await this.options.contract.getRaffle(raffleId));
+    const feePerGas = await this.feePerGas();
+
+    const gasEstimate = this.ticketGasEstimate;
+    const gasCost = gasEstimate * feePerGas;
+    const fee = this.withMargin(gasCost);
+
+    const signed = await signFeeQuote(this.options.signer, this.getDomain(), {
+      raffleId,
+      feeWei: fee.toString(),
+      expiresAt: Math.floor(this.now() / 1000) + this.options.quoteTtlSeconds,
+    }, TICKET_FEE_QUOTE_TYPES);
+
+    return {
+      ...signed,
+      relayer: this.relayer,
+      ticketPrice: raffle.ticketPrice.toString(),
+      total: (raffle.ticketPrice + fee).toString(),
+      gasEstimate: gasEstimate.toString(),
+      maxFeePerGas: feePerGas.toString(),
+      gasCost: gasCost.toString(),
+    };
+  }
+
+  /**
+   * The fee of a quote this relayer issued for `raffleId`; throws
+   * FeeQuoteError if it is forged, for another raffle or expired
+   */
+  verify(quote: unknown, raffleId: string): bigint {
+    return verifyFeeQuote(quote, this.getDomain(), this.relayer, raffleId, Math.floor(this.now() / 1000));
+  }
+
+  /**
+   * Same as verify() for ticket quotes
+   */
+  verifyTicket(quote: unknown, raffleId: string): bigint {
+    return verifyFeeQuote(
+      quote, this.getDomain(), this.relayer, raffleId, Math.floor(this.now() / 1000), TICKET_FEE_QUOTE_TYPES
+    );
+  }
+
+  private async feePerGas(): Promise<bigint> {
+    const feeData = await this.options.provider.getFeeData();
+    const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice;
+    if (feePerGas === null) {
+      throw new Error('Provider returned no fee data');
+    }
+    return feePerGas;
+  }
+
+  private withMargin(gasCost: bigint): bigint {
+    return ceilDiv(gasCost * BigInt(Math.round((100 + this.options.marginPercent) * 100)), 10_000n);
+  }
+
+  private getDomain(): ethers.TypedDataDomain {
+    if (!this.domain) {
+      throw new Error('Fee engine not initialized. Call initialize() first.');
+    }
+    return this.domain;
+  }
+}
+
+function maxOr(values: bigint[], fallback: bigint): bigint {
+  return values.length === 0 ? fallback : values.reduce((a, b) => (b > a ? b : a));
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+export default FeeEngine;
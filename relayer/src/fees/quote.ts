@@ -0,0 +1,110 @@
+/**
+ * Signed relayer fee quotes
+ *
+ * A quote is EIP-712 data signed by the relayer wallet, so the relayer can
+ * check later that it issued a quote without storing it, and a client can
+ * check which relayer signed it. Claim and ticket quotes are different
+ * EIP-712 types, so one can never be passed off as the other.
+ */
+
+import { ethers } from 'ethers';
+import { CodedError } from '../errors.js';
+
+export interface FeeQuote {
+  raffleId: string;
+  feeWei: string;
+  expiresAt: number;      // unix seconds
+  signature: string;
+}
+
+export type FeeQuoteErrorCode = 'INVALID_FEE_QUOTE' | 'FEE_QUOTE_EXPIRED';
+
+/**
+ * A quote that cannot be honoured. The claim and ticket endpoints turn it
+ * into their own error type, with the same code, status and details.
+ */
+export class FeeQuoteError extends CodedError<FeeQuoteErrorCode> {}
+
+export const FEE_QUOTE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  FeeQuote: [
+    { name: 'raffleId', type: 'uint256' },
+    { name: 'fee', type: 'uint256' },
+    { name: 'expiresAt', type: 'uint64' },
+  ],
+};
+
+export const TICKET_FEE_QUOTE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  TicketFeeQuote: FEE_QUOTE_TYPES.FeeQuote,
+};
+
+export function feeQuoteDomain(chainId: bigint, raffleAddress: string): ethers.TypedDataDomain {
+  return {
+    name: 'Raffero Relayer',
+    version: '1',
+    chainId,
+    verifyingContract: raffleAddress,
+  };
+}
+
+export async function signFeeQuote(
+  signer: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  quote: Omit<FeeQuote, 'signature'>,
+  types: Record<string, ethers.TypedDataField[]> = FEE_QUOTE_TYPES
+): Promise<FeeQuote> {
+  const signature = await signer.signTypedData(domain, types, {
+    raffleId: quote.raffleId,
+    fee: quote.feeWei,
+    expiresAt: quote.expiresAt,
+  });
+  return { ...quote, signature };
+}
+
+/**
+ * Check that `quote` was signed by `relayer` for `raffleId` and has not
+ * expired. Returns the quoted fee in wei.
+ */
+export function verifyFeeQuote(
+  quote: unknown,
+  domain: ethers.TypedDataDomain,
+  relayer: string,
+  raffleId: string,
+  nowSeconds: number,
+  types: Record<string, ethers.TypedDataField[]> = FEE_QUOTE_TYPES
+): bigint {
+  const q = quote as Partial<FeeQuote> | null;
+  if (
+    !q ||
+    typeof q.raffleId !== 'string' ||
+    typeof q.feeWei !== 'string' || !/^\d+$/.test(q.feeWei) ||
+    typeof q.expiresAt !== 'number' || !Number.isSafeInteger(q.expiresAt) ||
+    typeof q.signature !== 'string'
+  ) {
+    throw new FeeQuoteError('INVALID_FEE_QUOTE', 400, 'feeQuote must have raffleId, feeWei, expiresAt and signature');
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyTypedData(domain, types, {
+      raffleId: q.raffleId,
+      fee: q.feeWei,
+      expiresAt: q.expiresAt,
+    }, q.signature);
+  } catch {
+    throw new FeeQuoteError('INVALID_FEE_QUOTE', 400, 'feeQuote signature is malformed');
+  }
+
+  if (signer !== ethers.getAddress(relayer)) {
+    throw new FeeQuoteError('INVALID_FEE_QUOTE', 400, 'feeQuote was not issued by this relayer');
+  }
+  if (q.raffleId !== raffleId) {
+    throw new FeeQuoteError('INVALID_FEE_QUOTE', 400, `feeQuote is for raffle ${q.raffleId}, not ${raffleId}`);
+  }
+  if (q.expiresAt < nowSeconds) {
+    throw new FeeQuoteError('FEE_QUOTE_EXPIRED', 409, 'feeQuote has expired; request a new one', {
+      expiresAt: q.expiresAt.toString(),
+    });
+  }
+
+  return BigInt(q.feeWei);
+}
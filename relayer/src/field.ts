@@ -0,0 +1,115 @@
+/**
+ * BN254 scalar field encoding shared by the relayer and js-scripts
+ *
+ * Every value that crosses the circuit boundary (commitments, nullifiers,
+ * roots, recipients) is normalised here, so a bigint, a bytes32 hex string
+ * and a bb.js Fr always mean the same field element.
+ *
+ * This module has no package dependencies on purpose: js-scripts imports it
+ * directly and must not pull in the relayer's node_modules.
+ */
+
+// Same value as PrivateRaffle.MODULUS
+export const MODULUS =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+// PrivateRaffle.ZERO_VALUE = keccak256("raffero") % MODULUS (zeros(0) in IncrementalMerkleTree.sol)
+export const ZERO_VALUE =
+  0x1d028cb78671d570e29d04748982b4d86bf5d94d10b081fc71ab63f5f319a144n;
+
+/**
+ * Anything that can be read as a field element:
+ * bigint, safe integer, decimal string, 0x-hex string or big-endian bytes
+ */
+export type FieldLike = bigint | number | string | Uint8Array;
+
+/**
+ * Minimal shape of bb.js Fr, so both bb.js versions in the repo are accepted
+ */
+export interface FrLike {
+  toString(): string;
+}
+
+/**
+ * Reduce a bigint into [0, MODULUS)
+ */
+export function modField(x: bigint): bigint {
+  const r = x % MODULUS;
+  return r < 0n ? r + MODULUS : r;
+}
+
+/**
+ * Parse a value into a canonical field element.
+ *
+ * Strings are decimal unless prefixed with 0x. Values >= MODULUS are rejected
+ * rather than reduced: a non-canonical input never matches what the contract
+ * or the circuit would see.
+ */
+export function toField(value: FieldLike): bigint {
+  let x: bigint;
+
+  if (typeof value === 'bigint') {
+    x = value;
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Field value is not a safe integer: ${value}`);
+    }
+    x = BigInt(value);
+  } else if (typeof value === 'string') {
+    const s = value.trim();
+    if (!/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(s)) {
+      throw new Error(`Invalid field string: "${value}"`);
+    }
+    x = BigInt(s);
+  } else {
+    if (value.length > 32) {
+      throw new Error(`Field bytes too long: ${value.length} bytes`);
+    }
+    x = value.length === 0 ? 0n : BigInt('0x' + Buffer.from(value).toString('hex'));
+  }
+
+  if (x < 0n || x >= MODULUS) {
+    throw new Error(`Value is not a canonical field element: ${x}`);
+  }
+  return x;
+}
+
+/**
+ * Field element as a 0x-prefixed, 32-byte hex string (Solidity bytes32)
+ */
+export function fieldToHex(value: FieldLike): string {
+  return '0x' + toField(value).toString(16).padStart(64, '0');
+}
+
+/**
+ * Field element as a decimal string
+ */
+export function fieldToDecimal(value: FieldLike): string {
+  return toField(value).toString();
+}
+
+/**
+ * Field element as 32 big-endian bytes
+ */
+export function fieldToBytes(value: FieldLike): Uint8Array {
+  return Uint8Array.from(Buffer.from(fieldToHex(value).slice(2), 'hex'));
+}
+
+/**
+ * Read a bb.js Fr. Fr.toString() is hex in current bb.js and was decimal
+ * in older versions; both parse here.
+ */
+export function fieldFromFr(fr: FrLike): bigint {
+  return toField(fr.toString());
+}
+
+/**
+ * Encode an EVM address the way the circuit expects its `recipient` input
+ * (bytes32(uint256(uint160(addr))))
+ */
+export function addressToField(address: string): bigint {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid address: "${address}"`);
+  }
+  return BigInt(address);
+}
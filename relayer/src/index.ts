@@ -2,10 +2,40 @@
  * Private Raffle Relayer Service
  */
 
-import express, { Request, Response, NextFunction } from 'express';
 import { ethers } from 'ethers';
 import * as dotenv from 'dotenv';
-import { RaffleProver, ProofInputs } from './prover.js';
+import { RaffleProver } from './prover.js';
+import { ProverPool } from './prover/pool.js';
+import { WitnessPublicKey, describeWitnessKey, loadWitnessKey } from './witness.js';
+import { Poseidon2Hasher } from './poseidon.js';
+import { RaffleIndexer } from './indexer/indexer.js';
+import { ContractLogSource } from './indexer/source.js';
+import { FileIndexerStore } from './indexer/store.js';
+import {
+  PRIVATE_RAFFLE_ABI,
+  PrivateRaffleContract,
+  connectPrivateRaffle,
+  toRaffle,
+} from './contracts/PrivateRaffle.js';
+import { assertDeployedBytecodeMatchesAbi } from './contracts/verify.js';
+import { formatResults, runDoctor } from './doctor.js';
+import { createClaimBackend } from './claim/backend.js';
+import { ClaimQueue } from './claim/queue.js';
+import { FileClaimJobStore } from './claim/jobs.js';
+import { TransactionManager } from './tx/manager.js';
+import { FileTransactionStore } from './tx/store.js';
+import { FeeEngine } from './fees/engine.js';
+import { createTicketBackend } from './tickets/backend.js';
+import { TicketQueue } from './tickets/queue.js';
+import { MixingScheduler } from './tickets/mixer.js';
+import { FileTicketJobStore } from './tickets/jobs.js';
+import { DEFAULT_JOB_RETENTION_MS } from './jsonStore.js';
+import { RaffleKeeper } from './keeper/keeper.js';
+import { createAlertSink } from './keeper/alerts.js';
+import { RelayerAppOptions, createRelayerApp } from './app.js';
+import { configureLogging, createLogger } from './logging/logger.js';
+
+const log = createLogger('relayer');
 
 dotenv.config();
 
@@ -17,293 +47,308 @@ const PORT = parseInt(process.env.PORT || '3000');
 const RPC_URL = process.env.RPC_URL || 'https://sepolia-rpc.scroll.io';
 const PRIVATE_RAFFLE_ADDRESS = process.env.PRIVATE_RAFFLE_ADDRESS || '';
 const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY || '';
-const RELAYER_FEE = process.env.RELAYER_FEE || '1000000000000000'; // 0.001 ETH
 const CIRCUIT_PATH = process.env.CIRCUIT_PATH || '../circuits/target/raffle_circuits.json';
+// Verification key the deployed verifier was generated from, and whether a
+// mismatch with the circuit only warns ('warn'), stops startup ('strict') or is not checked ('off')
+const VK_PATH = process.env.VK_PATH || '../circuits/target/vk';
+const CIRCUIT_CHECK = process.env.CIRCUIT_CHECK || 'warn';
 
-// ============================================================================
-// Contract ABI (minimal for claiming)
-// ============================================================================
+// Prover pool: worker threads proving /claim-with-proof-generation jobs, and
+// how many proofs may be in progress or waiting before requests get 429
+const PROVER_WORKERS = parseInt(process.env.PROVER_WORKERS || '1');
+const PROVER_MAX_CONCURRENT_PROOFS = parseInt(process.env.PROVER_MAX_CONCURRENT_PROOFS || String(PROVER_WORKERS * 2));
+const PROVER_THREADS = parseInt(process.env.PROVER_THREADS || '1');
 
-const RAFFLE_ABI = [
-  'function claimPrize(uint256 raffleId, bytes calldata proof, bytes32[] calldata publicInputs, address recipient, uint256 relayerFee) external',
-  'function getRaffle(uint256 raffleId) external view returns (tuple(address creator, uint256 ticketPrice, uint256 maxParticipants, uint256 duration, uint256 endTime, uint256 levels, uint256 nextIndex, uint256 root, uint8 prizeType, uint256 prizePool, uint8 status, uint256 winnerIndex, uint256 createdAt))',
-  'function getRoot(uint256 raffleId) external view returns (uint256)',
-  'function nullifierUsed(uint256 raffleId, uint256 nullifierHash) external view returns (bool)',
-];
+// X25519 key winners seal their witness to (created on first start), and
+// whether a plaintext secret and nullifier are still accepted ('optional') or refused ('strict')
+const WITNESS_KEY_PATH = process.env.WITNESS_KEY_PATH || './data/witness-key.json';
+const WITNESS_ENCRYPTION = process.env.WITNESS_ENCRYPTION || 'optional';
 
-// ============================================================================
-// Express App Setup
-// ============================================================================
+// Indexer
+const INDEXER_STATE_PATH = process.env.INDEXER_STATE_PATH || './data/indexer.json';
+const INDEXER_START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || '0');
+const INDEXER_POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '15000');
+const INDEXER_BATCH_SIZE = parseInt(process.env.INDEXER_BATCH_SIZE || '2000');
 
-const app = express();
-app.use(express.json());
+// Fees: claimPrize gas x max fee per gas x (1 + margin), capped at a share of the prize
+const FEE_CLAIM_GAS = BigInt(process.env.FEE_CLAIM_GAS || '3000000');
+const FEE_TICKET_GAS = BigInt(process.env.FEE_TICKET_GAS || '1000000');
+const FEE_MARGIN_PERCENT = parseFloat(process.env.FEE_MARGIN_PERCENT || '20');
+const FEE_MAX_PRIZE_PERCENT = parseFloat(process.env.FEE_MAX_PRIZE_PERCENT || '10');
+const FEE_QUOTE_TTL_SECONDS = parseInt(process.env.FEE_QUOTE_TTL_SECONDS || '300');
 
-// Disable any identifying logging
-app.set('trust proxy', true);
+// Claim jobs
+const CLAIM_JOBS_PATH = process.env.CLAIM_JOBS_PATH || './data/claims.json';
 
-// Security middleware - no logging of IP or identifying info
-app.use((req: Request, res: Response, next: NextFunction) => {
-  // Remove identifying headers
-  res.removeHeader('X-Powered-By');
-  next();
-});
+// Confirmed and failed claim and ticket jobs are dropped after this long
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_MS || String(DEFAULT_JOB_RETENTION_MS));
+
+// Relayed ticket purchases
+const TICKET_JOBS_PATH = process.env.TICKET_JOBS_PATH || './data/tickets.json';
+const TICKET_PAYMENT_TIMEOUT_MS = parseInt(process.env.TICKET_PAYMENT_TIMEOUT_MS || '600000');
+
+// Ticket mixing: hold paid tickets until a raffle has this many, then send
+// them at random times within the delay window (0 sends each ticket at once)
+const TICKET_MIN_ANONYMITY_SET = parseInt(process.env.TICKET_MIN_ANONYMITY_SET || '5');
+const TICKET_MAX_DELAY_MS = parseInt(process.env.TICKET_MAX_DELAY_MS || '1800000');
+const TICKET_FLUSH_BEFORE_END_MS = parseInt(process.env.TICKET_FLUSH_BEFORE_END_MS || '600000');
+const TICKET_MIX_INTERVAL_MS = parseInt(process.env.TICKET_MIX_INTERVAL_MS || '15000');
+
+// Keeper: calls drawWinner once a raffle can be drawn, and alerts (log, plus
+// ALERT_WEBHOOK_URL if set) when a Supra request goes unanswered for VRF_TIMEOUT_MS
+const KEEPER_ENABLED = process.env.KEEPER_ENABLED === 'true';
+const KEEPER_INTERVAL_MS = parseInt(process.env.KEEPER_INTERVAL_MS || '30000');
+const VRF_TIMEOUT_MS = parseInt(process.env.VRF_TIMEOUT_MS || '600000');
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || '';
+
+// Transaction manager
+const TX_STATE_PATH = process.env.TX_STATE_PATH || './data/transactions.json';
+const TX_POLL_INTERVAL_MS = parseInt(process.env.TX_POLL_INTERVAL_MS || '4000');
+const TX_STUCK_AFTER_MS = parseInt(process.env.TX_STUCK_AFTER_MS || '60000');
+const TX_BUMP_PERCENT = parseInt(process.env.TX_BUMP_PERCENT || '15');
+const TX_MAX_FEE_PER_GAS = process.env.TX_MAX_FEE_PER_GAS ? BigInt(process.env.TX_MAX_FEE_PER_GAS) : null;
+
+// Logging: LOG_LEVEL (debug, info, warn, error, silent) and LOG_FORMAT (text, json)
+// are read by the logger itself. Every line and error response is redacted;
+// PRIVACY_MODE=strict also drops client addresses before any route sees them,
+// and each request waits a random 0..REQUEST_JITTER_MS before it is handled
+const PRIVACY_MODE = process.env.PRIVACY_MODE || 'standard';
+const REQUEST_JITTER_MS = parseInt(process.env.REQUEST_JITTER_MS || '250');
 
 // ============================================================================
-// Prover and Provider Initialization
+// Service Initialization
 // ============================================================================
 
-let prover: RaffleProver;
-let provider: ethers.JsonRpcProvider;
-let signer: ethers.Wallet;
-let raffleContract: ethers.Contract;
+type RelayerServices = Omit<RelayerAppOptions, 'config'>;
 
-async function initializeServices(): Promise<void> {
-  console.log('Initializing relayer services...');
+async function initializeServices(): Promise<RelayerServices> {
+  log.info('Initializing relayer services...');
   
   // Initialize provider and signer
-  provider = new ethers.JsonRpcProvider(RPC_URL);
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  let signer: ethers.Wallet;
   
   if (!RELAYER_PRIVATE_KEY) {
-    console.warn('WARNING: RELAYER_PRIVATE_KEY not set. Transactions will fail.');
-    signer = ethers.Wallet.createRandom().connect(provider);
+    log.warn('WARNING: RELAYER_PRIVATE_KEY not set. Transactions will fail.');
+    signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider);
   } else {
     signer = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
   }
   
-  console.log('Relayer address:', await signer.getAddress());
+  // The relayer's own and the contract's address are public; keep them readable in logs
+  configureLogging({ allow: [await signer.getAddress(), PRIVATE_RAFFLE_ADDRESS].filter(Boolean) });
+  log.info('Relayer address:', await signer.getAddress());
   
-  // Initialize contract
+  // Every relayer transaction goes through the manager (local nonces, fee bumping)
+  const txManager = new TransactionManager({
+    signer,
+    provider,
+    store: new FileTransactionStore(TX_STATE_PATH),
+    stuckAfterMs: TX_STUCK_AFTER_MS,
+    bumpPercent: TX_BUMP_PERCENT,
+    maxFeePerGas: TX_MAX_FEE_PER_GAS,
+  });
+  await txManager.initialize();
+  txManager.start(TX_POLL_INTERVAL_MS);
+  
+  // Initialize contract, refusing to start against a contract the binding does not describe
+  let raffleContract: PrivateRaffleContract | null = null;
+  let feeEngine: FeeEngine | null = null;
   if (PRIVATE_RAFFLE_ADDRESS) {
-    raffleContract = new ethers.Contract(PRIVATE_RAFFLE_ADDRESS, RAFFLE_ABI, signer);
+    await assertDeployedBytecodeMatchesAbi(provider, PRIVATE_RAFFLE_ADDRESS, PRIVATE_RAFFLE_ABI);
+    raffleContract = connectPrivateRaffle(PRIVATE_RAFFLE_ADDRESS, signer);
+    
+    feeEngine = new FeeEngine({
+      provider,
+      contract: raffleContract,
+      signer,
+      claimGas: FEE_CLAIM_GAS,
+      ticketGas: FEE_TICKET_GAS,
+      marginPercent: FEE_MARGIN_PERCENT,
+      maxPrizePercent: FEE_MAX_PRIZE_PERCENT,
+      quoteTtlSeconds: FEE_QUOTE_TTL_SECONDS,
+    });
+    await feeEngine.initialize();
   }
   
   // Initialize prover
-  prover = new RaffleProver(CIRCUIT_PATH);
+  const prover = new RaffleProver(CIRCUIT_PATH);
   
   try {
     await prover.initialize();
   } catch (error) {
-    console.warn('Prover initialization failed (circuit may not be compiled yet):', error);
+    log.warn('Prover initialization failed (circuit may not be compiled yet):', error);
   }
   
-  console.log('Services initialized');
-}
-
-// ============================================================================
-// API Endpoints
-// ============================================================================
-
-/**
- * Health check endpoint
- */
-app.get('/health', async (req: Request, res: Response) => {
-  const balance = await provider.getBalance(await signer.getAddress());
-  
-  res.json({
-    status: 'ok',
-    relayerBalance: ethers.formatEther(balance),
-    relayerFee: ethers.formatEther(RELAYER_FEE),
-    contractConfigured: !!PRIVATE_RAFFLE_ADDRESS,
-  });
-});
-
-/**
- * Get raffle info (public data only)
- */
-app.get('/raffle/:raffleId', async (req: Request, res: Response) => {
-  try {
-    const raffleId = req.params.raffleId;
-    
-    if (!raffleContract) {
-      return res.status(503).json({ error: 'Contract not configured' });
-    }
-    
-    const raffle = await raffleContract.getRaffle(raffleId);
-    const root = await raffleContract.getRoot(raffleId);
-    
-    res.json({
-      raffleId,
-      ticketPrice: raffle.ticketPrice.toString(),
-      maxParticipants: raffle.maxParticipants.toString(),
-      participants: raffle.nextIndex.toString(),
-      status: ['Active', 'Drawing', 'Closed', 'Claimed'][raffle.status],
-      winnerIndex: raffle.status >= 2 ? raffle.winnerIndex.toString() : null,
-      root: root.toString(),
-      prizePool: ethers.formatEther(raffle.prizePool),
+  // Check that claims proved with this circuit can pass the deployed verifier
+  if (CIRCUIT_CHECK !== 'off' && prover.ready) {
+    const results = await runDoctor({
+      prover,
+      vkPath: VK_PATH,
+      provider,
+      raffleAddress: PRIVATE_RAFFLE_ADDRESS || undefined,
     });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
-});
-
-/**
- * Submit claim with pre-generated proof
- * 
- * The winner generates the proof locally and only sends:
- * - proof (bytes)
- * - publicInputs (for verification)
- * - recipient (clean address)
- * 
- * Note: Do NOT log recipient or any identifying info
- */
-app.post('/claim', async (req: Request, res: Response) => {
-  try {
-    const { raffleId, proof, publicInputs, recipient } = req.body;
-    
-    // Validate inputs
-    if (!raffleId || !proof || !publicInputs || !recipient) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-    
-    if (!ethers.isAddress(recipient)) {
-      return res.status(400).json({ error: 'Invalid recipient address' });
-    }
-    
-    if (!raffleContract) {
-      return res.status(503).json({ error: 'Contract not configured' });
+    log.info('Circuit checks:\n' + formatResults(results));
+    if (CIRCUIT_CHECK === 'strict' && results.some(r => r.status === 'fail')) {
+      throw new Error('Circuit checks failed (CIRCUIT_CHECK=strict); run `npm run doctor` for details');
     }
-    
-    // Check if nullifier already used
-    const nullifierHash = publicInputs[1];
-    const isUsed = await raffleContract.nullifierUsed(raffleId, nullifierHash);
-    if (isUsed) {
-      return res.status(400).json({ error: 'Nullifier already used' });
+  }
+  
+  // Proofs are generated off the event loop, on workers that keep the circuit
+  // loaded; witnesses sealed to the witness key are only opened there
+  let proverPool: ProverPool | null = null;
+  let witnessKey: WitnessPublicKey | null = null;
+  if (prover.ready) {
+    const key = loadWitnessKey(WITNESS_KEY_PATH);
+    const pool = new ProverPool({
+      circuitPath: CIRCUIT_PATH,
+      workers: PROVER_WORKERS,
+      maxConcurrentProofs: PROVER_MAX_CONCURRENT_PROOFS,
+      threads: PROVER_THREADS,
+      witnessKey: key.privateKey,
+    });
+    try {
+      await pool.initialize();
+      proverPool = pool;
+      witnessKey = describeWitnessKey(key);
+      log.info(`Witness key ${witnessKey.keyId} (plaintext witnesses ${WITNESS_ENCRYPTION === 'strict' ? 'refused' : 'accepted'})`);
+    } catch (error: any) {
+      log.warn('Prover workers failed to start; proof generation is disabled:', error.message);
     }
+  }
+  
+  let indexer: RaffleIndexer | null = null;
+  let claimQueue: ClaimQueue | null = null;
+  let ticketQueue: TicketQueue | null = null;
+  let keeper: RaffleKeeper | null = null;
+  if (raffleContract) {
+    const contract = raffleContract;
     
-    // Submit transaction
-    console.log(`Processing claim for raffle ${raffleId}`);
-    // Note: NOT logging recipient for privacy
-    
-    const tx = await raffleContract.claimPrize(
-      raffleId,
-      proof,
-      publicInputs,
-      recipient,
-      RELAYER_FEE
-    );
-    
-    console.log(`Transaction submitted: ${tx.hash}`);
-    
-    // Wait for confirmation
-    const receipt = await tx.wait();
-    
-    res.json({
-      success: true,
-      txHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
+    // Initialize indexer (rebuilds raffle Merkle trees from on-chain logs)
+    indexer = new RaffleIndexer({
+      source: new ContractLogSource(provider, PRIVATE_RAFFLE_ADDRESS),
+      store: new FileIndexerStore(INDEXER_STATE_PATH),
+      hasher: await Poseidon2Hasher.create(),
+      startBlock: INDEXER_START_BLOCK,
+      batchSize: INDEXER_BATCH_SIZE,
     });
+    await indexer.initialize();
+    indexer.start(INDEXER_POLL_INTERVAL_MS);
     
-  } catch (error: any) {
-    console.error('Claim error:', error.message);
-    res.status(500).json({ error: 'Claim failed' });
-  }
-});
-
-/**
- * Generate proof and submit claim
- * 
- * For users who can't generate proofs locally.
- * WARNING: This requires sharing private inputs with the relayer.
- * Use only if you trust the relayer operator.
- */
-app.post('/claim-with-proof-generation', async (req: Request, res: Response) => {
-  try {
-    const {
-      raffleId,
-      secret,
-      nullifier,
-      siblings,
-      recipient,
-      winnerIndex,
-      root,
-      treeDepth,
-    } = req.body;
+    // Initialize claim queue (resumes watching transactions sent before a restart)
+    claimQueue = new ClaimQueue({
+      store: new FileClaimJobStore(CLAIM_JOBS_PATH),
+      retentionMs: JOB_RETENTION_MS,
+      backend: createClaimBackend({
+        contract,
+        txManager,
+        prover: prover.ready ? prover : null,
+        proverPool,
+        feeEngine,
+      }),
+    });
+    await claimQueue.initialize();
     
-    // Validate inputs
-    if (!raffleId || !secret || !nullifier || !siblings || !recipient) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    // Buffered tickets are persisted with the jobs and released again after a restart
+    const mixer = TICKET_MIN_ANONYMITY_SET > 0
+      ? new MixingScheduler({
+          minAnonymitySet: TICKET_MIN_ANONYMITY_SET,
+          maxDelayMs: TICKET_MAX_DELAY_MS,
+          flushBeforeEndMs: TICKET_FLUSH_BEFORE_END_MS,
+          endTime: async raffleId => toRaffle(await contract.getRaffle(raffleId)).endTime,
+        })
+      : undefined;
+    ticketQueue = new TicketQueue({
+      store: new FileTicketJobStore(TICKET_JOBS_PATH),
+      backend: createTicketBackend({
+        contract,
+        provider,
+        txManager,
+        feeEngine,
+        paymentTimeoutMs: TICKET_PAYMENT_TIMEOUT_MS,
+      }),
+      mixer,
+      retentionMs: JOB_RETENTION_MS,
+    });
+    await ticketQueue.initialize();
+    if (mixer) {
+      ticketQueue.start(TICKET_MIX_INTERVAL_MS);
     }
     
-    if (!ethers.isAddress(recipient)) {
-      return res.status(400).json({ error: 'Invalid recipient address' });
+    if (KEEPER_ENABLED) {
+      keeper = new RaffleKeeper({
+        contract,
+        indexer,
+        txManager,
+        provider,
+        alerts: createAlertSink({ webhookUrl: ALERT_WEBHOOK_URL || undefined }),
+        vrfTimeoutMs: VRF_TIMEOUT_MS,
+      });
+      keeper.start(KEEPER_INTERVAL_MS);
+      log.info(`Keeper drawing raffles every ${KEEPER_INTERVAL_MS / 1000}s (VRF timeout ${VRF_TIMEOUT_MS / 1000}s)`);
     }
-    
-    // Generate proof
-    const proofInputs: ProofInputs = {
-      secret,
-      nullifier,
-      siblings,
-      recipient: BigInt(recipient).toString(),
-      root,
-      raffleId: raffleId.toString(),
-      winnerIndex: winnerIndex.toString(),
-      treeDepth: treeDepth.toString(),
-    };
-    
-    const { proof, publicInputs } = await prover.generateProof(proofInputs);
-    
-    // Format for contract
-    const proofHex = prover.formatProofForContract(proof);
-    const publicInputsBytes32 = prover.formatPublicInputsForContract(publicInputs);
-    
-    // Submit transaction
-    const tx = await raffleContract.claimPrize(
-      raffleId,
-      proofHex,
-      publicInputsBytes32,
-      recipient,
-      RELAYER_FEE
-    );
-    
-    const receipt = await tx.wait();
-    
-    res.json({
-      success: true,
-      txHash: receipt.hash,
-      blockNumber: receipt.blockNumber,
-    });
-    
-  } catch (error: any) {
-    console.error('Claim with proof generation error:', error.message);
-    res.status(500).json({ error: 'Claim failed' });
   }
-});
-
-/**
- * Get current relayer fee
- */
-app.get('/fee', (req: Request, res: Response) => {
-  res.json({
-    feeWei: RELAYER_FEE,
-    feeEth: ethers.formatEther(RELAYER_FEE),
-  });
-});
-
-// ============================================================================
-// Error Handling
-// ============================================================================
-
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error('Unhandled error:', err.message);
-  res.status(500).json({ error: 'Internal server error' });
-});
+  
+  log.info('Services initialized');
+  
+  return {
+    provider,
+    signer,
+    contract: raffleContract,
+    prover,
+    proverPool,
+    witnessKey,
+    indexer,
+    claimQueue,
+    ticketQueue,
+    feeEngine,
+    keeper,
+  };
+}
 
 // ============================================================================
 // Start Server
 // ============================================================================
 
 async function main(): Promise<void> {
-  await initializeServices();
+  const services = await initializeServices();
+  
+  const app = createRelayerApp({
+    ...services,
+    config: {
+      privacyMode: PRIVACY_MODE === 'strict' ? 'strict' : 'standard',
+      requestJitterMs: REQUEST_JITTER_MS,
+      witnessEncryption: WITNESS_ENCRYPTION === 'strict' ? 'strict' : 'optional',
+      fee: {
+        claimGas: FEE_CLAIM_GAS,
+        ticketGas: FEE_TICKET_GAS,
+        marginPercent: FEE_MARGIN_PERCENT,
+        maxPrizePercent: FEE_MAX_PRIZE_PERCENT,
+      },
+    },
+  });
   
   app.listen(PORT, () => {
-    console.log(`\n🎰 Private Raffle Relayer running on port ${PORT}`);
-    console.log(`\nEndpoints:`);
-    console.log(`  GET  /health                      - Health check`);
-    console.log(`  GET  /raffle/:raffleId            - Get raffle info`);
-    console.log(`  GET  /fee                         - Get relayer fee`);
-    console.log(`  POST /claim                       - Submit claim with proof`);
-    console.log(`  POST /claim-with-proof-generation - Generate proof and claim\n`);
+    log.info(`🎰 Private Raffle Relayer running on port ${PORT} (privacy mode ${PRIVACY_MODE})`);
+    log.info([
+      'Endpoints:',
+      '  GET  /health                      - Health check',
+      '  GET  /pubkey                      - Get witness encryption key',
+      '  GET  /raffle/:raffleId            - Get raffle info',
+      '  GET  /raffle/:raffleId/path/:leafIndex - Get Merkle path for a leaf',
+      '  GET  /raffle/:raffleId/leaves     - Get all leaves of a raffle',
+      '  GET  /fee?raffleId=               - Get signed fee quote',
+      '  POST /claim                       - Submit claim with proof',
+      '  GET  /claim/:jobId                - Get claim job status',
+      '  POST /claim-with-proof-generation - Generate proof and claim',
+      '  GET  /ticket/fee?raffleId=        - Get signed ticket fee quote',
+      '  POST /ticket                      - Buy a ticket through the relayer',
+      '  GET  /ticket/:jobId               - Get ticket job status',
+    ].join('\n'));
   });
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  log.error('Relayer failed to start:', error);
+  process.exit(1);
+});
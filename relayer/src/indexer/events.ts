@@ -0,0 +1,132 @@
+/**
+ * PrivateRaffle events followed by the indexer
+ */
+
+import { ethers } from 'ethers';
+import { PRIVATE_RAFFLE_ABI } from '../contracts/PrivateRaffle.js';
+
+export const raffleEventsInterface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+
+const FOLLOWED_EVENTS = ['RaffleCreated', 'TicketPurchased', 'RandomnessRequested', 'WinnerSelected', 'PrizeClaimed'];
+
+/**
+ * Topic0 of every followed event, for eth_getLogs filters
+ */
+export const RAFFLE_EVENT_TOPICS: string[] = FOLLOWED_EVENTS.map(
+  name => raffleEventsInterface.getEvent(name)!.topicHash
+);
+
+/**
+ * The subset of an eth_getLogs entry the indexer needs
+ */
+export interface RawLog {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash?: string;
+  topics: readonly string[];
+  data: string;
+}
+
+interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+export type RaffleEvent =
+  | (LogPosition & {
+      type: 'RaffleCreated';
+      raffleId: bigint;
+      creator: string;
+      ticketPrice: bigint;
+      maxParticipants: bigint;
+      duration: bigint;
+      prizeAmount: bigint;
+    })
+  | (LogPosition & {
+      type: 'TicketPurchased';
+      raffleId: bigint;
+      leafIndex: bigint;
+      commitment: string;
+    })
+  | (LogPosition & {
+      type: 'RandomnessRequested';
+      raffleId: bigint;
+      requestId: bigint;
+    })
+  | (LogPosition & {
+      type: 'WinnerSelected';
+      raffleId: bigint;
+      winnerIndex: bigint;
+    })
+  | (LogPosition & {
+      type: 'PrizeClaimed';
+      raffleId: bigint;
+      amount: bigint;
+      nullifierHash: string;
+    });
+
+/**
+ * Decode a raw log into a RaffleEvent, or null if it is not a followed event
+ */
+export function parseRaffleLog(log: RawLog): RaffleEvent | null {
+  const parsed = raffleEventsInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) {
+    return null;
+  }
+
+  const position = { blockNumber: log.blockNumber, logIndex: log.logIndex };
+  const args = parsed.args;
+
+  switch (parsed.name) {
+    case 'RaffleCreated':
+      return {
+        ...position,
+        type: 'RaffleCreated',
+        raffleId: args.raffleId,
+        creator: args.creator,
+        ticketPrice: args.ticketPrice,
+        maxParticipants: args.maxParticipants,
+        duration: args.duration,
+        prizeAmount: args.prizeAmount,
+      };
+    case 'TicketPurchased':
+      return {
+        ...position,
+        type: 'TicketPurchased',
+        raffleId: args.raffleId,
+        leafIndex: args.leafIndex,
+        commitment: args.commitment,
+      };
+    case 'RandomnessRequested':
+      return {
+        ...position,
+        type: 'RandomnessRequested',
+        raffleId: args.raffleId,
+        requestId: args.requestId,
+      };
+    case 'WinnerSelected':
+      return {
+        ...position,
+        type: 'WinnerSelected',
+        raffleId: args.raffleId,
+        winnerIndex: args.winnerIndex,
+      };
+    case 'PrizeClaimed':
+      return {
+        ...position,
+        type: 'PrizeClaimed',
+        raffleId: args.raffleId,
+        amount: args.amount,
+        nullifierHash: args.nullifierHash,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Order events as they were emitted on chain
+ */
+export function compareEvents(a: LogPosition, b: LogPosition): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
@@ -0,0 +1,355 @@
+/**
+ * Raffle indexer
+ *
+ * Follows PrivateRaffle logs and rebuilds each raffle's Poseidon Merkle tree
+ * off-chain, so winners can get their path without collecting every
+ * commitment by hand.
+ *
+ * Commitments are appended to the trees in batches (one insertMany per
+ * raffle per batch of blocks), and trees that grew by snapshotEvery leaves
+ * are snapshotted, so neither catching up on a large raffle nor restarting
+ * hashes every commitment one by one.
+ */
+
+import { PoseidonIMT, FieldHasher } from '../merkleTree.js';
+import { ZERO_VALUE, fieldToHex, toField } from '../field.js';
+import { createLogger } from '../logging/logger.js';
+import { RaffleEvent } from './events.js';
+import { RaffleLogSource } from './source.js';
+import { IndexedRaffle, IndexerState, IndexerStore } from './store.js';
+
+const log = createLogger('indexer');
+
+export interface RaffleIndexerOptions {
+  source: RaffleLogSource;
+  store: IndexerStore;
+  hasher: FieldHasher;
+  startBlock?: number;      // deployment block of PrivateRaffle
+  batchSize?: number;       // blocks per eth_getLogs call
+  confirmations?: number;   // blocks to stay behind head
+  snapshotEvery?: number;   // new leaves before a raffle's tree snapshot is rewritten
+}
+
+export class RaffleIndexer {
+  private readonly source: RaffleLogSource;
+  private readonly store: IndexerStore;
+  private readonly hasher: FieldHasher;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly snapshotEvery: number;
+
+  private state: IndexerState | null = null;
+  private trees = new Map<string, PoseidonIMT>();
+  private snapshotSizes = new Map<string, number>();   // leaves in each saved snapshot
+  private syncing: Promise<number> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RaffleIndexerOptions) {
+    this.source = options.source;
+    this.store = options.store;
+    this.hasher = options.hasher;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.snapshotEvery = options.snapshotEvery ?? 1024;
+  }
+
+  /**
+   * Load persisted progress and restore (or rebuild) the trees it describes
+   */
+  async initialize(): Promise<void> {
+    const saved = await this.store.load();
+    this.state = saved ?? {
+      version: 1,
+      lastProcessedBlock: this.startBlock - 1,
+      raffles: {},
+    };
+
+    this.trees.clear();
+    this.snapshotSizes.clear();
+    for (const raffle of Object.values(this.state.raffles)) {
+      // State saved before RandomnessRequested was followed
+      raffle.requestId ??= null;
+      raffle.requestedAtBlock ??= null;
+      this.trees.set(raffle.raffleId, await this.loadTree(raffle));
+    }
+    await this.saveSnapshots();
+
+    log.info(
+      `Indexer resuming after block ${this.state.lastProcessedBlock} ` +
+      `(${this.trees.size} raffles)`
+    );
+  }
+
+  /**
+   * Process every block up to the confirmed head. Concurrent calls share
+   * the same run. Returns the last processed block.
+   */
+  async sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Poll for new blocks until stop() is called
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    const tick = () => {
+      this.sync().catch(error => log.error('Indexer sync failed:', error.message));
+    };
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  get lastProcessedBlock(): number {
+    return this.getState().lastProcessedBlock;
+  }
+
+  getRaffle(raffleId: string | bigint): IndexedRaffle | undefined {
+    return this.getState().raffles[raffleId.toString()];
+  }
+
+  /**
+   * Every indexed raffle, by raffle id
+   */
+  listRaffles(): IndexedRaffle[] {
+    return Object.values(this.getState().raffles).sort((a, b) => Number(BigInt(a.raffleId) - BigInt(b.raffleId)));
+  }
+
+  getTree(raffleId: string | bigint): PoseidonIMT | undefined {
+    return this.trees.get(raffleId.toString());
+  }
+
+  private async runSync(): Promise<number> {
+    const state = this.getState();
+    const head = (await this.source.getBlockNumber()) - this.confirmations;
+
+    while (state.lastProcessedBlock < head) {
+      const fromBlock = state.lastProcessedBlock + 1;
+      const toBlock = Math.min(head, fromBlock + this.batchSize - 1);
+
+      const events = await this.source.getEvents(fromBlock, toBlock);
+      await this.processEvents(events);
+
+      state.lastProcessedBlock = toBlock;
+      await this.store.save(state);
+    }
+
+    await this.saveSnapshots();
+    return state.lastProcessedBlock;
+  }
+
+  private async processEvents(events: RaffleEvent[]): Promise<void> {
+    // A raffle's new commitments are inserted together at its last purchase
+    // in the batch, and the root is checked there: roots are only observable
+    // per block, and a wrong leaf would show in every later root anyway
+    const lastInsert = new Map<string, RaffleEvent>();
+    for (const event of events) {
+      if (event.type === 'TicketPurchased') {
+        lastInsert.set(event.raffleId.toString(), event);
+      }
+    }
+    const pending = new Map<string, bigint[]>();
+
+    for (const event of events) {
+      switch (event.type) {
+        case 'RaffleCreated':
+          await this.onRaffleCreated(event);
+          break;
+        case 'TicketPurchased': {
+          const raffleId = event.raffleId.toString();
+          if (!pending.has(raffleId)) {
+            pending.set(raffleId, []);
+          }
+          this.onTicketPurchased(event, pending.get(raffleId)!);
+          if (lastInsert.get(raffleId) === event && pending.get(raffleId)!.length > 0) {
+            await this.appendCommitments(raffleId, pending.get(raffleId)!);
+            await this.checkRoot(event.raffleId, event.blockNumber);
+          }
+          break;
+        }
+        case 'RandomnessRequested': {
+          const raffle = this.requireRaffle(event.raffleId);
+          raffle.requestId = event.requestId.toString();
+          raffle.requestedAtBlock = event.blockNumber;
+          break;
+        }
+        case 'WinnerSelected':
+          this.requireRaffle(event.raffleId).winnerIndex = event.winnerIndex.toString();
+          break;
+        case 'PrizeClaimed': {
+          const raffle = this.requireRaffle(event.raffleId);
+          raffle.claimed = true;
+          raffle.claimNullifierHash = event.nullifierHash;
+          break;
+        }
+      }
+    }
+  }
+
+  private async onRaffleCreated(event: Extract<RaffleEvent, { type: 'RaffleCreated' }>): Promise<void> {
+    const raffleId = event.raffleId.toString();
+    if (this.getState().raffles[raffleId]) {
+      return; // replayed batch
+    }
+
+    // maxParticipants = 2^levels
+    const levels = event.maxParticipants.toString(2).length - 1;
+
+    this.getState().raffles[raffleId] = {
+      raffleId,
+      creator: event.creator,
+      levels,
+      ticketPrice: event.ticketPrice.toString(),
+      maxParticipants: event.maxParticipants.toString(),
+      duration: event.duration.toString(),
+      prizeAmount: event.prizeAmount.toString(),
+      createdAtBlock: event.blockNumber,
+      commitments: [],
+      requestId: null,
+      requestedAtBlock: null,
+      winnerIndex: null,
+      claimed: false,
+      claimNullifierHash: null,
+      rootMismatch: false,
+    };
+    this.trees.set(raffleId, await this.createTree(levels));
+  }
+
+  /**
+   * Queue a commitment for appendCommitments(), unless it was already
+   * indexed (a batch replayed after a failed save)
+   */
+  private onTicketPurchased(event: Extract<RaffleEvent, { type: 'TicketPurchased' }>, pending: bigint[]): void {
+    const raffle = this.requireRaffle(event.raffleId);
+    const leafIndex = Number(event.leafIndex);
+    const known = raffle.commitments.length + pending.length;
+
+    if (leafIndex < known) {
+      return;
+    }
+    if (leafIndex > known) {
+      throw new Error(
+        `Raffle ${raffle.raffleId}: missing commitments before leaf ${leafIndex} ` +
+        `(have ${known})`
+      );
+    }
+
+    pending.push(toField(event.commitment));
+  }
+
+  /**
+   * Insert queued commitments into the tree, then record them; the state
+   * never lists a commitment the tree does not have
+   */
+  private async appendCommitments(raffleId: string, commitments: bigint[]): Promise<void> {
+    await this.trees.get(raffleId)!.insertMany(commitments);
+    const raffle = this.getState().raffles[raffleId];
+    for (const commitment of commitments) {
+      raffle.commitments.push(fieldToHex(commitment));
+    }
+    commitments.length = 0;
+  }
+
+  private async checkRoot(raffleId: bigint, blockNumber: number): Promise<void> {
+    const raffle = this.requireRaffle(raffleId);
+    const indexedRoot = fieldToHex(this.trees.get(raffle.raffleId)!.root());
+    const contractRoot = fieldToHex(await this.source.getRoot(raffleId, blockNumber));
+
+    raffle.rootMismatch = indexedRoot !== contractRoot;
+    if (raffle.rootMismatch) {
+      log.error(
+        `Indexer root mismatch for raffle ${raffle.raffleId} at block ${blockNumber}: ` +
+        `indexed ${indexedRoot}, contract ${contractRoot}`
+      );
+    }
+  }
+
+  private async createTree(levels: number): Promise<PoseidonIMT> {
+    const tree = new PoseidonIMT(this.hasher, levels, ZERO_VALUE);
+    await tree.initEmpty();
+    return tree;
+  }
+
+  /**
+   * A raffle's tree from its snapshot plus the commitments indexed after it
+   * was taken, or rebuilt from the commitments if there is no snapshot or it
+   * is not a prefix of them
+   */
+  private async loadTree(raffle: IndexedRaffle): Promise<PoseidonIMT> {
+    const commitments = raffle.commitments.map(commitment => toField(commitment));
+    const snapshot = await this.store.loadTree(raffle.raffleId);
+
+    let tree: PoseidonIMT | null = null;
+    if (snapshot) {
+      try {
+        tree = await PoseidonIMT.restore(this.hasher, snapshot);
+      } catch (error: any) {
+        log.warn(`Ignoring tree snapshot of raffle ${raffle.raffleId}:`, error.message);
+      }
+    }
+    if (tree && !(
+      tree.levels === raffle.levels &&
+      tree.zeros[0] === ZERO_VALUE &&
+      tree.getTotalLeaves() <= commitments.length &&
+      tree.leaves().every((leaf, i) => leaf === commitments[i])
+    )) {
+      log.warn(`Ignoring tree snapshot of raffle ${raffle.raffleId}: it does not match the indexed commitments`);
+      tree = null;
+    }
+
+    if (tree) {
+      this.snapshotSizes.set(raffle.raffleId, tree.getTotalLeaves());
+    } else {
+      tree = await this.createTree(raffle.levels);
+    }
+    await tree.insertMany(commitments.slice(tree.getTotalLeaves()));
+    return tree;
+  }
+
+  /**
+   * Snapshot the trees that grew by at least snapshotEvery leaves since
+   * their last snapshot
+   */
+  private async saveSnapshots(): Promise<void> {
+    for (const [raffleId, tree] of this.trees) {
+      const size = tree.getTotalLeaves();
+      if (size - (this.snapshotSizes.get(raffleId) ?? 0) >= this.snapshotEvery) {
+        await this.store.saveTree(raffleId, tree.snapshot());
+        this.snapshotSizes.set(raffleId, size);
+      }
+    }
+  }
+
+  private requireRaffle(raffleId: bigint): IndexedRaffle {
+    const raffle = this.getState().raffles[raffleId.toString()];
+    if (!raffle) {
+      throw new Error(
+        `Raffle ${raffleId} was created before the indexer start block ${this.startBlock}`
+      );
+    }
+    return raffle;
+  }
+
+  private getState(): IndexerState {
+    if (!this.state) {
+      throw new Error('Indexer not initialized. Call initialize() first.');
+    }
+    return this.state;
+  }
+}
+
+export default RaffleIndexer;
@@ -0,0 +1,107 @@
+/**
+ * Where the indexer reads PrivateRaffle logs and roots from
+ *
+ * ContractLogSource talks to a JSON-RPC node (Scroll, anvil, ...);
+ * FixtureLogSource replays logs recorded to a JSON file.
+ */
+
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+import { RAFFLE_EVENT_TOPICS, RaffleEvent, RawLog, compareEvents, parseRaffleLog } from './events.js';
+import { PrivateRaffleContract, connectPrivateRaffle } from '../contracts/PrivateRaffle.js';
+
+export interface RaffleLogSource {
+  /**
+   * Latest block the source knows about
+   */
+  getBlockNumber(): Promise<number>;
+
+  /**
+   * Followed events in [fromBlock, toBlock], in emission order
+   */
+  getEvents(fromBlock: number, toBlock: number): Promise<RaffleEvent[]>;
+
+  /**
+   * PrivateRaffle.getRoot(raffleId) as of the end of `blockNumber`
+   */
+  getRoot(raffleId: bigint, blockNumber: number): Promise<string>;
+}
+
+function parseLogs(logs: RawLog[]): RaffleEvent[] {
+  return logs
+    .map(log => parseRaffleLog(log))
+    .filter((event): event is RaffleEvent => event !== null)
+    .sort(compareEvents);
+}
+
+export class ContractLogSource implements RaffleLogSource {
+  private contract: PrivateRaffleContract;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly address: string
+  ) {
+    this.contract = connectPrivateRaffle(address, provider);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<RaffleEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: this.address,
+      fromBlock,
+      toBlock,
+      topics: [RAFFLE_EVENT_TOPICS],
+    });
+    return parseLogs(logs.map(log => ({
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      topics: log.topics,
+      data: log.data,
+    })));
+  }
+
+  async getRoot(raffleId: bigint, blockNumber: number): Promise<string> {
+    return this.contract.getRoot(raffleId, { blockTag: blockNumber });
+  }
+}
+
+/**
+ * Recorded logs plus the getRoot() answers observed at each block
+ */
+export interface LogFixture {
+  head: number;
+  logs: RawLog[];
+  roots: Record<string, string>; // "<raffleId>@<blockNumber>" -> root
+}
+
+export class FixtureLogSource implements RaffleLogSource {
+  private events: RaffleEvent[];
+
+  constructor(private readonly fixture: LogFixture) {
+    this.events = parseLogs(fixture.logs);
+  }
+
+  static fromFile(fixturePath: string): FixtureLogSource {
+    return new FixtureLogSource(JSON.parse(fs.readFileSync(fixturePath, 'utf-8')));
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.fixture.head;
+  }
+
+  async getEvents(fromBlock: number, toBlock: number): Promise<RaffleEvent[]> {
+    return this.events.filter(e => e.blockNumber >= fromBlock && e.blockNumber <= toBlock);
+  }
+
+  async getRoot(raffleId: bigint, blockNumber: number): Promise<string> {
+    const root = this.fixture.roots[`${raffleId}@${blockNumber}`];
+    if (root === undefined) {
+      throw new Error(`Fixture has no root for raffle ${raffleId} at block ${blockNumber}`);
+    }
+    return root;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Indexer progress persistence
+ *
+ * Commitments and raffle metadata are the source of truth. Large trees are
+ * also kept as PoseidonIMT snapshots, so a restart only rehashes the
+ * commitments added since the last snapshot.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileStateStore, MemoryStateStore, StateStore, VersionedState, writeFileAtomic } from '../jsonStore.js';
+
+export interface IndexedRaffle {
+  raffleId: string;
+  creator: string;
+  levels: number;
+  ticketPrice: string;
+  maxParticipants: string;
+  duration: string;
+  prizeAmount: string;
+  createdAtBlock: number;
+  commitments: string[];          // bytes32 hex, by leaf index
+  requestId: string | null;       // Supra request, set by RandomnessRequested
+  requestedAtBlock: number | null;
+  winnerIndex: string | null;     // set by WinnerSelected
+  claimed: boolean;               // set by PrizeClaimed
+  claimNullifierHash: string | null;
+  rootMismatch: boolean;          // last root check disagreed with getRoot()
+}
+
+export interface IndexerState extends VersionedState {
+  lastProcessedBlock: number;
+  raffles: Record<string, IndexedRaffle>;
+}
+
+export interface IndexerStore extends StateStore<IndexerState> {
+  // PoseidonIMT.snapshot() of a raffle's tree, or null if none was saved
+  loadTree(raffleId: string): Promise<Uint8Array | null>;
+  saveTree(raffleId: string, snapshot: Uint8Array): Promise<void>;
+}
+
+/**
+ * JSON file store. Tree snapshots go next to it, in
+ * `<name>-trees/<raffleId>.imt`, and are replaced the same crash-safe way.
+ */
+export class FileIndexerStore extends FileStateStore<IndexerState> implements IndexerStore {
+  constructor(filePath: string) {
+    super(filePath, 'indexer');
+  }
+
+  async loadTree(raffleId: string): Promise<Uint8Array | null> {
+    const treePath = this.treePath(raffleId);
+    return fs.existsSync(treePath) ? fs.promises.readFile(treePath) : null;
+  }
+
+  async saveTree(raffleId: string, snapshot: Uint8Array): Promise<void> {
+    await writeFileAtomic(this.treePath(raffleId), snapshot);
+  }
+
+  private treePath(raffleId: string): string {
+    const name = path.basename(this.filePath, path.extname(this.filePath));
+    return path.join(path.dirname(this.filePath), `${name}-trees`, `${raffleId}.imt`);
+  }
+}
+
+export class MemoryIndexerStore extends MemoryStateStore<IndexerState> implements IndexerStore {
+  private trees = new Map<string, Uint8Array>();
+
+  async loadTree(raffleId: string): Promise<Uint8Array | null> {
+    return this.trees.get(raffleId) ?? null;
+  }
+
+  async saveTree(raffleId: string, snapshot: Uint8Array): Promise<void> {
+    this.trees.set(raffleId, Uint8Array.from(snapshot));
+  }
+}
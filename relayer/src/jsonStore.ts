@@ -0,0 +1,120 @@
+/**
+ * Versioned JSON state persistence
+ *
+ * The claim and ticket queues, the transaction manager and the indexer each
+ * keep their state as one JSON document and save all of it after every
+ * change. The file store writes to a temp file and renames it into place, so
+ * a crash mid-write leaves the previous state intact.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface VersionedState {
+  version: 1;
+}
+
+/**
+ * Jobs by id, as kept by the claim and ticket queues
+ */
+export interface JobState<J> extends VersionedState {
+  jobs: Record<string, J>;
+}
+
+// Finished jobs are kept this long by default, for clients polling late
+export const DEFAULT_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Drop confirmed and failed jobs last updated more than `retentionMs` ago.
+ * Returns how many were dropped.
+ */
+export function pruneJobs<J extends { status: string; updatedAt: number }>(
+  state: JobState<J>,
+  retentionMs: number,
+  now = Date.now()
+): number {
+  let pruned = 0;
+  for (const [id, job] of Object.entries(state.jobs)) {
+    if ((job.status === 'confirmed' || job.status === 'failed') && now - job.updatedAt > retentionMs) {
+      delete state.jobs[id];
+      pruned++;
+    }
+  }
+  return pruned;
+}
+
+export interface StateStore<S extends VersionedState> {
+  load(): Promise<S | null>;
+  save(state: S): Promise<void>;
+}
+
+/**
+ * Replace `filePath` with `data` through a temp file, creating its directory
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, data);
+  await fs.promises.rename(tmpPath, filePath);
+}
+
+export class FileStateStore<S extends VersionedState> implements StateStore<S> {
+  /**
+   * `label` names the state in errors, e.g. "claim job"
+   */
+  constructor(protected readonly filePath: string, private readonly label: string) {}
+
+  async load(): Promise<S | null> {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+    const state = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+    if (state.version !== 1) {
+      throw new Error(`Unsupported ${this.label} state version ${state.version} in ${this.filePath}`);
+    }
+    return state;
+  }
+
+  async save(state: S): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(state, null, 2));
+  }
+}
+
+export class MemoryStateStore<S extends VersionedState> implements StateStore<S> {
+  private state: S | null = null;
+
+  async load(): Promise<S | null> {
+    return this.state ? structuredClone(this.state) : null;
+  }
+
+  async save(state: S): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Saves to a store one at a time, so an older snapshot never overwrites a
+ * newer one. A failed save is reported to its caller and does not block the
+ * next one.
+ */
+export class StateWriter<S extends VersionedState> {
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly store: StateStore<S>) {}
+
+  load(): Promise<S | null> {
+    return this.store.load();
+  }
+
+  save(state: S): Promise<void> {
+    this.saving = this.saving.catch(() => {}).then(() => this.store.save(state));
+    return this.saving;
+  }
+
+  /**
+   * Resolve once the latest save has been written
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+}
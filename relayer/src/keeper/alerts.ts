@@ -0,0 +1,64 @@
+/**
+ * Keeper alerts: always logged, and POSTed as JSON to a webhook when one is
+ * configured. A webhook that is down never stops the keeper; the failure is
+ * logged next to the alert it was carrying.
+ */
+
+import { createLogger } from '../logging/logger.js';
+
+const log = createLogger('keeper');
+
+export type KeeperAlertType =
+  | 'VRF_TIMEOUT'       // RandomnessRequested without WinnerSelected for longer than the timeout
+  | 'VRF_FULFILLED'     // a request that timed out was answered after all
+  | 'DRAW_FAILED';      // drawWinner was refused or its transaction failed
+
+export interface KeeperAlert {
+  type: KeeperAlertType;
+  raffleId: string;
+  message: string;
+  details: Record<string, string | number>;
+}
+
+export interface AlertSink {
+  raise(alert: KeeperAlert): Promise<void>;
+}
+
+export interface AlertOptions {
+  webhookUrl?: string;
+  webhookTimeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export function createAlertSink(options: AlertOptions = {}): AlertSink {
+  const { webhookUrl, webhookTimeoutMs = 5000 } = options;
+  const fetchImpl = options.fetch ?? fetch;
+
+  return {
+    async raise(alert) {
+      const line = `[${alert.type}] raffle ${alert.raffleId}: ${alert.message}`;
+      if (alert.type === 'VRF_FULFILLED') {
+        log.info(line, alert.details);
+      } else {
+        log.error(line, alert.details);
+      }
+      if (!webhookUrl) {
+        return;
+      }
+
+      try {
+        const response = await fetchImpl(webhookUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...alert, raisedAt: new Date().toISOString() }),
+          signal: AbortSignal.timeout(webhookTimeoutMs),
+        });
+        if (!response.ok) {
+          log.warn(`Alert webhook answered ${response.status} for ${alert.type} (raffle ${alert.raffleId})`);
+        }
+      } catch (error: any) {
+        log.warn(`Alert webhook failed for ${alert.type} (raffle ${alert.raffleId}):`, error.message);
+      }
+    },
+  };
+}
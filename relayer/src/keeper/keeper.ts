@@ -0,0 +1,246 @@
+/**
+ * Raffle keeper
+ *
+ * PrivateRaffle only draws when someone calls drawWinner after endTime, and
+ * a Supra request that is never answered leaves randomnessRequested set for
+ * good. The keeper goes over the indexed raffles on every tick:
+ *
+ * - a raffle that canDrawWinner and has no request yet gets drawWinner,
+ *   simulated first and then sent through the transaction manager;
+ * - a raffle waiting on its RandomnessRequested is timed from the block the
+ *   request was mined in, and raises VRF_TIMEOUT once it has waited longer
+ *   than `vrfTimeoutMs`;
+ * - WinnerSelected ends the wait (with VRF_FULFILLED if it had timed out).
+ *
+ * Waits are kept in memory; after a restart they are timed from the request
+ * block again, so an alert already sent may be sent once more.
+ * Time is injected so tests can drive it with a fake clock.
+ */
+
+import { ethers } from 'ethers';
+import { PrivateRaffleContract, RaffleStatus, toRaffle } from '../contracts/PrivateRaffle.js';
+import { RaffleIndexer } from '../indexer/indexer.js';
+import { IndexedRaffle } from '../indexer/store.js';
+import { TransactionManager } from '../tx/manager.js';
+import { decodeRevert } from '../claim/errors.js';
+import { createLogger } from '../logging/logger.js';
+import { AlertSink } from './alerts.js';
+
+const log = createLogger('keeper');
+
+export interface RaffleKeeperOptions {
+  contract: Pick<PrivateRaffleContract, 'interface' | 'getAddress' | 'getRaffle' | 'canDrawWinner' | 'drawWinner'>;
+  indexer: Pick<RaffleIndexer, 'listRaffles' | 'sync'>;
+  txManager: Pick<TransactionManager, 'send' | 'wait'>;
+  provider: Pick<ethers.Provider, 'getBlock'>;
+  alerts: AlertSink;
+  vrfTimeoutMs: number;
+  now?: () => number;       // ms
+}
+
+interface RandomnessWait {
+  requestId: string;
+  requestedAt: number;      // ms, timestamp of the request's block
+  timedOut: boolean;
+}
+
+export interface KeeperStatus {
+  drawing: string[];
+  waiting: { raffleId: string; requestId: string; waitingMs: number; timedOut: boolean }[];
+}
+
+export class RaffleKeeper {
+  private readonly options: RaffleKeeperOptions;
+  private readonly now: () => number;
+  private drawing = new Map<string, Promise<void>>();
+  private failedDraws = new Set<string>();     // alerted once until a draw goes through
+  private waits = new Map<string, RandomnessWait>();
+  private ticking: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RaffleKeeperOptions) {
+    if (!(options.vrfTimeoutMs > 0)) {
+      throw new Error('vrfTimeoutMs must be positive');
+    }
+    this.options = options;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check every indexed raffle once. Concurrent calls share the same run;
+   * draws it starts are awaited by drain().
+   */
+  async tick(): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runTick().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  /**
+   * Tick until stop() is called
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    const tick = () => {
+      this.tick().catch(error => log.error('Keeper tick failed:', error.message));
+    };
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Resolve once the current tick and every draw it started have settled
+   */
+  async drain(): Promise<void> {
+    while (this.ticking || this.drawing.size > 0) {
+      await Promise.all([this.ticking, ...this.drawing.values()]);
+    }
+  }
+
+  status(): KeeperStatus {
+    const now = this.now();
+    return {
+      drawing: [...this.drawing.keys()],
+      waiting: [...this.waits].map(([raffleId, wait]) => ({
+        raffleId,
+        requestId: wait.requestId,
+        waitingMs: now - wait.requestedAt,
+        timedOut: wait.timedOut,
+      })),
+    };
+  }
+
+  private async runTick(): Promise<void> {
+    await this.options.indexer.sync();
+    for (const raffle of this.options.indexer.listRaffles()) {
+      try {
+        await this.check(raffle);
+      } catch (error: any) {
+        log.error(`Keeper check of raffle ${raffle.raffleId} failed:`, error.message);
+      }
+    }
+  }
+
+  private async check(raffle: IndexedRaffle): Promise<void> {
+    const raffleId = raffle.raffleId;
+    if (raffle.winnerIndex !== null) {
+      await this.onWinnerSelected(raffleId);
+      return;
+    }
+    if (this.drawing.has(raffleId)) {
+      return;
+    }
+
+    const onChain = toRaffle(await this.options.contract.getRaffle(raffleId));
+    if (Number(onChain.status) !== RaffleStatus.Active) {
+      return; // closed by a callback the indexer has not seen yet
+    }
+    if (onChain.randomnessRequested) {
+      await this.watchRequest(raffle, onChain.requestId.toString());
+      return;
+    }
+    // canDrawWinner does not look at randomnessRequested, hence the check above
+    if (await this.options.contract.canDrawWinner(raffleId)) {
+      const draw = this.draw(raffleId).finally(() => this.drawing.delete(raffleId));
+      this.drawing.set(raffleId, draw);
+    }
+  }
+
+  private async draw(raffleId: string): Promise<void> {
+    const { contract, txManager } = this.options;
+    try {
+      await contract.drawWinner.staticCall(raffleId);
+      const txHash = await txManager.send({
+        to: await contract.getAddress(),
+        data: contract.interface.encodeFunctionData('drawWinner', [raffleId]),
+      });
+      log.info(`drawWinner sent for raffle ${raffleId}: ${txHash}`);
+
+      const receipt = await txManager.wait(txHash);
+      if (receipt.status !== 1) {
+        throw new Error(`drawWinner reverted in block ${receipt.blockNumber}`);
+      }
+      this.failedDraws.delete(raffleId);
+      log.info(`Randomness requested for raffle ${raffleId} in block ${receipt.blockNumber}`);
+    } catch (error: any) {
+      if (this.failedDraws.has(raffleId)) {
+        log.warn(`drawWinner for raffle ${raffleId} failed again:`, error.shortMessage ?? error.message);
+        return;
+      }
+      this.failedDraws.add(raffleId);
+      const decoded = decodeRevert(error);
+      await this.options.alerts.raise({
+        type: 'DRAW_FAILED',
+        raffleId,
+        message: `drawWinner failed: ${decoded?.reason ?? error.shortMessage ?? error.message}`,
+        details: decoded?.details ?? {},
+      });
+    }
+  }
+
+  private async watchRequest(raffle: IndexedRaffle, requestId: string): Promise<void> {
+    const raffleId = raffle.raffleId;
+    let wait = this.waits.get(raffleId);
+    if (!wait || wait.requestId !== requestId) {
+      wait = { requestId, requestedAt: await this.requestedAt(raffle, requestId), timedOut: false };
+      this.waits.set(raffleId, wait);
+      log.info(`Raffle ${raffleId} waiting for Supra request ${requestId}`);
+    }
+
+    const waitingMs = this.now() - wait.requestedAt;
+    if (!wait.timedOut && waitingMs > this.options.vrfTimeoutMs) {
+      wait.timedOut = true;
+      await this.options.alerts.raise({
+        type: 'VRF_TIMEOUT',
+        raffleId,
+        message: `Supra request ${requestId} unanswered after ${Math.round(waitingMs / 1000)}s`,
+        details: { requestId, waitingMs, timeoutMs: this.options.vrfTimeoutMs },
+      });
+    }
+  }
+
+  /**
+   * When the request was mined, or now if the indexer has not seen its
+   * RandomnessRequested yet
+   */
+  private async requestedAt(raffle: IndexedRaffle, requestId: string): Promise<number> {
+    if (raffle.requestId === requestId && raffle.requestedAtBlock !== null) {
+      const block = await this.options.provider.getBlock(raffle.requestedAtBlock);
+      if (block) {
+        return block.timestamp * 1000;
+      }
+    }
+    return this.now();
+  }
+
+  private async onWinnerSelected(raffleId: string): Promise<void> {
+    const wait = this.waits.get(raffleId);
+    if (!wait) {
+      return;
+    }
+    this.waits.delete(raffleId);
+
+    const waitingMs = this.now() - wait.requestedAt;
+    log.info(`Winner selected for raffle ${raffleId} ${Math.round(waitingMs / 1000)}s after request ${wait.requestId}`);
+    if (wait.timedOut) {
+      await this.options.alerts.raise({
+        type: 'VRF_FULFILLED',
+        raffleId,
+        message: `Supra request ${wait.requestId} answered after ${Math.round(waitingMs / 1000)}s`,
+        details: { requestId: wait.requestId, waitingMs },
+      });
+    }
+  }
+}
+
+export default RaffleKeeper;
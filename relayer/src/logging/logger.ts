@@ -0,0 +1,130 @@
+/**
+ * Leveled logger for the relayer
+ *
+ * Every relayer module logs through a scoped logger from createLogger()
+ * instead of console, so each line gets a level, a timestamp and the scope
+ * it came from, and is passed through redact() before it is written. The
+ * level and format come from LOG_LEVEL and LOG_FORMAT, read when the first
+ * line is written (after dotenv has run; prover worker threads inherit the
+ * environment), and can be changed with configureLogging(); tests swap the
+ * sink to capture lines.
+ */
+
+import { redact } from './redact.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Where formatted lines go; the default writes warnings and errors to
+ * stderr and everything else to stdout
+ */
+export type LogSink = (line: string, level: LogLevel) => void;
+
+export interface LoggingConfig {
+  level: LogLevel | 'silent';
+  format: LogFormat;
+  sink: LogSink;
+  // Lowercase 0x-hex values that are not redacted (relayer and contract addresses)
+  allow: ReadonlySet<string>;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+function defaultSink(line: string, level: LogLevel): void {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(line + '\n');
+}
+
+function parseLevel(value: string | undefined): LogLevel | 'silent' {
+  return value && value in LEVELS ? (value as LogLevel | 'silent') : 'info';
+}
+
+let config: LoggingConfig | null = null;
+
+function current(): LoggingConfig {
+  config ??= {
+    level: parseLevel(process.env.LOG_LEVEL),
+    format: process.env.LOG_FORMAT === 'json' ? 'json' : 'text',
+    sink: defaultSink,
+    allow: new Set(),
+  };
+  return config;
+}
+
+/**
+ * Change the logging configuration; returns the previous one so it can be restored
+ */
+export function configureLogging(options: Partial<Omit<LoggingConfig, 'allow'>> & { allow?: Iterable<string> }): LoggingConfig {
+  const previous = current();
+  config = {
+    ...previous,
+    ...options,
+    allow: options.allow ? new Set([...options.allow].map(value => value.toLowerCase())) : previous.allow,
+  };
+  return previous;
+}
+
+/**
+ * Restore a configuration returned by configureLogging()
+ */
+export function restoreLogging(previous: LoggingConfig): void {
+  config = previous;
+}
+
+/**
+ * console-style arguments as one line: errors contribute their name and
+ * message (not the stack), other objects are JSON
+ */
+function formatArgs(args: unknown[]): string {
+  return args
+    .map(arg => {
+      if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+      if (typeof arg === 'string') return arg;
+      if (typeof arg === 'bigint') return arg.toString();
+      try {
+        return JSON.stringify(arg, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
+
+export class Logger {
+  constructor(readonly scope: string) {}
+
+  debug(...args: unknown[]): void {
+    this.write('debug', args);
+  }
+
+  info(...args: unknown[]): void {
+    this.write('info', args);
+  }
+
+  warn(...args: unknown[]): void {
+    this.write('warn', args);
+  }
+
+  error(...args: unknown[]): void {
+    this.write('error', args);
+  }
+
+  private write(level: LogLevel, args: unknown[]): void {
+    const config = current();
+    if (LEVELS[level] < LEVELS[config.level]) {
+      return;
+    }
+
+    const time = new Date().toISOString();
+    const message = redact(formatArgs(args), config.allow);
+    const line = config.format === 'json'
+      ? JSON.stringify({ time, level, scope: this.scope, message })
+      : `${time} ${level.toUpperCase().padEnd(5)} [${this.scope}] ${message}`;
+    config.sink(line, level);
+  }
+}
+
+export function createLogger(scope: string): Logger {
+  return new Logger(scope);
+}
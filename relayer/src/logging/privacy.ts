@@ -0,0 +1,60 @@
+/**
+ * Privacy middleware for the relayer's HTTP API
+ *
+ * Runs in front of every route and makes sure a request leaves as little
+ * behind as possible:
+ *
+ * - each request is held for a random 0..jitterMs before it is handled, so
+ *   response times and the moment a job is queued say less about what the
+ *   relayer did with it;
+ * - requests are logged at debug level by route pattern only (no URL
+ *   parameters, query string or client address);
+ * - with noIpRetention, forwarding headers are dropped and req.ip is
+ *   blanked before any handler runs, so no code path can store the address.
+ */
+
+import { randomInt } from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { createLogger } from './logger.js';
+
+const log = createLogger('http');
+
+// Headers a proxy may use to pass on the client address
+const FORWARDING_HEADERS = ['forwarded', 'x-forwarded-for', 'x-real-ip', 'cf-connecting-ip', 'true-client-ip'];
+
+export interface PrivacyOptions {
+  jitterMs: number;
+  noIpRetention: boolean;
+  random?: (maxMs: number) => number;   // integer in [0, maxMs]
+}
+
+export function privacy(options: PrivacyOptions): RequestHandler {
+  const random = options.random ?? (maxMs => randomInt(maxMs + 1));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.removeHeader('X-Powered-By');
+    res.set('Cache-Control', 'no-store');
+    res.set('Referrer-Policy', 'no-referrer');
+
+    if (options.noIpRetention) {
+      for (const header of FORWARDING_HEADERS) {
+        delete req.headers[header];
+      }
+      Object.defineProperty(req, 'ip', { value: undefined });
+      Object.defineProperty(req, 'ips', { value: [] });
+    }
+
+    const started = Date.now();
+    res.on('finish', () => {
+      const route = req.route ? req.baseUrl + req.route.path : '(unmatched)';
+      log.debug(`${req.method} ${route} ${res.statusCode} ${Date.now() - started}ms`);
+    });
+
+    const delay = options.jitterMs > 0 ? random(options.jitterMs) : 0;
+    if (delay > 0) {
+      setTimeout(next, delay);
+    } else {
+      next();
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Redaction of identifying values in log lines and error responses
+ *
+ * ethers errors quote the whole transaction they failed on, so a message
+ * about a failed claimPrize carries the calldata: proof, public inputs and
+ * the recipient, once as an address and once as a field element. Rather
+ * than trusting every call site to pick safe fields, whatever is logged, and
+ * any RPC or ethers error text sent back, goes through redact(), which replaces:
+ *
+ * - 0x-hex of 20 bytes (addresses)                -> [address]
+ * - 0x-hex of 32 bytes (field elements, hashes)   -> [bytes32]
+ * - any other 0x-hex longer than 32 bytes         -> [calldata N bytes]
+ * - decimal integers of 25 digits or more         -> [field]
+ *
+ * Short hex (selectors, nonces, small quantities) and wei amounts below
+ * 10^25 are kept. Values the operator publishes anyway, such as the relayer
+ * and contract addresses, can be allowed explicitly.
+ */
+
+const HEX = /0x[0-9a-fA-F]+/g;
+const DECIMAL = /\b\d{25,}\b/g;
+
+/**
+ * Replace addresses, 32-byte values, calldata and large decimals in `text`.
+ * `allow` holds lowercase 0x-hex values to leave untouched.
+ */
+export function redact(text: string, allow: ReadonlySet<string> = new Set()): string {
+  return text
+    .replace(HEX, hex => {
+      if (allow.has(hex.toLowerCase())) {
+        return hex;
+      }
+      const digits = hex.length - 2;
+      if (digits === 40) return '[address]';
+      if (digits === 64) return '[bytes32]';
+      if (digits > 64) return `[calldata ${Math.ceil(digits / 2)} bytes]`;
+      return hex;
+    })
+    .replace(DECIMAL, '[field]');
+}
+
+/**
+ * redact() applied to every string (and large bigint) in a JSON-like value
+ */
+export function redactValue(value: unknown, allow: ReadonlySet<string> = new Set()): unknown {
+  if (typeof value === 'string') {
+    return redact(value, allow);
+  }
+  if (typeof value === 'bigint') {
+    return redact(value.toString(), allow);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, allow));
+  }
+  if (value !== null && typeof value === 'object') {
+    if (typeof (value as any).toJSON === 'function') {
+      return redactValue((value as any).toJSON(), allow);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, allow)]));
+  }
+  return value;
+}
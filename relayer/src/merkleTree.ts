@@ -0,0 +1,365 @@
+/**
+ * Off-chain mirror of IncrementalMerkleTree.sol
+ *
+ * Append-only Poseidon2 tree with the same zero chain and left/right
+ * ordering as the contract and the circuit. The hash function is injected so
+ * the relayer (Poseidon2Hasher) and js-scripts (their own bb.js) share the
+ * tree logic without sharing a bb.js version.
+ *
+ * Because leaves are only appended, the filled nodes of each level are a
+ * prefix of that level; everything to their right is the level's zero. The
+ * tree therefore keeps one array per level holding that prefix, and nothing
+ * for the empty part, however deep the tree is. In 'frontier' mode it keeps
+ * even less: the rightmost filled left child per level, exactly the
+ * contract's cachedSubtrees, which is enough to follow the root but not to
+ * prove a leaf.
+ *
+ * insertMany() appends a batch level by level, so each level costs one round
+ * of hashes that are all in flight together instead of one awaited hash per
+ * level per leaf. snapshot()/restore() turn a built tree into bytes and back,
+ * so it can be kept on disk across restarts.
+ */
+
+import { ZERO_VALUE, modField, toField } from './field.js';
+
+/**
+ * Poseidon2 over field elements
+ */
+export interface FieldHasher {
+  hash(inputs: bigint[]): Promise<bigint>;
+}
+
+export type MerkleProof = {
+  root: bigint;
+  leaf: bigint;
+  pathElements: bigint[]; // siblings as field bigints
+  pathIndices: bigint[]; // 0/1 as bigints
+};
+
+/**
+ * 'full' keeps every filled node and can prove any leaf; 'frontier' keeps
+ * only the contract's cachedSubtrees and the root
+ */
+export type TreeMode = 'full' | 'frontier';
+
+export interface TreeOptions {
+  mode?: TreeMode;
+  batchSize?: number; // hashes in flight at once in insertMany (default 1024)
+}
+
+// "IMT" + format version
+const SNAPSHOT_MAGIC = 'IMT1';
+const SNAPSHOT_HEADER_BYTES = 4 + 1 + 1 + 8 + 32 + 32;
+
+export class PoseidonIMT {
+  public readonly levels: number;
+  public readonly zeros: bigint[]; // zeros[0..levels]
+  public readonly mode: TreeMode;
+  private readonly hasher: FieldHasher;
+  private readonly batchSize: number;
+  private layers: bigint[][]; // full mode: filled nodes of levels 0..levels-1
+  private frontier: bigint[]; // frontier mode: cachedSubtrees[0..levels-1]
+  private currentRoot: bigint | null;
+  private totalLeaves: number;
+
+  constructor(hasher: FieldHasher, levels: number, zero0?: bigint, options: TreeOptions = {}) {
+    if (levels <= 0) throw new Error('levels must be > 0');
+    this.hasher = hasher;
+    this.levels = levels;
+    this.mode = options.mode ?? 'full';
+    this.batchSize = options.batchSize ?? 1024;
+    this.layers = Array.from({ length: levels }, () => []);
+    this.frontier = [];
+    this.currentRoot = null;
+    this.totalLeaves = 0;
+
+    this.zeros = new Array(levels + 1);
+    // if you want to force the same ZERO_VALUE as Solidity, pass it as zero0
+    this.zeros[0] = zero0 !== undefined ? modField(zero0) : ZERO_VALUE;
+  }
+
+  public async initEmpty(): Promise<void> {
+    // build zeros chain: zeros[i] = H(zeros[i-1], zeros[i-1])
+    for (let i = 1; i <= this.levels; i++) {
+      this.zeros[i] = await this.hasher.hash([this.zeros[i - 1], this.zeros[i - 1]]);
+    }
+    // _initTree: every cached subtree starts as the zero of its level
+    this.frontier = this.zeros.slice(0, this.levels);
+  }
+
+  public root(): bigint {
+    return this.currentRoot ?? this.zeros[this.levels];
+  }
+
+  public async insert(leaf: bigint): Promise<number> {
+    return this.insertMany([leaf]);
+  }
+
+  /**
+   * Append leaves in order; returns the index of the first one. Produces the
+   * same tree as inserting them one at a time.
+   */
+  public async insertMany(leaves: bigint[]): Promise<number> {
+    const start = this.totalLeaves;
+    if (leaves.length === 0) {
+      return start;
+    }
+    if (start + leaves.length > 2 ** this.levels) {
+      throw new Error(`tree is full (${2 ** this.levels} leaves)`);
+    }
+
+    // Nodes that change at the current level, starting at index `first`
+    let nodes = leaves.map(leaf => toField(leaf));
+    let first = start;
+
+    for (let level = 0; level < this.levels; level++) {
+      const pairs: bigint[][] = [];
+      let i = 0;
+      if (first % 2 === 1) {
+        pairs.push([this.leftSibling(level, first), nodes[0]]);
+        i = 1;
+      }
+      for (; i < nodes.length; i += 2) {
+        // Everything right of the last new node is still empty
+        pairs.push([nodes[i], i + 1 < nodes.length ? nodes[i + 1] : this.zeros[level]]);
+      }
+
+      this.store(level, first, nodes);
+      nodes = await this.hashAll(pairs);
+      first = Math.floor(first / 2);
+    }
+
+    this.currentRoot = nodes[0];
+    this.totalLeaves += leaves.length;
+    return start;
+  }
+
+  public proof(index: number): MerkleProof {
+    const layer0 = this.fullLayers()[0];
+    if (!Number.isInteger(index) || index < 0 || index >= this.totalLeaves) {
+      throw new Error('leaf not found at index');
+    }
+
+    const pathElements: bigint[] = [];
+    const pathIndices: bigint[] = [];
+
+    let currentIndex = index;
+    for (let level = 0; level < this.levels; level++) {
+      const isRight = currentIndex % 2; // 0/1
+      const siblingIndex = isRight === 0 ? currentIndex + 1 : currentIndex - 1;
+
+      pathElements.push(this.layers[level][siblingIndex] ?? this.zeros[level]);
+      pathIndices.push(BigInt(isRight));
+
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+
+    return {
+      root: this.root(),
+      leaf: layer0[index],
+      pathElements,
+      pathIndices,
+    };
+  }
+
+  /**
+   * Root of the tree as it was when it held its first `size` leaves; one of
+   * the roots the contract may still accept (ROOT_HISTORY_SIZE)
+   */
+  public async rootAt(size: number): Promise<bigint> {
+    this.checkSize(size);
+    if (size === this.totalLeaves) {
+      return this.root();
+    }
+    return this.nodeAt(this.levels, 0, size, new Map());
+  }
+
+  /**
+   * Path of leaf `index` against rootAt(size), for proofs built before the
+   * leaves after `size` were added
+   */
+  public async proofAt(index: number, size: number): Promise<MerkleProof> {
+    this.checkSize(size);
+    if (size === this.totalLeaves) {
+      return this.proof(index);
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= size) {
+      throw new Error('leaf not found at index');
+    }
+
+    // Nodes on the boundary of the first `size` leaves are rehashed once each
+    const partial = new Map<string, Promise<bigint>>();
+    const pathElements: bigint[] = [];
+    const pathIndices: bigint[] = [];
+
+    let currentIndex = index;
+    for (let level = 0; level < this.levels; level++) {
+      const isRight = currentIndex % 2;
+      const siblingIndex = isRight === 0 ? currentIndex + 1 : currentIndex - 1;
+
+      pathElements.push(await this.nodeAt(level, siblingIndex, size, partial));
+      pathIndices.push(BigInt(isRight));
+
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+
+    return {
+      root: await this.nodeAt(this.levels, 0, size, partial),
+      leaf: this.layers[0][index],
+      pathElements,
+      pathIndices,
+    };
+  }
+
+  /**
+   * Leaves in insertion order
+   */
+  public leaves(): bigint[] {
+    return this.fullLayers()[0].slice(0, this.totalLeaves);
+  }
+
+  public getTotalLeaves(): number {
+    return this.totalLeaves;
+  }
+
+  /**
+   * Binary snapshot of the tree: header (magic, levels, mode, leaf count,
+   * zero value, root), then 32-byte big-endian nodes, level by level
+   * (full mode) or the cached subtrees (frontier mode)
+   */
+  public snapshot(): Uint8Array {
+    const nodes = this.mode === 'full' ? this.layers.flat() : this.frontier;
+    const bytes = Buffer.alloc(SNAPSHOT_HEADER_BYTES + nodes.length * 32);
+
+    bytes.write(SNAPSHOT_MAGIC, 0, 'latin1');
+    bytes.writeUInt8(this.levels, 4);
+    bytes.writeUInt8(this.mode === 'full' ? 0 : 1, 5);
+    bytes.writeBigUInt64BE(BigInt(this.totalLeaves), 6);
+    writeNode(bytes, 14, this.zeros[0]);
+    writeNode(bytes, 46, this.root());
+    nodes.forEach((node, i) => writeNode(bytes, SNAPSHOT_HEADER_BYTES + i * 32, node));
+
+    return new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+  }
+
+  /**
+   * Tree from snapshot(). Only the zero chain is hashed again; the nodes are
+   * taken as stored, so restore from a source you trust (or compare the root
+   * with the contract's).
+   */
+  public static async restore(hasher: FieldHasher, snapshot: Uint8Array, options: Omit<TreeOptions, 'mode'> = {}): Promise<PoseidonIMT> {
+    const bytes = Buffer.from(snapshot.buffer, snapshot.byteOffset, snapshot.length);
+    if (bytes.length < SNAPSHOT_HEADER_BYTES || bytes.toString('latin1', 0, 4) !== SNAPSHOT_MAGIC) {
+      throw new Error('Not a Merkle tree snapshot');
+    }
+
+    const levels = bytes.readUInt8(4);
+    const mode: TreeMode = bytes.readUInt8(5) === 0 ? 'full' : 'frontier';
+    const size = Number(bytes.readBigUInt64BE(6));
+    const tree = new PoseidonIMT(hasher, levels, readNode(bytes, 14), { ...options, mode });
+    await tree.initEmpty();
+
+    const counts = mode === 'full'
+      ? Array.from({ length: levels }, (_, level) => Math.ceil(size / 2 ** level))
+      : [levels];
+    const expected = SNAPSHOT_HEADER_BYTES + counts.reduce((sum, count) => sum + count, 0) * 32;
+    if (size > 2 ** levels || bytes.length !== expected) {
+      throw new Error(`Merkle tree snapshot is truncated or corrupt (${bytes.length} bytes, expected ${expected})`);
+    }
+
+    let offset = SNAPSHOT_HEADER_BYTES;
+    const read = (count: number) => Array.from({ length: count }, () => {
+      const node = readNode(bytes, offset);
+      offset += 32;
+      return node;
+    });
+    if (mode === 'full') {
+      tree.layers = counts.map(read);
+    } else {
+      tree.frontier = read(levels);
+    }
+
+    tree.totalLeaves = size;
+    tree.currentRoot = size > 0 ? readNode(bytes, 46) : null;
+    return tree;
+  }
+
+  private leftSibling(level: number, index: number): bigint {
+    // An odd node's left sibling is the rightmost filled left child of its level
+    return this.mode === 'full' ? this.layers[level][index - 1] : this.frontier[level];
+  }
+
+  private store(level: number, first: number, nodes: bigint[]): void {
+    if (this.mode === 'full') {
+      const layer = this.layers[level];
+      nodes.forEach((node, i) => {
+        layer[first + i] = node;
+      });
+      return;
+    }
+
+    // cachedSubtrees[level] is set whenever a left (even) child is written
+    const last = first + nodes.length - 1;
+    if (last % 2 === 0) {
+      this.frontier[level] = nodes[nodes.length - 1];
+    } else if (nodes.length > 1) {
+      this.frontier[level] = nodes[nodes.length - 2];
+    }
+  }
+
+  /**
+   * Hash pairs in slices of batchSize, each slice all in flight at once
+   */
+  private async hashAll(pairs: bigint[][]): Promise<bigint[]> {
+    const hashes: bigint[] = [];
+    for (let i = 0; i < pairs.length; i += this.batchSize) {
+      const slice = pairs.slice(i, i + this.batchSize);
+      hashes.push(...(await Promise.all(slice.map(pair => this.hasher.hash(pair)))));
+    }
+    return hashes;
+  }
+
+  /**
+   * Node (level, index) of the tree holding the first `size` leaves
+   */
+  private nodeAt(level: number, index: number, size: number, partial: Map<string, Promise<bigint>>): Promise<bigint> {
+    const width = 2 ** level;
+    if (index * width >= size) {
+      return Promise.resolve(this.zeros[level]);
+    }
+    if ((index + 1) * width <= size) {
+      return Promise.resolve(level === this.levels ? this.root() : this.layers[level][index]);
+    }
+
+    const key = `${level}-${index}`;
+    if (!partial.has(key)) {
+      partial.set(key, Promise.all([
+        this.nodeAt(level - 1, 2 * index, size, partial),
+        this.nodeAt(level - 1, 2 * index + 1, size, partial),
+      ]).then(children => this.hasher.hash(children)));
+    }
+    return partial.get(key)!;
+  }
+
+  private checkSize(size: number): void {
+    this.fullLayers();
+    if (!Number.isInteger(size) || size < 0 || size > this.totalLeaves) {
+      throw new Error(`tree never had ${size} leaves (it has ${this.totalLeaves})`);
+    }
+  }
+
+  private fullLayers(): bigint[][] {
+    if (this.mode !== 'full') {
+      throw new Error('frontier-only tree keeps no leaves or paths');
+    }
+    return this.layers;
+  }
+}
+
+function writeNode(bytes: Buffer, offset: number, node: bigint): void {
+  bytes.write(node.toString(16).padStart(64, '0'), offset, 32, 'hex');
+}
+
+function readNode(bytes: Buffer, offset: number): bigint {
+  return BigInt('0x' + bytes.toString('hex', offset, offset + 32));
+}
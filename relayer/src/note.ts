@@ -0,0 +1,309 @@
+/**
+ * Ticket notes
+ *
+ * A note is everything needed to claim a ticket, as one copy-pasteable
+ * string:
+ *
+ *   raffero-note-v1-<chainId>-<raffleId>-<payload>
+ *
+ * The payload is hex: a kind byte (0 = plain, 1 = encrypted), the body, and
+ * a 4-byte checksum (sha256 of the prefix and everything before it), so a
+ * truncated or mistyped note is rejected before it is used.
+ *
+ * Plain body:      contract (20) | hasLeafIndex (1) | leafIndex (4) | secret (32) | nullifier (32)
+ * Encrypted body:  logN (1) | salt (16) | iv (12) | AES-256-GCM(plain body) | tag (16)
+ *
+ * hasLeafIndex is 1 once the leaf index is known and 0 (with a zero index)
+ * before; every uint32 is a valid index, up to the last leaf of a
+ * depth-32 tree.
+ *
+ * The key is scrypt(password, salt, N = 2^logN, r = 8, p = 1) and the prefix
+ * is authenticated data, so chain and raffle cannot be swapped either.
+ *
+ * Like field.ts, this module only uses Node built-ins so js-scripts can
+ * import it directly.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from 'crypto';
+import { MODULUS, fieldToBytes, toField } from './field.js';
+
+export const NOTE_PREFIX = 'raffero-note';
+export const NOTE_VERSION = 'v1';
+
+const KIND_PLAIN = 0;
+const KIND_ENCRYPTED = 1;
+const MAX_LEAF_INDEX = 0xffffffff;
+const PLAIN_BODY_LENGTH = 20 + 1 + 4 + 32 + 32;
+const CHECKSUM_LENGTH = 4;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEFAULT_SCRYPT_LOG_N = 15;
+
+export interface TicketNote {
+  chainId: bigint;
+  raffleId: bigint;
+  contract: string;           // PrivateRaffle address
+  leafIndex: number | null;   // known once the purchase is mined
+  secret: bigint;
+  nullifier: bigint;
+}
+
+export interface CreateNoteParams {
+  chainId: bigint | number | string;
+  raffleId: bigint | number | string;
+  contract: string;
+  leafIndex?: number | null;
+  secret?: bigint;            // random if omitted
+  nullifier?: bigint;         // random if omitted
+}
+
+/**
+ * Malformed, corrupted or undecryptable notes
+ */
+export class NoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoteError';
+  }
+}
+
+/**
+ * Uniformly random canonical field element
+ */
+export function randomField(): bigint {
+  for (;;) {
+    const bytes = randomBytes(32);
+    bytes[0] &= 0x3f; // < 2^254, so about 1 in 5 draws is rejected
+    const x = BigInt('0x' + bytes.toString('hex'));
+    if (x < MODULUS) {
+      return x;
+    }
+  }
+}
+
+/**
+ * New ticket note, with fresh secret and nullifier unless given
+ */
+export function createNote(params: CreateNoteParams): TicketNote {
+  const note: TicketNote = {
+    chainId: BigInt(params.chainId),
+    raffleId: BigInt(params.raffleId),
+    contract: params.contract,
+    leafIndex: params.leafIndex ?? null,
+    secret: params.secret ?? randomField(),
+    nullifier: params.nullifier ?? randomField(),
+  };
+  validateNote(note);
+  return note;
+}
+
+/**
+ * Plain (unencrypted) note string
+ */
+export function formatNote(note: TicketNote): string {
+  validateNote(note);
+  return seal(notePrefix(note.chainId, note.raffleId), KIND_PLAIN, encodeBody(note));
+}
+
+/**
+ * Read a plain note string
+ */
+export function parseNote(text: string): TicketNote {
+  const { chainId, raffleId, kind, body } = unseal(text);
+  if (kind === KIND_ENCRYPTED) {
+    throw new NoteError('Note is encrypted; use decryptNote with its password');
+  }
+  return decodeBody(chainId, raffleId, body);
+}
+
+export function isEncryptedNote(text: string): boolean {
+  return unseal(text).kind === KIND_ENCRYPTED;
+}
+
+/**
+ * Password-protect a note. Chain and raffle id stay readable in the prefix.
+ */
+export async function encryptNote(
+  note: TicketNote | string,
+  password: string,
+  options: { scryptLogN?: number } = {}
+): Promise<string> {
+  const plain = typeof note === 'string' ? parseNote(note) : note;
+  validateNote(plain);
+  if (!password) {
+    throw new NoteError('Password must not be empty');
+  }
+
+  const logN = options.scryptLogN ?? DEFAULT_SCRYPT_LOG_N;
+  const prefix = notePrefix(plain.chainId, plain.raffleId);
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await deriveKey(password, salt, logN);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(prefix));
+  const ciphertext = Buffer.concat([cipher.update(encodeBody(plain)), cipher.final()]);
+
+  return seal(prefix, KIND_ENCRYPTED, Buffer.concat([
+    Buffer.from([logN]),
+    salt,
+    iv,
+    ciphertext,
+    cipher.getAuthTag(),
+  ]));
+}
+
+/**
+ * Read an encrypted note. Plain notes are accepted too (password ignored).
+ */
+export async function decryptNote(text: string, password: string): Promise<TicketNote> {
+  const { prefix, chainId, raffleId, kind, body } = unseal(text);
+  if (kind === KIND_PLAIN) {
+    return decodeBody(chainId, raffleId, body);
+  }
+
+  const expectedLength = 1 + SALT_LENGTH + IV_LENGTH + PLAIN_BODY_LENGTH + TAG_LENGTH;
+  if (body.length !== expectedLength) {
+    throw new NoteError(`Encrypted note body must be ${expectedLength} bytes, got ${body.length}`);
+  }
+
+  const logN = body[0];
+  const salt = body.subarray(1, 1 + SALT_LENGTH);
+  const iv = body.subarray(1 + SALT_LENGTH, 1 + SALT_LENGTH + IV_LENGTH);
+  const ciphertext = body.subarray(1 + SALT_LENGTH + IV_LENGTH, body.length - TAG_LENGTH);
+  const tag = body.subarray(body.length - TAG_LENGTH);
+
+  const key = await deriveKey(password, salt, logN);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(prefix));
+  decipher.setAuthTag(tag);
+
+  let plain: Buffer;
+  try {
+    plain = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new NoteError('Wrong password or corrupted note');
+  }
+  return decodeBody(chainId, raffleId, plain);
+}
+
+function notePrefix(chainId: bigint, raffleId: bigint): string {
+  return `${NOTE_PREFIX}-${NOTE_VERSION}-${chainId}-${raffleId}`;
+}
+
+function checksum(prefix: string, data: Buffer): Buffer {
+  return createHash('sha256').update(prefix).update(data).digest().subarray(0, CHECKSUM_LENGTH);
+}
+
+function seal(prefix: string, kind: number, body: Buffer): string {
+  const data = Buffer.concat([Buffer.from([kind]), body]);
+  return `${prefix}-${Buffer.concat([data, checksum(prefix, data)]).toString('hex')}`;
+}
+
+function unseal(text: string): { prefix: string; chainId: bigint; raffleId: bigint; kind: number; body: Buffer } {
+  const match = text.trim().match(/^raffero-note-(v\d+)-(\d+)-(\d+)-([0-9a-fA-F]+)$/);
+  if (!match) {
+    throw new NoteError('Not a raffero note (expected raffero-note-v1-<chainId>-<raffleId>-<payload>)');
+  }
+  const [, version, chainId, raffleId, payloadHex] = match;
+  if (version !== NOTE_VERSION) {
+    throw new NoteError(`Unsupported note version ${version}`);
+  }
+  if (payloadHex.length % 2 !== 0) {
+    throw new NoteError('Note payload is truncated');
+  }
+
+  const prefix = notePrefix(BigInt(chainId), BigInt(raffleId));
+  const payload = Buffer.from(payloadHex, 'hex');
+  if (payload.length < 1 + CHECKSUM_LENGTH) {
+    throw new NoteError('Note payload is truncated');
+  }
+
+  const data = payload.subarray(0, payload.length - CHECKSUM_LENGTH);
+  if (!checksum(prefix, data).equals(payload.subarray(payload.length - CHECKSUM_LENGTH))) {
+    throw new NoteError('Note checksum mismatch (truncated or mistyped?)');
+  }
+
+  const kind = data[0];
+  if (kind !== KIND_PLAIN && kind !== KIND_ENCRYPTED) {
+    throw new NoteError(`Unknown note kind ${kind}`);
+  }
+
+  return { prefix, chainId: BigInt(chainId), raffleId: BigInt(raffleId), kind, body: data.subarray(1) };
+}
+
+function encodeBody(note: TicketNote): Buffer {
+  const leafIndex = Buffer.alloc(5);
+  if (note.leafIndex !== null) {
+    leafIndex[0] = 1;
+    leafIndex.writeUInt32BE(note.leafIndex, 1);
+  }
+  return Buffer.concat([
+    Buffer.from(note.contract.slice(2), 'hex'),
+    leafIndex,
+    fieldToBytes(note.secret),
+    fieldToBytes(note.nullifier),
+  ]);
+}
+
+function decodeBody(chainId: bigint, raffleId: bigint, body: Buffer): TicketNote {
+  if (body.length !== PLAIN_BODY_LENGTH) {
+    throw new NoteError(`Note body must be ${PLAIN_BODY_LENGTH} bytes, got ${body.length}`);
+  }
+
+  const hasLeafIndex = body[20];
+  const leafIndex = body.readUInt32BE(21);
+  if (hasLeafIndex > 1 || (hasLeafIndex === 0 && leafIndex !== 0)) {
+    throw new NoteError('Note leaf index is malformed');
+  }
+  const note: TicketNote = {
+    chainId,
+    raffleId,
+    contract: '0x' + body.subarray(0, 20).toString('hex'),
+    leafIndex: hasLeafIndex ? leafIndex : null,
+    secret: readField(body.subarray(25, 57), 'secret'),
+    nullifier: readField(body.subarray(57, 89), 'nullifier'),
+  };
+  validateNote(note);
+  return note;
+}
+
+function readField(bytes: Buffer, name: string): bigint {
+  try {
+    return toField(Uint8Array.from(bytes));
+  } catch (error: any) {
+    throw new NoteError(`Note ${name}: ${error.message}`);
+  }
+}
+
+function validateNote(note: TicketNote): void {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(note.contract)) {
+    throw new NoteError(`Invalid contract address: "${note.contract}"`);
+  }
+  if (note.chainId <= 0n || note.raffleId < 0n) {
+    throw new NoteError('chainId must be positive and raffleId non-negative');
+  }
+  if (note.leafIndex !== null
+      && (!Number.isInteger(note.leafIndex) || note.leafIndex < 0 || note.leafIndex > MAX_LEAF_INDEX)) {
+    throw new NoteError(`Invalid leaf index: ${note.leafIndex}`);
+  }
+  for (const [name, value] of [['secret', note.secret], ['nullifier', note.nullifier]] as const) {
+    if (value < 0n || value >= MODULUS) {
+      throw new NoteError(`Note ${name} is not a canonical field element`);
+    }
+  }
+}
+
+function deriveKey(password: string, salt: Buffer, logN: number): Promise<Buffer> {
+  if (logN < 10 || logN > 20) {
+    throw new NoteError(`Unsupported scrypt cost 2^${logN}`);
+  }
+  const N = 2 ** logN;
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, 32, { N, r: 8, p: 1, maxmem: 256 * N * 8 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
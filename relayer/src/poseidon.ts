@@ -0,0 +1,55 @@
+/**
+ * Poseidon2 hashing matching circuits/src/main.nr and IncrementalMerkleTree.sol
+ */
+
+import { Barretenberg, Fr } from '@aztec/bb.js';
+import { FieldLike, fieldFromFr, toField } from './field.js';
+
+export class Poseidon2Hasher {
+  private constructor(private readonly bb: Barretenberg) {}
+
+  /**
+   * Start a Barretenberg instance for hashing
+   */
+  static async create(): Promise<Poseidon2Hasher> {
+    const bb = await Barretenberg.new({ threads: 1 });
+    return new Poseidon2Hasher(bb);
+  }
+
+  /**
+   * Poseidon2 over any number of field elements (Poseidon2::hash in Noir)
+   */
+  async hash(inputs: FieldLike[]): Promise<bigint> {
+    const frs = inputs.map(input => new Fr(toField(input)));
+    return fieldFromFr(await this.bb.poseidon2Hash(frs));
+  }
+
+  /**
+   * commitment = Poseidon2(secret, nullifier)
+   */
+  async commitment(secret: FieldLike, nullifier: FieldLike): Promise<bigint> {
+    return this.hash([secret, nullifier]);
+  }
+
+  /**
+   * nullifier_hash = Poseidon2(nullifier) (hash1 in main.nr)
+   */
+  async nullifierHash(nullifier: FieldLike): Promise<bigint> {
+    return this.hash([nullifier]);
+  }
+
+  /**
+   * recipient_binding = Poseidon2(nullifier_hash, recipient) (hash2 in main.nr)
+   *
+   * A 0x-prefixed address parses to the same field as addressToField()
+   */
+  async recipientBinding(nullifierHash: FieldLike, recipient: FieldLike): Promise<bigint> {
+    return this.hash([nullifierHash, recipient]);
+  }
+
+  async destroy(): Promise<void> {
+    await this.bb.destroy();
+  }
+}
+
+export default Poseidon2Hasher;
@@ -3,24 +3,31 @@
  */
 
 import { Noir } from '@noir-lang/noir_js';
-import { UltraHonkBackend } from '@aztec/bb.js';
-import * as fs from 'fs';
-import * as path from 'path';
+import { BackendOptions, UltraHonkBackend } from '@aztec/bb.js';
+import { Poseidon2Hasher } from './poseidon.js';
+import { fieldToDecimal, fieldToHex, toField } from './field.js';
+import { CircuitAbi, CircuitInputError, CircuitInputs, loadCircuit } from './circuit.js';
+import { createLogger } from './logging/logger.js';
+
+const log = createLogger('prover');
 
 export interface ProofInputs {
   // Private inputs (known only to the winner)
   secret: string;           // Secret used in commitment
   nullifier: string;        // Nullifier for double-claim prevention
-  siblings: string[];       // Merkle proof siblings
+  siblings: string[];       // Merkle proof siblings, leaf level first (treeDepth entries)
   recipient: string;        // Clean address to receive prize
   
   // Public inputs (verified on-chain)
   root: string;             // Merkle root
   raffleId: string;         // Raffle ID
-  winnerIndex: string;      // Winning index
+  winnerIndex: string;      // Winning index (path indices are derived from it)
   treeDepth: string;        // Merkle tree depth
 }
 
+// Keccak transcript, as expected by the Solidity verifier (see js-scripts/generateProof.ts)
+const PROOF_OPTIONS = { keccak: true };
+
 export interface GeneratedProof {
   proof: Uint8Array;
   publicInputs: string[];
@@ -29,77 +36,128 @@ export interface GeneratedProof {
 export class RaffleProver {
   private noir: Noir | null = null;
   private backend: UltraHonkBackend | null = null;
+  private hasher: Poseidon2Hasher | null = null;
+  private abi: CircuitAbi | null = null;
   private circuitPath: string;
+  private backendOptions: BackendOptions;
   
-  constructor(circuitPath: string) {
+  /**
+   * backendOptions.threads limits bb.js to that many threads; the prover pool
+   * runs one thread per worker and scales with workers instead
+   */
+  constructor(circuitPath: string, backendOptions: BackendOptions = {}) {
     this.circuitPath = circuitPath;
+    this.backendOptions = backendOptions;
   }
   
   /**
    * Initialize the prover by loading the compiled circuit
    */
   async initialize(): Promise<void> {
-    console.log('Loading circuit from:', this.circuitPath);
+    // Hashing does not depend on the circuit, so it is available even if loading fails
+    this.hasher = await Poseidon2Hasher.create();
+
+    log.info('Loading circuit from:', this.circuitPath);
     
-    // Load compiled circuit JSON
-    const circuitJson = JSON.parse(
-      fs.readFileSync(this.circuitPath, 'utf-8')
-    );
+    // Load compiled circuit JSON and check it declares the inputs we provide
+    const circuitJson = loadCircuit(this.circuitPath);
+    this.abi = new CircuitAbi(circuitJson);
     
     // Initialize Noir with the circuit
     this.noir = new Noir(circuitJson);
     
     // Initialize the backend (UltraHonk for Noir)
-    this.backend = new UltraHonkBackend(circuitJson.bytecode);
+    this.backend = new UltraHonkBackend(circuitJson.bytecode, this.backendOptions);
     
-    console.log('Prover initialized successfully');
+    log.info(`Prover initialized successfully (MAX_DEPTH = ${this.abi.maxDepth})`);
   }
   
   /**
-   * Generate a ZK proof for claiming a raffle prize
+   * True once a circuit is loaded and proofs can be generated and verified
    */
-  async generateProof(inputs: ProofInputs): Promise<GeneratedProof> {
-    if (!this.noir || !this.backend) {
-      throw new Error('Prover not initialized. Call initialize() first.');
+  get ready(): boolean {
+    return this.backend !== null;
+  }
+  
+  /**
+   * MAX_DEPTH declared by the loaded circuit
+   */
+  get maxDepth(): number {
+    return this.getAbi().maxDepth;
+  }
+  
+  /**
+   * Public parameter names of the loaded circuit, in proof order
+   */
+  get publicParameterNames(): string[] {
+    return this.getAbi().publicParameterNames;
+  }
+  
+  /**
+   * Build the full circuit input map, checked against the circuit ABI
+   */
+  async buildCircuitInputs(inputs: ProofInputs): Promise<CircuitInputs> {
+    const abi = this.getAbi();
+    const treeDepth = this.parseTreeDepth(inputs.treeDepth, abi.maxDepth);
+    const winnerIndex = this.parseField('winnerIndex', inputs.winnerIndex);
+    
+    if (winnerIndex >= 1n << BigInt(treeDepth)) {
+      throw new CircuitInputError(`winnerIndex ${winnerIndex} does not fit in a tree of depth ${treeDepth}`);
+    }
+    if (!Array.isArray(inputs.siblings) || inputs.siblings.length !== treeDepth) {
+      throw new CircuitInputError(
+        `Expected ${treeDepth} siblings for treeDepth ${treeDepth}, got ${inputs.siblings?.length ?? 0}`
+      );
     }
     
-    // Prepare circuit inputs
-    const circuitInputs = {
+    const secret = this.parseField('secret', inputs.secret);
+    const nullifier = this.parseField('nullifier', inputs.nullifier);
+    const recipient = this.parseField('recipient', inputs.recipient);
+    const siblings = inputs.siblings.map((s, i) => this.parseField(`siblings[${i}]`, s).toString());
+    
+    const nullifierHash = await this.computeNullifierHash(nullifier.toString());
+    
+    const circuitInputs: CircuitInputs = {
       // Private inputs
-      secret: inputs.secret,
-      nullifier: inputs.nullifier,
-      siblings: this.padSiblings(inputs.siblings, 20), // MAX_DEPTH = 20
-      recipient: inputs.recipient,
+      secret: secret.toString(),
+      nullifier: nullifier.toString(),
+      siblings: this.padToMaxDepth(siblings, abi.maxDepth),
+      path_indices: this.padToMaxDepth(this.computePathIndices(winnerIndex, treeDepth), abi.maxDepth),
+      recipient: recipient.toString(),
       
       // Public inputs
-      root: inputs.root,
-      nullifier_hash: await this.computeNullifierHash(inputs.nullifier),
-      recipient_binding: await this.computeRecipientBinding(
-        await this.computeNullifierHash(inputs.nullifier),
-        inputs.recipient
-      ),
-      raffle_id: inputs.raffleId,
-      winner_index: inputs.winnerIndex,
-      tree_depth: inputs.treeDepth,
+      root: this.parseField('root', inputs.root).toString(),
+      nullifier_hash: fieldToDecimal(nullifierHash),
+      recipient_binding: fieldToDecimal(await this.computeRecipientBinding(nullifierHash, recipient.toString())),
+      raffle_id: this.parseField('raffleId', inputs.raffleId).toString(),
+      winner_index: winnerIndex.toString(),
+      tree_depth: treeDepth.toString(),
     };
     
-    console.log('Generating witness...');
+    abi.validate(circuitInputs);
+    return circuitInputs;
+  }
+  
+  /**
+   * Generate a ZK proof for claiming a raffle prize
+   */
+  async generateProof(inputs: ProofInputs): Promise<GeneratedProof> {
+    if (!this.noir || !this.backend) {
+      throw new Error('Prover not initialized. Call initialize() first.');
+    }
+    
+    const circuitInputs = await this.buildCircuitInputs(inputs);
+    
+    log.info('Generating witness...');
     const { witness } = await this.noir.execute(circuitInputs);
     
-    console.log('Generating proof...');
-    const proof = await this.backend.generateProof(witness);
+    log.info('Generating proof...');
+    const proof = await this.backend.generateProof(witness, PROOF_OPTIONS);
     
-    // Extract public inputs in the order expected by the contract
-    const publicInputs = [
-      inputs.root,
-      circuitInputs.nullifier_hash,
-      circuitInputs.recipient_binding,
-      inputs.raffleId,
-      inputs.winnerIndex,
-      inputs.treeDepth,
-    ];
+    // Public inputs in circuit ABI order, which the contract's _parsePublicInputs expects
+    const publicInputs = this.getAbi().publicInputs(circuitInputs);
     
-    console.log('Proof generated successfully');
+    log.info('Proof generated successfully');
     
     return {
       proof: proof.proof,
@@ -108,54 +166,119 @@ export class RaffleProver {
   }
   
   /**
-   * Verify a proof locally before submitting
+   * Verify a proof locally before submitting.
+   * publicInputs may be decimal or bytes32 hex, in circuit ABI order.
    */
   async verifyProof(proof: Uint8Array, publicInputs: string[]): Promise<boolean> {
     if (!this.backend) {
       throw new Error('Prover not initialized');
     }
     
-    return await this.backend.verifyProof({ proof, publicInputs });
+    return await this.backend.verifyProof(
+      { proof, publicInputs: publicInputs.map(input => fieldToHex(input)) },
+      PROOF_OPTIONS
+    );
+  }
+  
+  /**
+   * Verification key of the loaded circuit, as `bb write_vk` writes it
+   */
+  async getVerificationKey(): Promise<Uint8Array> {
+    if (!this.backend) {
+      throw new Error('Prover not initialized');
+    }
+    
+    return await this.backend.getVerificationKey(PROOF_OPTIONS);
   }
   
   /**
-   * Pad siblings array to MAX_DEPTH
+   * Start the Barretenberg instance and load the CRS now rather than on the
+   * first proof (the backend does both lazily)
    */
-  private padSiblings(siblings: string[], maxDepth: number): string[] {
-    const padded = [...siblings];
+  async warmUp(): Promise<void> {
+    await this.getVerificationKey();
+  }
+  
+  /**
+   * Release the Barretenberg instances held by the prover
+   */
+  async destroy(): Promise<void> {
+    await this.backend?.destroy();
+    await this.hasher?.destroy();
+    this.backend = null;
+    this.hasher = null;
+    this.noir = null;
+    this.abi = null;
+  }
+  
+  /**
+   * Path indices (0 = left, 1 = right) for each level, leaf level first.
+   * Matches the bit decomposition the circuit checks against winner_index.
+   */
+  computePathIndices(winnerIndex: bigint, treeDepth: number): string[] {
+    const indices: string[] = [];
+    for (let level = 0; level < treeDepth; level++) {
+      indices.push(((winnerIndex >> BigInt(level)) & 1n).toString());
+    }
+    return indices;
+  }
+  
+  /**
+   * Pad an array with zeros to the circuit's MAX_DEPTH
+   */
+  private padToMaxDepth(values: string[], maxDepth: number): string[] {
+    const padded = [...values];
     while (padded.length < maxDepth) {
       padded.push('0');
     }
     return padded;
   }
   
+  private parseTreeDepth(treeDepth: string, maxDepth: number): number {
+    const depth = Number(treeDepth);
+    if (!Number.isInteger(depth) || depth < 1 || depth > maxDepth) {
+      throw new CircuitInputError(`treeDepth must be an integer between 1 and ${maxDepth}, got "${treeDepth}"`);
+    }
+    return depth;
+  }
+  
+  private parseField(name: string, value: string): bigint {
+    try {
+      return toField(value);
+    } catch (error: any) {
+      throw new CircuitInputError(`${name}: ${error.message}`);
+    }
+  }
+  
+  private getAbi(): CircuitAbi {
+    if (!this.abi) {
+      throw new Error('Prover not initialized. Call initialize() first.');
+    }
+    return this.abi;
+  }
+  
   /**
-   * Compute nullifier hash (Pedersen hash of nullifier)
-   * 
-   * Note: This should match the hash function used in the circuit
-   * For testing, we use a placeholder. In production, use proper Pedersen.
+   * Compute nullifier hash: Poseidon2(nullifier), as hash1 in the circuit
    */
-  private async computeNullifierHash(nullifier: string): Promise<string> {
-    // In production, this should use the same Pedersen hash as the circuit
-    // For now, we compute it during proof generation
-    // The circuit will verify this matches
-    
-    // Placeholder: Return a deterministic value based on nullifier
-    // Real implementation would use a Pedersen hash library
-    const hash = BigInt(nullifier) * BigInt(7919) % BigInt(2n ** 254n);
-    return hash.toString();
+  async computeNullifierHash(nullifier: string): Promise<string> {
+    return fieldToHex(await this.getHasher().nullifierHash(nullifier));
   }
   
   /**
-   * Compute recipient binding (Pedersen hash of nullifierHash + recipient)
+   * Compute recipient binding: Poseidon2(nullifierHash, recipient), as hash2 in the circuit
    */
-  private async computeRecipientBinding(
+  async computeRecipientBinding(
     nullifierHash: string,
     recipient: string
   ): Promise<string> {
-    // Same as nullifierHash - placeholder for actual Pedersen
-    const combined = (BigInt(nullifierHash) + BigInt(recipient)) % BigInt(2n ** 254n);
-    return combined.toString();
+    return fieldToHex(await this.getHasher().recipientBinding(nullifierHash, recipient));
+  }
+  
+  private getHasher(): Poseidon2Hasher {
+    if (!this.hasher) {
+      throw new Error('Prover not initialized. Call initialize() first.');
+    }
+    return this.hasher;
   }
   
   /**
@@ -171,10 +294,7 @@ export class RaffleProver {
    * Converts strings to bytes32
    */
   formatPublicInputsForContract(publicInputs: string[]): string[] {
-    return publicInputs.map(input => {
-      const bn = BigInt(input);
-      return '0x' + bn.toString(16).padStart(64, '0');
-    });
+    return publicInputs.map(input => fieldToHex(input));
   }
 }
 
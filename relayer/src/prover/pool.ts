@@ -0,0 +1,342 @@
+/**
+ * Prover worker pool
+ *
+ * UltraHonk proving takes seconds and, on the main thread, stalls every
+ * other request (including /health) for as long. The pool proves on worker
+ * threads instead, each holding a loaded circuit and a warm backend, and
+ * accepts at most maxConcurrentProofs proofs at a time (being proved or
+ * waiting for a worker). Beyond that callers get a ProverBusyError with a
+ * retry-after estimate, which the HTTP layer turns into 429 + Retry-After.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { GeneratedProof } from '../prover.js';
+import { CircuitInputError } from '../circuit.js';
+import { ProofRequest, WitnessEnvelopeError } from '../witness.js';
+import { CodedError } from '../errors.js';
+import { createLogger } from '../logging/logger.js';
+
+const log = createLogger('prover');
+
+// Proving time assumed for retry-after estimates before any proof completes
+const DEFAULT_LATENCY_MS = 10_000;
+// Latency percentiles are computed over the most recent proofs
+const LATENCY_WINDOW = 100;
+
+export interface ProverWorkerData {
+  circuitPath: string;
+  threads: number;                  // bb.js threads inside the worker
+  witnessKey: Uint8Array | null;    // X25519 private key that opens encrypted witnesses
+}
+
+export interface WorkerRequest {
+  id: number;
+  inputs: ProofRequest;
+}
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'failed'; error: string }                  // circuit did not load
+  | { type: 'proof'; id: number; proof: Uint8Array; publicInputs: string[] }
+  | { type: 'error'; id: number; error: { name: string; message: string } };
+
+/**
+ * The parts of a worker_threads Worker the pool uses
+ */
+export interface ProverWorker {
+  postMessage(message: WorkerRequest): void;
+  on(event: 'message', listener: (message: WorkerResponse) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'exit', listener: (code: number) => void): unknown;
+  terminate(): Promise<number>;
+}
+
+export interface ProverPoolOptions {
+  circuitPath: string;
+  workers?: number;                 // worker threads (default 1)
+  maxConcurrentProofs?: number;     // proving + waiting (default 2 per worker)
+  threads?: number;                 // bb.js threads per worker (default 1)
+  witnessKey?: Uint8Array | null;   // without it, encrypted witnesses are refused
+  createWorker?: (data: ProverWorkerData) => ProverWorker;
+  now?: () => number;
+}
+
+export interface LatencySummary {
+  samples: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface ProverMetrics {
+  workers: number;                  // ready worker threads
+  busy: number;                     // proofs being generated
+  queued: number;                   // proofs waiting for a worker
+  maxConcurrentProofs: number;
+  completed: number;
+  failed: number;
+  rejected: number;                 // turned away with ProverBusyError
+  proving: LatencySummary | null;   // time spent in a worker
+  waiting: LatencySummary | null;   // time spent waiting for one
+}
+
+export class ProverBusyError extends CodedError<'PROVER_BUSY'> {
+  constructor(public readonly retryAfter: number) {
+    super('PROVER_BUSY', 429, `Prover is busy; retry in ${retryAfter}s`, { retryAfter: retryAfter.toString() });
+  }
+}
+
+// Errors the worker reports by name, rebuilt so callers can tell them apart
+const WORKER_ERRORS: Record<string, new (message: string) => Error> = {
+  CircuitInputError,
+  WitnessEnvelopeError,
+};
+
+interface Task {
+  id: number;
+  inputs: ProofRequest;
+  resolve: (proof: GeneratedProof) => void;
+  reject: (error: Error) => void;
+  queuedAt: number;
+  startedAt: number;
+}
+
+interface Slot {
+  worker: ProverWorker;
+  ready: boolean;
+  task: Task | null;
+  error: Error | null;
+}
+
+/**
+ * Worker thread running worker.js, or worker.ts through tsx when the
+ * relayer itself runs from source (tsx does not register itself in workers)
+ */
+function startWorker(data: ProverWorkerData): ProverWorker {
+  const file = path.join(__dirname, `worker${path.extname(__filename)}`);
+  if (file.endsWith('.ts')) {
+    return new Worker(`require('tsx/cjs'); require(${JSON.stringify(file)});`, { eval: true, workerData: data });
+  }
+  return new Worker(file, { workerData: data });
+}
+
+export class ProverPool {
+  private readonly circuitPath: string;
+  private readonly size: number;
+  private readonly maxConcurrentProofs: number;
+  private readonly threads: number;
+  private readonly witnessKey: Uint8Array | null;
+  private readonly createWorker: (data: ProverWorkerData) => ProverWorker;
+  private readonly now: () => number;
+
+  private slots: Slot[] = [];
+  private queue: Task[] = [];
+  private nextId = 1;
+  private destroyed = false;
+  private latencies: number[] = [];
+  private waits: number[] = [];
+  private completed = 0;
+  private failed = 0;
+  private rejected = 0;
+
+  constructor(options: ProverPoolOptions) {
+    this.circuitPath = options.circuitPath;
+    this.size = Math.max(1, options.workers ?? 1);
+    this.maxConcurrentProofs = Math.max(1, options.maxConcurrentProofs ?? this.size * 2);
+    this.threads = options.threads ?? 1;
+    this.witnessKey = options.witnessKey ?? null;
+    this.createWorker = options.createWorker ?? startWorker;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Start the workers and wait until each has loaded the circuit
+   */
+  async initialize(): Promise<void> {
+    log.info(`Starting ${this.size} prover worker(s), at most ${this.maxConcurrentProofs} concurrent proofs`);
+    try {
+      await Promise.all(Array.from({ length: this.size }, () => this.spawn()));
+    } catch (error) {
+      await this.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * True while at least one worker can take proofs
+   */
+  get ready(): boolean {
+    return this.slots.some(slot => slot.ready);
+  }
+
+  /**
+   * Throw ProverBusyError if another proof would exceed maxConcurrentProofs.
+   * Callers that accept work before proving check this first.
+   */
+  checkCapacity(): void {
+    if (this.busy + this.queue.length >= this.maxConcurrentProofs) {
+      this.rejected++;
+      throw new ProverBusyError(this.retryAfter());
+    }
+  }
+
+  /**
+   * Prove on the next free worker. Rejects with ProverBusyError when the
+   * pool is full, with CircuitInputError for inputs the circuit rejects and
+   * with WitnessEnvelopeError for encrypted witnesses that do not open.
+   */
+  async generateProof(inputs: ProofRequest): Promise<GeneratedProof> {
+    if (!this.ready) {
+      throw new Error('Prover pool not initialized. Call initialize() first.');
+    }
+    this.checkCapacity();
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, inputs, resolve, reject, queuedAt: this.now(), startedAt: 0 });
+      this.dispatch();
+    });
+  }
+
+  metrics(): ProverMetrics {
+    return {
+      workers: this.slots.filter(slot => slot.ready).length,
+      busy: this.busy,
+      queued: this.queue.length,
+      maxConcurrentProofs: this.maxConcurrentProofs,
+      completed: this.completed,
+      failed: this.failed,
+      rejected: this.rejected,
+      proving: summarize(this.latencies),
+      waiting: summarize(this.waits),
+    };
+  }
+
+  /**
+   * Reject waiting proofs and stop every worker
+   */
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    for (const task of this.queue.splice(0)) {
+      task.reject(new Error('Prover pool stopped'));
+    }
+    await Promise.all(this.slots.map(slot => slot.worker.terminate()));
+  }
+
+  private get busy(): number {
+    return this.slots.filter(slot => slot.task).length;
+  }
+
+  /**
+   * Seconds until a new proof would likely be accepted: the queue ahead of
+   * it spread over the workers, at the recent mean proving time
+   */
+  private retryAfter(): number {
+    const latency = summarize(this.latencies)?.meanMs ?? DEFAULT_LATENCY_MS;
+    const workers = Math.max(1, this.slots.filter(slot => slot.ready).length);
+    return Math.max(1, Math.ceil(((this.queue.length + 1) / workers) * latency / 1000));
+  }
+
+  private spawn(): Promise<void> {
+    const worker = this.createWorker({ circuitPath: this.circuitPath, threads: this.threads, witnessKey: this.witnessKey });
+    const slot: Slot = { worker, ready: false, task: null, error: null };
+    this.slots.push(slot);
+
+    return new Promise((resolve, reject) => {
+      worker.on('message', message => {
+        switch (message.type) {
+          case 'ready':
+            slot.ready = true;
+            resolve();
+            this.dispatch();
+            break;
+          case 'failed':
+            reject(new Error(message.error));
+            break;
+          default:
+            this.settle(slot, message);
+        }
+      });
+      // Uncaught in the worker; 'exit' follows
+      worker.on('error', error => {
+        slot.error = error;
+        log.error('Prover worker crashed:', error.message);
+      });
+      worker.on('exit', code => {
+        this.remove(slot, code);
+        reject(slot.error ?? new Error(`Prover worker exited with code ${code} before loading the circuit`));
+      });
+    });
+  }
+
+  private remove(slot: Slot, code: number): void {
+    this.slots = this.slots.filter(s => s !== slot);
+    if (slot.task) {
+      this.failed++;
+      slot.task.reject(slot.error ?? new Error(`Prover worker exited with code ${code} while proving`));
+      slot.task = null;
+    }
+    if (slot.ready && !this.destroyed) {
+      this.spawn().catch(error => log.error('Could not restart prover worker:', error.message));
+    }
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (slot.ready && !slot.task) {
+        const task = this.queue.shift()!;
+        task.startedAt = this.now();
+        slot.task = task;
+        slot.worker.postMessage({ id: task.id, inputs: task.inputs });
+      }
+    }
+  }
+
+  private settle(slot: Slot, message: Extract<WorkerResponse, { id: number }>): void {
+    const task = slot.task;
+    if (!task || task.id !== message.id) {
+      return;
+    }
+    slot.task = null;
+
+    if (message.type === 'proof') {
+      this.completed++;
+      record(this.latencies, this.now() - task.startedAt);
+      record(this.waits, task.startedAt - task.queuedAt);
+      task.resolve({ proof: message.proof, publicInputs: message.publicInputs });
+    } else {
+      this.failed++;
+      const { name, message: reason } = message.error;
+      task.reject(new (WORKER_ERRORS[name] ?? Error)(reason));
+    }
+    this.dispatch();
+  }
+}
+
+function record(window: number[], value: number): void {
+  window.push(value);
+  if (window.length > LATENCY_WINDOW) {
+    window.shift();
+  }
+}
+
+function summarize(window: number[]): LatencySummary | null {
+  if (window.length === 0) {
+    return null;
+  }
+  const sorted = [...window].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    samples: sorted.length,
+    meanMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50Ms: percentile(0.5),
+    p95Ms: percentile(0.95),
+    maxMs: sorted[sorted.length - 1],
+  };
+}
+
+export default ProverPool;
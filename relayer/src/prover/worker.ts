@@ -0,0 +1,74 @@
+/**
+ * Prover pool worker thread
+ *
+ * Loads the circuit once, warms the backend and then proves one request at a
+ * time for the pool, so neither the compiled circuit nor Barretenberg is
+ * rebuilt per proof and proving never runs on the relayer's event loop.
+ * Encrypted witnesses are opened here and nowhere else.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { GeneratedProof, RaffleProver } from '../prover.js';
+import {
+  ProofRequest,
+  WitnessEnvelopeError,
+  isEncryptedProofInputs,
+  witnessKeyFromPrivate,
+  withWitness,
+} from '../witness.js';
+import { createLogger } from '../logging/logger.js';
+import { ProverWorkerData, WorkerRequest, WorkerResponse } from './pool.js';
+
+const log = createLogger('prover-worker');
+
+const { circuitPath, threads, witnessKey } = workerData as ProverWorkerData;
+const prover = new RaffleProver(circuitPath, { threads });
+const key = witnessKey ? witnessKeyFromPrivate(witnessKey) : null;
+
+function post(message: WorkerResponse): void {
+  parentPort!.postMessage(message);
+}
+
+async function prove(inputs: ProofRequest): Promise<GeneratedProof> {
+  if (!isEncryptedProofInputs(inputs)) {
+    return prover.generateProof(inputs);
+  }
+  if (!key) {
+    throw new WitnessEnvelopeError('This relayer does not accept encrypted witnesses');
+  }
+
+  const { witness: _envelope, ...publicInputs } = inputs;
+  return withWitness(key, inputs, ({ secret, nullifier }) => prover.generateProof({
+    ...publicInputs,
+    secret: secret.toString(),
+    nullifier: nullifier.toString(),
+  }));
+}
+
+async function start(): Promise<void> {
+  try {
+    await prover.initialize();
+  } catch (error: any) {
+    post({ type: 'failed', error: error.message });
+    return;
+  }
+
+  try {
+    await prover.warmUp();
+  } catch (error: any) {
+    // Not fatal: the first proof retries the CRS download
+    log.warn('Prover worker warm-up failed:', error.message);
+  }
+
+  parentPort!.on('message', async ({ id, inputs }: WorkerRequest) => {
+    try {
+      const { proof, publicInputs } = await prove(inputs);
+      post({ type: 'proof', id, proof, publicInputs });
+    } catch (error: any) {
+      post({ type: 'error', id, error: { name: error.name, message: error.message } });
+    }
+  });
+  post({ type: 'ready' });
+}
+
+start();
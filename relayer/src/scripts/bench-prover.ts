@@ -0,0 +1,142 @@
+/**
+ * Compare proving throughput on the main thread with the prover pool
+ *
+ * Usage:
+ *   npm run bench-prover [-- --proofs <n>] [--workers <n>] [--threads <n>] [--depth <n>] [--circuit <path>]
+ *
+ * Proves the same throwaway ticket --proofs times, first one after another
+ * with a RaffleProver (as the relayer did before the pool), then all at once
+ * through a ProverPool of --workers workers. For each run it prints
+ * throughput, proving latency and the longest event loop stall, which is how
+ * long /health would have gone unanswered.
+ */
+
+import * as dotenv from 'dotenv';
+import * as os from 'os';
+import { parseArgs } from 'util';
+import { monitorEventLoopDelay } from 'perf_hooks';
+import { ProofInputs, RaffleProver } from '../prover.js';
+import { ProverPool } from '../prover/pool.js';
+import { Poseidon2Hasher } from '../poseidon.js';
+import { PoseidonIMT } from '../merkleTree.js';
+import { fieldToHex } from '../field.js';
+import { randomField } from '../note.js';
+
+dotenv.config();
+
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+interface BenchResult {
+  label: string;
+  elapsedMs: number;
+  latenciesMs: number[];
+  maxStallMs: number;
+}
+
+async function sampleInputs(depth: number): Promise<ProofInputs> {
+  const hasher = await Poseidon2Hasher.create();
+  try {
+    const secret = randomField();
+    const nullifier = randomField();
+    const tree = new PoseidonIMT(hasher, depth);
+    await tree.initEmpty();
+    const index = await tree.insert(await hasher.commitment(secret, nullifier));
+    const path = tree.proof(index);
+    return {
+      secret: secret.toString(),
+      nullifier: nullifier.toString(),
+      siblings: path.pathElements.map(e => fieldToHex(e)),
+      recipient: BigInt(RECIPIENT).toString(),
+      root: fieldToHex(path.root),
+      raffleId: '1',
+      winnerIndex: index.toString(),
+      treeDepth: depth.toString(),
+    };
+  } finally {
+    await hasher.destroy();
+  }
+}
+
+/**
+ * Run proofs through prove() with at most `parallel` in flight
+ */
+async function bench(
+  label: string,
+  proofs: number,
+  parallel: number,
+  prove: () => Promise<unknown>
+): Promise<BenchResult> {
+  const stalls = monitorEventLoopDelay({ resolution: 10 });
+  const latenciesMs: number[] = [];
+  let next = 0;
+
+  stalls.enable();
+  const start = performance.now();
+  await Promise.all(Array.from({ length: parallel }, async () => {
+    while (next++ < proofs) {
+      const began = performance.now();
+      await prove();
+      latenciesMs.push(performance.now() - began);
+    }
+  }));
+  const elapsedMs = performance.now() - start;
+  stalls.disable();
+
+  return { label, elapsedMs, latenciesMs, maxStallMs: stalls.max / 1e6 };
+}
+
+function report(result: BenchResult): string {
+  const sorted = [...result.latenciesMs].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const perMinute = (sorted.length / result.elapsedMs) * 60_000;
+  return [
+    `${result.label}:`,
+    `  ${sorted.length} proofs in ${(result.elapsedMs / 1000).toFixed(1)}s (${perMinute.toFixed(1)} proofs/min)`,
+    `  latency mean ${(mean / 1000).toFixed(2)}s, max ${(sorted[sorted.length - 1] / 1000).toFixed(2)}s`,
+    `  longest event loop stall ${result.maxStallMs.toFixed(0)}ms`,
+  ].join('\n');
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'circuit': { type: 'string', default: process.env.CIRCUIT_PATH || '../circuits/target/raffle_circuits.json' },
+      'proofs': { type: 'string', default: '4' },
+      'workers': { type: 'string', default: String(Math.max(1, os.availableParallelism() - 1)) },
+      'threads': { type: 'string', default: '1' },
+      'depth': { type: 'string', default: '20' },
+    },
+  });
+  const proofs = Number(values['proofs']);
+  const workers = Number(values['workers']);
+  const threads = Number(values['threads']);
+  const inputs = await sampleInputs(Number(values['depth']));
+
+  // Warm both sides first so neither run pays for loading the circuit or the CRS
+  const prover = new RaffleProver(values['circuit']!, { threads });
+  const pool = new ProverPool({ circuitPath: values['circuit']!, workers, maxConcurrentProofs: proofs, threads });
+  try {
+    await prover.initialize();
+    await prover.warmUp();
+    await pool.initialize();
+    await pool.generateProof(inputs);
+
+    const single = await bench('main thread', proofs, 1, () => prover.generateProof(inputs));
+    const pooled = await bench(`pool (${workers} workers)`, proofs, proofs, () => pool.generateProof(inputs));
+
+    console.log('\n' + report(single) + '\n\n' + report(pooled));
+    console.log(`\nSpeedup: ${(single.elapsedMs / pooled.elapsedMs).toFixed(2)}x`);
+    console.log('Pool metrics:', JSON.stringify(pool.metrics(), null, 2));
+  } finally {
+    await prover.destroy();
+    await pool.destroy();
+  }
+}
+
+// bb.js workers can outlive a failed call, so exit explicitly
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
@@ -0,0 +1,153 @@
+/**
+ * Compare building a raffle tree the old way with the batched PoseidonIMT
+ *
+ * Usage:
+ *   npm run bench-tree [-- --leaves <n>] [--depth <n>] [--batch <n>]
+ *
+ * Inserts the same --leaves random commitments into a depth --depth tree
+ * four ways: one awaited hash per level per leaf into a Map keyed by
+ * "level-index" (the tree before insertMany), insertMany into a full tree,
+ * insertMany into a frontier-only tree, and restore() from a snapshot of the
+ * full tree. For each it prints the time taken and the heap the tree holds,
+ * and checks that all four agree on the root.
+ */
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { FieldHasher, PoseidonIMT } from '../merkleTree.js';
+import { Poseidon2Hasher } from '../poseidon.js';
+import { ZERO_VALUE, fieldToHex } from '../field.js';
+import { randomField } from '../note.js';
+
+dotenv.config();
+
+/**
+ * PoseidonIMT as it was before insertMany, kept here as the baseline
+ */
+class MapTree {
+  private storage = new Map<string, bigint>();
+  private zeros: bigint[] = [ZERO_VALUE];
+  private totalLeaves = 0;
+
+  constructor(private readonly hasher: FieldHasher, private readonly levels: number) {}
+
+  async initEmpty(): Promise<void> {
+    for (let i = 1; i <= this.levels; i++) {
+      this.zeros[i] = await this.hasher.hash([this.zeros[i - 1], this.zeros[i - 1]]);
+    }
+  }
+
+  root(): bigint {
+    return this.storage.get(`${this.levels}-0`) ?? this.zeros[this.levels];
+  }
+
+  async insert(leaf: bigint): Promise<void> {
+    let current = leaf;
+    let index = this.totalLeaves++;
+    this.storage.set(`0-${index}`, leaf);
+    for (let level = 0; level < this.levels; level++) {
+      const sibling = this.storage.get(`${level}-${index ^ 1}`) ?? this.zeros[level];
+      current = await this.hasher.hash(index % 2 === 0 ? [current, sibling] : [sibling, current]);
+      index = Math.floor(index / 2);
+      this.storage.set(`${level + 1}-${index}`, current);
+    }
+  }
+}
+
+interface BenchResult {
+  label: string;
+  elapsedMs: number;
+  heapBytes: number;
+  root: bigint;
+}
+
+// Run with --expose-gc (as the npm script does) so heap figures only count what the tree keeps
+function heapUsed(): number {
+  global.gc?.();
+  return process.memoryUsage().heapUsed;
+}
+
+async function bench(label: string, build: () => Promise<{ root(): bigint }>): Promise<BenchResult> {
+  const heapBefore = heapUsed();
+  const start = performance.now();
+  const tree = await build();
+  const elapsedMs = performance.now() - start;
+  return { label, elapsedMs, heapBytes: heapUsed() - heapBefore, root: tree.root() };
+}
+
+function report(result: BenchResult, baseline: BenchResult): string {
+  const speedup = baseline.elapsedMs / result.elapsedMs;
+  return [
+    `${result.label}:`.padEnd(24),
+    `${(result.elapsedMs / 1000).toFixed(2)}s`.padStart(9),
+    `${(result.heapBytes / 2 ** 20).toFixed(1)} MiB`.padStart(12),
+    `${speedup.toFixed(1)}x`.padStart(8),
+  ].join(' ');
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'leaves': { type: 'string', default: '4096' },
+      'depth': { type: 'string', default: '20' },
+      'batch': { type: 'string', default: '1024' },
+    },
+  });
+  const count = Number(values['leaves']);
+  const depth = Number(values['depth']);
+  const batchSize = Number(values['batch']);
+  const leaves = Array.from({ length: count }, () => randomField());
+
+  const hasher = await Poseidon2Hasher.create();
+  try {
+    let full: PoseidonIMT | null = null;
+
+    const results = [
+      await bench('map, one by one', async () => {
+        const tree = new MapTree(hasher, depth);
+        await tree.initEmpty();
+        for (const leaf of leaves) {
+          await tree.insert(leaf);
+        }
+        return tree;
+      }),
+      await bench('insertMany (full)', async () => {
+        full = new PoseidonIMT(hasher, depth, undefined, { batchSize });
+        await full.initEmpty();
+        await full.insertMany(leaves);
+        return full;
+      }),
+      await bench('insertMany (frontier)', async () => {
+        const tree = new PoseidonIMT(hasher, depth, undefined, { mode: 'frontier', batchSize });
+        await tree.initEmpty();
+        await tree.insertMany(leaves);
+        return tree;
+      }),
+    ];
+    const snapshot = full!.snapshot();
+    results.push(await bench('restore (snapshot)', () => PoseidonIMT.restore(hasher, snapshot)));
+
+    console.log(`${count} leaves, depth ${depth}, ${batchSize} hashes in flight\n`);
+    console.log(`${''.padEnd(24)} ${'time'.padStart(9)} ${'heap'.padStart(12)} ${'speedup'.padStart(8)}`);
+    for (const result of results) {
+      console.log(report(result, results[0]));
+    }
+    console.log(`\nSnapshot: ${(snapshot.length / 2 ** 20).toFixed(1)} MiB`);
+
+    const roots = new Set(results.map(result => result.root));
+    if (roots.size !== 1) {
+      throw new Error(`Trees disagree on the root: ${results.map(r => `${r.label} ${fieldToHex(r.root)}`).join(', ')}`);
+    }
+    console.log(`Root: ${fieldToHex(results[0].root)} (all agree)`);
+  } finally {
+    await hasher.destroy();
+  }
+}
+
+// bb.js workers can outlive a failed call, so exit explicitly
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
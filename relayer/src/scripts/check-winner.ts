@@ -0,0 +1,84 @@
+/**
+ * Check locally whether a ticket note won its raffle
+ *
+ * Usage:
+ *   npm run check-winner -- <note> [--rpc-url <url>] [--relayer-url <url>] [--from-block <n>] [--json]
+ *   npm run check-winner -- --note-file <path> ...
+ *
+ * The raffle's commitments come from its TicketPurchased logs (or from the
+ * relayer's /leaves with --relayer-url); the note's commitment is computed
+ * and looked up here, so neither the RPC nor the relayer learns which ticket
+ * is being checked. Encrypted notes are opened with RAFFERO_NOTE_PASSWORD.
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { ethers } from 'ethers';
+import { RafferoClient } from '../client/client.js';
+import { RaffleStatus } from '../contracts/PrivateRaffle.js';
+import { decryptNote } from '../note.js';
+
+dotenv.config();
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'note-file': { type: 'string' },
+      'rpc-url': { type: 'string', default: process.env.RPC_URL || 'https://sepolia-rpc.scroll.io' },
+      'relayer-url': { type: 'string' },
+      'from-block': { type: 'string', default: process.env.INDEXER_START_BLOCK || '0' },
+      'json': { type: 'boolean', default: false },
+    },
+  });
+
+  const text = values['note-file']
+    ? fs.readFileSync(values['note-file'], 'utf-8').trim()
+    : positionals[0];
+  if (!text) {
+    console.error('Usage: npm run check-winner -- <note> | --note-file <path> [--rpc-url <url>] [--relayer-url <url>] [--from-block <n>] [--json]');
+    process.exit(1);
+  }
+  const note = await decryptNote(text, process.env.RAFFERO_NOTE_PASSWORD ?? '');
+
+  const provider = new ethers.JsonRpcProvider(values['rpc-url']);
+  const client = await RafferoClient.connect({
+    address: note.contract,
+    runner: provider,
+    relayerUrl: values['relayer-url'],
+    fromBlock: parseInt(values['from-block']!),
+  });
+
+  try {
+    const result = await client.checkWinner(note);
+
+    if (values.json) {
+      console.log(JSON.stringify({
+        raffleId: result.raffleId.toString(),
+        status: RaffleStatus[result.status],
+        leafIndex: result.leafIndex,
+        winnerIndex: result.winnerIndex,
+        won: result.won,
+      }, null, 2));
+      return;
+    }
+
+    console.log(`Raffle ${result.raffleId}: ${RaffleStatus[result.status]}`);
+    console.log(`Your leaf index: ${result.leafIndex ?? 'not found (ticket never bought?)'}`);
+    if (result.winnerIndex === null) {
+      console.log('Winner not drawn yet');
+    } else {
+      console.log(`Winner index: ${result.winnerIndex}`);
+      console.log(result.won ? '🎉 You won! Build a claim proof with this note.' : 'Not a winner this time.');
+    }
+  } finally {
+    await client.destroy();
+    provider.destroy();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
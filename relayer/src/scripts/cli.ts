@@ -0,0 +1,689 @@
+/**
+ * Note-driven participant CLI
+ *
+ *   npm run cli -- note new --raffle-id <id> [--contract <address>] [--rpc-url <url> | --chain-id <id>]
+ *                           [--index <k>] [--encrypt] [--out <file>]
+ *   npm run cli -- note inspect <note> | --note-file <file> [--json]
+ *   npm run cli -- note recover --raffle-id <id> [--contract <address>] [--rpc-url <url>] [--relayer-url <url>]
+ *                               [--from-block <n>] [--gap-limit <n>] [--encrypt] [--out-dir <dir>]
+ *   npm run cli -- proof build --note-file <file> --recipient <address> --out <file>
+ *                              [--rpc-url <url>] [--relayer-url <url>] [--from-block <n>] [--circuit <path>]
+ *   npm run cli -- proof build --offline --leaves <file> --note-file <file> --recipient <address> --out <file>
+ *                              [--winner-index <n>] [--circuit <path>]
+ *   npm run cli -- claim submit --claim <file> --relayer-url <url> [--yes] [--wait]
+ *   npm run cli -- raffle create --ticket-price <eth> --levels <n> --duration <90s|15m|2h|7d> --prize <eth>
+ *                                [--contract <address>] [--rpc-url <url>] [--yes] [--json]
+ *   npm run cli -- raffle list [--contract <address>] [--rpc-url <url>] [--from-block <n>] [--batch-size <n>] [--json]
+ *   npm run cli -- raffle show <raffleId> [--contract <address>] [--rpc-url <url>] [--json]
+ *   npm run cli -- raffle draw <raffleId> [--contract <address>] [--rpc-url <url>] [--json]
+ *
+ * `proof build` downloads every commitment of the raffle (TicketPurchased
+ * logs, or the relayer's /leaves), rebuilds the tree with PoseidonIMT and
+ * checks it against the contract root before proving; nothing about the
+ * note leaves this machine. With --offline, the leaves come from a file in
+ * the GET /raffle/:id/leaves format and no RPC or relayer is contacted. The
+ * result is the POST /claim body, written to --out.
+ *
+ * The `raffle` commands are for operators. They read RPC_URL,
+ * PRIVATE_RAFFLE_ADDRESS and INDEXER_START_BLOCK from the relayer's .env, and
+ * `create` and `draw` send from OPERATOR_PRIVATE_KEY.
+ *
+ * Encrypted notes use RAFFERO_NOTE_PASSWORD, or ask for the password.
+ * `--index` and `note recover` derive secrets from RAFFERO_MNEMONIC (with
+ * RAFFERO_MNEMONIC_PASSPHRASE) or RAFFERO_SEED_SIGNATURE; see seed.ts.
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline/promises';
+import { Writable } from 'stream';
+import { parseArgs } from 'util';
+import { ethers } from 'ethers';
+import { RafferoClient, proveClaim, treeFromLeaves } from '../client/client.js';
+import { RelayerClaim, RelayerClient, RelayerLeaves } from '../client/relayer.js';
+import {
+  RaffleSummary,
+  createRaffle,
+  describeRaffle,
+  describeRaffles,
+  drawRaffle,
+  listCreatedRaffles,
+  parseDuration,
+  validateCreateRaffle,
+} from '../client/operator.js';
+import { PrivateRaffleContract, connectPrivateRaffle } from '../contracts/PrivateRaffle.js';
+import { ContractLogSource } from '../indexer/source.js';
+import { Poseidon2Hasher } from '../poseidon.js';
+import { RaffleProver } from '../prover.js';
+import { fieldToHex, toField } from '../field.js';
+import { TicketNote, createNote, decryptNote, encryptNote, formatNote, isEncryptedNote } from '../note.js';
+import { TicketSeed, deriveTicketSecrets, seedFromMnemonic, seedFromSignature } from '../seed.js';
+
+dotenv.config();
+
+const DEFAULT_RPC_URL = process.env.RPC_URL || 'https://sepolia-rpc.scroll.io';
+const DEFAULT_CIRCUIT_PATH = process.env.CIRCUIT_PATH || path.join(__dirname, '../../../circuits/target/raffle_circuits.json');
+
+const USAGE = `Usage:
+  npm run cli -- note new --raffle-id <id> [--contract <address>] [--rpc-url <url> | --chain-id <id>] [--index <k>] [--encrypt] [--out <file>]
+  npm run cli -- note inspect <note> | --note-file <file> [--json]
+  npm run cli -- note recover --raffle-id <id> [--contract <address>] [--rpc-url <url>] [--relayer-url <url>] [--from-block <n>] [--gap-limit <n>] [--encrypt] [--out-dir <dir>]
+  npm run cli -- proof build --note-file <file> --recipient <address> --out <file> [--rpc-url <url>] [--relayer-url <url>] [--from-block <n>] [--circuit <path>]
+  npm run cli -- proof build --offline --leaves <file> --note-file <file> --recipient <address> --out <file> [--winner-index <n>] [--circuit <path>]
+  npm run cli -- claim submit --claim <file> --relayer-url <url> [--yes] [--wait]
+  npm run cli -- raffle create --ticket-price <eth> --levels <n> --duration <90s|15m|2h|7d> --prize <eth> [--contract <address>] [--rpc-url <url>] [--yes] [--json]
+  npm run cli -- raffle list [--contract <address>] [--rpc-url <url>] [--from-block <n>] [--batch-size <n>] [--json]
+  npm run cli -- raffle show <raffleId> [--contract <address>] [--rpc-url <url>] [--json]
+  npm run cli -- raffle draw <raffleId> [--contract <address>] [--rpc-url <url>] [--json]`;
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Fresh (or seed-derived) secrets for a raffle ticket; prints the commitment to buy
+ */
+async function noteNew(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'raffle-id': { type: 'string' },
+      'contract': { type: 'string', default: process.env.PRIVATE_RAFFLE_ADDRESS },
+      'rpc-url': { type: 'string', default: DEFAULT_RPC_URL },
+      'chain-id': { type: 'string' },
+      'index': { type: 'string' },
+      'encrypt': { type: 'boolean', default: false },
+      'out': { type: 'string' },
+      'force': { type: 'boolean', default: false },
+    },
+  });
+  const raffleId = required(values['raffle-id'], '--raffle-id');
+  const contract = required(values['contract'], '--contract (or PRIVATE_RAFFLE_ADDRESS)');
+
+  const chainId = values['chain-id'] ?? await withProvider(values['rpc-url']!, async provider =>
+    (await provider.getNetwork()).chainId
+  );
+  const secrets = values['index'] !== undefined
+    ? deriveTicketSecrets(seedFromEnv(), { chainId, contract, raffleId, index: parseInt(values['index']) })
+    : {};
+  const note = createNote({ chainId, raffleId, contract, ...secrets });
+
+  const hasher = await Poseidon2Hasher.create();
+  const commitment = await hasher.commitment(note.secret, note.nullifier);
+  await hasher.destroy();
+
+  const text = values['encrypt']
+    ? await encryptNote(note, await notePassword(true))
+    : formatNote(note);
+
+  if (values['out']) {
+    writeOutput(values['out'], text + '\n', values['force']!, 0o600);
+    console.error(`Note written to ${values['out']}. It is the only copy of the ticket's secrets.`);
+  } else {
+    console.log(text);
+  }
+  console.log(`Commitment: ${fieldToHex(commitment)}`);
+}
+
+/**
+ * What a note is for, without printing its secrets
+ */
+async function noteInspect(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'note-file': { type: 'string' },
+      'json': { type: 'boolean', default: false },
+    },
+  });
+  const text = await readNoteText(values['note-file'], positionals[0]);
+  const note = await openNote(text);
+
+  const hasher = await Poseidon2Hasher.create();
+  const commitment = fieldToHex(await hasher.commitment(note.secret, note.nullifier));
+  await hasher.destroy();
+
+  const summary = {
+    chainId: note.chainId.toString(),
+    contract: ethers.getAddress(note.contract),
+    raffleId: note.raffleId.toString(),
+    leafIndex: note.leafIndex,
+    commitment,
+    encrypted: isEncryptedNote(text),
+  };
+
+  if (values['json']) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+  console.log(`Chain:      ${summary.chainId}`);
+  console.log(`Contract:   ${summary.contract}`);
+  console.log(`Raffle:     ${summary.raffleId}`);
+  console.log(`Leaf index: ${summary.leafIndex ?? 'unknown'}`);
+  console.log(`Commitment: ${summary.commitment}`);
+  console.log(`Encrypted:  ${summary.encrypted ? 'yes' : 'no'}`);
+}
+
+/**
+ * Re-derive lost notes from the seed by matching the raffle's commitments
+ */
+async function noteRecover(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'raffle-id': { type: 'string' },
+      'contract': { type: 'string', default: process.env.PRIVATE_RAFFLE_ADDRESS },
+      'rpc-url': { type: 'string', default: DEFAULT_RPC_URL },
+      'relayer-url': { type: 'string' },
+      'from-block': { type: 'string', default: process.env.INDEXER_START_BLOCK || '0' },
+      'gap-limit': { type: 'string', default: '20' },
+      'encrypt': { type: 'boolean', default: false },
+      'out-dir': { type: 'string' },
+      'force': { type: 'boolean', default: false },
+    },
+  });
+  const raffleId = required(values['raffle-id'], '--raffle-id');
+  const contract = required(values['contract'], '--contract (or PRIVATE_RAFFLE_ADDRESS)');
+  const seed = seedFromEnv();
+
+  const notes = await withProvider(values['rpc-url']!, async provider => {
+    const client = await RafferoClient.connect({
+      address: contract,
+      runner: provider,
+      relayerUrl: values['relayer-url'],
+      fromBlock: parseInt(values['from-block']!),
+    });
+    try {
+      return await client.recoverTickets(seed, raffleId, { gapLimit: parseInt(values['gap-limit']!) });
+    } finally {
+      await client.destroy();
+    }
+  });
+
+  console.error(`Recovered ${notes.length} ticket(s) in raffle ${raffleId}`);
+  const password = values['encrypt'] && notes.length > 0 ? await notePassword(true) : null;
+  for (const note of notes) {
+    const text = password ? await encryptNote(note, password) : formatNote(note);
+    if (values['out-dir']) {
+      const file = path.join(values['out-dir'], `raffle-${raffleId}-leaf-${note.leafIndex}.txt`);
+      writeOutput(file, text + '\n', values['force']!, 0o600);
+      console.log(`Leaf ${note.leafIndex}: ${file}`);
+    } else {
+      console.log(text);
+    }
+  }
+}
+
+/**
+ * Build the POST /claim body for a winning note
+ */
+async function proofBuild(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'note-file': { type: 'string' },
+      'recipient': { type: 'string' },
+      'out': { type: 'string' },
+      'force': { type: 'boolean', default: false },
+      'rpc-url': { type: 'string', default: DEFAULT_RPC_URL },
+      'relayer-url': { type: 'string' },
+      'from-block': { type: 'string', default: process.env.INDEXER_START_BLOCK || '0' },
+      'circuit': { type: 'string', default: DEFAULT_CIRCUIT_PATH },
+      'offline': { type: 'boolean', default: false },
+      'leaves': { type: 'string' },
+      'winner-index': { type: 'string' },
+    },
+  });
+  const note = await openNote(await readNoteText(values['note-file'], undefined));
+  const recipient = ethers.getAddress(required(values['recipient'], '--recipient'));
+  const out = required(values['out'], '--out');
+  if (fs.existsSync(out) && !values['force']) {
+    throw new Error(`${out} already exists; pass --force to overwrite`);
+  }
+  if (!fs.existsSync(values['circuit']!)) {
+    throw new Error(`Circuit not found at ${values['circuit']}. Compile it first: cd circuits && nargo compile`);
+  }
+
+  const prover = new RaffleProver(values['circuit']!);
+  await prover.initialize();
+  try {
+    const claim = values['offline']
+      ? await buildOffline(prover, note, recipient, required(values['leaves'], '--leaves'), values['winner-index'])
+      : await withProvider(values['rpc-url']!, async provider => {
+          const client = await RafferoClient.connect({
+            address: note.contract,
+            runner: provider,
+            relayerUrl: values['relayer-url'],
+            fromBlock: parseInt(values['from-block']!),
+            prover,
+          });
+          try {
+            return await client.buildClaimProof(note, recipient);
+          } finally {
+            await client.destroy();
+          }
+        });
+
+    writeOutput(out, JSON.stringify(claim, null, 2) + '\n', true);
+    console.log(`Claim for raffle ${claim.raffleId} written to ${out}`);
+    console.log(`Submit it with: npm run cli -- claim submit --claim ${out} --relayer-url <url>`);
+  } finally {
+    await prover.destroy();
+  }
+}
+
+/**
+ * Proof from a saved GET /raffle/:id/leaves response, without any network
+ */
+async function buildOffline(
+  prover: RaffleProver,
+  note: TicketNote,
+  recipient: string,
+  leavesPath: string,
+  winnerIndexArg: string | undefined
+): Promise<RelayerClaim> {
+  const file: RelayerLeaves = JSON.parse(fs.readFileSync(leavesPath, 'utf-8'));
+  if (file.raffleId !== undefined && BigInt(file.raffleId) !== note.raffleId) {
+    throw new Error(`${leavesPath} is for raffle ${file.raffleId}, the note for raffle ${note.raffleId}`);
+  }
+  if (!Number.isInteger(file.treeDepth) || !Array.isArray(file.leaves)) {
+    throw new Error(`${leavesPath} must be a GET /raffle/:id/leaves response ({ treeDepth, leaves, root })`);
+  }
+
+  const hasher = await Poseidon2Hasher.create();
+  try {
+    const tree = await treeFromLeaves(hasher, file.treeDepth, file.leaves.map(leaf => toField(leaf)));
+    if (file.root !== undefined && tree.root() !== toField(file.root)) {
+      throw new Error(`Leaves hash to root ${fieldToHex(tree.root())}, not ${file.root}`);
+    }
+
+    // The winner's own leaf is the winning index; it can be given explicitly
+    // for notes saved before their leaf index was known
+    let winnerIndex = winnerIndexArg !== undefined ? parseInt(winnerIndexArg) : note.leafIndex;
+    if (winnerIndex === null) {
+      const commitment = await hasher.commitment(note.secret, note.nullifier);
+      const index = tree.leaves().indexOf(commitment);
+      if (index === -1) {
+        throw new Error('Note commitment is not among the leaves');
+      }
+      winnerIndex = index;
+    }
+
+    return await proveClaim({ prover, hasher, tree, note, winnerIndex, recipient });
+  } finally {
+    await hasher.destroy();
+  }
+}
+
+/**
+ * Send a claim to the relayer with a fresh fee quote
+ */
+async function claimSubmit(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'claim': { type: 'string' },
+      'relayer-url': { type: 'string', default: process.env.RELAYER_URL },
+      'yes': { type: 'boolean', default: false },
+      'wait': { type: 'boolean', default: false },
+    },
+  });
+  const claim: RelayerClaim = JSON.parse(fs.readFileSync(required(values['claim'], '--claim'), 'utf-8'));
+  const relayer = new RelayerClient(required(values['relayer-url'], '--relayer-url (or RELAYER_URL)'));
+
+  const quote = await relayer.getFeeQuote(claim.raffleId);
+  console.log(`Relayer fee: ${ethers.formatEther(quote.feeWei)} ETH, deducted from the prize`);
+  if (!values['yes']) {
+    const answer = await prompt('Submit the claim? [y/N] ');
+    if (!/^y(es)?$/i.test(answer.trim())) {
+      console.log('Not submitted');
+      return;
+    }
+  }
+
+  const { raffleId, feeWei, expiresAt, signature } = quote;
+  let job = await relayer.submitClaim({ ...claim, feeQuote: { raffleId, feeWei, expiresAt, signature } });
+  console.log(`Claim job ${job.jobId}: ${job.status}`);
+
+  while (values['wait'] && job.status !== 'confirmed' && job.status !== 'failed') {
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    job = await relayer.getClaimJob(job.jobId);
+    console.log(`Claim job ${job.jobId}: ${job.status}${job.txHash ? ` (${job.txHash})` : ''}`);
+  }
+  if (job.status === 'failed') {
+    throw new Error(`Claim failed: ${job.error?.code ?? ''} ${job.error?.error ?? ''}`.trim());
+  }
+}
+
+const RAFFLE_OPTIONS = {
+  'contract': { type: 'string', default: process.env.PRIVATE_RAFFLE_ADDRESS },
+  'rpc-url': { type: 'string', default: DEFAULT_RPC_URL },
+  'json': { type: 'boolean', default: false },
+} as const;
+
+/**
+ * Create and fund a raffle; the prize is sent with createRaffle
+ */
+async function raffleCreate(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...RAFFLE_OPTIONS,
+      'ticket-price': { type: 'string' },
+      'levels': { type: 'string' },
+      'duration': { type: 'string' },
+      'prize': { type: 'string' },
+      'yes': { type: 'boolean', default: false },
+    },
+  });
+  const params = {
+    ticketPrice: ethers.parseEther(required(values['ticket-price'], '--ticket-price')),
+    levels: Number(required(values['levels'], '--levels')),
+    duration: parseDuration(required(values['duration'], '--duration')),
+    prize: ethers.parseEther(required(values['prize'], '--prize')),
+  };
+
+  await withOperator(values, async contract => {
+    await validateCreateRaffle(contract, params);
+    if (!values['yes']) {
+      console.log(
+        `Raffle of ${2 ** params.levels} tickets at ${ethers.formatEther(params.ticketPrice)} ETH, ` +
+        `open for ${formatSeconds(params.duration)}, prize ${ethers.formatEther(params.prize)} ETH`
+      );
+      const answer = await prompt('Create it and send the prize? [y/N] ');
+      if (!/^y(es)?$/i.test(answer.trim())) {
+        console.log('Not created');
+        return;
+      }
+    }
+
+    const created = await createRaffle(contract, params);
+    if (values['json']) {
+      console.log(toJson(created));
+      return;
+    }
+    console.log(`Raffle ${created.raffleId} created in block ${created.blockNumber} (${created.txHash})`);
+  });
+}
+
+/**
+ * Every raffle from its RaffleCreated log, with its current status
+ */
+async function raffleList(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...RAFFLE_OPTIONS,
+      'from-block': { type: 'string', default: process.env.INDEXER_START_BLOCK || '0' },
+      'batch-size': { type: 'string', default: process.env.INDEXER_BATCH_SIZE || '2000' },
+    },
+  });
+  const address = required(values['contract'], '--contract (or PRIVATE_RAFFLE_ADDRESS)');
+
+  const raffles = await withProvider(values['rpc-url']!, async provider => {
+    const contract = connectPrivateRaffle(address, provider);
+    const created = await listCreatedRaffles(
+      new ContractLogSource(provider, address),
+      parseInt(values['from-block']!),
+      parseInt(values['batch-size']!)
+    );
+    const now = await chainTime(provider);
+    return describeRaffles(contract, created.map(event => event.raffleId), now);
+  });
+
+  if (values['json']) {
+    console.log(toJson(raffles));
+    return;
+  }
+  if (raffles.length === 0) {
+    console.log('No raffles');
+    return;
+  }
+  console.log(['ID', 'Status', 'Tickets', 'Price (ETH)', 'Prize pool (ETH)', 'Ends'].join('\t'));
+  for (const raffle of raffles) {
+    console.log([
+      raffle.raffleId,
+      describeStatus(raffle),
+      `${raffle.participants}/${raffle.maxParticipants}`,
+      ethers.formatEther(raffle.ticketPrice),
+      ethers.formatEther(raffle.prizePool),
+      raffle.timeRemaining > 0 ? `in ${formatSeconds(raffle.timeRemaining)}` : 'ended',
+    ].join('\t'));
+  }
+}
+
+async function raffleShow(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({ args, allowPositionals: true, options: RAFFLE_OPTIONS });
+  const raffleId = BigInt(required(positionals[0], '<raffleId>'));
+  const address = required(values['contract'], '--contract (or PRIVATE_RAFFLE_ADDRESS)');
+
+  const raffle = await withProvider(values['rpc-url']!, async provider =>
+    describeRaffle(connectPrivateRaffle(address, provider), raffleId, await chainTime(provider))
+  );
+
+  if (values['json']) {
+    console.log(toJson(raffle));
+    return;
+  }
+  console.log(`Raffle:       ${raffle.raffleId}`);
+  console.log(`Status:       ${describeStatus(raffle)}`);
+  console.log(`Creator:      ${raffle.creator}`);
+  console.log(`Participants: ${raffle.participants} of ${raffle.maxParticipants} (${raffle.levels} levels)`);
+  console.log(`Ticket price: ${ethers.formatEther(raffle.ticketPrice)} ETH`);
+  console.log(`Prize pool:   ${ethers.formatEther(raffle.prizePool)} ETH`);
+  console.log(`Ends:         ${new Date(raffle.endTime * 1000).toISOString()}` +
+    (raffle.timeRemaining > 0 ? ` (in ${formatSeconds(raffle.timeRemaining)})` : ' (ended)'));
+  if (raffle.requestId !== null) {
+    console.log(`VRF request:  ${raffle.requestId}`);
+  }
+  if (raffle.winnerIndex !== null) {
+    console.log(`Winner:       leaf ${raffle.winnerIndex}`);
+  }
+}
+
+/**
+ * Request the randomness that picks the winner
+ */
+async function raffleDraw(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({ args, allowPositionals: true, options: RAFFLE_OPTIONS });
+  const raffleId = BigInt(required(positionals[0], '<raffleId>'));
+
+  await withOperator(values, async contract => {
+    const drawn = await drawRaffle(contract, raffleId);
+    if (values['json']) {
+      console.log(toJson({ raffleId, ...drawn }));
+      return;
+    }
+    console.log(`Randomness requested for raffle ${raffleId} (request ${drawn.requestId}, ${drawn.txHash})`);
+    console.log('The winner is set when the Supra router calls back; check with `raffle show`');
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function seedFromEnv(): TicketSeed {
+  if (process.env.RAFFERO_MNEMONIC) {
+    return seedFromMnemonic(process.env.RAFFERO_MNEMONIC, process.env.RAFFERO_MNEMONIC_PASSPHRASE ?? '');
+  }
+  if (process.env.RAFFERO_SEED_SIGNATURE) {
+    return seedFromSignature(process.env.RAFFERO_SEED_SIGNATURE);
+  }
+  throw new Error('Set RAFFERO_MNEMONIC or RAFFERO_SEED_SIGNATURE to derive ticket secrets');
+}
+
+function required(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new Error(`Missing ${name}\n\n${USAGE}`);
+  }
+  return value;
+}
+
+async function withProvider<T>(rpcUrl: string, fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  try {
+    return await fn(provider);
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * The contract connected to the operator wallet (OPERATOR_PRIVATE_KEY)
+ */
+async function withOperator<T>(
+  values: { 'contract'?: string; 'rpc-url'?: string },
+  fn: (contract: PrivateRaffleContract) => Promise<T>
+): Promise<T> {
+  const address = required(values['contract'], '--contract (or PRIVATE_RAFFLE_ADDRESS)');
+  const key = required(process.env.OPERATOR_PRIVATE_KEY, 'OPERATOR_PRIVATE_KEY');
+  return withProvider(values['rpc-url']!, provider =>
+    fn(connectPrivateRaffle(address, new ethers.Wallet(key, provider)))
+  );
+}
+
+/**
+ * Latest block timestamp, so time remaining follows the chain
+ */
+async function chainTime(provider: ethers.Provider): Promise<number> {
+  const block = await provider.getBlock('latest');
+  return block?.timestamp ?? Math.floor(Date.now() / 1000);
+}
+
+function describeStatus(raffle: RaffleSummary): string {
+  if (raffle.status !== 'Active') {
+    return raffle.status;
+  }
+  if (raffle.randomnessRequested) {
+    return 'Drawing';
+  }
+  if (raffle.canDraw) {
+    return 'Ready to draw';
+  }
+  return raffle.timeRemaining > 0 ? 'Open' : 'Ended';
+}
+
+/**
+ * 93784 -> "1d 2h 3m"
+ */
+function formatSeconds(seconds: number): string {
+  const parts: string[] = [];
+  for (const [unit, size] of [['d', 86400], ['h', 3600], ['m', 60]] as const) {
+    if (seconds >= size) {
+      parts.push(`${Math.floor(seconds / size)}${unit}`);
+      seconds %= size;
+    }
+  }
+  if (seconds > 0 || parts.length === 0) {
+    parts.push(`${seconds}s`);
+  }
+  return parts.join(' ');
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+/**
+ * Note text from a file, the command line, or (hidden) from the terminal
+ */
+async function readNoteText(file: string | undefined, inline: string | undefined): Promise<string> {
+  if (file) {
+    return fs.readFileSync(file, 'utf-8').trim();
+  }
+  return (inline ?? await prompt('Note: ', true)).trim();
+}
+
+async function openNote(text: string): Promise<TicketNote> {
+  return decryptNote(text, isEncryptedNote(text) ? await notePassword(false) : '');
+}
+
+async function notePassword(confirm: boolean): Promise<string> {
+  if (process.env.RAFFERO_NOTE_PASSWORD) {
+    return process.env.RAFFERO_NOTE_PASSWORD;
+  }
+  const hint = 'set RAFFERO_NOTE_PASSWORD';
+  const password = await prompt('Note password: ', true, hint);
+  if (confirm && await prompt('Repeat password: ', true, hint) !== password) {
+    throw new Error('Passwords do not match');
+  }
+  if (!password) {
+    throw new Error('Empty password');
+  }
+  return password;
+}
+
+/**
+ * Ask on the terminal; `hidden` answers are not echoed
+ */
+async function prompt(question: string, hidden = false, hint = 'pass it as an option'): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot ask "${question.trim()}" without a terminal; ${hint}`);
+  }
+
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  try {
+    process.stdout.write(question);
+    muted = hidden;
+    return await rl.question('');
+  } finally {
+    rl.close();
+    if (hidden) process.stdout.write('\n');
+  }
+}
+
+/**
+ * Write a file, refusing to replace an existing one unless `force`
+ */
+function writeOutput(file: string, content: string, force: boolean, mode = 0o644): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  try {
+    fs.writeFileSync(file, content, { flag: force ? 'w' : 'wx', mode });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new Error(`${file} already exists; pass --force to overwrite`);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+const COMMANDS: Record<string, (args: string[]) => Promise<void>> = {
+  'note new': noteNew,
+  'note inspect': noteInspect,
+  'note recover': noteRecover,
+  'proof build': proofBuild,
+  'claim submit': claimSubmit,
+  'raffle create': raffleCreate,
+  'raffle list': raffleList,
+  'raffle show': raffleShow,
+  'raffle draw': raffleDraw,
+};
+
+async function main() {
+  const [group, action, ...args] = process.argv.slice(2);
+  const command = COMMANDS[`${group} ${action}`];
+  if (!command) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  await command(args);
+}
+
+main().catch(error => {
+  console.error(error.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+/**
+ * Check that the circuit, its verification key, the deployed verifier and
+ * the contract's public input layout all agree
+ *
+ * Usage:
+ *   npm run doctor [-- --no-proof] [--circuit <path>] [--vk <path>] [--rpc-url <url>] [--contract <address>]
+ *
+ * Defaults come from the relayer's .env (CIRCUIT_PATH, VK_PATH, RPC_URL,
+ * PRIVATE_RAFFLE_ADDRESS). Exits non-zero if any check fails.
+ */
+
+import * as dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { ethers } from 'ethers';
+import { RaffleProver } from '../prover.js';
+import { formatResults, runDoctor } from '../doctor.js';
+
+dotenv.config();
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      'circuit': { type: 'string', default: process.env.CIRCUIT_PATH || '../circuits/target/raffle_circuits.json' },
+      'vk': { type: 'string', default: process.env.VK_PATH || '../circuits/target/vk' },
+      'rpc-url': { type: 'string', default: process.env.RPC_URL },
+      'contract': { type: 'string', default: process.env.PRIVATE_RAFFLE_ADDRESS },
+      'no-proof': { type: 'boolean', default: false },
+    },
+  });
+
+  const provider = values['rpc-url'] ? new ethers.JsonRpcProvider(values['rpc-url']) : undefined;
+  const prover = new RaffleProver(values['circuit']!);
+
+  try {
+    const results = await runDoctor({
+      prover,
+      vkPath: values['vk']!,
+      provider,
+      raffleAddress: values['contract'] || undefined,
+      sampleProof: !values['no-proof'],
+    });
+
+    console.log('\n' + formatResults(results));
+    return results.some(r => r.status === 'fail') ? 1 : 0;
+  } finally {
+    await prover.destroy();
+    provider?.destroy();
+  }
+}
+
+// bb.js workers can outlive a failed call, so exit explicitly
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
@@ -0,0 +1,216 @@
+/**
+ * Generate the typed PrivateRaffle binding from the Foundry artifact
+ *
+ * Usage:
+ *   forge build
+ *   npm run generate-contracts
+ *
+ * Reads out/PrivateRaffle.sol/PrivateRaffle.json (override with FOUNDRY_OUT)
+ * and writes src/contracts/PrivateRaffle.ts. Enum member names are not part
+ * of the ABI, so they are read from the Solidity source the artifact was
+ * compiled from.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+}
+
+interface AbiEntry {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+}
+
+const PROJECT_ROOT = path.resolve(__dirname, '../../..');
+const FOUNDRY_OUT = process.env.FOUNDRY_OUT || path.join(PROJECT_ROOT, 'out');
+const CONTRACT = 'PrivateRaffle';
+const ARTIFACT_PATH = path.join(FOUNDRY_OUT, `${CONTRACT}.sol`, `${CONTRACT}.json`);
+const OUTPUT_PATH = path.resolve(__dirname, '../contracts/PrivateRaffle.ts');
+
+// "enum PrivateRaffle.RaffleStatus" -> "RaffleStatus"
+function internalName(param: AbiParam, kind: 'enum' | 'struct'): string | null {
+  const match = param.internalType?.match(new RegExp(`^${kind} (?:\\w+\\.)?(\\w+)`));
+  return match ? match[1] : null;
+}
+
+function arraySuffix(type: string): string {
+  return type.match(/(\[\d*\])*$/)?.[0].replace(/\d+/g, '') ?? '';
+}
+
+function inputType(param: AbiParam): string {
+  const base = param.type.replace(/\[.*$/, '');
+  const suffix = arraySuffix(param.type);
+  let ts: string;
+  if (/^u?int\d*$/.test(base)) ts = 'ethers.BigNumberish';
+  else if (base === 'address') ts = 'ethers.AddressLike';
+  else if (base === 'bool') ts = 'boolean';
+  else if (base === 'string') ts = 'string';
+  else if (/^bytes\d*$/.test(base)) ts = 'ethers.BytesLike';
+  else throw new Error(`Unsupported input type ${param.type}`);
+  return ts + suffix;
+}
+
+function outputType(param: AbiParam): string {
+  const base = param.type.replace(/\[.*$/, '');
+  const suffix = arraySuffix(param.type);
+  let ts: string;
+  if (base === 'tuple') ts = `${internalName(param, 'struct')}Output`;
+  else if (/^u?int\d*$/.test(base)) ts = 'bigint';
+  else if (base === 'bool') ts = 'boolean';
+  else if (['address', 'string'].includes(base) || /^bytes\d*$/.test(base)) ts = 'string';
+  else throw new Error(`Unsupported output type ${param.type}`);
+  return ts + suffix;
+}
+
+/**
+ * enum Name { A, B } blocks from Solidity source, comments stripped
+ */
+function parseEnums(source: string): Map<string, string[]> {
+  const stripped = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const enums = new Map<string, string[]>();
+  for (const match of stripped.matchAll(/enum\s+(\w+)\s*\{([^}]*)\}/g)) {
+    enums.set(match[1], match[2].split(',').map(s => s.trim()).filter(Boolean));
+  }
+  return enums;
+}
+
+function collectStructs(abi: AbiEntry[]): Map<string, AbiParam[]> {
+  const structs = new Map<string, AbiParam[]>();
+  const visit = (param: AbiParam) => {
+    const name = internalName(param, 'struct');
+    if (name && param.components) {
+      structs.set(name, param.components);
+      param.components.forEach(visit);
+    }
+  };
+  for (const entry of abi) {
+    [...(entry.inputs ?? []), ...(entry.outputs ?? [])].forEach(visit);
+  }
+  return structs;
+}
+
+function generate(abi: AbiEntry[], enums: Map<string, string[]>, sourcePath: string): string {
+  const lines: string[] = [];
+  const artifactRel = path.relative(PROJECT_ROOT, ARTIFACT_PATH);
+
+  lines.push(
+    '/**',
+    ` * ${CONTRACT} contract binding`,
+    ' *',
+    ` * Generated by \`npm run generate-contracts\` from ${artifactRel}`,
+    ` * (${sourcePath}). Do not edit by hand: run \`forge build\` and regenerate.`,
+    ' */',
+    '',
+    "import { ethers } from 'ethers';",
+    '',
+    `export const PRIVATE_RAFFLE_ABI = ${JSON.stringify(abi, null, 2)} as const;`,
+    '',
+  );
+
+  const usedEnums = new Set<string>();
+  const structs = collectStructs(abi);
+  for (const components of structs.values()) {
+    for (const c of components) {
+      const name = internalName(c, 'enum');
+      if (name) usedEnums.add(name);
+    }
+  }
+  for (const entry of abi) {
+    for (const p of [...(entry.inputs ?? []), ...(entry.outputs ?? [])]) {
+      const name = internalName(p, 'enum');
+      if (name) usedEnums.add(name);
+    }
+  }
+
+  for (const name of [...usedEnums].sort()) {
+    const members = enums.get(name);
+    if (!members) {
+      throw new Error(`enum ${name} not found in ${sourcePath}`);
+    }
+    lines.push(`export enum ${name} {`);
+    members.forEach((member, i) => lines.push(`  ${member} = ${i},`));
+    lines.push('}', '');
+  }
+
+  for (const [name, components] of structs) {
+    lines.push(`/**`, ` * ${name} as decoded by ethers (enums are bigint)`, ` */`);
+    lines.push(`export interface ${name}Output {`);
+    for (const c of components) lines.push(`  ${c.name}: ${outputType(c)};`);
+    lines.push('}', '');
+
+    lines.push(`export interface ${name} {`);
+    for (const c of components) {
+      lines.push(`  ${c.name}: ${internalName(c, 'enum') ?? outputType(c)};`);
+    }
+    lines.push('}', '');
+
+    lines.push(`export function to${name}(output: ${name}Output): ${name} {`, '  return {');
+    for (const c of components) {
+      const value = internalName(c, 'enum')
+        ? `Number(output.${c.name}) as ${internalName(c, 'enum')}`
+        : `output.${c.name}`;
+      lines.push(`    ${c.name}: ${value},`);
+    }
+    lines.push('  };', '}', '');
+  }
+
+  lines.push(`export interface ${CONTRACT}Contract extends ethers.BaseContract {`);
+  for (const entry of abi.filter(e => e.type === 'function')) {
+    const args = (entry.inputs ?? [])
+      .map((p, i) => `${p.name || `arg${i}`}: ${inputType(p)}`)
+      .join(', ');
+    const outputs = entry.outputs ?? [];
+    const result = outputs.length === 0
+      ? 'void'
+      : outputs.length === 1
+        ? outputType(outputs[0])
+        : `[${outputs.map(outputType).join(', ')}]`;
+    const isView = entry.stateMutability === 'view' || entry.stateMutability === 'pure';
+    const sent = isView ? result : 'ethers.ContractTransactionResponse';
+    lines.push(`  ${entry.name}: ethers.BaseContractMethod<[${args}], ${result}, ${sent}>;`);
+  }
+  lines.push('}', '');
+
+  lines.push(
+    `export function connect${CONTRACT}(`,
+    '  address: string,',
+    '  runner?: ethers.ContractRunner | null',
+    `): ${CONTRACT}Contract {`,
+    `  return new ethers.Contract(address, PRIVATE_RAFFLE_ABI, runner) as unknown as ${CONTRACT}Contract;`,
+    '}',
+    '',
+  );
+
+  return lines.join('\n');
+}
+
+function main(): void {
+  if (!fs.existsSync(ARTIFACT_PATH)) {
+    console.error(`Artifact not found at ${ARTIFACT_PATH}`);
+    console.error('Build the contracts first: forge build');
+    process.exit(1);
+  }
+
+  const artifact = JSON.parse(fs.readFileSync(ARTIFACT_PATH, 'utf-8'));
+  const metadata = typeof artifact.metadata === 'string'
+    ? JSON.parse(artifact.metadata)
+    : artifact.metadata ?? JSON.parse(artifact.rawMetadata);
+  const sourcePath = Object.keys(metadata.settings.compilationTarget)[0];
+  const source = fs.readFileSync(path.join(PROJECT_ROOT, sourcePath), 'utf-8');
+
+  const output = generate(artifact.abi, parseEnums(source), sourcePath);
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, output);
+
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+main();
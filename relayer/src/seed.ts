@@ -0,0 +1,156 @@
+/**
+ * Deterministic ticket secrets
+ *
+ * Random secrets make the note the only copy of a ticket: lose it and the
+ * prize is lost. Instead, secrets can be derived from a 32-byte ticket seed,
+ * which itself comes from something the user already keeps safe:
+ *
+ * - a BIP-39 mnemonic (and optional passphrase), or
+ * - an EIP-712 signature by the user's wallet over a fixed message. Wallets
+ *   sign deterministically (RFC 6979), so the same wallet gives the same
+ *   seed on every device.
+ *
+ * Ticket k of raffle N on a given deployment is then
+ *
+ *   secret    = HMAC-SHA512(seed, abi(label, chainId, contract, N, k, "secret"))    mod p
+ *   nullifier = HMAC-SHA512(seed, abi(label, chainId, contract, N, k, "nullifier")) mod p
+ *
+ * (64 bytes reduced mod p, so the bias is negligible), and recoverTickets
+ * re-derives k = 0, 1, ... against a raffle's commitments until `gapLimit`
+ * indices in a row are missing, like a wallet's address gap limit.
+ *
+ * Unlike note.ts and field.ts this needs ethers, which only resolves from
+ * relayer/node_modules; js-scripts/generateCommitment.ts therefore loads it
+ * only for --index.
+ */
+
+import { createHmac } from 'crypto';
+import { ethers } from 'ethers';
+import { MODULUS } from './field.js';
+import { TicketNote, createNote } from './note.js';
+
+const DERIVATION_LABEL = 'raffero-ticket-v1';
+const MNEMONIC_KEY = 'raffero-ticket-seed-v1/mnemonic';
+const SIGNATURE_KEY = 'raffero-ticket-seed-v1/signature';
+const DEFAULT_GAP_LIMIT = 20;
+
+/**
+ * 32-byte master secret for every ticket of one user
+ */
+export type TicketSeed = Uint8Array;
+
+export interface TicketPosition {
+  chainId: bigint | number | string;
+  contract: string;
+  raffleId: bigint | number | string;
+  index: number;              // k-th ticket of this user in the raffle
+}
+
+/**
+ * Fixed EIP-712 domain and message signed to obtain a seed. It has no chain
+ * id or contract, so one signature recovers tickets on every deployment.
+ */
+export const TICKET_SEED_DOMAIN: ethers.TypedDataDomain = {
+  name: 'Raffero Ticket Seed',
+  version: '1',
+};
+
+export const TICKET_SEED_TYPES: Record<string, ethers.TypedDataField[]> = {
+  TicketSeed: [{ name: 'purpose', type: 'string' }],
+};
+
+export const TICKET_SEED_MESSAGE = {
+  purpose: 'Derive my Raffero ticket secrets. Sign this only in an app you trust with your raffle tickets.',
+};
+
+export function seedFromMnemonic(phrase: string, passphrase = ''): TicketSeed {
+  if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+    throw new Error('Invalid BIP-39 mnemonic');
+  }
+  const bip39Seed = ethers.getBytes(ethers.Mnemonic.fromPhrase(phrase, passphrase).computeSeed());
+  return createHmac('sha256', MNEMONIC_KEY).update(bip39Seed).digest();
+}
+
+/**
+ * Seed from a signature of TICKET_SEED_MESSAGE. Only r and s are used, so
+ * wallets that encode v as 0/1 or 27/28 agree.
+ */
+export function seedFromSignature(signature: string): TicketSeed {
+  const { r, s } = ethers.Signature.from(signature);
+  return createHmac('sha256', SIGNATURE_KEY).update(ethers.getBytes(ethers.concat([r, s]))).digest();
+}
+
+/**
+ * Ask the wallet for the seed signature and check who signed it
+ */
+export async function signTicketSeed(signer: ethers.Signer): Promise<TicketSeed> {
+  const signature = await signer.signTypedData(TICKET_SEED_DOMAIN, TICKET_SEED_TYPES, TICKET_SEED_MESSAGE);
+  const recovered = ethers.verifyTypedData(TICKET_SEED_DOMAIN, TICKET_SEED_TYPES, TICKET_SEED_MESSAGE, signature);
+  if (recovered !== await signer.getAddress()) {
+    throw new Error(`Seed signature is from ${recovered}, not ${await signer.getAddress()}`);
+  }
+  return seedFromSignature(signature);
+}
+
+export function deriveTicketSecrets(seed: TicketSeed, position: TicketPosition): { secret: bigint; nullifier: bigint } {
+  if (seed.length !== 32) {
+    throw new Error(`Ticket seed must be 32 bytes, got ${seed.length}`);
+  }
+  if (!Number.isInteger(position.index) || position.index < 0) {
+    throw new Error(`Ticket index must be a non-negative integer, got ${position.index}`);
+  }
+  return {
+    secret: deriveField(seed, position, 'secret'),
+    nullifier: deriveField(seed, position, 'nullifier'),
+  };
+}
+
+/**
+ * Note for ticket `index`, with its secrets derived from `seed`
+ */
+export function deriveNote(seed: TicketSeed, position: TicketPosition): TicketNote {
+  return createNote({ ...position, ...deriveTicketSecrets(seed, position) });
+}
+
+export interface RecoverTicketsParams {
+  seed: TicketSeed;
+  chainId: bigint | number | string;
+  contract: string;
+  raffleId: bigint | number | string;
+  commitments: readonly bigint[];   // the raffle's leaves, by leaf index
+  commitment(secret: bigint, nullifier: bigint): Promise<bigint>;   // Poseidon2, as in the circuit
+  gapLimit?: number;
+}
+
+/**
+ * Notes (with leaf index) of every derived ticket found among `commitments`
+ */
+export async function recoverTickets(params: RecoverTicketsParams): Promise<TicketNote[]> {
+  const gapLimit = params.gapLimit ?? DEFAULT_GAP_LIMIT;
+  const leafIndex = new Map<bigint, number>();
+  params.commitments.forEach((commitment, i) => {
+    if (!leafIndex.has(commitment)) leafIndex.set(commitment, i);
+  });
+
+  const found: TicketNote[] = [];
+  for (let index = 0, misses = 0; misses < gapLimit; index++) {
+    const note = deriveNote(params.seed, { ...params, index });
+    const leaf = leafIndex.get(await params.commitment(note.secret, note.nullifier));
+    if (leaf === undefined) {
+      misses++;
+      continue;
+    }
+    found.push({ ...note, leafIndex: leaf });
+    misses = 0;
+  }
+  return found;
+}
+
+function deriveField(seed: TicketSeed, position: TicketPosition, purpose: 'secret' | 'nullifier'): bigint {
+  const data = ethers.AbiCoder.defaultAbiCoder().encode(
+    ['string', 'uint256', 'address', 'uint256', 'uint256', 'string'],
+    [DERIVATION_LABEL, BigInt(position.chainId), position.contract, BigInt(position.raffleId), position.index, purpose]
+  );
+  const digest = createHmac('sha512', seed).update(ethers.getBytes(data)).digest();
+  return BigInt('0x' + digest.toString('hex')) % MODULUS;
+}
@@ -0,0 +1,92 @@
+/**
+ * Ticket queue backend: the buyer's payment, then purchaseTicket from the
+ * relayer wallet through the transaction manager
+ */
+
+import { ethers } from 'ethers';
+import { PrivateRaffleContract, toRaffle } from '../contracts/PrivateRaffle.js';
+import { FeeEngine } from '../fees/engine.js';
+import { TransactionDroppedError, TransactionManager } from '../tx/manager.js';
+import { parseRaffleLog } from '../indexer/events.js';
+import { redact } from '../logging/redact.js';
+import { TicketError, fromPurchaseError } from './errors.js';
+import { TicketBackend } from './queue.js';
+
+export interface TicketBackendOptions {
+  contract: PrivateRaffleContract;
+  provider: Pick<ethers.Provider, 'broadcastTransaction' | 'getTransaction' | 'waitForTransaction' | 'getTransactionReceipt'>;
+  txManager: Pick<TransactionManager, 'send' | 'wait'>;
+  feeEngine?: Pick<FeeEngine, 'recordTicketGas'> | null;
+  paymentTimeoutMs: number;
+}
+
+export function createTicketBackend(options: TicketBackendOptions): TicketBackend {
+  const { contract, provider, txManager, feeEngine, paymentTimeoutMs } = options;
+  const ticketPrice = async (raffleId: string) => toRaffle(await contract.getRaffle(raffleId)).ticketPrice;
+
+  return {
+    async pay(payment, paymentHash, rebroadcast) {
+      try {
+        await provider.broadcastTransaction(payment);
+      } catch (error: any) {
+        // Broadcast by this relayer before a restart, and maybe mined since: fine
+        // as long as the node knows it. Anyone else's broadcast is not our payment.
+        if (!rebroadcast || !(await provider.getTransaction(paymentHash))) {
+          throw new TicketError('PAYMENT_FAILED', 422, `Payment was rejected: ${redact(error.shortMessage ?? error.message)}`);
+        }
+      }
+
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        receipt = await provider.waitForTransaction(paymentHash, 1, paymentTimeoutMs);
+      } catch {
+        receipt = null;
+      }
+      if (!receipt || receipt.status !== 1) {
+        throw new TicketError('PAYMENT_FAILED', 422, 'Payment was not mined', { paymentHash });
+      }
+    },
+
+    async preflight(raffleId, commitment) {
+      try {
+        await contract.purchaseTicket.staticCall(raffleId, commitment, { value: await ticketPrice(raffleId) });
+      } catch (error) {
+        throw fromPurchaseError(error);
+      }
+    },
+
+    async submit(raffleId, commitment) {
+      try {
+        return await txManager.send({
+          to: await contract.getAddress(),
+          data: contract.interface.encodeFunctionData('purchaseTicket', [raffleId, commitment]),
+          value: await ticketPrice(raffleId),
+        });
+      } catch (error) {
+        throw fromPurchaseError(error);
+      }
+    },
+
+    async waitForReceipt(txHash) {
+      try {
+        const receipt = await txManager.wait(txHash);
+        let leafIndex: number | null = null;
+        if (receipt.status === 1) {
+          feeEngine?.recordTicketGas(receipt.gasUsed);
+          for (const entry of (await provider.getTransactionReceipt(receipt.hash))?.logs ?? []) {
+            const event = parseRaffleLog({ ...entry, logIndex: entry.index });
+            if (event?.type === 'TicketPurchased') {
+              leafIndex = Number(event.leafIndex);
+            }
+          }
+        }
+        return { txHash: receipt.hash, blockNumber: receipt.blockNumber, success: receipt.status === 1, leafIndex };
+      } catch (error: any) {
+        if (error instanceof TransactionDroppedError) {
+          throw new TicketError('TRANSACTION_DROPPED', 502, 'Ticket purchase was dropped; contact the relayer operator');
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Ticket purchase failures as structured errors
+ *
+ * Like ClaimError, for POST /ticket: every reason a relayed
+ * purchase can be refused maps to a stable code and HTTP status.
+ */
+
+import { ethers } from 'ethers';
+import { CodedError } from '../errors.js';
+import { decodeRevert } from '../claim/errors.js';
+import { FeeQuoteError } from '../fees/quote.js';
+
+export type TicketErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_PAYMENT'
+  | 'INSUFFICIENT_PAYMENT'
+  | 'PAYMENT_ALREADY_USED'
+  | 'PAYMENT_FAILED'
+  | 'COMMITMENT_ALREADY_USED'
+  | 'RAFFLE_NOT_ACTIVE'
+  | 'RAFFLE_ENDED'
+  | 'RAFFLE_FULL'
+  | 'PURCHASE_REVERTED'
+  | 'TRANSACTION_DROPPED'
+  | 'INVALID_FEE_QUOTE'
+  | 'FEE_QUOTE_EXPIRED';
+
+export class TicketError extends CodedError<TicketErrorCode> {}
+
+// PrivateRaffle custom errors reachable from purchaseTicket
+const CONTRACT_ERRORS: Record<string, { code: TicketErrorCode; status: number; message: string }> = {
+  RaffleNotActive: {
+    code: 'RAFFLE_NOT_ACTIVE',
+    status: 409,
+    message: 'Raffle is not active',
+  },
+  RaffleEnded: {
+    code: 'RAFFLE_ENDED',
+    status: 409,
+    message: 'Raffle ticket sales have ended',
+  },
+  RaffleFull: {
+    code: 'RAFFLE_FULL',
+    status: 409,
+    message: 'Raffle has no tickets left',
+  },
+  CommitmentAlreadyUsed: {
+    code: 'COMMITMENT_ALREADY_USED',
+    status: 409,
+    message: 'Commitment is already in the raffle',
+  },
+};
+
+/**
+ * A rejected feeQuote as a TicketError. Other errors are returned as-is.
+ */
+export function fromFeeQuoteError(error: unknown): unknown {
+  if (error instanceof FeeQuoteError) {
+    return new TicketError(error.code, error.status, error.message, error.details);
+  }
+  return error;
+}
+
+/**
+ * Decode a failed purchaseTicket call into a TicketError. Errors that are
+ * not reverts are returned as-is.
+ */
+export function fromPurchaseError(error: unknown): unknown {
+  if (error instanceof TicketError || !ethers.isError(error as any, 'CALL_EXCEPTION')) {
+    return error;
+  }
+
+  const decoded = decodeRevert(error);
+  if (!decoded) {
+    return new TicketError('PURCHASE_REVERTED', 422, 'Ticket purchase would revert');
+  }
+
+  const mapping = CONTRACT_ERRORS[decoded.name];
+  if (mapping) {
+    return new TicketError(mapping.code, mapping.status, mapping.message, { error: decoded.name, ...decoded.details });
+  }
+  return new TicketError('PURCHASE_REVERTED', 422, `Ticket purchase would revert: ${decoded.reason}`, {
+    error: decoded.name,
+    ...decoded.details,
+  });
+}
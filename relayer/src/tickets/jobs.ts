@@ -0,0 +1,43 @@
+/**
+ * Ticket job persistence
+ *
+ * Like claim jobs, a ticket job is written before any work starts and after
+ * every status change. The raw payment is kept only until it is mined and the
+ * commitment only until the ticket is bought; the payment hash stays so a
+ * payment can never buy two tickets.
+ */
+
+import { ErrorBody } from '../errors.js';
+import { FileStateStore, JobState, MemoryStateStore, StateStore } from '../jsonStore.js';
+import { TicketErrorCode } from './errors.js';
+
+export type TicketJobStatus = 'queued' | 'paying' | 'buffered' | 'submitted' | 'confirmed' | 'failed';
+
+export type TicketJobError = ErrorBody<TicketErrorCode | 'INTERNAL_ERROR'>;
+
+export interface TicketJob {
+  id: string;
+  status: TicketJobStatus;
+  raffleId: string;
+  commitment: string | null;      // cleared once bought
+  payment: string | null;         // signed raw transfer, cleared once mined
+  paymentHash: string;
+  feeWei: string;
+  txHash: string | null;          // purchaseTicket
+  blockNumber: number | null;
+  leafIndex: number | null;
+  error: TicketJobError | null;
+  createdAt: number;              // ms since epoch
+  updatedAt: number;
+}
+
+export type TicketJobState = JobState<TicketJob>;
+export type TicketJobStore = StateStore<TicketJobState>;
+
+export class FileTicketJobStore extends FileStateStore<TicketJobState> {
+  constructor(filePath: string) {
+    super(filePath, 'ticket job');
+  }
+}
+
+export class MemoryTicketJobStore extends MemoryStateStore<TicketJobState> {}
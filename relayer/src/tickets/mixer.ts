@@ -0,0 +1,140 @@
+/**
+ * Mixing scheduler for relayed ticket purchases
+ *
+ * Sending purchaseTicket as soon as a payment lands would let anyone who
+ * sees the payment (or the HTTP request) match it to the TicketPurchased
+ * event that follows. Instead, paid tickets are buffered per raffle and
+ * released in batches:
+ *
+ * - nothing is released until at least `minAnonymitySet` unscheduled tickets
+ *   of the raffle are buffered;
+ * - the batch is then spread over `maxDelayMs`, each ticket at an
+ *   independent random time, so the on-chain order is a random shuffle of
+ *   the arrival order;
+ * - from `flushBeforeEndMs` before the raffle's endTime, whatever is left is
+ *   released at once (shuffled), so no paid ticket misses the sale.
+ *
+ * The buffer itself is the ticket job store (status 'buffered'); this class
+ * only keeps the release times, which are drawn again after a restart.
+ * Release times and the shuffle are what hide the arrival order, so they
+ * come from the CSPRNG unless a test injects its own randomness (and clock).
+ */
+
+import { randomBytes } from 'crypto';
+
+export interface BufferedTicket {
+  id: string;
+  raffleId: string;
+}
+
+export interface MixingOptions {
+  minAnonymitySet: number;
+  maxDelayMs: number;
+  flushBeforeEndMs: number;
+  endTime(raffleId: string): Promise<bigint>;   // PrivateRaffle endTime, unix seconds
+  now?: () => number;                           // ms
+  random?: () => number;                        // [0, 1), secureRandom by default
+}
+
+/**
+ * Uniform in [0, 1) from 48 random bits
+ */
+export function secureRandom(): number {
+  return randomBytes(6).readUIntBE(0, 6) / 2 ** 48;
+}
+
+export class MixingScheduler {
+  private readonly options: MixingOptions;
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private releaseAt = new Map<string, number>();
+  private endTimes = new Map<string, number>();
+
+  constructor(options: MixingOptions) {
+    if (!Number.isInteger(options.minAnonymitySet) || options.minAnonymitySet < 1) {
+      throw new Error('minAnonymitySet must be a positive integer');
+    }
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? secureRandom;
+  }
+
+  /**
+   * Which of the buffered tickets to send now, in sending order
+   */
+  async due(buffered: BufferedTicket[]): Promise<string[]> {
+    const now = this.now();
+    const live = new Set(buffered.map(ticket => ticket.id));
+    for (const id of this.releaseAt.keys()) {
+      if (!live.has(id)) this.releaseAt.delete(id);
+    }
+
+    const byRaffle = new Map<string, BufferedTicket[]>();
+    for (const ticket of buffered) {
+      byRaffle.set(ticket.raffleId, [...(byRaffle.get(ticket.raffleId) ?? []), ticket]);
+    }
+
+    const due: { id: string; at: number }[] = [];
+    for (const [raffleId, tickets] of byRaffle) {
+      const flushAt = (await this.getEndTime(raffleId)) - this.options.flushBeforeEndMs;
+
+      if (now >= flushAt) {
+        for (const ticket of this.shuffle(tickets)) {
+          due.push({ id: ticket.id, at: now });
+        }
+        continue;
+      }
+
+      const unscheduled = tickets.filter(ticket => !this.releaseAt.has(ticket.id));
+      if (unscheduled.length >= this.options.minAnonymitySet) {
+        const window = Math.min(this.options.maxDelayMs, flushAt - now);
+        for (const ticket of unscheduled) {
+          this.releaseAt.set(ticket.id, now + Math.floor(this.random() * window));
+        }
+      }
+
+      for (const ticket of tickets) {
+        const at = this.releaseAt.get(ticket.id);
+        if (at !== undefined && at <= now) {
+          due.push({ id: ticket.id, at });
+        }
+      }
+    }
+
+    due.sort((a, b) => a.at - b.at);
+    for (const { id } of due) {
+      this.releaseAt.delete(id);
+    }
+    return due.map(({ id }) => id);
+  }
+
+  /**
+   * Scheduled release time of a buffered ticket, if its batch is complete
+   */
+  scheduledAt(id: string): number | null {
+    return this.releaseAt.get(id) ?? null;
+  }
+
+  private async getEndTime(raffleId: string): Promise<number> {
+    let endTime = this.endTimes.get(raffleId);
+    if (endTime === undefined) {
+      endTime = Number(await this.options.endTime(raffleId)) * 1000;
+      this.endTimes.set(raffleId, endTime);
+    }
+    return endTime;
+  }
+
+  /**
+   * Fisher-Yates with the injected random source
+   */
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+export default MixingScheduler;
@@ -0,0 +1,118 @@
+/**
+ * Checks on relayed ticket purchases before they are queued
+ *
+ * The buyer pays with a pre-signed plain ETH transfer to the relayer wallet,
+ * sent from any address. The relayer checks it offline, broadcasts it, and
+ * only buys the ticket once it is mined; the purchase itself comes from the
+ * relayer wallet, so TicketPurchased never shows the buyer's address.
+ */
+
+import { ethers } from 'ethers';
+import { Raffle, RaffleStatus } from '../contracts/PrivateRaffle.js';
+import { MODULUS } from '../field.js';
+import { TicketError } from './errors.js';
+
+export interface TicketPurchaseRequest {
+  raffleId: string;
+  commitment: string;     // bytes32
+  payment: string;        // signed raw transaction
+}
+
+export interface VerifiedPayment {
+  hash: string;
+  from: string;
+  nonce: number;
+  value: bigint;
+}
+
+/**
+ * Check a request's shape before anything touches the chain
+ */
+export function validateTicketRequest(body: any): TicketPurchaseRequest {
+  const { raffleId, commitment, payment } = body ?? {};
+  if (raffleId === undefined || !/^\d+$/.test(String(raffleId))) {
+    throw new TicketError('INVALID_REQUEST', 400, 'raffleId must be a non-negative integer');
+  }
+  if (typeof commitment !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(commitment)) {
+    throw new TicketError('INVALID_REQUEST', 400, 'commitment must be a bytes32 hex string');
+  }
+  if (BigInt(commitment) >= MODULUS) {
+    throw new TicketError('INVALID_REQUEST', 400, 'commitment is not a canonical field element');
+  }
+  if (typeof payment !== 'string' || !ethers.isHexString(payment)) {
+    throw new TicketError('INVALID_REQUEST', 400, 'payment must be a signed raw transaction (hex)');
+  }
+  return { raffleId: String(raffleId), commitment: commitment.toLowerCase(), payment };
+}
+
+/**
+ * Refuse purchases purchaseTicket would revert, before taking a payment
+ */
+export function assertOnSale(raffle: Raffle, nowSeconds: number): void {
+  if (raffle.status !== RaffleStatus.Active) {
+    throw new TicketError('RAFFLE_NOT_ACTIVE', 409, 'Raffle is not active', { status: RaffleStatus[raffle.status] });
+  }
+  if (BigInt(nowSeconds) >= raffle.endTime) {
+    throw new TicketError('RAFFLE_ENDED', 409, 'Raffle ticket sales have ended', { endTime: raffle.endTime.toString() });
+  }
+  if (raffle.nextIndex >= raffle.maxParticipants) {
+    throw new TicketError('RAFFLE_FULL', 409, 'Raffle has no tickets left', {
+      maxParticipants: raffle.maxParticipants.toString(),
+    });
+  }
+}
+
+/**
+ * Decode a signed transfer and check it pays at least `minValue` to
+ * `relayer` on `chainId`
+ */
+export function verifyPayment(
+  raw: string,
+  expected: { chainId: bigint; relayer: string; minValue: bigint }
+): VerifiedPayment {
+  let tx: ethers.Transaction;
+  try {
+    tx = ethers.Transaction.from(raw);
+  } catch {
+    throw new TicketError('INVALID_PAYMENT', 400, 'payment is not a valid signed transaction');
+  }
+
+  if (!tx.isSigned() || !tx.hash) {
+    throw new TicketError('INVALID_PAYMENT', 400, 'payment is not signed');
+  }
+  if (tx.chainId !== expected.chainId) {
+    throw new TicketError('INVALID_PAYMENT', 400, `payment is for chain ${tx.chainId}, not ${expected.chainId}`);
+  }
+  if (!tx.to || ethers.getAddress(tx.to) !== ethers.getAddress(expected.relayer)) {
+    throw new TicketError('INVALID_PAYMENT', 400, `payment must be sent to the relayer (${expected.relayer})`);
+  }
+  if (tx.data !== '0x') {
+    throw new TicketError('INVALID_PAYMENT', 400, 'payment must be a plain transfer without calldata');
+  }
+  if (tx.value < expected.minValue) {
+    throw new TicketError('INSUFFICIENT_PAYMENT', 402, 'payment does not cover the ticket price and fee', {
+      required: expected.minValue.toString(),
+      paid: tx.value.toString(),
+    });
+  }
+
+  return { hash: tx.hash, from: tx.from!, nonce: tx.nonce, value: tx.value };
+}
+
+/**
+ * Refuse a payment the chain has already seen. A transfer to the relayer
+ * that was mined (or is waiting in the mempool) paid for something else,
+ * and replaying it must not buy another ticket.
+ */
+export async function assertPaymentUnused(
+  provider: Pick<ethers.Provider, 'getTransaction' | 'getTransactionCount'>,
+  payment: VerifiedPayment
+): Promise<void> {
+  const known = await provider.getTransaction(payment.hash);
+  if (known?.blockNumber != null) {
+    throw new TicketError('PAYMENT_ALREADY_USED', 409, 'payment was already mined');
+  }
+  if (payment.nonce < await provider.getTransactionCount(payment.from, 'pending')) {
+    throw new TicketError('PAYMENT_ALREADY_USED', 409, 'payment nonce was already used by the sender');
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Ticket purchase queue
+ *
+ * Relayed purchases go queued -> paying -> buffered -> submitted ->
+ * confirmed / failed through a single worker, like claims: the buyer's
+ * payment is broadcast and mined first, then the ticket waits in the buffer
+ * until the mixing scheduler releases it, and purchaseTicket is sent from
+ * the relayer wallet. Without a scheduler, paid tickets are sent at once.
+ *
+ * A job that fails after its payment was mined keeps the payment hash, so
+ * the operator can refund it until the job is pruned (after `retentionMs`).
+ */
+
+import { randomUUID } from 'crypto';
+import { createLogger } from '../logging/logger.js';
+import { DEFAULT_JOB_RETENTION_MS, StateWriter, pruneJobs } from '../jsonStore.js';
+import { TicketError, fromPurchaseError } from './errors.js';
+import { TicketJob, TicketJobError, TicketJobState, TicketJobStore } from './jobs.js';
+import { MixingScheduler } from './mixer.js';
+
+const log = createLogger('tickets');
+
+export interface TicketReceipt {
+  txHash: string;         // the mined version, which may be a fee-bumped replacement
+  blockNumber: number;
+  success: boolean;
+  leafIndex: number | null;
+}
+
+/**
+ * Chain operations the queue drives
+ */
+export interface TicketBackend {
+  // Broadcast and wait until mined; rejects with TicketError PAYMENT_FAILED
+  // otherwise. `rebroadcast` is set for a payment this relayer may already
+  // have broadcast before a restart, which the node may know already.
+  pay(payment: string, paymentHash: string, rebroadcast: boolean): Promise<void>;
+  preflight(raffleId: string, commitment: string): Promise<void>;
+  submit(raffleId: string, commitment: string): Promise<string>;   // tx hash, once broadcast
+  // Rejects with TicketError if the transaction can never be mined
+  waitForReceipt(txHash: string): Promise<TicketReceipt>;
+}
+
+export interface TicketQueueOptions {
+  store: TicketJobStore;
+  backend: TicketBackend;
+  mixer?: MixingScheduler;
+  retentionMs?: number;           // how long confirmed and failed jobs are kept
+}
+
+export interface TicketPurchase {
+  raffleId: string;
+  commitment: string;
+  payment: string;
+  paymentHash: string;
+  feeWei: string;
+}
+
+export class TicketQueue {
+  private readonly store: StateWriter<TicketJobState>;
+  private readonly backend: TicketBackend;
+  private readonly mixer: MixingScheduler | null;
+  private readonly retentionMs: number;
+
+  private state: TicketJobState | null = null;
+  private pending: string[] = [];
+  private working: Promise<void> | null = null;
+  private watchers = new Map<string, Promise<void>>();
+  private ticking: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: TicketQueueOptions) {
+    this.store = new StateWriter(options.store);
+    this.backend = options.backend;
+    this.mixer = options.mixer ?? null;
+    this.retentionMs = options.retentionMs ?? DEFAULT_JOB_RETENTION_MS;
+  }
+
+  /**
+   * Load persisted jobs: requeue unsent purchases (re-broadcasting their
+   * payment if it may not be mined yet) and watch sent transactions.
+   * Buffered tickets stay buffered until the scheduler releases them.
+   */
+  async initialize(): Promise<void> {
+    this.state = (await this.store.load()) ?? { version: 1, jobs: {} };
+    this.pending = [];
+    pruneJobs(this.state, this.retentionMs);
+
+    let requeued = 0;
+    let watching = 0;
+    let buffered = 0;
+    for (const job of Object.values(this.state.jobs)) {
+      if (job.status === 'submitted') {
+        this.watch(job);
+        watching++;
+      } else if (job.status === 'buffered') {
+        if (!this.mixer) {
+          job.status = 'queued';
+          this.pending.push(job.id);
+          requeued++;
+        } else {
+          buffered++;
+        }
+      } else if (job.status === 'queued' || job.status === 'paying') {
+        // 'paying' stays, so the worker knows the payment may be out already
+        this.pending.push(job.id);
+        requeued++;
+      }
+    }
+
+    await this.persist();
+    log.info(`Ticket queue resuming (${requeued} queued, ${buffered} buffered, ${watching} awaiting receipts)`);
+    this.kick();
+  }
+
+  async enqueue(purchase: TicketPurchase): Promise<TicketJob> {
+    if (this.hasPayment(purchase.paymentHash)) {
+      throw new TicketError('PAYMENT_ALREADY_USED', 409, 'This payment was already submitted');
+    }
+    if (this.isPending(purchase.raffleId, purchase.commitment)) {
+      throw new TicketError('COMMITMENT_ALREADY_USED', 409, 'A purchase of this commitment is already in progress');
+    }
+
+    const now = Date.now();
+    const job: TicketJob = {
+      id: randomUUID(),
+      status: 'queued',
+      raffleId: purchase.raffleId,
+      commitment: purchase.commitment,
+      payment: purchase.payment,
+      paymentHash: purchase.paymentHash,
+      feeWei: purchase.feeWei,
+      txHash: null,
+      blockNumber: null,
+      leafIndex: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    pruneJobs(this.getState(), this.retentionMs);
+    this.getState().jobs[job.id] = job;
+    await this.persist();
+    this.pending.push(job.id);
+    this.kick();
+    return structuredClone(job);
+  }
+
+  getJob(jobId: string): TicketJob | undefined {
+    const job = this.getState().jobs[jobId];
+    return job ? structuredClone(job) : undefined;
+  }
+
+  /**
+   * True if any job, whatever its outcome, was paid with this transaction
+   */
+  hasPayment(paymentHash: string): boolean {
+    return Object.values(this.getState().jobs).some(job => job.paymentHash === paymentHash);
+  }
+
+  /**
+   * True if `commitment` is being bought right now (not yet confirmed or failed)
+   */
+  isPending(raffleId: string, commitment: string): boolean {
+    return Object.values(this.getState().jobs).some(job =>
+      job.raffleId === raffleId
+      && job.commitment === commitment
+      && job.status !== 'confirmed'
+      && job.status !== 'failed'
+    );
+  }
+
+  /**
+   * Hand the tickets the mixing scheduler releases to the worker
+   */
+  async tick(): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.release().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  /**
+   * Check the buffer until stop() is called
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.tick().catch(error => log.error('Ticket queue tick failed:', error.message));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Resolve once every queued job has been sent and every watched
+   * transaction has settled (buffered tickets are not waited for)
+   */
+  async drain(): Promise<void> {
+    while (this.working || this.watchers.size > 0) {
+      await Promise.all([this.working, ...this.watchers.values()]);
+    }
+    await this.store.flush();
+  }
+
+  private async release(): Promise<void> {
+    if (!this.mixer) {
+      return;
+    }
+
+    const buffered = Object.values(this.getState().jobs)
+      .filter(job => job.status === 'buffered')
+      .map(job => ({ id: job.id, raffleId: job.raffleId }));
+    if (buffered.length === 0) {
+      return;
+    }
+
+    const due = await this.mixer.due(buffered);
+    for (const id of due) {
+      const job = this.getState().jobs[id];
+      Object.assign(job, { status: 'queued', updatedAt: Date.now() });
+      this.pending.push(id);
+    }
+    if (due.length > 0) {
+      await this.persist();
+      this.kick();
+    }
+  }
+
+  private kick(): void {
+    if (this.working || this.pending.length === 0) {
+      return;
+    }
+    this.working = this.work().finally(() => {
+      this.working = null;
+      this.kick();
+    });
+  }
+
+  private async work(): Promise<void> {
+    while (this.pending.length > 0) {
+      await this.process(this.getState().jobs[this.pending.shift()!]);
+    }
+  }
+
+  private async process(job: TicketJob): Promise<void> {
+    try {
+      if (job.payment) {
+        const rebroadcast = job.status === 'paying';
+        await this.update(job, { status: 'paying' });
+        await this.backend.pay(job.payment, job.paymentHash, rebroadcast);
+        await this.update(job, { payment: null });
+
+        if (this.mixer) {
+          await this.update(job, { status: 'buffered' });
+          return;
+        }
+      }
+
+      await this.backend.preflight(job.raffleId, job.commitment!);
+      const txHash = await this.backend.submit(job.raffleId, job.commitment!);
+
+      await this.update(job, { status: 'submitted', txHash });
+      log.info(`Ticket job ${job.id}: transaction submitted ${txHash}`);
+      this.watch(job);
+    } catch (error) {
+      this.setFailed(job, toJobError(job, error));
+      await this.persist();
+    }
+  }
+
+  private watch(job: TicketJob): void {
+    const watcher = (async () => {
+      try {
+        const receipt = await this.backend.waitForReceipt(job.txHash!);
+        if (receipt.success) {
+          await this.update(job, {
+            status: 'confirmed',
+            txHash: receipt.txHash,
+            blockNumber: receipt.blockNumber,
+            leafIndex: receipt.leafIndex,
+            commitment: null,
+          });
+        } else {
+          Object.assign(job, { txHash: receipt.txHash, blockNumber: receipt.blockNumber });
+          this.setFailed(job, { error: 'Ticket purchase reverted', code: 'PURCHASE_REVERTED', details: {} });
+          await this.persist();
+        }
+      } catch (error: any) {
+        if (error instanceof TicketError) {
+          this.setFailed(job, error.toJSON());
+          await this.persist();
+          return;
+        }
+        // Still 'submitted': the transaction may be mined, and is watched again after a restart
+        log.error(`Ticket job ${job.id}: waiting for ${job.txHash} failed:`, error.message);
+      }
+    })().finally(() => this.watchers.delete(job.id));
+
+    this.watchers.set(job.id, watcher);
+  }
+
+  private setFailed(job: TicketJob, error: TicketJobError): void {
+    Object.assign(job, { status: 'failed', error, payment: null, commitment: null, updatedAt: Date.now() });
+  }
+
+  private async update(job: TicketJob, patch: Partial<TicketJob>): Promise<void> {
+    Object.assign(job, patch, { updatedAt: Date.now() });
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save(this.getState());
+  }
+
+  private getState(): TicketJobState {
+    if (!this.state) {
+      throw new Error('Ticket queue not initialized. Call initialize() first.');
+    }
+    return this.state;
+  }
+}
+
+function toJobError(job: TicketJob, error: unknown): TicketJobError {
+  const decoded = fromPurchaseError(error);
+  if (decoded instanceof TicketError) {
+    return decoded.toJSON();
+  }
+
+  log.error(`Ticket job ${job.id} failed:`, (decoded as Error)?.message);
+  return { error: 'Ticket purchase failed', code: 'INTERNAL_ERROR', details: {} };
+}
+
+export default TicketQueue;
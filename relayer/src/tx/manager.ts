@@ -0,0 +1,486 @@
+/**
+ * Relayer transaction manager
+ *
+ * All relayer transactions go through one manager so nonces are assigned
+ * locally and in order. Pending transactions are polled; one that is not
+ * mined within `stuckAfterMs` is re-sent with the same nonce and bumped fees
+ * (replace-by-fee), so a single underpriced claim cannot hold back every
+ * claim queued behind it.
+ */
+
+import { ethers } from 'ethers';
+import { createLogger } from '../logging/logger.js';
+import { StateWriter } from '../jsonStore.js';
+import {
+  MemoryTransactionStore,
+  PendingTransaction,
+  SettledTransaction,
+  TransactionState,
+  TransactionStore,
+} from './store.js';
+
+const log = createLogger('tx');
+
+// Settled transactions remembered for late waiters
+const SETTLED_HISTORY = 256;
+
+export type TransactionProvider = Pick<
+  ethers.Provider,
+  | 'getNetwork'
+  | 'getFeeData'
+  | 'estimateGas'
+  | 'getTransactionCount'
+  | 'broadcastTransaction'
+  | 'getTransactionReceipt'
+  | 'waitForTransaction'
+>;
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface ManagedReceipt {
+  hash: string;          // the version that was mined, which may be a replacement
+  blockNumber: number;
+  status: number;        // 1 = success, 0 = reverted
+  gasUsed: bigint;
+}
+
+export interface TransactionManagerOptions {
+  signer: ethers.Signer;
+  provider: TransactionProvider;
+  store?: TransactionStore;
+  stuckAfterMs?: number;          // re-send with higher fees after this long unmined
+  bumpPercent?: number;           // fee increase per replacement (nodes require >= 10)
+  maxFeePerGas?: bigint | null;   // never bid above this
+  now?: () => number;
+}
+
+/**
+ * A managed transaction's nonce was consumed by a transaction the manager
+ * did not send, so none of its versions will ever be mined
+ */
+export class TransactionDroppedError extends Error {
+  constructor(public readonly nonce: number) {
+    super(`Nonce ${nonce} was used by a transaction this relayer did not send`);
+    this.name = 'TransactionDroppedError';
+  }
+}
+
+interface Fees {
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+}
+
+interface Waiter {
+  resolve: (receipt: ManagedReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+export class TransactionManager {
+  private readonly signer: ethers.Signer;
+  private readonly provider: TransactionProvider;
+  private readonly store: StateWriter<TransactionState>;
+  private readonly stuckAfterMs: number;
+  private readonly bumpPercent: bigint;
+  private readonly maxFeePerGas: bigint | null;
+  private readonly now: () => number;
+
+  private address = '';
+  private chainId = 0n;
+  private state: TransactionState | null = null;
+  private nextNonce: number | null = null;
+  private sending: Promise<unknown> = Promise.resolve();
+  private waiters = new Map<number, Waiter[]>();
+  private ticking: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: TransactionManagerOptions) {
+    this.signer = options.signer;
+    this.provider = options.provider;
+    this.store = new StateWriter(options.store ?? new MemoryTransactionStore());
+    this.stuckAfterMs = options.stuckAfterMs ?? 60_000;
+    this.bumpPercent = BigInt(options.bumpPercent ?? 15);
+    this.maxFeePerGas = options.maxFeePerGas ?? null;
+    this.now = options.now ?? Date.now;
+
+    if (this.bumpPercent < 10n) {
+      throw new Error('bumpPercent must be at least 10: nodes reject smaller replacements');
+    }
+  }
+
+  /**
+   * Load transactions that were pending before a restart
+   */
+  async initialize(): Promise<void> {
+    this.address = await this.signer.getAddress();
+    this.chainId = (await this.provider.getNetwork()).chainId;
+    this.state = (await this.store.load()) ?? { version: 1, pending: [], settled: [] };
+    this.nextNonce = null;
+
+    log.info(`Transaction manager resuming (${this.state.pending.length} pending)`);
+  }
+
+  /**
+   * Sign and broadcast a transaction with the next local nonce.
+   * Returns its hash; estimateGas reverts are thrown unchanged.
+   *
+   * `beforeBroadcast` is awaited with the signed hash before it is broadcast,
+   * so the caller can record it first and never send the same request twice
+   * after a crash.
+   */
+  send(request: TransactionRequest, beforeBroadcast?: (hash: string) => Promise<void>): Promise<string> {
+    const result = this.sending.catch(() => {}).then(() => this.sendNow(request, beforeBroadcast));
+    this.sending = result;
+    return result;
+  }
+
+  /**
+   * Resolve with the receipt of `hash`, or of whichever replacement of it
+   * gets mined
+   */
+  wait(hash: string): Promise<ManagedReceipt> {
+    const state = this.getState();
+    const tx = state.pending.find(p => p.hashes.includes(hash));
+
+    if (!tx) {
+      const settled = state.settled.find(s => s.hashes.includes(hash));
+      if (settled) {
+        return settled.minedHash
+          ? Promise.resolve({
+              hash: settled.minedHash,
+              blockNumber: settled.blockNumber!,
+              status: settled.status!,
+              gasUsed: BigInt(settled.gasUsed!),
+            })
+          : Promise.reject(new TransactionDroppedError(settled.nonce));
+      }
+      // Not sent by this manager
+      return this.provider.waitForTransaction(hash).then(receipt => toManagedReceipt(receipt!));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiters = this.waiters.get(tx.nonce) ?? [];
+      waiters.push({ resolve, reject });
+      this.waiters.set(tx.nonce, waiters);
+    });
+  }
+
+  /**
+   * Forget the local nonce and take the chain's pending count on next send
+   */
+  resync(): void {
+    this.nextNonce = null;
+  }
+
+  get pending(): PendingTransaction[] {
+    return structuredClone(this.getState().pending);
+  }
+
+  /**
+   * Check pending transactions once: settle mined ones, bump stuck ones.
+   * Concurrent calls share the same run.
+   */
+  async tick(): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runTick().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  /**
+   * Poll pending transactions until stop() is called
+   */
+  start(intervalMs: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.tick().catch(error => log.error('Transaction manager tick failed:', error.message));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async sendNow(request: TransactionRequest, beforeBroadcast?: (hash: string) => Promise<void>): Promise<string> {
+    const gasLimit = await this.provider.estimateGas({ ...request, from: this.address });
+    const fees = await this.currentFees();
+
+    for (let attempt = 0; ; attempt++) {
+      const nonce = await this.takeNonce();
+      const tx: PendingTransaction = {
+        nonce,
+        chainId: this.chainId.toString(),
+        to: request.to,
+        data: request.data,
+        value: (request.value ?? 0n).toString(),
+        gasLimit: gasLimit.toString(),
+        ...serializeFees(fees),
+        hashes: [],
+        broadcastAt: this.now(),
+      };
+
+      try {
+        const hash = await this.broadcast(tx, beforeBroadcast);
+        this.nextNonce = nonce + 1;
+        return hash;
+      } catch (error) {
+        // The nonce may or may not have been used: ask the chain again
+        this.resync();
+        if (attempt === 0 && isNonceError(error)) {
+          log.warn(`Nonce ${nonce} rejected, resyncing with the chain`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async takeNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      const chainNonce = await this.provider.getTransactionCount(this.address, 'pending');
+      // Our own pending transactions may have fallen out of the node's mempool
+      const localNonce = Math.max(-1, ...this.getState().pending.map(p => p.nonce)) + 1;
+      this.nextNonce = Math.max(chainNonce, localNonce);
+    }
+    return this.nextNonce;
+  }
+
+  /**
+   * Sign `tx` with its current fields and broadcast it. The hash is saved
+   * before broadcasting so a crash never loses track of a sent version.
+   */
+  private async broadcast(tx: PendingTransaction, beforeBroadcast?: (hash: string) => Promise<void>): Promise<string> {
+    const signed = await this.signer.signTransaction(toTransactionRequest(tx));
+    const hash = ethers.keccak256(signed);
+    const state = this.getState();
+
+    tx.hashes.push(hash);
+    tx.broadcastAt = this.now();
+    if (!state.pending.includes(tx)) {
+      state.pending.push(tx);
+    }
+    await this.persist();
+
+    try {
+      await beforeBroadcast?.(hash);
+      await this.provider.broadcastTransaction(signed);
+    } catch (error) {
+      tx.hashes.pop();
+      if (tx.hashes.length === 0) {
+        state.pending = state.pending.filter(p => p !== tx);
+      }
+      await this.persist();
+      throw error;
+    }
+
+    return hash;
+  }
+
+  private async runTick(): Promise<void> {
+    const state = this.getState();
+    if (state.pending.length === 0) {
+      return;
+    }
+
+    // Read before the receipts, so a nonce counted here is mined by the time they are looked up
+    const minedNonce = await this.provider.getTransactionCount(this.address, 'latest');
+
+    for (const tx of [...state.pending]) {
+      const receipt = await this.findReceipt(tx);
+      if (receipt) {
+        await this.settle(tx, receipt);
+      } else if (tx.nonce < minedNonce) {
+        await this.settle(tx, new TransactionDroppedError(tx.nonce));
+        this.resync();
+      } else if (this.now() - tx.broadcastAt >= this.stuckAfterMs) {
+        await this.bump(tx);
+      }
+    }
+  }
+
+  private async findReceipt(tx: PendingTransaction): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of tx.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private async settle(tx: PendingTransaction, outcome: ethers.TransactionReceipt | Error): Promise<void> {
+    const state = this.getState();
+    const mined = outcome instanceof Error ? null : toManagedReceipt(outcome);
+    const settled: SettledTransaction = {
+      nonce: tx.nonce,
+      hashes: tx.hashes,
+      minedHash: mined?.hash ?? null,
+      blockNumber: mined?.blockNumber ?? null,
+      status: mined?.status ?? null,
+      gasUsed: mined?.gasUsed.toString() ?? null,
+    };
+
+    state.pending = state.pending.filter(p => p !== tx);
+    state.settled = [...state.settled, settled].slice(-SETTLED_HISTORY);
+    await this.persist();
+
+    const waiters = this.waiters.get(tx.nonce) ?? [];
+    this.waiters.delete(tx.nonce);
+    for (const waiter of waiters) {
+      if (mined) {
+        waiter.resolve(mined);
+      } else {
+        waiter.reject(outcome as Error);
+      }
+    }
+  }
+
+  /**
+   * Re-send a stuck transaction with the same nonce and higher fees
+   */
+  private async bump(tx: PendingTransaction): Promise<void> {
+    const previous = parseFees(tx);
+    const market = await this.currentFees();
+    const bumped = this.bumpFees(previous, market);
+
+    if (!bumped) {
+      log.warn(`Transaction with nonce ${tx.nonce} is stuck at the fee cap`);
+      tx.broadcastAt = this.now();
+      return;
+    }
+
+    Object.assign(tx, serializeFees(bumped));
+    try {
+      const hash = await this.broadcast(tx);
+      log.info(`Replaced stuck transaction with nonce ${tx.nonce}: ${hash}`);
+    } catch (error: any) {
+      Object.assign(tx, serializeFees(previous));
+      if (isNonceError(error)) {
+        // Mined in the meantime; the next tick picks up the receipt
+        return;
+      }
+      log.error(`Replacing transaction with nonce ${tx.nonce} failed:`, error.message);
+    }
+  }
+
+  /**
+   * Fees at least bumpPercent above `previous` and no lower than the
+   * market, or null if the cap leaves no room for a valid replacement
+   */
+  private bumpFees(previous: Fees, market: Fees): Fees | null {
+    const raise = (value: bigint) => (value * (100n + this.bumpPercent) + 99n) / 100n;
+    const max = (...values: (bigint | null)[]) =>
+      values.reduce<bigint>((a, b) => (b !== null && b > a ? b : a), 0n);
+
+    if (previous.maxFeePerGas !== null) {
+      const minimumMaxFee = raise(previous.maxFeePerGas);
+      let maxFeePerGas = max(minimumMaxFee, market.maxFeePerGas);
+      if (this.maxFeePerGas !== null && maxFeePerGas > this.maxFeePerGas) {
+        maxFeePerGas = this.maxFeePerGas;
+      }
+      if (maxFeePerGas < minimumMaxFee) {
+        return null;
+      }
+
+      const priority = max(raise(previous.maxPriorityFeePerGas!), market.maxPriorityFeePerGas);
+      return {
+        maxFeePerGas,
+        maxPriorityFeePerGas: priority < maxFeePerGas ? priority : maxFeePerGas,
+        gasPrice: null,
+      };
+    }
+
+    const minimumGasPrice = raise(previous.gasPrice!);
+    let gasPrice = max(minimumGasPrice, market.gasPrice);
+    if (this.maxFeePerGas !== null && gasPrice > this.maxFeePerGas) {
+      gasPrice = this.maxFeePerGas;
+    }
+    return gasPrice < minimumGasPrice ? null : { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice };
+  }
+
+  private async currentFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+        gasPrice: null,
+      };
+    }
+    if (feeData.gasPrice === null) {
+      throw new Error('Provider returned no fee data');
+    }
+    return { maxFeePerGas: null, maxPriorityFeePerGas: null, gasPrice: feeData.gasPrice };
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save(this.getState());
+  }
+
+  private getState(): TransactionState {
+    if (!this.state) {
+      throw new Error('Transaction manager not initialized. Call initialize() first.');
+    }
+    return this.state;
+  }
+}
+
+function isNonceError(error: any): boolean {
+  if (ethers.isError(error, 'NONCE_EXPIRED')) {
+    return true;
+  }
+  const message = `${error?.message ?? ''} ${error?.error?.message ?? ''}`;
+  return /nonce too low|nonce has already been used|invalid nonce/i.test(message);
+}
+
+function serializeFees(fees: Fees): Pick<PendingTransaction, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'> {
+  return {
+    maxFeePerGas: fees.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString() ?? null,
+    gasPrice: fees.gasPrice?.toString() ?? null,
+  };
+}
+
+function parseFees(tx: PendingTransaction): Fees {
+  return {
+    maxFeePerGas: tx.maxFeePerGas === null ? null : BigInt(tx.maxFeePerGas),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas === null ? null : BigInt(tx.maxPriorityFeePerGas),
+    gasPrice: tx.gasPrice === null ? null : BigInt(tx.gasPrice),
+  };
+}
+
+function toTransactionRequest(tx: PendingTransaction): ethers.TransactionRequest {
+  const fees = parseFees(tx);
+  return {
+    type: fees.maxFeePerGas !== null ? 2 : 0,
+    chainId: BigInt(tx.chainId),
+    nonce: tx.nonce,
+    to: tx.to,
+    data: tx.data,
+    value: BigInt(tx.value),
+    gasLimit: BigInt(tx.gasLimit),
+    ...(fees.maxFeePerGas !== null
+      ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+      : { gasPrice: fees.gasPrice }),
+  };
+}
+
+function toManagedReceipt(receipt: ethers.TransactionReceipt): ManagedReceipt {
+  return {
+    hash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    status: receipt.status ?? 0,
+    gasUsed: receipt.gasUsed,
+  };
+}
+
+export default TransactionManager;
@@ -0,0 +1,52 @@
+/**
+ * Pending transaction persistence
+ *
+ * Every broadcast version of a transaction is recorded, so after a restart
+ * the manager still recognises a fee-bumped replacement as the transaction
+ * a claim job is waiting for.
+ */
+
+import { FileStateStore, MemoryStateStore, StateStore, VersionedState } from '../jsonStore.js';
+
+export interface PendingTransaction {
+  nonce: number;
+  chainId: string;
+  to: string;
+  data: string;
+  value: string;                       // wei
+  gasLimit: string;
+  // EIP-1559 fees, or gasPrice on chains without a base fee
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  hashes: string[];                    // every broadcast version, oldest first
+  broadcastAt: number;                 // ms since epoch of the latest version
+}
+
+/**
+ * Outcome of a transaction that left the pending set, kept so a waiter
+ * that arrives late (e.g. after a restart) can still find a replacement
+ */
+export interface SettledTransaction {
+  nonce: number;
+  hashes: string[];
+  minedHash: string | null;            // null if the nonce was used by someone else
+  blockNumber: number | null;
+  status: number | null;
+  gasUsed: string | null;
+}
+
+export interface TransactionState extends VersionedState {
+  pending: PendingTransaction[];
+  settled: SettledTransaction[];       // most recent last
+}
+
+export type TransactionStore = StateStore<TransactionState>;
+
+export class FileTransactionStore extends FileStateStore<TransactionState> {
+  constructor(filePath: string) {
+    super(filePath, 'transaction');
+  }
+}
+
+export class MemoryTransactionStore extends MemoryStateStore<TransactionState> {}
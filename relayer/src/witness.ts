@@ -0,0 +1,293 @@
+/**
+ * Encrypted witnesses for /claim-with-proof-generation
+ *
+ * A winner who lets the relayer prove has to hand over the ticket's secret
+ * and nullifier. Sent as plain JSON they are readable by anything that
+ * terminates TLS or logs request bodies, so they are sealed to the relayer's
+ * X25519 key (GET /pubkey) instead, ECIES style:
+ *
+ *   shared     = X25519(ephemeral private, relayer public)
+ *   key        = HKDF-SHA256(shared, salt = ephemeral public | relayer public, info = "raffero-witness-v1")
+ *   ciphertext = AES-256-GCM(key, nonce, secret (32) | nullifier (32), aad = public inputs) | tag (16)
+ *
+ * The public inputs (raffle, recipient, winner index, root, tree depth) are
+ * the authenticated data, so an envelope cannot be replayed with another
+ * recipient. The relayer opens envelopes only inside a prover worker and
+ * wipes the plaintext, shared secret and key once the proof is done.
+ *
+ * Like note.ts, this module only uses Node built-ins.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import type { ProofInputs } from './prover.js';
+import { fieldToBytes, toField } from './field.js';
+
+export const WITNESS_ENVELOPE_VERSION = 1;
+export const WITNESS_KEM = 'X25519-HKDF-SHA256';
+export const WITNESS_AEAD = 'AES-256-GCM';
+
+const HKDF_INFO = 'raffero-witness-v1';
+const KEY_LENGTH = 32;
+const KEY_ID_LENGTH = 8;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const PLAINTEXT_LENGTH = 64;
+// DER wrappers of a raw X25519 key (RFC 8410)
+const PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export interface WitnessKey {
+  privateKey: Uint8Array;   // 32 bytes, raw X25519
+  publicKey: Uint8Array;
+}
+
+/**
+ * GET /pubkey response
+ */
+export interface WitnessPublicKey {
+  kem: string;
+  aead: string;
+  keyId: string;            // first 8 bytes of sha256(publicKey)
+  publicKey: string;        // 0x hex, raw X25519
+}
+
+export interface WitnessEnvelope {
+  version: number;
+  keyId: string;
+  ephemeralPublicKey: string;   // 0x hex
+  nonce: string;                // 0x hex
+  ciphertext: string;           // 0x hex, tag appended
+}
+
+export interface Witness {
+  secret: bigint;
+  nullifier: bigint;
+}
+
+/**
+ * Public inputs an envelope is bound to
+ */
+export type WitnessContext = Pick<ProofInputs, 'raffleId' | 'recipient' | 'winnerIndex' | 'root' | 'treeDepth'>;
+
+/**
+ * ProofInputs with the secret and nullifier sealed in `witness`
+ */
+export type EncryptedProofInputs = Omit<ProofInputs, 'secret' | 'nullifier'> & { witness: WitnessEnvelope };
+
+export type ProofRequest = ProofInputs | EncryptedProofInputs;
+
+/**
+ * Envelopes that are malformed, for another key, or do not decrypt
+ */
+export class WitnessEnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WitnessEnvelopeError';
+  }
+}
+
+export function isEncryptedProofInputs(inputs: ProofRequest): inputs is EncryptedProofInputs {
+  return 'witness' in inputs;
+}
+
+export function generateWitnessKey(): WitnessKey {
+  const { privateKey } = generateKeyPairSync('x25519');
+  return witnessKeyFromPrivate(privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(PKCS8_PREFIX.length));
+}
+
+export function witnessKeyFromPrivate(privateKey: Uint8Array): WitnessKey {
+  if (privateKey.length !== KEY_LENGTH) {
+    throw new Error(`Witness private key must be ${KEY_LENGTH} bytes, got ${privateKey.length}`);
+  }
+  const publicKey = createPublicKey(privateKeyObject(privateKey))
+    .export({ format: 'der', type: 'spki' })
+    .subarray(SPKI_PREFIX.length);
+  return { privateKey: Uint8Array.from(privateKey), publicKey: Uint8Array.from(publicKey) };
+}
+
+/**
+ * The relayer's witness key, created (readable by the owner only) on first use
+ */
+export function loadWitnessKey(filePath: string): WitnessKey {
+  if (fs.existsSync(filePath)) {
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (saved.version !== 1) {
+      throw new Error(`Unsupported witness key file version ${saved.version} (${filePath})`);
+    }
+    return witnessKeyFromPrivate(Buffer.from(saved.privateKey.replace(/^0x/, ''), 'hex'));
+  }
+
+  const key = generateWitnessKey();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    JSON.stringify({ version: 1, privateKey: toHex(key.privateKey) }, null, 2),
+    { mode: 0o600, flag: 'wx' }
+  );
+  return key;
+}
+
+export function describeWitnessKey(key: Pick<WitnessKey, 'publicKey'>): WitnessPublicKey {
+  return { kem: WITNESS_KEM, aead: WITNESS_AEAD, keyId: keyId(key.publicKey), publicKey: toHex(key.publicKey) };
+}
+
+/**
+ * Seal a ticket's secret and nullifier to the relayer key, bound to the
+ * public inputs of the proof the relayer is asked to generate
+ */
+export function encryptWitness(
+  relayerKey: WitnessPublicKey,
+  witness: Witness,
+  context: WitnessContext
+): WitnessEnvelope {
+  if (relayerKey.kem !== WITNESS_KEM || relayerKey.aead !== WITNESS_AEAD) {
+    throw new WitnessEnvelopeError(`Unsupported relayer key (${relayerKey.kem}, ${relayerKey.aead})`);
+  }
+  const recipientPublic = fromHex('publicKey', relayerKey.publicKey, KEY_LENGTH);
+  if (keyId(recipientPublic) !== relayerKey.keyId) {
+    throw new WitnessEnvelopeError('Relayer keyId does not match its public key');
+  }
+
+  const ephemeral = generateWitnessKey();
+  const nonce = randomBytes(NONCE_LENGTH);
+  const key = deriveKey(ephemeral.privateKey, recipientPublic, ephemeral.publicKey, recipientPublic);
+  const plaintext = Buffer.concat([fieldToBytes(witness.secret), fieldToBytes(witness.nullifier)]);
+  try {
+    const cipher = createCipheriv('aes-256-gcm', key, nonce);
+    cipher.setAAD(associatedData(context));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+    return {
+      version: WITNESS_ENVELOPE_VERSION,
+      keyId: relayerKey.keyId,
+      ephemeralPublicKey: toHex(ephemeral.publicKey),
+      nonce: toHex(nonce),
+      ciphertext: toHex(ciphertext),
+    };
+  } finally {
+    key.fill(0);
+    plaintext.fill(0);
+    ephemeral.privateKey.fill(0);
+  }
+}
+
+/**
+ * Throw WitnessEnvelopeError unless `envelope` is well-formed and sealed to
+ * the key `expectedKeyId`. Does not decrypt.
+ */
+export function checkWitnessEnvelope(envelope: unknown, expectedKeyId: string): asserts envelope is WitnessEnvelope {
+  const e = envelope as Partial<WitnessEnvelope> | null;
+  if (typeof e !== 'object' || e === null) {
+    throw new WitnessEnvelopeError('witness must be an envelope object');
+  }
+  if (e.version !== WITNESS_ENVELOPE_VERSION) {
+    throw new WitnessEnvelopeError(`Unsupported witness envelope version ${e.version}`);
+  }
+  if (e.keyId !== expectedKeyId) {
+    throw new WitnessEnvelopeError(`Witness is encrypted to key ${e.keyId}, not ${expectedKeyId}; fetch GET /pubkey again`);
+  }
+  fromHex('ephemeralPublicKey', e.ephemeralPublicKey, KEY_LENGTH);
+  fromHex('nonce', e.nonce, NONCE_LENGTH);
+  fromHex('ciphertext', e.ciphertext, PLAINTEXT_LENGTH + TAG_LENGTH);
+}
+
+/**
+ * Open `inputs.witness` and run `use` with the decrypted witness. The
+ * plaintext, shared secret and key are zeroed afterwards; the bigints (and
+ * whatever strings the prover derives from them) cannot be wiped in JS and
+ * are simply dropped.
+ */
+export async function withWitness<T>(
+  key: WitnessKey,
+  inputs: EncryptedProofInputs,
+  use: (witness: Witness) => Promise<T>
+): Promise<T> {
+  const envelope = inputs.witness;
+  checkWitnessEnvelope(envelope, keyId(key.publicKey));
+
+  const ephemeralPublic = fromHex('ephemeralPublicKey', envelope.ephemeralPublicKey, KEY_LENGTH);
+  const sealed = fromHex('ciphertext', envelope.ciphertext, PLAINTEXT_LENGTH + TAG_LENGTH);
+  const aesKey = deriveKey(key.privateKey, ephemeralPublic, ephemeralPublic, key.publicKey);
+  let plaintext: Buffer | null = null;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', aesKey, fromHex('nonce', envelope.nonce, NONCE_LENGTH));
+    decipher.setAAD(associatedData(inputs));
+    decipher.setAuthTag(sealed.subarray(PLAINTEXT_LENGTH));
+    try {
+      plaintext = Buffer.concat([decipher.update(sealed.subarray(0, PLAINTEXT_LENGTH)), decipher.final()]);
+    } catch {
+      throw new WitnessEnvelopeError('Witness does not decrypt for these public inputs');
+    }
+
+    return await use({
+      secret: toField(plaintext.subarray(0, 32)),
+      nullifier: toField(plaintext.subarray(32)),
+    });
+  } finally {
+    aesKey.fill(0);
+    plaintext?.fill(0);
+  }
+}
+
+/**
+ * AES key from an X25519 exchange; the shared secret is wiped before returning
+ */
+function deriveKey(privateKey: Uint8Array, publicKey: Uint8Array, ephemeralPublic: Uint8Array, recipientPublic: Uint8Array): Buffer {
+  const shared = diffieHellman({
+    privateKey: privateKeyObject(privateKey),
+    publicKey: createPublicKey({ key: Buffer.concat([SPKI_PREFIX, publicKey]), format: 'der', type: 'spki' }),
+  });
+  try {
+    if (shared.every(byte => byte === 0)) {
+      throw new WitnessEnvelopeError('Invalid ephemeral public key');
+    }
+    const okm = new Uint8Array(
+      hkdfSync('sha256', shared, Buffer.concat([ephemeralPublic, recipientPublic]), HKDF_INFO, KEY_LENGTH)
+    );
+    const key = Buffer.from(okm);   // a copy, unlike Buffer.from(ArrayBuffer)
+    okm.fill(0);
+    return key;
+  } finally {
+    shared.fill(0);
+  }
+}
+
+function privateKeyObject(privateKey: Uint8Array) {
+  return createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' });
+}
+
+function associatedData(context: WitnessContext): Buffer {
+  try {
+    const fields = [context.raffleId, context.recipient, context.winnerIndex, context.root, context.treeDepth];
+    return Buffer.from(`${HKDF_INFO}:${fields.map(value => toField(value).toString()).join(':')}`);
+  } catch (error: any) {
+    throw new WitnessEnvelopeError(`Invalid public inputs: ${error.message}`);
+  }
+}
+
+function keyId(publicKey: Uint8Array): string {
+  return toHex(createHash('sha256').update(publicKey).digest().subarray(0, KEY_ID_LENGTH));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(name: string, value: unknown, length: number): Buffer {
+  if (typeof value !== 'string' || !new RegExp(`^0x[0-9a-fA-F]{${length * 2}}$`).test(value)) {
+    throw new WitnessEnvelopeError(`${name} must be ${length} bytes of 0x hex`);
+  }
+  return Buffer.from(value.slice(2), 'hex');
+}
@@ -0,0 +1,615 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { RelayerAppOptions, createRelayerApp } from '../src/app.js';
+import { PRIVATE_RAFFLE_ABI, PrivateRaffleContract, RaffleOutput, RaffleStatus } from '../src/contracts/PrivateRaffle.js';
+import { createClaimBackend } from '../src/claim/backend.js';
+import { ClaimQueue } from '../src/claim/queue.js';
+import { MemoryClaimJobStore } from '../src/claim/jobs.js';
+import { createTicketBackend } from '../src/tickets/backend.js';
+import { TicketQueue } from '../src/tickets/queue.js';
+import { MemoryTicketJobStore } from '../src/tickets/jobs.js';
+import { FeeEngine } from '../src/fees/engine.js';
+import { ProverBusyError, ProverMetrics } from '../src/prover/pool.js';
+import { ProofInputs } from '../src/prover.js';
+import { CircuitInputError } from '../src/circuit.js';
+import { raffleEventsInterface } from '../src/indexer/events.js';
+import { ManagedReceipt, TransactionRequest } from '../src/tx/manager.js';
+import { PoseidonIMT } from '../src/merkleTree.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { describeWitnessKey, generateWitnessKey } from '../src/witness.js';
+import { configureLogging, restoreLogging } from '../src/logging/logger.js';
+import { fieldToHex, toField } from '../src/field.js';
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+const CHAIN_ID = 31337n;
+const RAFFLE_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const GWEI = 10n ** 9n;
+const PRICE = ethers.parseEther('0.01');
+const LEVELS = 3;
+const TX_HASH = '0x' + 'ab'.repeat(32);
+const COMMITMENT = fieldToHex(0x1234n);
+
+const relayer = ethers.Wallet.createRandom();
+const buyer = ethers.Wallet.createRandom();
+
+let hasher: Poseidon2Hasher;
+let quietLogs: ReturnType<typeof configureLogging>;
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+  quietLogs = configureLogging({ level: 'silent' });
+});
+
+after(async () => {
+  restoreLogging(quietLogs);
+  await hasher.destroy();
+});
+
+/**
+ * A CALL_EXCEPTION carrying a PrivateRaffle custom error, as ethers raises it
+ */
+function revert(name: string, args: unknown[] = []): Error {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: iface.encodeErrorResult(name, args),
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  } as any);
+}
+
+/**
+ * In-process stand-in for PrivateRaffle: raffle 1 with a real PoseidonIMT as
+ * its tree, and the revert its next claimPrize / purchaseTicket simulation raises
+ */
+class FakePrivateRaffle {
+  status = RaffleStatus.Active;
+  winnerIndex = 0n;
+  endTime = BigInt(Math.floor(Date.now() / 1000) + 3600);
+  commitmentList: string[] = [];
+  claimRevert: Error | null = null;
+  purchaseRevert: Error | null = null;
+  receiptLogs: ethers.Log[] = [];
+  tree!: PoseidonIMT;
+
+  async init(): Promise<this> {
+    this.tree = new PoseidonIMT(hasher, LEVELS);
+    await this.tree.initEmpty();
+    return this;
+  }
+
+  async addLeaf(commitment: string): Promise<number> {
+    this.commitmentList.push(commitment);
+    return this.tree.insert(toField(commitment));
+  }
+
+  /**
+   * Apply a transaction sent to the contract, as a node would when mining it
+   */
+  async mine(request: TransactionRequest): Promise<void> {
+    const call = iface.parseTransaction({ data: request.data, value: request.value });
+    this.receiptLogs = [];
+    if (call?.name === 'purchaseTicket') {
+      const [raffleId, commitment] = call.args;
+      const leafIndex = await this.addLeaf(commitment);
+      const log = raffleEventsInterface.encodeEventLog('TicketPurchased', [raffleId, leafIndex, commitment]);
+      this.receiptLogs.push({ ...log, address: RAFFLE_ADDRESS, blockNumber: 7, index: 0 } as unknown as ethers.Log);
+    }
+  }
+
+  contract(): PrivateRaffleContract {
+    const simulated = (error: () => Error | null) =>
+      Object.assign(async () => assert.fail('transactions go through the transaction manager'), {
+        staticCall: async () => {
+          const thrown = error();
+          if (thrown) throw thrown;
+        },
+      });
+
+    return {
+      interface: iface,
+      getAddress: async () => RAFFLE_ADDRESS,
+      getRaffle: async () => this.output(),
+      getRoot: async () => fieldToHex(this.tree.root()),
+      commitmentUsed: async (_raffleId: bigint, commitment: string) => this.commitmentList.includes(commitment),
+      claimPrize: simulated(() => this.claimRevert),
+      purchaseTicket: simulated(() => this.purchaseRevert),
+    } as unknown as PrivateRaffleContract;
+  }
+
+  private output(): RaffleOutput {
+    return {
+      creator: ethers.ZeroAddress,
+      ticketPrice: PRICE,
+      maxParticipants: BigInt(2 ** LEVELS),
+      duration: 3600n,
+      endTime: this.endTime,
+      levels: BigInt(LEVELS),
+      nextIndex: BigInt(this.commitmentList.length),
+      root: fieldToHex(this.tree.root()),
+      prizeType: 0n,
+      prizePool: ethers.parseEther('1'),
+      status: BigInt(this.status),
+      winnerIndex: this.winnerIndex,
+      requestId: 0n,
+      randomnessRequested: this.status !== RaffleStatus.Active,
+      createdAt: 0n,
+    };
+  }
+}
+
+/**
+ * Transaction manager that mines everything it is sent
+ */
+class StubTransactionManager {
+  sent: TransactionRequest[] = [];
+
+  constructor(private readonly raffle: FakePrivateRaffle) {}
+
+  async send(request: TransactionRequest): Promise<string> {
+    this.sent.push(request);
+    await this.raffle.mine(request);
+    return TX_HASH;
+  }
+
+  async wait(hash: string): Promise<ManagedReceipt> {
+    return { hash, blockNumber: 7, status: 1, gasUsed: 2_500_000n };
+  }
+}
+
+/**
+ * Prover and pool stand-ins: inputs are checked only for the tree depth,
+ * proofs are three bytes
+ */
+const stubProver = {
+  ready: true,
+  async buildCircuitInputs(inputs: ProofInputs) {
+    if (inputs.treeDepth !== String(LEVELS)) {
+      throw new CircuitInputError(`treeDepth must be ${LEVELS}`);
+    }
+    return {};
+  },
+  verifyProof: async () => true,
+  formatProofForContract: (proof: Uint8Array) => ethers.hexlify(proof),
+  formatPublicInputsForContract: (publicInputs: string[]) => publicInputs.map(input => fieldToHex(input)),
+};
+
+class StubProverPool {
+  ready = true;
+  busy = false;
+  proved: ProofInputs[] = [];
+
+  checkCapacity(): void {
+    if (this.busy) throw new ProverBusyError(3);
+  }
+
+  metrics(): ProverMetrics {
+    return {
+      workers: 1, busy: 0, queued: 0, maxConcurrentProofs: 2,
+      completed: this.proved.length, failed: 0, rejected: 0, proving: null, waiting: null,
+    };
+  }
+
+  async generateProof(inputs: any) {
+    this.proved.push(inputs);
+    return { proof: new Uint8Array([1, 2, 3]), publicInputs: [inputs.root, '1', '2', inputs.raffleId, inputs.winnerIndex, inputs.treeDepth] };
+  }
+}
+
+/**
+ * Provider answering the app, the fee engine and the ticket backend
+ */
+function fakeProvider(raffle: FakePrivateRaffle) {
+  const mined = new Set<string>();
+  const nonces = new Map<string, number>();
+  return {
+    mined,
+    nonces,
+    getNetwork: async () => new ethers.Network('anvil', CHAIN_ID),
+    getFeeData: async () => new ethers.FeeData(null, 2n * GWEI, GWEI),
+    getBalance: async () => ethers.parseEther('1.5'),
+    broadcastTransaction: async () => ({}) as any,
+    getTransaction: async (hash: string) => (mined.has(hash) ? { hash, blockNumber: 5 } as ethers.TransactionResponse : null),
+    getTransactionCount: async (address: string) => nonces.get(address) ?? 0,
+    waitForTransaction: async () => ({ status: 1 }) as any,
+    getTransactionReceipt: async () => ({ logs: raffle.receiptLogs }) as unknown as ethers.TransactionReceipt,
+  };
+}
+
+interface TestRelayer {
+  app: ReturnType<typeof createRelayerApp>;
+  raffle: FakePrivateRaffle;
+  provider: ReturnType<typeof fakeProvider>;
+  txManager: StubTransactionManager;
+  proverPool: StubProverPool;
+  claimQueue: ClaimQueue;
+  ticketQueue: TicketQueue;
+}
+
+/**
+ * The app over the stand-ins above. `patch` replaces
+ * any of its options, e.g. { contract: null } for a relayer without one.
+ */
+async function startRelayer(patch: Partial<RelayerAppOptions> = {}): Promise<TestRelayer> {
+  const raffle = await new FakePrivateRaffle().init();
+  const contract = raffle.contract();
+  const provider = fakeProvider(raffle);
+  const txManager = new StubTransactionManager(raffle);
+  const proverPool = new StubProverPool();
+
+  const feeEngine = new FeeEngine({
+    provider,
+    contract,
+    signer: relayer,
+    claimGas: 3_000_000n,
+    ticketGas: 500_000n,
+    marginPercent: 20,
+    maxPrizePercent: 10,
+    quoteTtlSeconds: 300,
+  });
+  await feeEngine.initialize();
+
+  const claimQueue = new ClaimQueue({
+    store: new MemoryClaimJobStore(),
+    backend: createClaimBackend({ contract, txManager, prover: stubProver, proverPool, feeEngine }),
+  });
+  await claimQueue.initialize();
+
+  const ticketQueue = new TicketQueue({
+    store: new MemoryTicketJobStore(),
+    backend: createTicketBackend({ contract, provider, txManager, feeEngine, paymentTimeoutMs: 1000 }),
+  });
+  await ticketQueue.initialize();
+
+  const app = createRelayerApp({
+    provider,
+    signer: relayer,
+    contract,
+    prover: stubProver,
+    proverPool,
+    witnessKey: describeWitnessKey(generateWitnessKey()),
+    indexer: { getTree: () => raffle.tree, sync: async () => 0 },
+    claimQueue,
+    ticketQueue,
+    feeEngine,
+    config: {
+      privacyMode: 'standard',
+      requestJitterMs: 0,
+      witnessEncryption: 'optional',
+      fee: { claimGas: 3_000_000n, ticketGas: 500_000n, marginPercent: 20, maxPrizePercent: 10 },
+    },
+    ...patch,
+  });
+
+  return {
+    app,
+    raffle,
+    provider,
+    txManager,
+    proverPool,
+    claimQueue,
+    ticketQueue,
+  };
+}
+
+function claimBody(patch: Record<string, unknown> = {}) {
+  const root = fieldToHex(0x1234n);
+  return {
+    raffleId: '1',
+    proof: '0x' + 'ab'.repeat(64),
+    publicInputs: [root, fieldToHex(7n), fieldToHex(8n), fieldToHex(1n), fieldToHex(0n), fieldToHex(BigInt(LEVELS))],
+    recipient: RECIPIENT,
+    ...patch,
+  };
+}
+
+function proofGenerationBody(patch: Record<string, unknown> = {}) {
+  return {
+    raffleId: '1',
+    secret: '123',
+    nullifier: '456',
+    siblings: ['0', '0', '0'],
+    recipient: RECIPIENT,
+    root: '42',
+    winnerIndex: '0',
+    treeDepth: String(LEVELS),
+    ...patch,
+  };
+}
+
+test('GET /health reports the relayer balance, fee settings and prover metrics', async () => {
+  const relayerApp = await startRelayer();
+  const { status, body, headers } = await request(relayerApp.app).get('/health');
+  assert.equal(status, 200);
+  assert.equal(body.relayerBalance, '1.5');
+  assert.deepEqual(body.fee, { marginPercent: 20, maxPrizePercent: 10, claimGasEstimate: '3000000', ticketGasEstimate: '500000' });
+  assert.equal(body.contractConfigured, true);
+  assert.equal(body.prover.workers, 1);
+  assert.equal(headers['x-powered-by'], undefined);
+});
+
+test('every route but /health answers 503 without a contract or prover', async () => {
+  const relayerApp = await startRelayer({
+    contract: null, prover: null, proverPool: null, witnessKey: null,
+    indexer: null, claimQueue: null, ticketQueue: null, feeEngine: null,
+  });
+  assert.equal((await request(relayerApp.app).get('/health')).body.contractConfigured, false);
+  for (const [method, path, body] of [
+    ['GET', '/pubkey'],
+    ['GET', '/raffle/1'],
+    ['GET', '/raffle/1/path/0'],
+    ['GET', '/raffle/1/leaves'],
+    ['GET', '/fee?raffleId=1'],
+    ['GET', '/ticket/fee?raffleId=1'],
+    ['POST', '/claim', claimBody()],
+    ['GET', '/claim/abc'],
+    ['POST', '/claim-with-proof-generation', proofGenerationBody()],
+    ['POST', '/ticket', {}],
+    ['GET', '/ticket/abc'],
+  ] as const) {
+    const response = method === 'GET'
+      ? await request(relayerApp.app).get(path)
+      : await request(relayerApp.app).post(path).send(body ?? {});
+    assert.equal(response.status, 503, `${method} ${path}`);
+  }
+});
+
+test('GET /raffle/:raffleId shows public data and the winner only once drawn', async () => {
+  const relayerApp = await startRelayer();
+  await relayerApp.raffle.addLeaf(COMMITMENT);
+  relayerApp.raffle.winnerIndex = 0n;
+
+  let { status, body } = await request(relayerApp.app).get('/raffle/1');
+  assert.equal(status, 200);
+  assert.equal(body.status, 'Active');
+  assert.equal(body.participants, '1');
+  assert.equal(body.ticketPrice, PRICE.toString());
+  assert.equal(body.winnerIndex, null);
+  assert.equal(body.root, fieldToHex(relayerApp.raffle.tree.root()));
+
+  relayerApp.raffle.status = RaffleStatus.Closed;
+  ({ body } = await request(relayerApp.app).get('/raffle/1'));
+  assert.equal(body.status, 'Closed');
+  assert.equal(body.winnerIndex, '0');
+});
+
+test('GET /raffle/:raffleId/path and /leaves serve the indexed tree only while it matches the contract', async () => {
+  const relayerApp = await startRelayer();
+  await relayerApp.raffle.addLeaf(COMMITMENT);
+  await relayerApp.raffle.addLeaf(fieldToHex(0x5678n));
+  const tree = relayerApp.raffle.tree;
+
+  const path = await request(relayerApp.app).get('/raffle/1/path/1');
+  assert.equal(path.status, 200);
+  assert.deepEqual(path.body.pathElements, tree.proof(1).pathElements.map(e => fieldToHex(e)));
+  assert.deepEqual(path.body.pathIndices, [1, 0, 0]);
+  assert.equal((await request(relayerApp.app).get('/raffle/1/path/2')).status, 404);
+  assert.equal((await request(relayerApp.app).get('/raffle/x/path/0')).status, 404);
+
+  const leaves = await request(relayerApp.app).get('/raffle/1/leaves');
+  assert.deepEqual(leaves.body.leaves, [COMMITMENT, fieldToHex(0x5678n)]);
+  assert.equal(leaves.body.treeDepth, LEVELS);
+
+  // An indexer whose tree differs from the contract's, even after a sync
+  const other = new PoseidonIMT(hasher, LEVELS);
+  await other.initEmpty();
+  await other.insert(1n);
+  let synced = 0;
+  const stale = await startRelayer({ indexer: { getTree: () => other, sync: async () => synced++ } });
+  const { status, body } = await request(stale.app).get('/raffle/1/leaves');
+  assert.equal(status, 409);
+  assert.equal(body.error, 'Indexed root does not match contract root');
+  // The roots are public: error bodies keep them readable
+  assert.equal(body.indexedRoot, fieldToHex(other.root()));
+  assert.equal(body.contractRoot, fieldToHex(stale.raffle.tree.root()));
+  assert.equal(synced, 1);
+});
+
+test('RPC errors are redacted before they are returned', async () => {
+  const relayerApp = await startRelayer();
+  const contract = relayerApp.raffle.contract();
+  contract.getRaffle = (async () => {
+    throw new Error(`missing revert data (transaction={ "to": "${RAFFLE_ADDRESS}", "from": "${RECIPIENT}" })`);
+  }) as any;
+  const failing = await startRelayer({ contract });
+
+  const { status, body } = await request(failing.app).get('/raffle/1');
+  assert.equal(status, 500);
+  assert.equal(body.error, 'missing revert data (transaction={ "to": "[address]", "from": "[address]" })');
+});
+
+test('GET /fee and /ticket/fee return signed quotes', async () => {
+  const relayerApp = await startRelayer();
+  assert.equal((await request(relayerApp.app).get('/fee')).status, 400);
+  assert.equal((await request(relayerApp.app).get('/ticket/fee?raffleId=one')).status, 400);
+
+  const { status, body } = await request(relayerApp.app).get('/fee?raffleId=1');
+  assert.equal(status, 200);
+  // 3,000,000 gas x 2 gwei x 1.2
+  assert.equal(body.feeWei, (7_200_000n * GWEI).toString());
+  assert.equal(body.relayer, relayer.address);
+  assert.ok(ethers.isHexString(body.signature));
+
+  const ticket = await request(relayerApp.app).get('/ticket/fee?raffleId=1');
+  assert.equal(ticket.body.total, (PRICE + 1_200_000n * GWEI).toString());
+});
+
+test('POST /claim queues the claim and sends claimPrize with the quoted fee', async () => {
+  const relayerApp = await startRelayer();
+  assert.equal((await request(relayerApp.app).post('/claim').send(claimBody({ proof: undefined }))).body.code, 'INVALID_REQUEST');
+  assert.equal((await request(relayerApp.app).post('/claim').send(claimBody({ publicInputs: ['0x01'] }))).body.code, 'INVALID_PUBLIC_INPUTS');
+  const forged = await request(relayerApp.app).post('/claim').send(claimBody({ feeQuote: { raffleId: '1', feeWei: '1', expiresAt: 1, signature: '0x' } }));
+  assert.equal(forged.body.code, 'INVALID_FEE_QUOTE');
+
+  const quote = (await request(relayerApp.app).get('/fee?raffleId=1')).body;
+  const { status, body } = await request(relayerApp.app).post('/claim').send(claimBody({ feeQuote: quote }));
+  assert.equal(status, 202);
+  assert.equal(body.status, 'queued');
+  assert.equal(body.recipient, undefined, 'the job view never includes the recipient');
+
+  await relayerApp.claimQueue.drain();
+  const job = await request(relayerApp.app).get(`/claim/${body.jobId}`);
+  assert.equal(job.body.status, 'confirmed');
+  assert.equal(job.body.txHash, TX_HASH);
+
+  const [sent] = relayerApp.txManager.sent;
+  assert.equal(sent.to, RAFFLE_ADDRESS);
+  const args = iface.decodeFunctionData('claimPrize', sent.data);
+  assert.equal(args.recipient, RECIPIENT);
+  assert.equal(args.relayerFee.toString(), quote.feeWei);
+
+  assert.equal((await request(relayerApp.app).get('/claim/nope')).status, 404);
+});
+
+// Expected code of each claimPrize revert; anything else is CLAIM_REVERTED
+const CLAIM_REVERT_CODES: Record<string, string> = {
+  InvalidProof: 'INVALID_PROOF',
+  InvalidRaffleId: 'INVALID_RAFFLE_ID',
+  InvalidRootMismatch: 'STALE_ROOT',
+  NotWinner: 'NOT_WINNER',
+  RaffleNotClosed: 'RAFFLE_NOT_CLOSED',
+  NullifierAlreadyUsed: 'NULLIFIER_ALREADY_USED',
+  InvalidRecipientBinding: 'INVALID_RECIPIENT_BINDING',
+  TransferFailed: 'PAYOUT_FAILED',
+};
+
+function sampleArg(type: string): unknown {
+  if (/^u?int/.test(type)) return 1n;
+  if (type === 'address') return RAFFLE_ADDRESS;
+  if (type === 'bool') return false;
+  if (/^bytes/.test(type)) return fieldToHex(1n);
+  return 'reason';
+}
+
+test('POST /claim answers every PrivateRaffle revert with its code, without queueing or sending', async () => {
+  const relayerApp = await startRelayer();
+  const errors: ethers.ErrorFragment[] = [];
+  iface.forEachError(fragment => errors.push(fragment));
+  assert.ok(errors.length > Object.keys(CLAIM_REVERT_CODES).length);
+
+  for (const fragment of errors) {
+    relayerApp.raffle.claimRevert = revert(fragment.name, fragment.inputs.map(input => sampleArg(input.type)));
+    const { status, body } = await request(relayerApp.app).post('/claim').send(claimBody());
+
+    assert.ok(status >= 400 && status < 500, fragment.name);
+    assert.equal(body.jobId, undefined, fragment.name);
+    assert.equal(body.code, CLAIM_REVERT_CODES[fragment.name] ?? 'CLAIM_REVERTED', fragment.name);
+    assert.equal(body.details.error, fragment.name);
+  }
+  await relayerApp.claimQueue.drain();
+  assert.equal(relayerApp.txManager.sent.length, 0);
+});
+
+test('POST /claim-with-proof-generation checks inputs, honours back-pressure and proves in the pool', async () => {
+  const relayerApp = await startRelayer();
+  const badDepth = await request(relayerApp.app).post('/claim-with-proof-generation').send(proofGenerationBody({ treeDepth: '4' }));
+  assert.equal(badDepth.status, 400);
+  assert.match(badDepth.body.error, /treeDepth must be 3/);
+  assert.equal((await request(relayerApp.app).post('/claim-with-proof-generation').send(proofGenerationBody({ recipient: 'me' }))).body.code, 'INVALID_REQUEST');
+
+  relayerApp.proverPool.busy = true;
+  const busy = await request(relayerApp.app).post('/claim-with-proof-generation').send(proofGenerationBody());
+  assert.equal(busy.status, 429);
+  assert.equal(busy.headers['retry-after'], '3');
+  assert.equal(busy.body.code, 'PROVER_BUSY');
+  relayerApp.proverPool.busy = false;
+
+  const { status, body } = await request(relayerApp.app).post('/claim-with-proof-generation').send(proofGenerationBody());
+  assert.equal(status, 202);
+  await relayerApp.claimQueue.drain();
+  assert.equal((await request(relayerApp.app).get(`/claim/${body.jobId}`)).body.status, 'confirmed');
+  assert.equal(relayerApp.proverPool.proved[0].secret, '123');
+  assert.equal(iface.decodeFunctionData('claimPrize', relayerApp.txManager.sent[0].data).proof, '0x010203');
+
+  const strict = await startRelayer({
+    config: {
+      privacyMode: 'strict', requestJitterMs: 0, witnessEncryption: 'strict',
+      fee: { claimGas: 3_000_000n, ticketGas: 500_000n, marginPercent: 20, maxPrizePercent: 10 },
+    },
+  });
+  assert.equal((await request(strict.app).get('/pubkey')).body.strict, true);
+  const plaintext = await request(strict.app).post('/claim-with-proof-generation').send(proofGenerationBody());
+  assert.equal(plaintext.body.code, 'PLAINTEXT_WITNESS');
+});
+
+async function signedPayment(value: bigint, nonce = 0): Promise<string> {
+  return buyer.signTransaction({
+    type: 2,
+    chainId: CHAIN_ID,
+    nonce,
+    to: relayer.address,
+    value,
+    gasLimit: 21_000n,
+    maxFeePerGas: 2n * GWEI,
+    maxPriorityFeePerGas: GWEI,
+  });
+}
+
+test('POST /ticket pays, buys from the relayer wallet and reports the leaf index', async () => {
+  const relayerApp = await startRelayer();
+  const quote = (await request(relayerApp.app).get('/ticket/fee?raffleId=1')).body;
+
+  const underpaid = await request(relayerApp.app).post('/ticket').send({ raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(PRICE) });
+  assert.equal(underpaid.status, 402);
+  assert.equal(underpaid.body.code, 'INSUFFICIENT_PAYMENT');
+  const claimQuote = (await request(relayerApp.app).get('/fee?raffleId=1')).body;
+  const wrongQuote = await request(relayerApp.app).post('/ticket').send({
+    raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(BigInt(quote.total)), feeQuote: claimQuote,
+  });
+  assert.equal(wrongQuote.status, 400);
+  assert.equal(wrongQuote.body.code, 'INVALID_FEE_QUOTE');
+
+  const { status, body } = await request(relayerApp.app).post('/ticket').send({
+    raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(BigInt(quote.total)), feeQuote: quote,
+  });
+  assert.equal(status, 202);
+  assert.equal(body.commitment, undefined, 'the job view never includes the commitment');
+
+  await relayerApp.ticketQueue.drain();
+  const job = (await request(relayerApp.app).get(`/ticket/${body.jobId}`)).body;
+  assert.equal(job.status, 'confirmed');
+  assert.equal(job.leafIndex, 0);
+  assert.deepEqual(iface.decodeFunctionData('purchaseTicket', relayerApp.txManager.sent[0].data).toArray(), [1n, COMMITMENT]);
+  assert.equal(relayerApp.txManager.sent[0].value, PRICE);
+
+  // The commitment is now in the tree
+  const again = await request(relayerApp.app).post('/ticket').send({ raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(BigInt(quote.total)) });
+  assert.equal(again.body.code, 'COMMITMENT_ALREADY_USED');
+
+  // A purchase the contract would refuse fails the job before anything is sent
+  relayerApp.raffle.purchaseRevert = revert('RaffleFull', [8n, 8n]);
+  const full = await request(relayerApp.app).post('/ticket').send({
+    raffleId: '1', commitment: fieldToHex(0x99n), payment: await signedPayment(BigInt(quote.total) + 1n), feeQuote: quote,
+  });
+  await relayerApp.ticketQueue.drain();
+  assert.equal((await request(relayerApp.app).get(`/ticket/${full.body.jobId}`)).body.error.code, 'RAFFLE_FULL');
+  assert.equal(relayerApp.txManager.sent.length, 1);
+
+  assert.equal((await request(relayerApp.app).get('/ticket/nope')).status, 404);
+});
+
+test('POST /ticket refuses a transfer the chain has already seen', async () => {
+  const relayerApp = await startRelayer();
+  const total = BigInt((await request(relayerApp.app).get('/ticket/fee?raffleId=1')).body.total);
+
+  const minedPayment = await signedPayment(total);
+  relayerApp.provider.mined.add(ethers.keccak256(minedPayment));
+  const replayed = await request(relayerApp.app).post('/ticket').send({ raffleId: '1', commitment: COMMITMENT, payment: minedPayment });
+  assert.equal(replayed.status, 409);
+  assert.equal(replayed.body.code, 'PAYMENT_ALREADY_USED');
+
+  // Pending in the mempool, or replaced: the buyer already used the nonce
+  relayerApp.provider.nonces.set(buyer.address, 2);
+  const stale = await request(relayerApp.app).post('/ticket').send({ raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(total, 1) });
+  assert.equal(stale.status, 409);
+  assert.equal(stale.body.code, 'PAYMENT_ALREADY_USED');
+
+  const fresh = await request(relayerApp.app).post('/ticket').send({ raffleId: '1', commitment: COMMITMENT, payment: await signedPayment(total, 2) });
+  assert.equal(fresh.status, 202);
+  await relayerApp.ticketQueue.drain();
+  assert.equal(relayerApp.txManager.sent.length, 1);
+});
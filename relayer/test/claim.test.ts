@@ -0,0 +1,248 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { PRIVATE_RAFFLE_ABI, PrivateRaffleContract, RaffleStatus } from '../src/contracts/PrivateRaffle.js';
+import { ClaimError, fromContractError } from '../src/claim/errors.js';
+import {
+  ClaimRequest,
+  ProofVerifier,
+  preflightClaim,
+  validateProofGenerationRequest,
+} from '../src/claim/preflight.js';
+import { fieldToHex } from '../src/field.js';
+import { describeWitnessKey, encryptWitness, generateWitnessKey } from '../src/witness.js';
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+
+const ROOT = fieldToHex(0x1234n);
+const OTHER_ROOT = fieldToHex(0x5678n);
+
+const CLAIM: ClaimRequest = {
+  raffleId: '1',
+  proof: '0x' + 'ab'.repeat(64),
+  publicInputs: [ROOT, fieldToHex(7n), fieldToHex(8n), fieldToHex(1n), fieldToHex(3n), fieldToHex(2n)],
+  recipient: ethers.getAddress('0x' + '22'.repeat(20)),
+  relayerFee: '1000000000000000',
+};
+
+/**
+ * A CALL_EXCEPTION as ethers raises it for a reverted eth_call
+ */
+function callException(data: string): Error {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  } as any);
+}
+
+function revert(name: string, args: unknown[] = []): Error {
+  return callException(iface.encodeErrorResult(name, args));
+}
+
+/**
+ * Contract whose claimPrize.staticCall fails with `error` (or succeeds)
+ */
+function fakeContract(error: Error | null, calls: unknown[][] = []): PrivateRaffleContract {
+  const claimPrize = Object.assign(async () => assert.fail('claimPrize must not be sent'), {
+    staticCall: async (...args: unknown[]) => {
+      calls.push(args);
+      if (error) throw error;
+    },
+  });
+  return { claimPrize } as unknown as PrivateRaffleContract;
+}
+
+const acceptAll: ProofVerifier = { verifyProof: async () => true };
+
+async function preflightError(
+  contract: PrivateRaffleContract,
+  verifier: ProofVerifier | null,
+  claim: ClaimRequest = CLAIM
+): Promise<ClaimError> {
+  try {
+    await preflightClaim(contract, verifier, claim);
+  } catch (error) {
+    assert.ok(error instanceof ClaimError, `expected ClaimError, got ${error}`);
+    return error;
+  }
+  assert.fail('preflightClaim did not throw');
+}
+
+test('fromContractError maps each claim revert to a code and status', () => {
+  const cases: [Error, string, number][] = [
+    [revert('NotWinner', [3n, 5n]), 'NOT_WINNER', 403],
+    [revert('InvalidRootMismatch', [ROOT, OTHER_ROOT]), 'STALE_ROOT', 409],
+    [revert('InvalidRaffleId', [2n, 1n]), 'INVALID_RAFFLE_ID', 422],
+    [revert('RaffleNotClosed', [RaffleStatus.Active]), 'RAFFLE_NOT_CLOSED', 409],
+    [revert('NullifierAlreadyUsed'), 'NULLIFIER_ALREADY_USED', 409],
+    [revert('InvalidProof'), 'INVALID_PROOF', 422],
+    [revert('TransferFailed'), 'PAYOUT_FAILED', 422],
+  ];
+
+  for (const [error, code, status] of cases) {
+    const decoded = fromContractError(error);
+    assert.ok(decoded instanceof ClaimError);
+    assert.equal(decoded.code, code);
+    assert.equal(decoded.status, status);
+  }
+});
+
+test('fromContractError exposes revert arguments as details', () => {
+  const notWinner = fromContractError(revert('NotWinner', [3n, 5n])) as ClaimError;
+  assert.deepEqual(notWinner.toJSON(), {
+    error: 'Proof winner index is not the selected winner',
+    code: 'NOT_WINNER',
+    details: { error: 'NotWinner', proofWinnerIndex: '3', winnerIndex: '5' },
+  });
+
+  const stale = fromContractError(revert('InvalidRootMismatch', [ROOT, OTHER_ROOT])) as ClaimError;
+  assert.equal(stale.details.proofRoot, ROOT);
+  assert.equal(stale.details.root, OTHER_ROOT);
+
+  const notClosed = fromContractError(revert('RaffleNotClosed', [RaffleStatus.Claimed])) as ClaimError;
+  assert.equal(notClosed.details.status, 'Claimed');
+});
+
+test('fromContractError handles require strings, missing data and non-revert errors', () => {
+  const reason = ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Invalid public inputs length']);
+  const required = fromContractError(callException('0x08c379a0' + reason.slice(2))) as ClaimError;
+  assert.equal(required.code, 'CLAIM_REVERTED');
+  assert.match(required.message, /Invalid public inputs length/);
+
+  const opaque = fromContractError(callException('0x')) as ClaimError;
+  assert.equal(opaque.code, 'CLAIM_REVERTED');
+
+  const network = new Error('connection refused');
+  assert.equal(fromContractError(network), network);
+});
+
+test('preflightClaim rejects a proof that fails local verification without calling the contract', async () => {
+  const calls: unknown[][] = [];
+  const error = await preflightError(fakeContract(null, calls), { verifyProof: async () => false });
+
+  assert.equal(error.code, 'INVALID_PROOF');
+  assert.equal(error.status, 422);
+  assert.equal(calls.length, 0);
+});
+
+test('preflightClaim passes the proof bytes and public inputs to the verifier', async () => {
+  const seen: { proof: Uint8Array; publicInputs: string[] }[] = [];
+  const verifier: ProofVerifier = {
+    verifyProof: async (proof, publicInputs) => {
+      seen.push({ proof, publicInputs });
+      return true;
+    },
+  };
+
+  await preflightClaim(fakeContract(null), verifier, CLAIM);
+
+  assert.equal(seen.length, 1);
+  assert.equal(ethers.hexlify(seen[0].proof), CLAIM.proof);
+  assert.deepEqual(seen[0].publicInputs, CLAIM.publicInputs);
+});
+
+test('preflightClaim simulates claimPrize from the relayer and decodes its revert', async () => {
+  const calls: unknown[][] = [];
+  const error = await preflightError(fakeContract(revert('NotWinner', [3n, 5n]), calls), acceptAll);
+
+  assert.equal(error.code, 'NOT_WINNER');
+  assert.deepEqual(calls, [[CLAIM.raffleId, CLAIM.proof, CLAIM.publicInputs, CLAIM.recipient, CLAIM.relayerFee]]);
+});
+
+test('preflightClaim still simulates when no circuit is loaded', async () => {
+  const error = await preflightError(fakeContract(revert('InvalidProof')), null);
+  assert.equal(error.code, 'INVALID_PROOF');
+
+  await preflightClaim(fakeContract(null), null, CLAIM);
+});
+
+test('preflightClaim rejects malformed requests with 400', async () => {
+  const contract = fakeContract(null);
+
+  const short = await preflightError(contract, acceptAll, { ...CLAIM, publicInputs: CLAIM.publicInputs.slice(0, 5) });
+  assert.equal(short.code, 'INVALID_PUBLIC_INPUTS');
+  assert.equal(short.status, 400);
+
+  const nonCanonical = await preflightError(contract, acceptAll, {
+    ...CLAIM,
+    publicInputs: [ethers.toBeHex(ethers.MaxUint256), ...CLAIM.publicInputs.slice(1)],
+  });
+  assert.equal(nonCanonical.code, 'INVALID_PUBLIC_INPUTS');
+
+  const badRecipient = await preflightError(contract, acceptAll, { ...CLAIM, recipient: '0x1234' });
+  assert.equal(badRecipient.code, 'INVALID_REQUEST');
+});
+
+function proofGenerationBody() {
+  const key = describeWitnessKey(generateWitnessKey());
+  const body = {
+    raffleId: 1,
+    siblings: [fieldToHex(1n), fieldToHex(2n)],
+    recipient: CLAIM.recipient,
+    winnerIndex: 3,
+    root: fieldToHex(5n),
+    treeDepth: 2,
+  };
+  const context = { ...body, raffleId: '1', recipient: BigInt(CLAIM.recipient).toString(), winnerIndex: '3', treeDepth: '2' };
+  const witness = encryptWitness(key, { secret: 123n, nullifier: 456n }, context);
+  return { key, body, witness };
+}
+
+function validationError(body: unknown, requireEncryption: boolean, witnessKeyId: string | null): ClaimError {
+  try {
+    validateProofGenerationRequest(body, { requireEncryption, witnessKeyId });
+  } catch (error) {
+    assert.ok(error instanceof ClaimError);
+    return error;
+  }
+  assert.fail('request was accepted');
+}
+
+test('strict mode never accepts a plaintext secret or nullifier', () => {
+  const { key, body, witness } = proofGenerationBody();
+
+  for (const plaintext of [
+    { secret: '123', nullifier: '456' },
+    { secret: '123' },
+    { nullifier: '456' },
+    { secret: '123', nullifier: '456', witness },
+  ]) {
+    const error = validationError({ ...body, ...plaintext }, true, key.keyId);
+    assert.equal(error.status, 400);
+    assert.match(error.code, /PLAINTEXT_WITNESS|INVALID_REQUEST/);
+  }
+  assert.equal(validationError({ ...body, secret: '123', nullifier: '456' }, true, key.keyId).code, 'PLAINTEXT_WITNESS');
+
+  const accepted = validateProofGenerationRequest({ ...body, witness }, { requireEncryption: true, witnessKeyId: key.keyId });
+  assert.deepEqual(accepted, {
+    siblings: body.siblings,
+    recipient: BigInt(CLAIM.recipient).toString(),
+    root: body.root,
+    raffleId: '1',
+    winnerIndex: '3',
+    treeDepth: '2',
+    witness,
+  });
+  assert.equal('secret' in accepted, false);
+});
+
+test('envelopes must be sealed to the current key; plaintext is allowed outside strict mode', () => {
+  const { key, body, witness } = proofGenerationBody();
+
+  const otherKey = validationError({ ...body, witness }, false, describeWitnessKey(generateWitnessKey()).keyId);
+  assert.equal(otherKey.code, 'INVALID_WITNESS_ENVELOPE');
+  assert.match(otherKey.message, /fetch GET \/pubkey again/);
+  assert.equal(validationError({ ...body, witness: { ...witness, nonce: '0x' } }, false, key.keyId).code, 'INVALID_WITNESS_ENVELOPE');
+  assert.equal(validationError({ ...body, witness }, false, null).code, 'INVALID_WITNESS_ENVELOPE');
+  assert.equal(validationError({ ...body, secret: '123' }, false, key.keyId).code, 'INVALID_REQUEST');
+
+  const plain = validateProofGenerationRequest({ ...body, secret: '123', nullifier: '456' }, {
+    requireEncryption: false,
+    witnessKeyId: key.keyId,
+  });
+  assert.equal((plain as { secret: string }).secret, '123');
+});
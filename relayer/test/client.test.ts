@@ -0,0 +1,367 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { RafferoClient, RaffleContract } from '../src/client/client.js';
+import { RelayerClient, RelayerRequestError } from '../src/client/relayer.js';
+import { RaffleOutput, RaffleStatus } from '../src/contracts/PrivateRaffle.js';
+import { raffleEventsInterface } from '../src/indexer/events.js';
+import { RaffleLogSource } from '../src/indexer/source.js';
+import { formatNote } from '../src/note.js';
+import { seedFromMnemonic } from '../src/seed.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { PoseidonIMT } from '../src/merkleTree.js';
+import { fieldToHex, toField } from '../src/field.js';
+import { ProofInputs } from '../src/prover.js';
+import { describeWitnessKey, generateWitnessKey, withWitness } from '../src/witness.js';
+
+const RAFFLE_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+const CHAIN_ID = 31337n;
+const LEVELS = 3;
+
+let hasher: Poseidon2Hasher;
+after(() => hasher?.destroy());
+
+/**
+ * One raffle (id 1) with an on-chain tree kept by a real PoseidonIMT
+ */
+class FakeRaffle {
+  status = RaffleStatus.Active;
+  winnerIndex = 0n;
+  ticketPrice = ethers.parseEther('0.01');
+  commitmentList: string[] = [];
+  paid: bigint[] = [];
+  tree!: PoseidonIMT;
+
+  async init(): Promise<this> {
+    hasher ??= await Poseidon2Hasher.create();
+    this.tree = new PoseidonIMT(hasher, LEVELS);
+    await this.tree.initEmpty();
+    return this;
+  }
+
+  async addLeaf(commitment: string): Promise<number> {
+    this.commitmentList.push(commitment);
+    return this.tree.insert(toField(commitment));
+  }
+
+  contract(): RaffleContract {
+    return {
+      getAddress: async () => RAFFLE_ADDRESS,
+      getRaffle: (async () => this.output()) as any,
+      getRoot: (async () => fieldToHex(this.tree.root())) as any,
+      commitments: (async (_raffleId: bigint, index: bigint) => this.commitmentList[Number(index)]) as any,
+      purchaseTicket: (async (raffleId: bigint, commitment: string, overrides: { value: bigint }) => {
+        this.paid.push(overrides.value);
+        const leafIndex = await this.addLeaf(commitment);
+        const log = raffleEventsInterface.encodeEventLog('TicketPurchased', [raffleId, leafIndex, commitment]);
+        return {
+          hash: '0x' + 'ab'.repeat(32),
+          wait: async () => ({ status: 1, logs: [{ ...log, blockNumber: 1, index: 0 }] }),
+        };
+      }) as any,
+    };
+  }
+
+  private output(): RaffleOutput {
+    return {
+      creator: ethers.ZeroAddress,
+      ticketPrice: this.ticketPrice,
+      maxParticipants: 8n,
+      duration: 3600n,
+      endTime: 0n,
+      levels: BigInt(LEVELS),
+      nextIndex: BigInt(this.commitmentList.length),
+      root: fieldToHex(this.tree.root()),
+      prizeType: 0n,
+      prizePool: this.ticketPrice * BigInt(this.commitmentList.length),
+      status: BigInt(this.status),
+      winnerIndex: this.winnerIndex,
+      requestId: 0n,
+      randomnessRequested: this.status !== RaffleStatus.Active,
+      createdAt: 0n,
+    };
+  }
+}
+
+class StubProver {
+  inputs: ProofInputs[] = [];
+
+  async generateProof(inputs: ProofInputs) {
+    this.inputs.push(inputs);
+    return { proof: new Uint8Array([1, 2, 3]), publicInputs: [inputs.root, '5'] };
+  }
+}
+
+/**
+ * fetch stand-in that records requests and answers from `routes`
+ */
+function fakeFetch(routes: Record<string, (body: any) => [number, unknown]>) {
+  const requests: { method: string; path: string; body: any }[] = [];
+  const impl = (async (url: string, init: RequestInit) => {
+    const { pathname, search } = new URL(url);
+    const body = init.body ? JSON.parse(init.body as string) : undefined;
+    requests.push({ method: init.method!, path: pathname + search, body });
+    const [status, json] = routes[`${init.method} ${pathname}`](body);
+    return new Response(JSON.stringify(json), { status });
+  }) as typeof fetch;
+  return { impl, requests };
+}
+
+async function setup(options: { relayer?: RelayerClient } = {}) {
+  const raffle = await new FakeRaffle().init();
+  const prover = new StubProver();
+  const client = new RafferoClient({ contract: raffle.contract(), chainId: CHAIN_ID, prover, ...options });
+  await client.initialize();
+  after(() => client.destroy());
+  return { raffle, prover, client };
+}
+
+test('creates a ticket whose commitment matches the circuit hash', async () => {
+  const { client } = await setup();
+
+  const ticket = await client.createTicket(1, { secret: 11n, nullifier: 22n });
+
+  assert.equal(ticket.note.chainId, CHAIN_ID);
+  assert.equal(ticket.note.contract, RAFFLE_ADDRESS);
+  assert.equal(ticket.note.leafIndex, null);
+  assert.equal(ticket.commitment, fieldToHex(await hasher.commitment(11n, 22n)));
+});
+
+test('buys a ticket at the ticket price and records its leaf index', async () => {
+  const { raffle, client } = await setup();
+  await raffle.addLeaf(fieldToHex(1n));
+
+  const bought = await client.buyTicket(await client.createTicket(1));
+
+  assert.equal(bought.note.leafIndex, 1);
+  assert.deepEqual(raffle.paid, [raffle.ticketPrice]);
+  assert.equal(await client.findMyLeafIndex({ ...bought.note, leafIndex: null }), 1);
+});
+
+test('finds nothing for a ticket that was never bought', async () => {
+  const { raffle, client } = await setup();
+  await raffle.addLeaf(fieldToHex(1n));
+
+  assert.equal(await client.findMyLeafIndex((await client.createTicket(1)).note), null);
+});
+
+test('rejects notes for another contract or chain', async () => {
+  const { client } = await setup();
+  const { note } = await client.createTicket(1);
+
+  await assert.rejects(client.findMyLeafIndex({ ...note, chainId: 1n }), /chain 1/);
+  await assert.rejects(client.findMyLeafIndex({ ...note, contract: RECIPIENT }), /Note is for/);
+});
+
+test('reports the winner only once the raffle is drawn', async () => {
+  const { raffle, client } = await setup();
+  const mine = await client.buyTicket(await client.createTicket(1));
+  const other = await client.buyTicket(await client.createTicket(1));
+
+  raffle.winnerIndex = 0n;
+  assert.equal(await client.isWinner(mine.note), false);
+
+  raffle.status = RaffleStatus.Closed;
+  assert.equal(await client.isWinner(mine.note), true);
+  assert.equal(await client.isWinner(other.note), false);
+});
+
+/**
+ * TicketPurchased logs of the fake raffle, one block per purchase
+ */
+function fakeLogs(raffle: FakeRaffle, scanned: [number, number][] = []): RaffleLogSource {
+  return {
+    getBlockNumber: async () => raffle.commitmentList.length + 10,
+    getEvents: async (from: number, to: number) => {
+      scanned.push([from, to]);
+      return raffle.commitmentList
+        .map((commitment, i) => ({
+          type: 'TicketPurchased' as const,
+          blockNumber: 10 + i,
+          logIndex: 0,
+          raffleId: 1n,
+          leafIndex: BigInt(i),
+          commitment,
+        }))
+        .filter(event => event.blockNumber >= from && event.blockNumber <= to);
+    },
+    getRoot: async () => fieldToHex(raffle.tree.root()),
+  };
+}
+
+test('checkWinner finds the leaf from TicketPurchased logs and compares it with winnerIndex', async () => {
+  const raffle = await new FakeRaffle().init();
+  const scanned: [number, number][] = [];
+  const client = new RafferoClient({
+    contract: raffle.contract(),
+    chainId: CHAIN_ID,
+    logs: fakeLogs(raffle, scanned),
+    fromBlock: 5,
+    logBatchSize: 4,
+  });
+  await client.initialize();
+  after(() => client.destroy());
+
+  await raffle.addLeaf(fieldToHex(7n));
+  const mine = await client.buyTicket(await client.createTicket(1));
+  const unsold = await client.createTicket(1);
+
+  assert.deepEqual(await client.checkWinner({ ...mine.note, leafIndex: null }), {
+    raffleId: 1n, status: RaffleStatus.Active, leafIndex: 1, winnerIndex: null, won: false,
+  });
+  assert.deepEqual(scanned, [[5, 8], [9, 12]]);
+
+  raffle.status = RaffleStatus.Closed;
+  raffle.winnerIndex = 1n;
+  assert.equal((await client.checkWinner(mine.note)).won, true);
+  assert.deepEqual(await client.checkWinner(unsold.note), {
+    raffleId: 1n, status: RaffleStatus.Closed, leafIndex: null, winnerIndex: 1, won: false,
+  });
+});
+
+test('checkWinner refuses an incomplete log scan or a tree that does not match the root', async () => {
+  const raffle = await new FakeRaffle().init();
+  const late = new RafferoClient({ contract: raffle.contract(), chainId: CHAIN_ID, logs: fakeLogs(raffle), fromBlock: 11 });
+  await late.initialize();
+  after(() => late.destroy());
+
+  await raffle.addLeaf(fieldToHex(7n));
+  const mine = await late.buyTicket(await late.createTicket(1));
+  await assert.rejects(late.checkWinner(mine.note), /No TicketPurchased log for leaf 0/);
+
+  const client = new RafferoClient({ contract: raffle.contract(), chainId: CHAIN_ID, logs: fakeLogs(raffle) });
+  await client.initialize();
+  after(() => client.destroy());
+  raffle.status = RaffleStatus.Closed;
+  raffle.commitmentList[0] = fieldToHex(9n); // logs disagree with the root
+  await assert.rejects(client.checkWinner(mine.note), /does not match contract root/);
+});
+
+test('recovers seed-derived tickets from the raffle commitments', async () => {
+  const { raffle, client } = await setup();
+  const seed = seedFromMnemonic('test test test test test test test test test test test junk');
+
+  await raffle.addLeaf(fieldToHex(7n));
+  const first = await client.buyTicket(await client.deriveTicket(seed, 1, 0));
+  const second = await client.buyTicket(await client.deriveTicket(seed, 1, 1));
+
+  const recovered = await client.recoverTickets(seed, 1, { gapLimit: 2 });
+  assert.deepEqual(recovered.map(note => formatNote(note)), [formatNote(first.note), formatNote(second.note)]);
+});
+
+test('builds claim inputs from the locally rebuilt tree', async () => {
+  const { raffle, prover, client } = await setup();
+  await raffle.addLeaf(fieldToHex(7n));
+  const mine = await client.buyTicket(await client.createTicket(1));
+  await raffle.addLeaf(fieldToHex(8n));
+
+  await assert.rejects(client.buildClaimProof(mine.note, RECIPIENT), /not Closed/);
+
+  raffle.status = RaffleStatus.Closed;
+  raffle.winnerIndex = 0n;
+  await assert.rejects(client.buildClaimProof(mine.note, RECIPIENT), /not the winning ticket/);
+
+  raffle.winnerIndex = 1n;
+  const claim = await client.buildClaimProof(mine.note, RECIPIENT);
+
+  const path = raffle.tree.proof(1);
+  assert.deepEqual(prover.inputs[0], {
+    secret: mine.note.secret.toString(),
+    nullifier: mine.note.nullifier.toString(),
+    siblings: path.pathElements.map(e => fieldToHex(e)),
+    recipient: BigInt(RECIPIENT).toString(),
+    root: fieldToHex(raffle.tree.root()),
+    raffleId: '1',
+    winnerIndex: '1',
+    treeDepth: '3',
+  });
+  assert.deepEqual(claim, {
+    raffleId: '1',
+    proof: '0x010203',
+    publicInputs: [fieldToHex(raffle.tree.root()), fieldToHex(5n)],
+    recipient: RECIPIENT,
+  });
+});
+
+test('refuses to prove against a tree that does not match the contract root', async () => {
+  const { raffle, client } = await setup();
+  const mine = await client.buyTicket(await client.createTicket(1));
+  raffle.status = RaffleStatus.Closed;
+  raffle.commitmentList[0] = fieldToHex(9n); // storage disagrees with the root
+
+  await assert.rejects(client.buildClaimProof(mine.note, RECIPIENT), /does not match contract root/);
+});
+
+test('reads leaves from the relayer and submits with a fresh fee quote', async () => {
+  const quote = { raffleId: '1', feeWei: '1000', expiresAt: 1_700_000_300, signature: '0x12', relayer: RECIPIENT };
+  let raffle!: FakeRaffle;
+  const { impl, requests } = fakeFetch({
+    'GET /raffle/1/leaves': () => [200, { leaves: raffle.commitmentList }],
+    'GET /fee': () => [200, quote],
+    'POST /claim': () => [202, { jobId: 'job-1', status: 'queued' }],
+  });
+  const setupResult = await setup({ relayer: new RelayerClient('http://relayer.test/', impl) });
+  raffle = setupResult.raffle;
+  const { client } = setupResult;
+
+  const mine = await client.buyTicket(await client.createTicket(1));
+  assert.equal(await client.findMyLeafIndex(mine.note), 0);
+
+  const claim = { raffleId: '1', proof: '0x01', publicInputs: [], recipient: RECIPIENT };
+  const job = await client.submitClaimViaRelayer(claim);
+
+  assert.equal(job.jobId, 'job-1');
+  assert.deepEqual(requests.map(r => `${r.method} ${r.path}`), [
+    'GET /raffle/1/leaves',
+    'GET /fee?raffleId=1',
+    'POST /claim',
+  ]);
+  assert.deepEqual(requests[2].body.feeQuote, { raffleId: '1', feeWei: '1000', expiresAt: 1_700_000_300, signature: '0x12' });
+});
+
+test('seals the note to the relayer key for proof generation', async () => {
+  const relayerKey = generateWitnessKey();
+  const quote = { raffleId: '1', feeWei: '1000', expiresAt: 1_700_000_300, signature: '0x12', relayer: RECIPIENT };
+  const { impl, requests } = fakeFetch({
+    'GET /raffle/1/leaves': () => [200, { leaves: raffle.commitmentList }],
+    'GET /pubkey': () => [200, { ...describeWitnessKey(relayerKey), strict: true }],
+    'GET /fee': () => [200, quote],
+    'POST /claim-with-proof-generation': () => [202, { jobId: 'job-2', status: 'proving' }],
+  });
+  const { raffle, client } = await setup({ relayer: new RelayerClient('http://relayer.test', impl) });
+  await raffle.addLeaf(fieldToHex(7n));
+  const mine = await client.buyTicket(await client.createTicket(1));
+  raffle.status = RaffleStatus.Closed;
+  raffle.winnerIndex = 1n;
+
+  const request = await client.encryptClaimForRelayer(mine.note, RECIPIENT);
+  const job = await client.submitProofGenerationViaRelayer(request);
+  assert.equal(job.jobId, 'job-2');
+
+  const sent = requests.find(r => r.path === '/claim-with-proof-generation')!.body;
+  assert.equal(sent.secret, undefined);
+  assert.equal(sent.nullifier, undefined);
+  assert.deepEqual(sent.siblings, raffle.tree.proof(1).pathElements.map(e => fieldToHex(e)));
+  assert.equal(sent.feeQuote.feeWei, '1000');
+
+  // Only the relayer key opens it, and only for the recipient it was sealed for
+  const inputs = { ...sent, recipient: BigInt(RECIPIENT).toString() };
+  assert.deepEqual(
+    await withWitness(relayerKey, inputs, async witness => witness),
+    { secret: mine.note.secret, nullifier: mine.note.nullifier }
+  );
+  await assert.rejects(withWitness(relayerKey, { ...inputs, recipient: '1' }, async () => null), /does not decrypt/);
+});
+
+test('surfaces relayer error codes', async () => {
+  const { impl } = fakeFetch({
+    'POST /claim': () => [409, { error: 'feeQuote has expired', code: 'FEE_QUOTE_EXPIRED', details: { expiresAt: '1' } }],
+  });
+  const relayer = new RelayerClient('http://relayer.test', impl);
+
+  await assert.rejects(
+    relayer.submitClaim({ raffleId: '1', proof: '0x01', publicInputs: [], recipient: RECIPIENT }),
+    (error: unknown) => error instanceof RelayerRequestError && error.status === 409 && error.code === 'FEE_QUOTE_EXPIRED'
+  );
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import {
+  PRIVATE_RAFFLE_ABI,
+  PrizeType,
+  RaffleStatus,
+  toRaffle,
+} from '../src/contracts/PrivateRaffle.js';
+import { findAbiBytecodeMismatches } from '../src/contracts/verify.js';
+
+const PRIVATE_RAFFLE_SOL = path.resolve(__dirname, '../../src/PrivateRaffle.sol');
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+
+function solidityEnum(name: string): string[] {
+  const source = fs.readFileSync(PRIVATE_RAFFLE_SOL, 'utf-8').replace(/\/\/.*$/gm, '');
+  const match = source.match(new RegExp(`enum\\s+${name}\\s*\\{([^}]*)\\}`));
+  assert.ok(match, `enum ${name} not found in PrivateRaffle.sol`);
+  return match[1].split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Runtime bytecode that pushes the given constants, the way a dispatcher
+ * pushes selectors (PUSH4) and an emit pushes its topic (PUSH32)
+ */
+function bytecodeWith(selectors: string[], topics: string[]): string {
+  const PUSH4 = '63';
+  const PUSH32 = '7f';
+  const EQ = '14';
+  return '0x' +
+    selectors.map(s => PUSH4 + s.slice(2) + EQ).join('') +
+    topics.map(t => PUSH32 + t.slice(2)).join('');
+}
+
+function abiConstants(): { selectors: string[]; topics: string[] } {
+  const selectors: string[] = [];
+  const topics: string[] = [];
+  iface.forEachFunction(fn => selectors.push(fn.selector));
+  iface.forEachEvent(event => topics.push(event.topicHash));
+  return { selectors, topics };
+}
+
+test('generated enums match PrivateRaffle.sol', () => {
+  const statuses = solidityEnum('RaffleStatus');
+  assert.deepEqual(statuses, ['Active', 'Closed', 'Claimed']);
+  statuses.forEach((name, i) => assert.equal(RaffleStatus[name as keyof typeof RaffleStatus], i));
+
+  solidityEnum('PrizeType').forEach((name, i) => {
+    assert.equal(PrizeType[name as keyof typeof PrizeType], i);
+  });
+});
+
+test('toRaffle decodes getRaffle by field name and types the enums', () => {
+  const fn = iface.getFunction('getRaffle')!;
+  const root = ethers.zeroPadValue('0x1234', 32);
+  const creator = ethers.getAddress('0x' + '11'.repeat(20));
+
+  const encoded = iface.encodeFunctionResult(fn, [[
+    creator,
+    ethers.parseEther('0.01'),  // ticketPrice
+    8n,                         // maxParticipants
+    3600n,                      // duration
+    1700003600n,                // endTime
+    3n,                         // levels
+    5n,                         // nextIndex
+    root,
+    PrizeType.NativeToken,
+    ethers.parseEther('0.05'),  // prizePool
+    RaffleStatus.Closed,
+    4n,                         // winnerIndex
+    99n,                        // requestId
+    true,                       // randomnessRequested
+    1700000000n,                // createdAt
+  ]]);
+  const [output] = iface.decodeFunctionResult(fn, encoded);
+  const raffle = toRaffle(output);
+
+  assert.equal(raffle.creator, creator);
+  assert.equal(raffle.maxParticipants, 8n);
+  assert.equal(raffle.nextIndex, 5n);
+  assert.equal(raffle.root, root);
+  assert.equal(raffle.prizePool, ethers.parseEther('0.05'));
+  assert.equal(raffle.status, RaffleStatus.Closed);
+  assert.equal(RaffleStatus[raffle.status], 'Closed');
+  assert.equal(raffle.winnerIndex, 4n);
+  assert.equal(raffle.randomnessRequested, true);
+});
+
+test('findAbiBytecodeMismatches accepts bytecode pushing every selector and topic', () => {
+  const { selectors, topics } = abiConstants();
+  assert.deepEqual(findAbiBytecodeMismatches(PRIVATE_RAFFLE_ABI, bytecodeWith(selectors, topics)), []);
+});
+
+test('findAbiBytecodeMismatches reports functions and events the bytecode lacks', () => {
+  const { selectors, topics } = abiConstants();
+  const getRoot = iface.getFunction('getRoot')!.selector;
+  const winnerSelected = iface.getEvent('WinnerSelected')!.topicHash;
+
+  const bytecode = bytecodeWith(
+    selectors.filter(s => s !== getRoot),
+    topics.filter(t => t !== winnerSelected)
+  );
+
+  assert.deepEqual(findAbiBytecodeMismatches(PRIVATE_RAFFLE_ABI, bytecode), [
+    'function getRoot(uint256)',
+    'event WinnerSelected(uint256,uint256)',
+  ]);
+});
@@ -0,0 +1,257 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Noir } from '@noir-lang/noir_js';
+import { ethers } from 'ethers';
+import { PoseidonIMT } from '../src/merkleTree.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { RaffleProver } from '../src/prover.js';
+import { loadCircuit } from '../src/circuit.js';
+import { MODULUS, fieldToHex } from '../src/field.js';
+
+// Random trees checked against IncrementalMerkleTree.sol and main.nr.
+// Replay a failure with DIFFERENTIAL_SEED=<seed from the message>; DIFFERENTIAL_RUNS sets the case count.
+const SEED = BigInt(process.env.DIFFERENTIAL_SEED ?? Date.now());
+const RUNS = Number(process.env.DIFFERENTIAL_RUNS ?? 16);
+const MAX_LEAVES = 24;
+const PROOFS_PER_CASE = 2;
+
+const CIRCUIT_PATH = path.resolve(__dirname, '../../circuits/target/raffle_circuits.json');
+const MERKLE_TREE_SOL = path.resolve(__dirname, '../../src/IncrementalMerkleTree.sol');
+const FOUNDRY_OUT = process.env.FOUNDRY_OUT || path.resolve(__dirname, '../../out');
+const ANVIL_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+interface Ticket {
+  secret: bigint;
+  nullifier: bigint;
+}
+
+interface TreeCase {
+  name: string; // "case 3 (depth 17, 9 leaves)"
+  depth: number;
+  tickets: Ticket[];
+  leaves: bigint[];
+  cuts: number[]; // insertMany batch sizes, summing to leaves.length
+  proofIndices: number[];
+}
+
+const MASK64 = (1n << 64n) - 1n;
+
+/**
+ * splitmix64, so every case follows from SEED
+ */
+function random(seed: bigint) {
+  let state = seed & MASK64;
+  const next = (): bigint => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK64;
+    return z ^ (z >> 31n);
+  };
+  return {
+    int: (min: number, max: number): number => min + Number(next() % BigInt(max - min + 1)),
+    field: (): bigint => ((next() << 192n) | (next() << 128n) | (next() << 64n) | next()) % MODULUS,
+  };
+}
+
+/**
+ * zeros(0..32) as written in IncrementalMerkleTree.sol
+ */
+function solidityZeros(): bigint[] {
+  const source = fs.readFileSync(MERKLE_TREE_SOL, 'utf-8');
+  return [...source.matchAll(/bytes32\(\s*(0x[0-9a-fA-F]{64})\s*\)/g)].map(m => BigInt(m[1]));
+}
+
+/**
+ * IncrementalMerkleTree._insert, line for line, with zeros() taken from the
+ * contract source instead of recomputed
+ */
+class SolidityTreeModel {
+  private readonly cachedSubtrees: bigint[];
+  private nextLeafIndex = 0;
+  public lastRoot: bigint;
+
+  constructor(private readonly hasher: Poseidon2Hasher, private readonly zeros: bigint[], private readonly depth: number) {
+    this.cachedSubtrees = zeros.slice(0, depth);
+    this.lastRoot = zeros[depth];
+  }
+
+  async insert(leaf: bigint): Promise<void> {
+    if (this.nextLeafIndex === 2 ** this.depth) {
+      throw new Error(`MerkleTreeIsFull(${this.nextLeafIndex})`);
+    }
+    let currentIndex = this.nextLeafIndex;
+    let currentHash = leaf;
+    for (let i = 0; i < this.depth; i++) {
+      let left: bigint;
+      let right: bigint;
+      if (currentIndex % 2 === 0) {
+        left = currentHash;
+        right = this.zeros[i];
+        this.cachedSubtrees[i] = currentHash;
+      } else {
+        left = this.cachedSubtrees[i];
+        right = currentHash;
+      }
+      currentHash = await this.hasher.hash([left, right]);
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+    this.lastRoot = currentHash;
+    this.nextLeafIndex++;
+  }
+}
+
+let hasher: Poseidon2Hasher;
+let prover: RaffleProver;
+let noir: Noir;
+let zeros: bigint[];
+let cases: TreeCase[];
+
+/**
+ * Depths 1 and 32 every run, the rest at random; small trees are sometimes filled
+ */
+async function generateCases(): Promise<TreeCase[]> {
+  const rand = random(SEED);
+  const generated: TreeCase[] = [];
+
+  for (let run = 0; run < RUNS; run++) {
+    const depth = run === 0 ? 1 : run === 1 ? 32 : rand.int(1, 32);
+    const count = rand.int(1, Math.min(2 ** depth, MAX_LEAVES));
+
+    const tickets = Array.from({ length: count }, () => ({ secret: rand.field(), nullifier: rand.field() }));
+    const leaves = await Promise.all(tickets.map(t => hasher.commitment(t.secret, t.nullifier)));
+
+    const cuts: number[] = [];
+    for (let left = count; left > 0; left -= cuts[cuts.length - 1]) {
+      cuts.push(rand.int(1, left));
+    }
+    const proofIndices = Array.from({ length: Math.min(PROOFS_PER_CASE, count) }, () => rand.int(0, count - 1));
+
+    generated.push({ name: `case ${run} (depth ${depth}, ${count} leaves)`, depth, tickets, leaves, cuts, proofIndices });
+  }
+  return generated;
+}
+
+async function buildTree(c: TreeCase): Promise<PoseidonIMT> {
+  const tree = new PoseidonIMT(hasher, c.depth);
+  await tree.initEmpty();
+  let offset = 0;
+  for (const cut of c.cuts) {
+    await tree.insertMany(c.leaves.slice(offset, offset + cut));
+    offset += cut;
+  }
+  return tree;
+}
+
+function diverged(c: TreeCase, what: string): string {
+  return `${what} diverged in ${c.name}, replay with DIFFERENTIAL_SEED=${SEED}`;
+}
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+  prover = new RaffleProver(CIRCUIT_PATH);
+  await prover.initialize();
+  noir = new Noir(loadCircuit(CIRCUIT_PATH));
+  zeros = solidityZeros();
+  cases = await generateCases();
+});
+
+after(async () => {
+  await prover.destroy();
+  await hasher.destroy();
+});
+
+test('PoseidonIMT matches IncrementalMerkleTree._insert at every size', async t => {
+  t.diagnostic(`seed ${SEED}, ${RUNS} cases`);
+  assert.equal(zeros.length, 33);
+
+  for (const c of cases) {
+    const tree = await buildTree(c);
+    const frontier = new PoseidonIMT(hasher, c.depth, undefined, { mode: 'frontier' });
+    await frontier.initEmpty();
+    await frontier.insertMany(c.leaves);
+
+    assert.deepEqual(tree.zeros.map(fieldToHex), zeros.slice(0, c.depth + 1).map(fieldToHex), diverged(c, 'zero chain'));
+
+    const model = new SolidityTreeModel(hasher, zeros, c.depth);
+    assert.equal(fieldToHex(await tree.rootAt(0)), fieldToHex(model.lastRoot), diverged(c, 'empty root'));
+    for (let size = 1; size <= c.leaves.length; size++) {
+      await model.insert(c.leaves[size - 1]);
+      assert.equal(fieldToHex(await tree.rootAt(size)), fieldToHex(model.lastRoot), diverged(c, `root at ${size} leaves`));
+    }
+    assert.equal(fieldToHex(frontier.root()), fieldToHex(model.lastRoot), diverged(c, 'frontier root'));
+
+    if (c.leaves.length === 2 ** c.depth) {
+      await assert.rejects(model.insert(1n), /MerkleTreeIsFull/);
+      await assert.rejects(tree.insert(1n), /tree is full/, diverged(c, 'full tree'));
+    }
+  }
+});
+
+test('noir.execute accepts PoseidonIMT paths and rejects swapped ones', async () => {
+  for (const c of cases) {
+    const tree = await buildTree(c);
+
+    for (const index of c.proofIndices) {
+      const { pathElements } = tree.proof(index);
+      const inputs = (winnerIndex: number) =>
+        prover.buildCircuitInputs({
+          secret: c.tickets[index].secret.toString(),
+          nullifier: c.tickets[index].nullifier.toString(),
+          siblings: pathElements.map(String),
+          recipient: BigInt(RECIPIENT).toString(),
+          root: tree.root().toString(),
+          raffleId: '1',
+          winnerIndex: winnerIndex.toString(),
+          treeDepth: c.depth.toString(),
+        });
+
+      const { witness } = await noir.execute(await inputs(index)).catch(error => {
+        assert.fail(`${diverged(c, `circuit path for leaf ${index}`)}: ${error.message}`);
+      });
+      assert.ok(witness.length > 0);
+
+      // Claiming the neighbouring index flips left and right at the leaf level
+      await assert.rejects(noir.execute(await inputs(index ^ 1)), diverged(c, `left/right order for leaf ${index}`));
+    }
+  }
+});
+
+function loadArtifact(file: string, contract: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const artifact = JSON.parse(fs.readFileSync(path.join(FOUNDRY_OUT, file, `${contract}.json`), 'utf-8'));
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+// forge build && ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+test('getLastRoot() on anvil matches PoseidonIMT after every insert', { skip: !process.env.ANVIL_RPC_URL }, async () => {
+  const provider = new ethers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  const signer = new ethers.NonceManager(new ethers.Wallet(ANVIL_KEY, provider));
+  try {
+    const poseidon = loadArtifact('Poseidon2.sol', 'Poseidon2');
+    const hasherContract = await new ethers.ContractFactory(poseidon.abi, poseidon.bytecode, signer).deploy();
+    const harness = loadArtifact('IncrementalMerkleTreeHarness.sol', 'IncrementalMerkleTreeHarness');
+    const deployed = await new ethers.ContractFactory(harness.abi, harness.bytecode, signer).deploy(await hasherContract.getAddress());
+    const contract = new ethers.Contract(await deployed.getAddress(), harness.abi, signer);
+
+    for (const [treeId, c] of cases.entries()) {
+      const tree = await buildTree(c);
+      await (await contract.initTree(treeId, c.depth)).wait();
+      assert.equal(await contract.getLastRoot(treeId), fieldToHex(await tree.rootAt(0)), diverged(c, 'empty root on chain'));
+
+      // A few leaves per transaction keeps deep trees under the block gas limit
+      const perTx = Math.max(1, Math.floor(64 / c.depth));
+      for (let size = 0; size < c.leaves.length; ) {
+        const batch = c.leaves.slice(size, size + perTx);
+        await (await contract.insertMany(treeId, batch.map(leaf => fieldToHex(leaf)))).wait();
+        size += batch.length;
+        assert.equal(await contract.getLastRoot(treeId), fieldToHex(await tree.rootAt(size)), diverged(c, `root on chain at ${size} leaves`));
+      }
+      assert.equal(Number(await contract.getNextLeafIndex(treeId)), c.leaves.length);
+    }
+  } finally {
+    provider.destroy();
+  }
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { CONTRACT_PUBLIC_INPUTS, checkPublicInputOrder, parseVerificationKey, runDoctor } from '../src/doctor.js';
+import { findMissingConstants } from '../src/contracts/verify.js';
+import { CircuitAbi, loadCircuit } from '../src/circuit.js';
+import { RaffleProver } from '../src/prover.js';
+
+const CIRCUIT_PATH = path.resolve(__dirname, '../../circuits/target/raffle_circuits.json');
+const VK_PATH = path.resolve(__dirname, '../../circuits/target/vk');
+const VERIFIER_SOL = path.resolve(__dirname, '../../src/UltraVerifier.sol');
+
+test('parses the committed verification key', () => {
+  const vk = parseVerificationKey(fs.readFileSync(VK_PATH));
+  const source = fs.readFileSync(VERIFIER_SOL, 'utf-8');
+
+  assert.equal(vk.circuitSize, Number(source.match(/uint256 constant N = (\d+);/)![1]));
+  assert.equal(vk.logCircuitSize, Number(source.match(/uint256 constant LOG_N = (\d+);/)![1]));
+  assert.equal(vk.publicInputsSize, Number(source.match(/uint256 constant NUMBER_OF_PUBLIC_INPUTS = (\d+);/)![1]));
+
+  // Every commitment of circuits/target/vk is baked into UltraVerifier.sol
+  const constants = new Set([...source.matchAll(/uint256\((0x[0-9a-f]{64})\)/g)].map(m => BigInt(m[1])));
+  for (const [x, y] of vk.points) {
+    assert.ok(constants.has(x) && constants.has(y), `point (${x}, ${y}) missing from UltraVerifier.sol`);
+  }
+
+  assert.throws(() => parseVerificationKey(new Uint8Array(40)), /Not an UltraHonk verification key/);
+});
+
+test('the compiled circuit exposes public inputs in _parsePublicInputs order', () => {
+  const abi = new CircuitAbi(loadCircuit(CIRCUIT_PATH));
+  assert.equal(checkPublicInputOrder(abi.publicParameterNames), null);
+
+  const swapped = [...CONTRACT_PUBLIC_INPUTS];
+  [swapped[3], swapped[4]] = [swapped[4], swapped[3]];
+  assert.match(checkPublicInputOrder(swapped)!, /circuit exposes \[.*winner_index, raffle_id/);
+});
+
+test('finds verification key coordinates missing from verifier bytecode', () => {
+  const [[x, y], [x2]] = parseVerificationKey(fs.readFileSync(VK_PATH)).points;
+  const PUSH32 = '7f';
+  const bytecode = '0x' + [x, y].map(v => PUSH32 + ethers.toBeHex(v, 32).slice(2)).join('');
+
+  assert.deepEqual(findMissingConstants(bytecode, [x, y]), []);
+  assert.deepEqual(findMissingConstants(bytecode, [x, y, x2]), [x2]);
+});
+
+/**
+ * Loaded-circuit stand-in; computing a real key needs the bb.js CRS download
+ */
+function stubProver(key: Uint8Array, publicParameterNames = CONTRACT_PUBLIC_INPUTS): RaffleProver {
+  return {
+    ready: true,
+    maxDepth: 32,
+    publicParameterNames,
+    getVerificationKey: async () => key,
+  } as unknown as RaffleProver;
+}
+
+test('runDoctor compares the circuit key with the vk file', async () => {
+  const vk = fs.readFileSync(VK_PATH);
+
+  assert.deepEqual(
+    (await runDoctor({ prover: stubProver(vk), vkPath: VK_PATH })).map(r => [r.name, r.status]),
+    [['circuit', 'pass'], ['public inputs', 'pass'], ['verification key', 'pass'], ['verifier', 'skip']]
+  );
+
+  const other = Buffer.from(vk);
+  other[40] ^= 1;
+  const results = await runDoctor({ prover: stubProver(other, ['root']), vkPath: VK_PATH });
+  assert.equal(results.find(r => r.name === 'verification key')!.status, 'fail');
+  assert.equal(results.find(r => r.name === 'public inputs')!.status, 'fail');
+});
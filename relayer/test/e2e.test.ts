@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import request from 'supertest';
+import { ethers } from 'ethers';
+import { createRelayerApp } from '../src/app.js';
+import { connectPrivateRaffle, toRaffle } from '../src/contracts/PrivateRaffle.js';
+import { createClaimBackend } from '../src/claim/backend.js';
+import { ClaimQueue } from '../src/claim/queue.js';
+import { MemoryClaimJobStore } from '../src/claim/jobs.js';
+import { FeeEngine } from '../src/fees/engine.js';
+import { RaffleIndexer } from '../src/indexer/indexer.js';
+import { ContractLogSource } from '../src/indexer/source.js';
+import { MemoryIndexerStore } from '../src/indexer/store.js';
+import { TransactionManager } from '../src/tx/manager.js';
+import { MemoryTransactionStore } from '../src/tx/store.js';
+import { RaffleProver } from '../src/prover.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { configureLogging, restoreLogging } from '../src/logging/logger.js';
+import { fieldToHex } from '../src/field.js';
+
+// The relayer API against forge-deployed contracts and the mock Supra router:
+// forge build && anvil & ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+const CIRCUIT_PATH = path.resolve(__dirname, '../../circuits/target/raffle_circuits.json');
+const FOUNDRY_OUT = process.env.FOUNDRY_OUT || path.resolve(__dirname, '../../out');
+// anvil's default accounts 0, 1 and 2
+const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const RELAYER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const BUYER_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a8e928f7ab365a';
+const PRIZE = ethers.parseEther('1');
+const PRICE = ethers.parseEther('0.01');
+const LEVELS = 3;
+const DURATION = 3600;
+const RANDOMNESS = 4242n;
+
+function loadArtifact(file: string, contract: string): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const artifact = JSON.parse(fs.readFileSync(path.join(FOUNDRY_OUT, file, `${contract}.json`), 'utf-8'));
+  return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+}
+
+async function deploy(file: string, contract: string, signer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const { abi, bytecode } = loadArtifact(file, contract);
+  const deployed = await new ethers.ContractFactory(abi, bytecode, signer).deploy(...args);
+  await deployed.waitForDeployment();
+  return new ethers.Contract(await deployed.getAddress(), abi, signer);
+}
+
+test('a winner claims through the relayer API on anvil', { skip: !process.env.ANVIL_RPC_URL }, async () => {
+  const provider = new ethers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  const deployer = new ethers.NonceManager(new ethers.Wallet(DEPLOYER_KEY, provider));
+  const relayer = new ethers.Wallet(RELAYER_KEY, provider);
+  const buyer = new ethers.NonceManager(new ethers.Wallet(BUYER_KEY, provider));
+  const recipient = ethers.Wallet.createRandom().address;
+  const quietLogs = configureLogging({ level: 'silent' });
+  const hasher = await Poseidon2Hasher.create();
+  const prover = new RaffleProver(CIRCUIT_PATH);
+  let txManager: TransactionManager | undefined;
+
+  try {
+    const poseidon = await deploy('Poseidon2.sol', 'Poseidon2', deployer);
+    const verifier = await deploy('UltraVerifier.sol', 'HonkVerifier', deployer);
+    const router = await deploy('MockSupraRouter.sol', 'MockSupraRouter', deployer);
+    const raffleContract = await deploy('PrivateRaffle.sol', 'PrivateRaffle', deployer,
+      await verifier.getAddress(), await poseidon.getAddress(), await router.getAddress());
+    const address = await raffleContract.getAddress();
+
+    const owner = connectPrivateRaffle(address, deployer);
+    await (await owner.createRaffle(PRICE, LEVELS, DURATION, { value: PRIZE })).wait();
+    const raffleId = (await owner.raffleCounter()).toString();
+
+    const tickets = Array.from({ length: 3 }, () => ({
+      secret: ethers.toBigInt(ethers.randomBytes(31)),
+      nullifier: ethers.toBigInt(ethers.randomBytes(31)),
+    }));
+    const asBuyer = connectPrivateRaffle(address, buyer);
+    for (const ticket of tickets) {
+      const commitment = fieldToHex(await hasher.commitment(ticket.secret, ticket.nullifier));
+      await (await asBuyer.purchaseTicket(raffleId, commitment, { value: PRICE })).wait();
+    }
+
+    // End the sale and draw through the mock router
+    await provider.send('evm_increaseTime', [DURATION + 1]);
+    await provider.send('evm_mine', []);
+    await (await owner.drawWinner(raffleId)).wait();
+    const { requestId } = toRaffle(await owner.getRaffle(raffleId));
+    await (await router.fulfill(address, requestId, RANDOMNESS)).wait();
+    const drawn = toRaffle(await owner.getRaffle(raffleId));
+    const winnerIndex = Number(drawn.winnerIndex);
+    assert.equal(winnerIndex, Number(RANDOMNESS % BigInt(tickets.length)));
+
+    // The relayer as index.ts wires it, with in-memory stores
+    const contract = connectPrivateRaffle(address, relayer);
+    txManager = new TransactionManager({ signer: relayer, provider, store: new MemoryTransactionStore() });
+    await txManager.initialize();
+    const feeEngine = new FeeEngine({
+      provider,
+      contract,
+      signer: relayer,
+      claimGas: 3_000_000n,
+      ticketGas: 500_000n,
+      marginPercent: 20,
+      maxPrizePercent: 10,
+      quoteTtlSeconds: 300,
+    });
+    await feeEngine.initialize();
+    const indexer = new RaffleIndexer({
+      source: new ContractLogSource(provider, address),
+      store: new MemoryIndexerStore(),
+      hasher,
+    });
+    await indexer.initialize();
+    await prover.initialize();
+    const claimQueue = new ClaimQueue({
+      store: new MemoryClaimJobStore(),
+      backend: createClaimBackend({ contract, txManager, prover, proverPool: null, feeEngine }),
+    });
+    await claimQueue.initialize();
+
+    const app = createRelayerApp({
+      provider,
+      signer: relayer,
+      contract,
+      prover,
+      indexer,
+      claimQueue,
+      feeEngine,
+      config: {
+        privacyMode: 'standard',
+        requestJitterMs: 0,
+        witnessEncryption: 'optional',
+        fee: { claimGas: 3_000_000n, ticketGas: 500_000n, marginPercent: 20, maxPrizePercent: 10 },
+      },
+    });
+
+    // The winner proves locally from the relayer's path and claims with a quote
+    const { body: merklePath } = await request(app).get(`/raffle/${raffleId}/path/${winnerIndex}`);
+    assert.equal(merklePath.root, drawn.root);
+    const winner = tickets[winnerIndex];
+    const { proof, publicInputs } = await prover.generateProof({
+      secret: winner.secret.toString(),
+      nullifier: winner.nullifier.toString(),
+      siblings: merklePath.pathElements.map((e: string) => BigInt(e).toString()),
+      recipient: BigInt(recipient).toString(),
+      root: BigInt(merklePath.root).toString(),
+      raffleId,
+      winnerIndex: winnerIndex.toString(),
+      treeDepth: LEVELS.toString(),
+    });
+    const { body: feeQuote } = await request(app).get(`/fee?raffleId=${raffleId}`);
+    const claim = {
+      raffleId,
+      proof: prover.formatProofForContract(proof),
+      publicInputs: prover.formatPublicInputsForContract(publicInputs),
+      recipient,
+      feeQuote,
+    };
+
+    const queued = await request(app).post('/claim').send(claim);
+    assert.equal(queued.status, 202, JSON.stringify(queued.body));
+    await claimQueue.drain();
+    const job = (await request(app).get(`/claim/${queued.body.jobId}`)).body;
+    assert.equal(job.status, 'confirmed', JSON.stringify(job.error));
+    assert.equal(await provider.getBalance(recipient), drawn.prizePool - BigInt(feeQuote.feeWei));
+
+    // The same proof again: the raffle is no longer closed
+    const replay = await request(app).post('/claim').send(claim);
+    assert.equal(replay.status, 409);
+    assert.equal(replay.body.code, 'RAFFLE_NOT_CLOSED');
+  } finally {
+    txManager?.stop();
+    await prover.destroy();
+    await hasher.destroy();
+    restoreLogging(quietLogs);
+    provider.destroy();
+  }
+});
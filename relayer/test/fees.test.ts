@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { FeeEngine } from '../src/fees/engine.js';
+import { RaffleOutput, RaffleStatus } from '../src/contracts/PrivateRaffle.js';
+import { FeeQuoteError } from '../src/fees/quote.js';
+import { ClaimError, fromFeeQuoteError } from '../src/claim/errors.js';
+
+const RAFFLE_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GWEI = 10n ** 9n;
+
+function raffleWithPrize(prizePool: bigint): RaffleOutput {
+  return {
+    creator: ethers.ZeroAddress,
+    ticketPrice: 0n,
+    maxParticipants: 8n,
+    duration: 3600n,
+    endTime: 0n,
+    levels: 3n,
+    nextIndex: 5n,
+    root: ethers.ZeroHash,
+    prizeType: 0n,
+    prizePool,
+    status: BigInt(RaffleStatus.Closed),
+    winnerIndex: 2n,
+    requestId: 0n,
+    randomnessRequested: true,
+    createdAt: 0n,
+  };
+}
+
+function setup(prizePool = ethers.parseEther('1'), feeData = new ethers.FeeData(null, 2n * GWEI, 1n * GWEI)) {
+  const clock = { now: 1_700_000_000_000 };
+  const signer = ethers.Wallet.createRandom();
+  const engine = new FeeEngine({
+    provider: {
+      getNetwork: async () => new ethers.Network('fake', 534351n),
+      getFeeData: async () => feeData,
+    },
+    contract: {
+      getRaffle: (async () => raffleWithPrize(prizePool)) as any,
+      getAddress: async () => RAFFLE_ADDRESS,
+    },
+    signer,
+    claimGas: 3_000_000n,
+    marginPercent: 20,
+    maxPrizePercent: 10,
+    quoteTtlSeconds: 300,
+    now: () => clock.now,
+  });
+  return { engine, clock, signer };
+}
+
+function feeQuoteErrorCode(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof FeeQuoteError, `expected FeeQuoteError, got ${error}`);
+    return error.code;
+  }
+  assert.fail('expected a FeeQuoteError');
+}
+
+test('prices claimPrize gas at the current max fee plus margin', async () => {
+  const { engine, signer } = setup();
+  await engine.initialize();
+
+  const quote = await engine.quote('1');
+
+  // 3,000,000 gas x 2 gwei x 1.2
+  assert.equal(quote.gasCost, (6_000_000n * GWEI).toString());
+  assert.equal(quote.feeWei, (7_200_000n * GWEI).toString());
+  assert.equal(quote.capped, false);
+  assert.equal(quote.recipientReceives, (ethers.parseEther('1') - 7_200_000n * GWEI).toString());
+  assert.equal(quote.expiresAt, 1_700_000_000 + 300);
+  assert.equal(quote.relayer, signer.address);
+});
+
+test('caps the fee at the configured share of the prize pool', async () => {
+  const prizePool = ethers.parseEther('0.005');
+  const { engine } = setup(prizePool);
+  await engine.initialize();
+
+  const quote = await engine.quote('1');
+
+  assert.equal(quote.feeWei, (prizePool / 10n).toString());
+  assert.equal(quote.capped, true);
+  assert.equal(quote.recipientReceives, (prizePool - prizePool / 10n).toString());
+});
+
+test('falls back to gasPrice on chains without EIP-1559 fee data', async () => {
+  const { engine } = setup(ethers.parseEther('1'), new ethers.FeeData(3n * GWEI, null, null));
+  await engine.initialize();
+
+  assert.equal((await engine.quote('1')).maxFeePerGas, (3n * GWEI).toString());
+});
+
+test('gas estimate follows the gas used by recent claims', async () => {
+  const { engine } = setup();
+  await engine.initialize();
+  assert.equal(engine.gasEstimate, 3_000_000n);
+
+  engine.recordClaimGas(2_100_000n);
+  engine.recordClaimGas(2_300_000n);
+  engine.recordClaimGas(2_200_000n);
+
+  assert.equal(engine.gasEstimate, 2_300_000n);
+  assert.equal((await engine.quote('1')).gasEstimate, '2300000');
+});
+
+test('honours its own unexpired quotes and rejects anything else', async () => {
+  const { engine, clock } = setup();
+  await engine.initialize();
+  const { raffleId, feeWei, expiresAt, signature } = await engine.quote('1');
+  const quote = { raffleId, feeWei, expiresAt, signature };
+
+  assert.equal(engine.verify(quote, '1'), BigInt(feeWei));
+
+  assert.equal(feeQuoteErrorCode(() => engine.verify({ ...quote, feeWei: '1' }, '1')), 'INVALID_FEE_QUOTE');
+  assert.equal(feeQuoteErrorCode(() => engine.verify(quote, '2')), 'INVALID_FEE_QUOTE');
+  assert.equal(feeQuoteErrorCode(() => engine.verify({ ...quote, signature: '0x1234' }, '1')), 'INVALID_FEE_QUOTE');
+  assert.equal(feeQuoteErrorCode(() => engine.verify({ raffleId: '1' }, '1')), 'INVALID_FEE_QUOTE');
+
+  const other = setup();
+  await other.engine.initialize();
+  const foreign = await other.engine.quote('1');
+  assert.equal(feeQuoteErrorCode(() => engine.verify(foreign, '1')), 'INVALID_FEE_QUOTE');
+
+  clock.now += 301_000;
+  assert.equal(feeQuoteErrorCode(() => engine.verify(quote, '1')), 'FEE_QUOTE_EXPIRED');
+});
+
+test('claims report a rejected quote as a ClaimError with the same code', () => {
+  const mapped = fromFeeQuoteError(new FeeQuoteError('FEE_QUOTE_EXPIRED', 409, 'feeQuote has expired', { expiresAt: '1' }));
+  assert.ok(mapped instanceof ClaimError);
+  assert.equal(mapped.status, 409);
+  assert.deepEqual(mapped.toJSON(), { error: 'feeQuote has expired', code: 'FEE_QUOTE_EXPIRED', details: { expiresAt: '1' } });
+
+  const other = new Error('provider down');
+  assert.equal(fromFeeQuoteError(other), other);
+});
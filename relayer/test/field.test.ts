@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { Fr } from '@aztec/bb.js';
+import {
+  MODULUS,
+  ZERO_VALUE,
+  addressToField,
+  fieldFromFr,
+  fieldToBytes,
+  fieldToDecimal,
+  fieldToHex,
+  modField,
+  toField,
+} from '../src/field.js';
+
+const PRIVATE_RAFFLE_SOL = path.resolve(__dirname, '../../src/PrivateRaffle.sol');
+
+test('MODULUS matches PrivateRaffle.MODULUS and bb.js Fr.MODULUS', () => {
+  const source = fs.readFileSync(PRIVATE_RAFFLE_SOL, 'utf-8');
+  const match = source.match(/MODULUS\s*=\s*(\d+);/);
+  assert.ok(match, 'MODULUS constant not found in PrivateRaffle.sol');
+  assert.equal(MODULUS, BigInt(match[1]));
+  assert.equal(MODULUS, Fr.MODULUS);
+});
+
+test('ZERO_VALUE is keccak256("raffero") % MODULUS', () => {
+  const expected = BigInt(ethers.keccak256(ethers.toUtf8Bytes('raffero'))) % MODULUS;
+  assert.equal(ZERO_VALUE, expected);
+});
+
+test('decimal, hex, bytes and Fr encodings agree', () => {
+  const x = 0x148c4666e2c5bce33dc53b30430808464f7ed76b28daf8a36722e93b49a31a5en;
+  const hex = fieldToHex(x);
+
+  assert.equal(hex.length, 66);
+  assert.equal(toField(hex), x);
+  assert.equal(toField(fieldToDecimal(x)), x);
+  assert.equal(toField(fieldToBytes(x)), x);
+  assert.equal(fieldFromFr(new Fr(x)), x);
+  assert.equal(fieldFromFr(Fr.fromString(hex)), x);
+  assert.equal(fieldFromFr({ toString: () => x.toString() }), x);
+});
+
+test('toField rejects non-canonical and malformed values', () => {
+  assert.throws(() => toField(MODULUS));
+  assert.throws(() => toField(-1n));
+  assert.throws(() => toField('12ab'));
+  assert.throws(() => toField(''));
+  assert.throws(() => toField(1.5));
+  assert.throws(() => toField(new Uint8Array(33)));
+  assert.equal(modField(MODULUS + 5n), 5n);
+  assert.equal(modField(-1n), MODULUS - 1n);
+});
+
+test('addressToField matches bytes32(uint256(uint160(addr)))', () => {
+  const address = '0x1111111111111111111111111111111111111111';
+  assert.equal(
+    fieldToHex(addressToField(address)),
+    ethers.zeroPadValue(address, 32)
+  );
+  assert.throws(() => addressToField('0x1234'));
+});
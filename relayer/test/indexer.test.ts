@@ -0,0 +1,187 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { RaffleIndexer } from '../src/indexer/indexer.js';
+import { ContractLogSource, FixtureLogSource, LogFixture, RaffleLogSource } from '../src/indexer/source.js';
+import { FileIndexerStore, MemoryIndexerStore } from '../src/indexer/store.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { fieldToHex } from '../src/field.js';
+
+const FIXTURE_PATH = path.resolve(__dirname, 'fixtures/indexer-logs.json');
+
+let hasher: Poseidon2Hasher;
+let fixture: LogFixture;
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+  fixture = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf-8'));
+});
+
+after(async () => {
+  await hasher.destroy();
+});
+
+test('rebuilds every raffle tree from recorded logs', async () => {
+  const indexer = new RaffleIndexer({
+    source: new FixtureLogSource(fixture),
+    store: new MemoryIndexerStore(),
+    hasher,
+    batchSize: 4,
+  });
+  await indexer.initialize();
+
+  assert.equal(await indexer.sync(), fixture.head);
+
+  const raffle1 = indexer.getRaffle(1n)!;
+  assert.equal(raffle1.levels, 2);
+  assert.equal(raffle1.commitments.length, 3);
+  assert.equal(raffle1.winnerIndex, '2');
+  assert.equal(raffle1.claimed, true);
+  assert.equal(raffle1.rootMismatch, false);
+  assert.equal(fieldToHex(indexer.getTree(1n)!.root()), fixture.roots['1@13']);
+
+  const raffle2 = indexer.getRaffle(2n)!;
+  assert.equal(raffle2.levels, 3);
+  assert.equal(raffle2.commitments.length, 2);
+  assert.equal(raffle2.winnerIndex, null);
+  assert.equal(raffle2.rootMismatch, false);
+  assert.equal(fieldToHex(indexer.getTree(2n)!.root()), fixture.roots['2@13']);
+});
+
+test('resumes from the last processed block after a restart', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffle-indexer-'));
+  const statePath = path.join(dir, 'indexer.json');
+  const requested: Array<[number, number]> = [];
+
+  const recording = (source: RaffleLogSource): RaffleLogSource => ({
+    getBlockNumber: () => source.getBlockNumber(),
+    getRoot: (raffleId, block) => source.getRoot(raffleId, block),
+    getEvents: (from, to) => {
+      requested.push([from, to]);
+      return source.getEvents(from, to);
+    },
+  });
+
+  try {
+    // First run stops at block 12, halfway through raffle 1's tickets
+    const first = new RaffleIndexer({
+      source: recording(new FixtureLogSource({ ...fixture, head: 12 })),
+      store: new FileIndexerStore(statePath),
+      hasher,
+    });
+    await first.initialize();
+    await first.sync();
+    assert.equal(first.getRaffle(1n)!.commitments.length, 1);
+
+    requested.length = 0;
+
+    const second = new RaffleIndexer({
+      source: recording(new FixtureLogSource(fixture)),
+      store: new FileIndexerStore(statePath),
+      hasher,
+    });
+    await second.initialize();
+    assert.equal(second.lastProcessedBlock, 12);
+    assert.equal(fieldToHex(second.getTree(1n)!.root()), fixture.roots['1@11']);
+
+    await second.sync();
+    assert.deepEqual(requested, [[13, fixture.head]]);
+    assert.equal(second.getRaffle(1n)!.commitments.length, 3);
+    assert.equal(fieldToHex(second.getTree(1n)!.root()), fixture.roots['1@13']);
+    assert.equal(second.getRaffle(1n)!.rootMismatch, false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('restarts from tree snapshots, rehashing only what is missing from them', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffle-indexer-'));
+  const statePath = path.join(dir, 'indexer.json');
+  let hashes = 0;
+  const counting = { hash: (inputs: bigint[]) => { hashes++; return hasher.hash(inputs); } };
+
+  try {
+    const first = new RaffleIndexer({
+      source: new FixtureLogSource(fixture),
+      store: new FileIndexerStore(statePath),
+      hasher: counting,
+      snapshotEvery: 1,
+    });
+    await first.initialize();
+    await first.sync();
+    assert.ok(fs.existsSync(path.join(dir, 'indexer-trees', '1.imt')));
+
+    // Restored trees only hash their zero chains (2 + 3 levels)
+    hashes = 0;
+    const second = new RaffleIndexer({ source: new FixtureLogSource(fixture), store: new FileIndexerStore(statePath), hasher: counting });
+    await second.initialize();
+    assert.equal(hashes, 5);
+    assert.equal(fieldToHex(second.getTree(1n)!.root()), fixture.roots['1@13']);
+    assert.equal(fieldToHex(second.getTree(2n)!.root()), fixture.roots['2@13']);
+
+    // A snapshot that does not match the commitments is rebuilt instead
+    fs.copyFileSync(path.join(dir, 'indexer-trees', '2.imt'), path.join(dir, 'indexer-trees', '1.imt'));
+    const third = new RaffleIndexer({ source: new FixtureLogSource(fixture), store: new FileIndexerStore(statePath), hasher });
+    await third.initialize();
+    assert.equal(fieldToHex(third.getTree(1n)!.root()), fixture.roots['1@13']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('flags a raffle whose rebuilt root disagrees with getRoot()', async () => {
+  const tampered = {
+    ...fixture,
+    roots: { ...fixture.roots, '2@13': fieldToHex(1n) },
+  };
+  const indexer = new RaffleIndexer({
+    source: new FixtureLogSource(tampered),
+    store: new MemoryIndexerStore(),
+    hasher,
+  });
+  await indexer.initialize();
+  await indexer.sync();
+
+  assert.equal(indexer.getRaffle(1n)!.rootMismatch, false);
+  assert.equal(indexer.getRaffle(2n)!.rootMismatch, true);
+});
+
+test('rejects tickets for raffles created before the start block', async () => {
+  const indexer = new RaffleIndexer({
+    source: new FixtureLogSource(fixture),
+    store: new MemoryIndexerStore(),
+    hasher,
+    startBlock: 11,
+  });
+  await indexer.initialize();
+  await assert.rejects(indexer.sync(), /created before the indexer start block 11/);
+});
+
+// ANVIL_RPC_URL=http://127.0.0.1:8545 PRIVATE_RAFFLE_ADDRESS=0x... npm test
+test('matches getRoot() on a live node', { skip: !process.env.ANVIL_RPC_URL }, async () => {
+  const provider = new ethers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  const address = process.env.PRIVATE_RAFFLE_ADDRESS!;
+  const contract = new ethers.Contract(
+    address,
+    ['function getRoot(uint256 raffleId) external view returns (bytes32)', 'function raffleCounter() external view returns (uint256)'],
+    provider
+  );
+
+  const indexer = new RaffleIndexer({
+    source: new ContractLogSource(provider, address),
+    store: new MemoryIndexerStore(),
+    hasher,
+  });
+  await indexer.initialize();
+  await indexer.sync();
+
+  const raffleCount = Number(await contract.raffleCounter());
+  for (let raffleId = 1; raffleId <= raffleCount; raffleId++) {
+    assert.equal(fieldToHex(indexer.getTree(BigInt(raffleId))!.root()), await contract.getRoot(raffleId));
+    assert.equal(indexer.getRaffle(BigInt(raffleId))!.rootMismatch, false);
+  }
+  provider.destroy();
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStateStore, JobState, StateStore, StateWriter, pruneJobs } from '../src/jsonStore.js';
+
+type Counter = JobState<number>;
+
+test('file store round-trips state and refuses unknown versions', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffle-state-'));
+  const filePath = path.join(dir, 'nested', 'jobs.json');
+  const store = new FileStateStore<Counter>(filePath, 'counter job');
+
+  assert.equal(await store.load(), null);
+  await store.save({ version: 1, jobs: { a: 1 } });
+  assert.deepEqual(await store.load(), { version: 1, jobs: { a: 1 } });
+  assert.equal(fs.existsSync(`${filePath}.tmp`), false);
+
+  fs.writeFileSync(filePath, JSON.stringify({ version: 2, jobs: {} }));
+  await assert.rejects(store.load(), /Unsupported counter job state version 2/);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('pruneJobs drops only finished jobs past the retention period', () => {
+  const job = (status: string, updatedAt: number) => ({ status, updatedAt });
+  const state: JobState<{ status: string; updatedAt: number }> = {
+    version: 1,
+    jobs: {
+      oldConfirmed: job('confirmed', 100),
+      oldFailed: job('failed', 100),
+      oldSubmitted: job('submitted', 100),
+      recentFailed: job('failed', 950),
+    },
+  };
+
+  assert.equal(pruneJobs(state, 100, 1_000), 2);
+  assert.deepEqual(Object.keys(state.jobs), ['oldSubmitted', 'recentFailed']);
+});
+
+test('writer saves snapshots in order and carries on after a failed save', async () => {
+  const written: number[] = [];
+  let failNext = false;
+  const store: StateStore<Counter> = {
+    load: async () => null,
+    save: async state => {
+      // later saves finish first unless the writer waits for earlier ones
+      await new Promise(resolve => setTimeout(resolve, 10 - state.jobs.n));
+      if (failNext) {
+        failNext = false;
+        throw new Error('disk full');
+      }
+      written.push(state.jobs.n);
+    },
+  };
+  const writer = new StateWriter(store);
+
+  const saves = [1, 2, 3].map(n => writer.save({ version: 1, jobs: { n } }));
+  await Promise.all(saves);
+  assert.deepEqual(written, [1, 2, 3]);
+
+  failNext = true;
+  await assert.rejects(writer.save({ version: 1, jobs: { n: 4 } }), /disk full/);
+  await writer.save({ version: 1, jobs: { n: 5 } });
+  await writer.flush();
+  assert.deepEqual(written, [1, 2, 3, 5]);
+});
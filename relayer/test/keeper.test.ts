@@ -0,0 +1,432 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { RaffleKeeper } from '../src/keeper/keeper.js';
+import { AlertSink, KeeperAlert, createAlertSink } from '../src/keeper/alerts.js';
+import { PRIVATE_RAFFLE_ABI, PrivateRaffleContract, RaffleOutput, RaffleStatus, connectPrivateRaffle } from '../src/contracts/PrivateRaffle.js';
+import { RaffleIndexer } from '../src/indexer/indexer.js';
+import { ContractLogSource, RaffleLogSource } from '../src/indexer/source.js';
+import { MemoryIndexerStore } from '../src/indexer/store.js';
+import { RawLog, compareEvents, parseRaffleLog, raffleEventsInterface } from '../src/indexer/events.js';
+import { ManagedReceipt, TransactionManager, TransactionRequest } from '../src/tx/manager.js';
+import { MemoryTransactionStore } from '../src/tx/store.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { configureLogging, restoreLogging } from '../src/logging/logger.js';
+import { fieldToHex } from '../src/field.js';
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+const RAFFLE_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TIMEOUT_MS = 10 * 60_000;
+const START = 1_700_000_000;   // unix seconds
+
+let hasher: Poseidon2Hasher;
+let quietLogs: ReturnType<typeof configureLogging>;
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+  quietLogs = configureLogging({ level: 'silent' });
+});
+
+after(async () => {
+  restoreLogging(quietLogs);
+  await hasher.destroy();
+});
+
+interface ChainRaffle {
+  endTime: number;
+  participants: number;
+  status: RaffleStatus;
+  randomnessRequested: boolean;
+  requestId: bigint;
+  winnerIndex: bigint;
+}
+
+/**
+ * PrivateRaffle and its logs, with the Supra router left to the test:
+ * drawWinner requests randomness, nothing answers until fulfill()
+ */
+class FakeChain implements RaffleLogSource {
+  time = START;
+  head = 0;
+  drawRevert: Error | null = null;
+  sent: TransactionRequest[] = [];
+  private raffles = new Map<string, ChainRaffle>();
+  private logs: RawLog[] = [];
+  private blockTimes = new Map<number, number>();
+  private nextRequestId = 1n;
+
+  createRaffle(raffleId: number, participants: number, duration: number): void {
+    this.raffles.set(String(raffleId), {
+      endTime: this.time + duration,
+      participants,
+      status: RaffleStatus.Active,
+      randomnessRequested: false,
+      requestId: 0n,
+      winnerIndex: 0n,
+    });
+    this.emit('RaffleCreated', [raffleId, ethers.ZeroAddress, 1n, 8n, duration, 10n ** 18n]);
+  }
+
+  fulfill(raffleId: number, randomness: bigint): void {
+    const raffle = this.raffles.get(String(raffleId))!;
+    raffle.status = RaffleStatus.Closed;
+    raffle.winnerIndex = randomness % BigInt(raffle.participants);
+    this.emit('WinnerSelected', [raffleId, raffle.winnerIndex]);
+  }
+
+  advance(seconds: number): void {
+    this.time += seconds;
+  }
+
+  contract(): PrivateRaffleContract {
+    const drawWinner = Object.assign(async () => {}, {
+      staticCall: async (raffleId: string) => {
+        if (this.drawRevert) throw this.drawRevert;
+        this.assertDrawable(raffleId);
+      },
+    });
+    return {
+      interface: iface,
+      getAddress: async () => RAFFLE_ADDRESS,
+      getRaffle: async (raffleId: string) => this.output(raffleId),
+      canDrawWinner: async (raffleId: string) => {
+        const raffle = this.raffles.get(raffleId)!;
+        return raffle.status === RaffleStatus.Active && this.time >= raffle.endTime && raffle.participants > 0;
+      },
+      drawWinner,
+    } as unknown as PrivateRaffleContract;
+  }
+
+  txManager(): Pick<TransactionManager, 'send' | 'wait'> {
+    return {
+      send: async (request: TransactionRequest) => {
+        this.sent.push(request);
+        return '0x' + this.sent.length.toString(16).padStart(64, '0');
+      },
+      wait: async (hash: string): Promise<ManagedReceipt> => {
+        const request = this.sent[Number(hash) - 1];
+        const [raffleId] = iface.decodeFunctionData('drawWinner', request.data);
+        this.drawWinner(raffleId.toString());
+        return { hash, blockNumber: this.head, status: 1, gasUsed: 100_000n };
+      },
+    };
+  }
+
+  provider(): Pick<ethers.Provider, 'getBlock'> {
+    return {
+      getBlock: async (blockNumber: ethers.BlockTag) => ({ timestamp: this.blockTimes.get(Number(blockNumber))! }),
+    } as unknown as Pick<ethers.Provider, 'getBlock'>;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getEvents(fromBlock: number, toBlock: number) {
+    return this.logs
+      .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+      .map(log => parseRaffleLog(log)!)
+      .sort(compareEvents);
+  }
+
+  async getRoot(): Promise<string> {
+    throw new Error('no tickets in these raffles');
+  }
+
+  private drawWinner(raffleId: string): void {
+    this.assertDrawable(raffleId);
+    const raffle = this.raffles.get(raffleId)!;
+    raffle.randomnessRequested = true;
+    raffle.requestId = this.nextRequestId++;
+    this.emit('RandomnessRequested', [raffleId, raffle.requestId]);
+  }
+
+  private assertDrawable(raffleId: string): void {
+    const raffle = this.raffles.get(raffleId)!;
+    if (raffle.randomnessRequested) {
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call',
+        data: iface.encodeErrorResult('VRFAlreadyRequested', []),
+        reason: null,
+        transaction: { to: RAFFLE_ADDRESS, data: '0x' },
+        invocation: null,
+        revert: null,
+      });
+    }
+  }
+
+  private emit(name: string, args: unknown[]): void {
+    this.head++;
+    this.blockTimes.set(this.head, this.time);
+    const { topics, data } = raffleEventsInterface.encodeEventLog(name, args);
+    this.logs.push({ blockNumber: this.head, logIndex: 0, topics, data });
+  }
+
+  private output(raffleId: string): RaffleOutput {
+    const raffle = this.raffles.get(raffleId)!;
+    return {
+      creator: ethers.ZeroAddress,
+      ticketPrice: 1n,
+      maxParticipants: 8n,
+      duration: 0n,
+      endTime: BigInt(raffle.endTime),
+      levels: 3n,
+      nextIndex: BigInt(raffle.participants),
+      root: fieldToHex(0n),
+      prizeType: 0n,
+      prizePool: 10n ** 18n,
+      status: BigInt(raffle.status),
+      winnerIndex: raffle.winnerIndex,
+      requestId: raffle.requestId,
+      randomnessRequested: raffle.randomnessRequested,
+      createdAt: 0n,
+    };
+  }
+}
+
+class RecordingAlerts implements AlertSink {
+  raised: KeeperAlert[] = [];
+
+  async raise(alert: KeeperAlert): Promise<void> {
+    this.raised.push(alert);
+  }
+}
+
+async function startKeeper(chain: FakeChain) {
+  const indexer = new RaffleIndexer({ source: chain, store: new MemoryIndexerStore(), hasher });
+  await indexer.initialize();
+  const alerts = new RecordingAlerts();
+  const keeper = new RaffleKeeper({
+    contract: chain.contract(),
+    indexer,
+    txManager: chain.txManager(),
+    provider: chain.provider(),
+    alerts,
+    vrfTimeoutMs: TIMEOUT_MS,
+    now: () => chain.time * 1000,
+  });
+  const tick = async () => {
+    await keeper.tick();
+    await keeper.drain();
+  };
+  return { keeper, indexer, alerts, tick };
+}
+
+test('draws each raffle once it can be drawn, and only once', async () => {
+  const chain = new FakeChain();
+  chain.createRaffle(1, 3, 3600);
+  chain.createRaffle(2, 0, 3600);       // nobody bought a ticket
+  chain.createRaffle(3, 2, 7200);
+  const { indexer, alerts, tick } = await startKeeper(chain);
+
+  await tick();
+  assert.equal(chain.sent.length, 0);
+
+  chain.advance(3600);
+  await tick();
+  assert.deepEqual(chain.sent.map(tx => iface.decodeFunctionData('drawWinner', tx.data)[0]), [1n]);
+  assert.equal(chain.sent[0].to, RAFFLE_ADDRESS);
+
+  // The request is pending: nothing is sent again, and the indexer follows it
+  await tick();
+  assert.equal(chain.sent.length, 1);
+  assert.equal(indexer.getRaffle(1n)!.requestId, '1');
+  assert.equal(indexer.getRaffle(1n)!.requestedAtBlock, chain.head);
+
+  chain.advance(3600);
+  await tick();
+  await tick();
+  assert.equal(chain.sent.length, 2);
+  assert.equal(indexer.getRaffle(3n)!.requestId, '2');
+  // Raffle 1's request has now been waiting an hour
+  assert.deepEqual(alerts.raised.map(alert => [alert.type, alert.raffleId]), [['VRF_TIMEOUT', '1']]);
+});
+
+test('raises VRF_TIMEOUT once a request waits too long, and VRF_FULFILLED when it is answered', async () => {
+  const chain = new FakeChain();
+  chain.createRaffle(1, 3, 60);
+  const { keeper, alerts, tick } = await startKeeper(chain);
+
+  chain.advance(60);
+  await tick();
+  chain.advance(30);
+  await tick();
+  assert.deepEqual(keeper.status().waiting, [{ raffleId: '1', requestId: '1', waitingMs: 30_000, timedOut: false }]);
+
+  // A restart would time it from the request block too
+  chain.advance(TIMEOUT_MS / 1000 - 30);
+  await tick();
+  assert.equal(alerts.raised.length, 0);
+
+  chain.advance(1);
+  await tick();
+  await tick();
+  assert.equal(alerts.raised.length, 1);
+  assert.equal(alerts.raised[0].type, 'VRF_TIMEOUT');
+  assert.equal(alerts.raised[0].raffleId, '1');
+  assert.deepEqual(alerts.raised[0].details, { requestId: '1', waitingMs: TIMEOUT_MS + 1000, timeoutMs: TIMEOUT_MS });
+
+  chain.advance(120);
+  chain.fulfill(1, 7n);
+  await tick();
+  assert.equal(alerts.raised.length, 2);
+  assert.equal(alerts.raised[1].type, 'VRF_FULFILLED');
+  assert.deepEqual(keeper.status().waiting, []);
+  assert.equal(chain.sent.length, 1);
+});
+
+test('a winner selected in time raises nothing', async () => {
+  const chain = new FakeChain();
+  chain.createRaffle(1, 3, 60);
+  const { alerts, tick } = await startKeeper(chain);
+
+  chain.advance(60);
+  await tick();
+  chain.advance(5);
+  chain.fulfill(1, 7n);
+  chain.advance(TIMEOUT_MS);
+  await tick();
+  assert.deepEqual(alerts.raised, []);
+});
+
+test('raises DRAW_FAILED once per raffle when drawWinner would revert', async () => {
+  const chain = new FakeChain();
+  chain.createRaffle(1, 3, 60);
+  const { alerts, tick } = await startKeeper(chain);
+  chain.advance(60);
+  chain.drawRevert = ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: iface.encodeErrorResult('Error', ['Supra: insufficient funds']),
+    reason: null,
+    transaction: { to: RAFFLE_ADDRESS, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+
+  await tick();
+  await tick();
+  assert.equal(chain.sent.length, 0);
+  assert.deepEqual(alerts.raised.map(alert => [alert.type, alert.message]), [
+    ['DRAW_FAILED', 'drawWinner failed: Supra: insufficient funds'],
+  ]);
+
+  chain.drawRevert = null;
+  await tick();
+  assert.equal(chain.sent.length, 1);
+});
+
+test('alerts are POSTed to the webhook, and a dead webhook is not fatal', async () => {
+  const received: any[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ contentType: req.headers['content-type'], body: JSON.parse(body) });
+      res.writeHead(204).end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+
+  try {
+    const alert: KeeperAlert = { type: 'VRF_TIMEOUT', raffleId: '4', message: 'late', details: { requestId: '9' } };
+    await createAlertSink({ webhookUrl: url }).raise(alert);
+    assert.equal(received.length, 1);
+    assert.equal(received[0].contentType, 'application/json');
+    assert.deepEqual({ ...received[0].body, raisedAt: undefined }, { ...alert, raisedAt: undefined });
+    assert.ok(!Number.isNaN(Date.parse(received[0].body.raisedAt)));
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+
+  // The server is gone now
+  await createAlertSink({ webhookUrl: url, webhookTimeoutMs: 1000 }).raise({
+    type: 'DRAW_FAILED', raffleId: '4', message: 'down', details: {},
+  });
+});
+
+const FOUNDRY_OUT = process.env.FOUNDRY_OUT || path.resolve(__dirname, '../../out');
+const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const KEEPER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+async function deploy(file: string, contract: string, signer: ethers.Signer, ...args: unknown[]): Promise<ethers.Contract> {
+  const artifact = JSON.parse(fs.readFileSync(path.join(FOUNDRY_OUT, file, `${contract}.json`), 'utf-8'));
+  const deployed = await new ethers.ContractFactory(artifact.abi, artifact.bytecode.object, signer).deploy(...args);
+  await deployed.waitForDeployment();
+  return new ethers.Contract(await deployed.getAddress(), artifact.abi, signer);
+}
+
+// forge build && anvil & ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+test('on anvil, draws and alerts on a callback the mock router drops', { skip: !process.env.ANVIL_RPC_URL }, async () => {
+  const provider = new ethers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  const deployer = new ethers.NonceManager(new ethers.Wallet(DEPLOYER_KEY, provider));
+  const keeperWallet = new ethers.Wallet(KEEPER_KEY, provider);
+  let txManager: TransactionManager | undefined;
+
+  try {
+    const poseidon = await deploy('Poseidon2.sol', 'Poseidon2', deployer);
+    const router = await deploy('MockSupraRouter.sol', 'MockSupraRouter', deployer);
+    // Draws never reach the verifier
+    const raffleContract = await deploy('PrivateRaffle.sol', 'PrivateRaffle', deployer,
+      await poseidon.getAddress(), await poseidon.getAddress(), await router.getAddress());
+    const address = await raffleContract.getAddress();
+    const owner = connectPrivateRaffle(address, deployer);
+    const startBlock = await provider.getBlockNumber();
+
+    await (await owner.createRaffle(10n ** 16n, 3, 60, { value: 10n ** 18n })).wait();
+    const raffleId = await owner.raffleCounter();
+    await (await owner.purchaseTicket(raffleId, fieldToHex(0x1234n), { value: 10n ** 16n })).wait();
+    await (await router.setDropCallbacks(true)).wait();
+
+    txManager = new TransactionManager({ signer: keeperWallet, provider, store: new MemoryTransactionStore() });
+    await txManager.initialize();
+    const indexer = new RaffleIndexer({ source: new ContractLogSource(provider, address), store: new MemoryIndexerStore(), hasher, startBlock });
+    await indexer.initialize();
+    const alerts = new RecordingAlerts();
+    // Chain time, so evm_increaseTime counts
+    let chainTime = 0;
+    const keeper = new RaffleKeeper({
+      contract: connectPrivateRaffle(address, keeperWallet),
+      indexer,
+      txManager,
+      provider,
+      alerts,
+      vrfTimeoutMs: 60_000,
+      now: () => chainTime,
+    });
+    const tick = async () => {
+      await provider.send('evm_mine', []);
+      chainTime = (await provider.getBlock('latest'))!.timestamp * 1000;
+      await keeper.tick();
+      await keeper.drain();
+    };
+
+    await tick();
+    assert.equal((await owner.getRaffle(raffleId)).randomnessRequested, false);
+
+    await provider.send('evm_increaseTime', [61]);
+    await tick();
+    const requested = await owner.getRaffle(raffleId);
+    assert.equal(requested.randomnessRequested, true);
+
+    // The router swallows the callback
+    await (await router.fulfill(address, requested.requestId, 7n)).wait();
+    await provider.send('evm_increaseTime', [61]);
+    await tick();
+    assert.deepEqual(alerts.raised.map(alert => alert.type), ['VRF_TIMEOUT']);
+
+    // ...and delivers it late
+    await (await router.setDropCallbacks(false)).wait();
+    await (await router.fulfill(address, requested.requestId, 7n)).wait();
+    await tick();
+    assert.deepEqual(alerts.raised.map(alert => alert.type), ['VRF_TIMEOUT', 'VRF_FULFILLED']);
+    assert.equal(indexer.getRaffle(raffleId)!.winnerIndex, '0');
+  } finally {
+    txManager?.stop();
+    provider.destroy();
+  }
+});
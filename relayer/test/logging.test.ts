@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { ethers } from 'ethers';
+import { ClaimBackend, ClaimQueue } from '../src/claim/queue.js';
+import { MemoryClaimJobStore } from '../src/claim/jobs.js';
+import { ClaimRequest } from '../src/claim/preflight.js';
+import { PRIVATE_RAFFLE_ABI } from '../src/contracts/PrivateRaffle.js';
+import { configureLogging, restoreLogging } from '../src/logging/logger.js';
+import { privacy } from '../src/logging/privacy.js';
+import { redact, redactValue } from '../src/logging/redact.js';
+import { fieldToHex } from '../src/field.js';
+
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const RAFFLE = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const CLAIM: ClaimRequest = {
+  raffleId: '1',
+  proof: '0x' + 'ab'.repeat(200),
+  publicInputs: [1n, 2n, 3n, 1n, BigInt(RECIPIENT), 2n].map(x => fieldToHex(x)),
+  recipient: RECIPIENT,
+  relayerFee: '1000',
+};
+
+/**
+ * Route every log line into an array for the duration of `run`
+ */
+async function captureLogs(run: () => Promise<void>, allow: string[] = []): Promise<string[]> {
+  const lines: string[] = [];
+  const previous = configureLogging({ level: 'debug', format: 'text', sink: line => lines.push(line), allow });
+  try {
+    await run();
+  } finally {
+    restoreLogging(previous);
+  }
+  return lines;
+}
+
+test('redact scrubs addresses, 32-byte values, calldata and field elements', () => {
+  const calldata = new ethers.Interface(PRIVATE_RAFFLE_ABI).encodeFunctionData('claimPrize', [
+    CLAIM.raffleId, CLAIM.proof, CLAIM.publicInputs, CLAIM.recipient, CLAIM.relayerFee,
+  ]);
+
+  assert.equal(redact(`to ${RECIPIENT}`), 'to [address]');
+  assert.equal(redact(`root ${CLAIM.publicInputs[0]}`), 'root [bytes32]');
+  assert.equal(redact(`data ${calldata}`), `data [calldata ${(calldata.length - 2) / 2} bytes]`);
+  assert.equal(redact(`recipient ${BigInt(RECIPIENT)}`), 'recipient [field]');
+  assert.equal(redact('selector 0x2f4a1b3c, nonce 7, fee 1000000000000000000 wei'), 'selector 0x2f4a1b3c, nonce 7, fee 1000000000000000000 wei');
+  assert.equal(redact(`contract ${RAFFLE}`, new Set([RAFFLE.toLowerCase()])), `contract ${RAFFLE}`);
+
+  assert.deepEqual(redactValue({ error: `sent to ${RECIPIENT}`, details: { root: CLAIM.publicInputs[1], index: '3' } }), {
+    error: 'sent to [address]',
+    details: { root: '[bytes32]', index: '3' },
+  });
+});
+
+test('a failing claim leaves no recipient in the logs or the job error', async () => {
+  const calldata = new ethers.Interface(PRIVATE_RAFFLE_ABI).encodeFunctionData('claimPrize', [
+    CLAIM.raffleId, CLAIM.proof, CLAIM.publicInputs, CLAIM.recipient, CLAIM.relayerFee,
+  ]);
+  // What ethers throws when the relayer wallet cannot pay for gas: the message quotes the transaction
+  const sendError = ethers.makeError('insufficient funds for intrinsic transaction cost', 'INSUFFICIENT_FUNDS', {
+    transaction: { to: RAFFLE, data: calldata },
+  });
+  assert.ok(sendError.message.includes(RECIPIENT.slice(2)), 'the raw error does carry the recipient');
+
+  let submitted = 0;
+  const backend: ClaimBackend = {
+    async prove() {
+      return { proof: CLAIM.proof, publicInputs: CLAIM.publicInputs };
+    },
+    async preflight() {},
+    async submit() {
+      if (submitted++ === 0) throw sendError;
+      return fieldToHex(1n);
+    },
+    async waitForReceipt() {
+      throw new Error(`could not fetch receipt for claimPrize(${BigInt(RECIPIENT)}) to ${RECIPIENT}`);
+    },
+  };
+
+  let failedError: unknown;
+  const lines = await captureLogs(async () => {
+    const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+    await queue.initialize();
+
+    const failed = await queue.enqueueClaim(CLAIM);
+    const watched = await queue.enqueueProofGeneration(
+      {
+        secret: '1', nullifier: '2', siblings: ['0'], recipient: BigInt(RECIPIENT).toString(),
+        root: '3', raffleId: '1', winnerIndex: '0', treeDepth: '1',
+      },
+      RECIPIENT,
+      '1000'
+    );
+    await queue.drain();
+
+    failedError = queue.getJob(failed.id)!.error;
+    assert.equal(queue.getJob(watched.id)!.status, 'submitted');
+  }, [RAFFLE]);
+
+  assert.ok(lines.some(line => line.includes('INSUFFICIENT_FUNDS') || line.includes('insufficient funds')));
+  assert.ok(lines.some(line => line.includes(RAFFLE)), 'allowed addresses stay readable');
+
+  const logged = lines.join('\n').toLowerCase();
+  assert.ok(!logged.includes(RECIPIENT.slice(2).toLowerCase()), 'no recipient address in the logs');
+  assert.ok(!logged.includes(BigInt(RECIPIENT).toString()), 'no recipient field element in the logs');
+  assert.ok(!logged.includes('abababab'), 'no proof bytes in the logs');
+  assert.deepEqual(failedError, { error: 'Claim failed', code: 'INTERNAL_ERROR', details: {} });
+});
+
+test('privacy middleware drops client addresses and delays requests, leaving bodies to the routes', async () => {
+  const seen: { ip: unknown; forwarded: unknown }[] = [];
+  const app = express();
+  app.set('trust proxy', true);
+  app.use(privacy({ jitterMs: 100, noIpRetention: true, random: () => 30 }));
+  app.get('/claim/:jobId', (req, res) => {
+    seen.push({ ip: req.ip, forwarded: req.headers['x-forwarded-for'] });
+    res.status(409).json({ error: `payment must be sent to the relayer (${RECIPIENT})` });
+  });
+
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const lines = await captureLogs(async () => {
+      const started = Date.now();
+      const response = await fetch(`http://127.0.0.1:${port}/claim/abc`, {
+        headers: { 'X-Forwarded-For': '203.0.113.7', 'X-Real-IP': '203.0.113.7' },
+      });
+      assert.ok(Date.now() - started >= 30, 'the request waited for the jitter');
+
+      assert.equal(response.status, 409);
+      assert.deepEqual(await response.json(), { error: `payment must be sent to the relayer (${RECIPIENT})` });
+      assert.equal(response.headers.get('cache-control'), 'no-store');
+      assert.equal(response.headers.get('x-powered-by'), null);
+    });
+
+    assert.deepEqual(seen, [{ ip: undefined, forwarded: undefined }]);
+    const logged = lines.join('\n');
+    assert.match(logged, /GET \/claim\/:jobId 409/);
+    assert.ok(!logged.includes('203.0.113.7') && !logged.includes('abc'), 'only the route pattern is logged');
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,108 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { FieldHasher, PoseidonIMT, TreeOptions } from '../src/merkleTree.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+
+const LEVELS = 4;
+const LEAVES = Array.from({ length: 11 }, (_, i) => BigInt(1000 + i * 7));
+
+let hasher: Poseidon2Hasher;
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+});
+
+after(async () => {
+  await hasher.destroy();
+});
+
+async function emptyTree(options: TreeOptions = {}, source: FieldHasher = hasher): Promise<PoseidonIMT> {
+  const tree = new PoseidonIMT(source, LEVELS, undefined, options);
+  await tree.initEmpty();
+  return tree;
+}
+
+/**
+ * The tree the contract would hold after `leaves`, one insert at a time
+ */
+async function oneByOne(leaves: bigint[]): Promise<PoseidonIMT> {
+  const tree = await emptyTree();
+  for (const leaf of leaves) {
+    await tree.insert(leaf);
+  }
+  return tree;
+}
+
+test('insertMany builds the same tree as single inserts, in any batch sizes', async () => {
+  const reference = await oneByOne(LEAVES);
+
+  for (const cuts of [[11], [1, 10], [3, 3, 5], [4, 1, 6], [5, 6]]) {
+    const full = await emptyTree({ batchSize: 3 });
+    const frontier = await emptyTree({ mode: 'frontier' });
+    let offset = 0;
+    for (const cut of cuts) {
+      const batch = LEAVES.slice(offset, offset + cut);
+      assert.equal(await full.insertMany(batch), offset);
+      await frontier.insertMany(batch);
+      offset += cut;
+    }
+
+    assert.equal(full.root(), reference.root(), `batches ${cuts}`);
+    assert.equal(frontier.root(), reference.root(), `frontier, batches ${cuts}`);
+    assert.deepEqual(full.leaves(), LEAVES);
+    for (let i = 0; i < LEAVES.length; i++) {
+      assert.deepEqual(full.proof(i), reference.proof(i));
+    }
+    assert.throws(() => frontier.proof(0), /frontier-only/);
+  }
+
+  const counted = { calls: 0, hash: (inputs: bigint[]) => { counted.calls++; return hasher.hash(inputs); } };
+  const batched = await emptyTree({}, counted);
+  counted.calls = 0;
+  await batched.insertMany(LEAVES);
+  // 11 leaves -> 6 + 3 + 2 + 1 hashes, instead of 11 x 4 one by one
+  assert.equal(counted.calls, 12);
+
+  await assert.rejects(batched.insertMany(LEAVES), /tree is full \(16 leaves\)/);
+  assert.equal(batched.getTotalLeaves(), LEAVES.length);
+});
+
+test('rootAt and proofAt reproduce the tree at every earlier size', async () => {
+  const tree = await oneByOne(LEAVES);
+
+  for (let size = 0; size <= LEAVES.length; size++) {
+    const then = await oneByOne(LEAVES.slice(0, size));
+    assert.equal(await tree.rootAt(size), then.root(), `root at ${size}`);
+    for (let index = 0; index < size; index++) {
+      assert.deepEqual(await tree.proofAt(index, size), then.proof(index), `leaf ${index} at ${size}`);
+    }
+  }
+
+  await assert.rejects(tree.proofAt(5, 5), /leaf not found/);
+  await assert.rejects(tree.rootAt(12), /never had 12 leaves/);
+});
+
+test('snapshots restore full and frontier trees that keep growing like the original', async () => {
+  const reference = await oneByOne(LEAVES);
+
+  for (const mode of ['full', 'frontier'] as const) {
+    const tree = await emptyTree({ mode });
+    await tree.insertMany(LEAVES.slice(0, 6));
+
+    const restored = await PoseidonIMT.restore(hasher, tree.snapshot());
+    assert.equal(restored.mode, mode);
+    assert.equal(restored.levels, LEVELS);
+    assert.equal(restored.getTotalLeaves(), 6);
+    assert.equal(restored.root(), tree.root());
+
+    await restored.insertMany(LEAVES.slice(6));
+    assert.equal(restored.root(), reference.root(), mode);
+  }
+
+  const empty = await PoseidonIMT.restore(hasher, (await emptyTree()).snapshot());
+  assert.equal(empty.root(), reference.zeros[LEVELS]);
+
+  const snapshot = reference.snapshot();
+  await assert.rejects(PoseidonIMT.restore(hasher, snapshot.subarray(0, snapshot.length - 32)), /truncated or corrupt/);
+  await assert.rejects(PoseidonIMT.restore(hasher, new Uint8Array(100)), /Not a Merkle tree snapshot/);
+});
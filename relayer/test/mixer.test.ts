@@ -0,0 +1,158 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BufferedTicket, MixingScheduler, secureRandom } from '../src/tickets/mixer.js';
+import { TicketBackend, TicketQueue, TicketReceipt } from '../src/tickets/queue.js';
+import { MemoryTicketJobStore } from '../src/tickets/jobs.js';
+import { fieldToHex } from '../src/field.js';
+
+const MINUTE = 60_000;
+const END_TIME = 1_000_000n;              // seconds
+const END_MS = Number(END_TIME) * 1000;
+
+/**
+ * Fake clock and a repeating sequence of "random" numbers
+ */
+function fakeClock(start: number, randoms: number[] = [0.5]) {
+  let i = 0;
+  const clock = {
+    now: start,
+    random: () => randoms[i++ % randoms.length],
+    advance(ms: number) {
+      clock.now += ms;
+    },
+  };
+  return clock;
+}
+
+function scheduler(clock: ReturnType<typeof fakeClock>, minAnonymitySet = 3) {
+  return new MixingScheduler({
+    minAnonymitySet,
+    maxDelayMs: 10 * MINUTE,
+    flushBeforeEndMs: 5 * MINUTE,
+    endTime: async () => END_TIME,
+    now: () => clock.now,
+    random: clock.random,
+  });
+}
+
+const tickets = (n: number, raffleId = '1'): BufferedTicket[] =>
+  Array.from({ length: n }, (_, i) => ({ id: `${raffleId}-${i}`, raffleId }));
+
+test('draws from the CSPRNG by default', () => {
+  const draws = Array.from({ length: 1000 }, secureRandom);
+  assert.ok(draws.every(x => x >= 0 && x < 1));
+  assert.ok(new Set(draws).size > 990);
+  const mean = draws.reduce((sum, x) => sum + x, 0) / draws.length;
+  assert.ok(mean > 0.4 && mean < 0.6, `mean ${mean}`);
+});
+
+test('nothing is released until the anonymity set is reached', async () => {
+  const clock = fakeClock(END_MS - 60 * MINUTE);
+  const mixer = scheduler(clock);
+
+  assert.deepEqual(await mixer.due(tickets(2)), []);
+  clock.advance(20 * MINUTE);
+  assert.deepEqual(await mixer.due(tickets(2)), []);
+  assert.equal(mixer.scheduledAt('1-0'), null);
+});
+
+test('a full batch is released at random times, in shuffled order', async () => {
+  const clock = fakeClock(END_MS - 60 * MINUTE, [0.9, 0.1, 0.5]);
+  const mixer = scheduler(clock);
+  const batch = tickets(3);
+
+  assert.deepEqual(await mixer.due(batch), []);
+  assert.equal(mixer.scheduledAt('1-0'), clock.now + 9 * MINUTE);
+  assert.equal(mixer.scheduledAt('1-1'), clock.now + 1 * MINUTE);
+  assert.equal(mixer.scheduledAt('1-2'), clock.now + 5 * MINUTE);
+
+  clock.advance(1 * MINUTE);
+  assert.deepEqual(await mixer.due(batch), ['1-1']);
+  clock.advance(8 * MINUTE);
+  assert.deepEqual(await mixer.due(batch.filter(t => t.id !== '1-1')), ['1-2', '1-0']);
+});
+
+test('everything buffered is flushed before endTime, batch or not', async () => {
+  const clock = fakeClock(END_MS - 6 * MINUTE, [0.99]);
+  const mixer = scheduler(clock, 10);
+  const buffered = [...tickets(2, '1'), ...tickets(1, '2')];
+
+  assert.deepEqual(await mixer.due(buffered), []);
+  clock.advance(1 * MINUTE);
+  const due = await mixer.due(buffered);
+  assert.deepEqual([...due].sort(), buffered.map(t => t.id).sort());
+});
+
+test('release times never fall after the flush point', async () => {
+  const clock = fakeClock(END_MS - 8 * MINUTE, [0.99]);
+  const mixer = scheduler(clock, 1);
+
+  await mixer.due(tickets(1));
+  assert.ok(mixer.scheduledAt('1-0')! < END_MS - 5 * MINUTE);
+});
+
+test('rejects an anonymity set below one', () => {
+  assert.throws(() => scheduler(fakeClock(0), 0), /minAnonymitySet/);
+});
+
+class FakeBackend implements TicketBackend {
+  submitted: string[] = [];
+
+  async pay() {}
+  async preflight() {}
+
+  async submit(_raffleId: string, commitment: string) {
+    this.submitted.push(commitment);
+    return fieldToHex(BigInt(this.submitted.length));
+  }
+
+  async waitForReceipt(txHash: string): Promise<TicketReceipt> {
+    return { txHash, blockNumber: 1, success: true, leafIndex: this.submitted.length - 1 };
+  }
+}
+
+const purchase = (n: number) => ({
+  raffleId: '1',
+  commitment: fieldToHex(BigInt(n)),
+  payment: '0x02',
+  paymentHash: fieldToHex(BigInt(1000 + n)),
+  feeWei: '1000',
+});
+
+test('paid tickets stay buffered across a restart until the scheduler releases them', async () => {
+  const clock = fakeClock(END_MS - 60 * MINUTE, [0.3, 0.6]);
+  const store = new MemoryTicketJobStore();
+  const first = new FakeBackend();
+  const queue = new TicketQueue({ store, backend: first, mixer: scheduler(clock, 2) });
+  await queue.initialize();
+
+  const a = await queue.enqueue(purchase(1));
+  await queue.drain();
+  await queue.tick();
+  assert.equal(queue.getJob(a.id)!.status, 'buffered');
+  assert.equal(queue.getJob(a.id)!.payment, null);
+  assert.deepEqual(first.submitted, []);
+
+  // Crash with one paid ticket buffered; nothing is lost
+  const second = new FakeBackend();
+  const restarted = new TicketQueue({ store, backend: second, mixer: scheduler(clock, 2) });
+  await restarted.initialize();
+  assert.equal(restarted.getJob(a.id)!.status, 'buffered');
+
+  const b = await restarted.enqueue(purchase(2));
+  await restarted.drain();
+  await restarted.tick();                 // batch complete: release times drawn
+  assert.deepEqual(second.submitted, []);
+
+  clock.advance(4 * MINUTE);
+  await restarted.tick();
+  await restarted.drain();
+  assert.deepEqual(second.submitted, [purchase(1).commitment]);
+
+  clock.advance(4 * MINUTE);
+  await restarted.tick();
+  await restarted.drain();
+  assert.deepEqual(second.submitted, [purchase(1).commitment, purchase(2).commitment]);
+  assert.equal(restarted.getJob(a.id)!.status, 'confirmed');
+  assert.equal(restarted.getJob(b.id)!.status, 'confirmed');
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MODULUS } from '../src/field.js';
+import {
+  NoteError,
+  createNote,
+  decryptNote,
+  encryptNote,
+  formatNote,
+  isEncryptedNote,
+  parseNote,
+  randomField,
+} from '../src/note.js';
+
+const RAFFLE_ADDRESS = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+
+function sampleNote(leafIndex: number | null = 3) {
+  return createNote({
+    chainId: 534351n,
+    raffleId: 7n,
+    contract: RAFFLE_ADDRESS,
+    leafIndex,
+    secret: 0x1234n,
+    nullifier: MODULUS - 1n,
+  });
+}
+
+// Flip one hex digit of the payload
+function tamper(text: string, offset: number): string {
+  const i = text.length - offset;
+  return text.slice(0, i) + (text[i] === '0' ? '1' : '0') + text.slice(i + 1);
+}
+
+test('round-trips a plain note', () => {
+  const note = sampleNote();
+  const text = formatNote(note);
+
+  assert.match(text, /^raffero-note-v1-534351-7-[0-9a-f]+$/);
+  assert.equal(isEncryptedNote(text), false);
+  assert.deepEqual(parseNote(text), note);
+  assert.deepEqual(parseNote(`  ${text}\n`), note);
+  assert.equal(parseNote(formatNote(sampleNote(null))).leafIndex, null);
+  assert.equal(parseNote(formatNote(sampleNote(0))).leafIndex, 0);
+  // the last leaf of a depth-32 tree is an index like any other
+  assert.equal(parseNote(formatNote(sampleNote(2 ** 32 - 1))).leafIndex, 2 ** 32 - 1);
+});
+
+test('fresh notes get distinct canonical secrets', () => {
+  const a = createNote({ chainId: 1, raffleId: 0, contract: RAFFLE_ADDRESS });
+  const b = createNote({ chainId: 1, raffleId: 0, contract: RAFFLE_ADDRESS });
+
+  assert.notEqual(a.secret, b.secret);
+  assert.notEqual(a.nullifier, a.secret);
+  for (let i = 0; i < 50; i++) {
+    const x = randomField();
+    assert.ok(x >= 0n && x < MODULUS);
+  }
+});
+
+test('rejects mistyped, truncated and relabelled notes', () => {
+  const text = formatNote(sampleNote());
+
+  assert.throws(() => parseNote(tamper(text, 20)), /checksum/);
+  assert.throws(() => parseNote(text.slice(0, -2)), /checksum/);
+  assert.throws(() => parseNote(text.slice(0, -1)), /truncated/);
+  assert.throws(() => parseNote(text.replace('-534351-7-', '-534351-8-')), /checksum/);
+  assert.throws(() => parseNote(text.replace('-v1-', '-v2-')), /version/);
+  assert.throws(() => parseNote('hello'), NoteError);
+});
+
+test('rejects invalid note fields', () => {
+  assert.throws(() => createNote({ chainId: 1, raffleId: 0, contract: '0x1234' }), /contract address/);
+  assert.throws(() => createNote({ chainId: 1, raffleId: 0, contract: RAFFLE_ADDRESS, secret: MODULUS }), /secret/);
+  assert.throws(() => createNote({ chainId: 1, raffleId: 0, contract: RAFFLE_ADDRESS, leafIndex: -1 }), /leaf index/);
+  assert.throws(() => createNote({ chainId: 1, raffleId: 0, contract: RAFFLE_ADDRESS, leafIndex: 2 ** 32 }), /leaf index/);
+});
+
+test('encrypts with a password', async () => {
+  const note = sampleNote();
+  const text = await encryptNote(note, 'correct horse', { scryptLogN: 10 });
+
+  assert.match(text, /^raffero-note-v1-534351-7-/);
+  assert.equal(isEncryptedNote(text), true);
+  assert.throws(() => parseNote(text), /encrypted/);
+  assert.deepEqual(await decryptNote(text, 'correct horse'), note);
+
+  // Plain notes pass through decryptNote
+  assert.deepEqual(await decryptNote(formatNote(note), ''), note);
+});
+
+test('rejects a wrong password and a swapped prefix', async () => {
+  const text = await encryptNote(formatNote(sampleNote()), 'correct horse', { scryptLogN: 10 });
+
+  await assert.rejects(decryptNote(text, 'wrong horse'), /Wrong password/);
+  await assert.rejects(decryptNote(tamper(text, 20), 'correct horse'), /checksum/);
+  await assert.rejects(encryptNote(sampleNote(), ''), /Password/);
+});
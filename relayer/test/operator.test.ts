@@ -0,0 +1,236 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  OperatorContract,
+  createRaffle,
+  describeRaffle,
+  describeRaffles,
+  drawRaffle,
+  listCreatedRaffles,
+  parseDuration,
+} from '../src/client/operator.js';
+import { PRIVATE_RAFFLE_ABI, RaffleOutput, RaffleStatus } from '../src/contracts/PrivateRaffle.js';
+import { RawLog, parseRaffleLog, raffleEventsInterface } from '../src/indexer/events.js';
+import { RaffleLogSource } from '../src/indexer/source.js';
+import { fieldToHex } from '../src/field.js';
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+const CREATOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NOW = 1_700_000_000;
+const TX_HASH = '0x' + 'ab'.repeat(32);
+
+function revert(name: string, args: unknown[] = []): Error {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: iface.encodeErrorResult(name, args),
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+}
+
+function transaction(name: string, args: unknown[]) {
+  const log = raffleEventsInterface.encodeEventLog(name, args);
+  return {
+    hash: TX_HASH,
+    wait: async () => ({ status: 1, blockNumber: 12, logs: [{ ...log, blockNumber: 12, index: 0 }] }),
+  };
+}
+
+/**
+ * PrivateRaffle with MAX_LEVELS 32 and one raffle per createRaffle
+ */
+class FakeRaffles {
+  raffles = new Map<bigint, RaffleOutput>();
+  created: { args: unknown[]; value: bigint }[] = [];
+  drawn: bigint[] = [];
+
+  add(raffleId: bigint, patch: Partial<RaffleOutput> = {}): void {
+    this.raffles.set(raffleId, {
+      creator: CREATOR,
+      ticketPrice: ethers.parseEther('0.01'),
+      maxParticipants: 8n,
+      duration: 3600n,
+      endTime: BigInt(NOW + 5400),
+      levels: 3n,
+      nextIndex: 2n,
+      root: fieldToHex(1n),
+      prizeType: 0n,
+      prizePool: ethers.parseEther('1.02'),
+      status: BigInt(RaffleStatus.Active),
+      winnerIndex: 0n,
+      requestId: 0n,
+      randomnessRequested: false,
+      createdAt: BigInt(NOW - 1800),
+      ...patch,
+    });
+  }
+
+  contract(): OperatorContract {
+    const output = (raffleId: bigint): RaffleOutput => this.raffles.get(BigInt(raffleId)) ?? {
+      ...this.raffles.get(1n)!, creator: ethers.ZeroAddress, createdAt: 0n,
+    };
+    const drawWinner = Object.assign(
+      async (raffleId: bigint) => {
+        this.drawn.push(raffleId);
+        return transaction('RandomnessRequested', [raffleId, 77n]);
+      },
+      {
+        staticCall: async (raffleId: bigint) => {
+          const raffle = output(raffleId);
+          if (raffle.status !== BigInt(RaffleStatus.Active)) throw revert('RaffleNotActive', [raffle.status]);
+          if (raffle.endTime > BigInt(NOW)) throw revert('RaffleNotEnded', [BigInt(NOW), raffle.endTime]);
+          if (raffle.randomnessRequested) throw revert('VRFAlreadyRequested');
+        },
+      }
+    );
+
+    return {
+      MAX_LEVELS: async () => 32n,
+      createRaffle: async (...args: any[]) => {
+        const { value } = args.pop();
+        this.created.push({ args, value });
+        return transaction('RaffleCreated', [5n, CREATOR, args[0], 1n << BigInt(args[1]), args[2], value]);
+      },
+      getRaffle: async (raffleId: bigint) => output(raffleId),
+      canDrawWinner: async (raffleId: bigint) => {
+        const raffle = output(raffleId);
+        return raffle.status === BigInt(RaffleStatus.Active) && raffle.endTime <= BigInt(NOW) && raffle.nextIndex > 0n;
+      },
+      drawWinner,
+    } as unknown as OperatorContract;
+  }
+}
+
+test('parses durations in seconds, minutes, hours and days', () => {
+  assert.equal(parseDuration('90'), 90);
+  assert.equal(parseDuration('90s'), 90);
+  assert.equal(parseDuration('15m'), 900);
+  assert.equal(parseDuration('2h'), 7200);
+  assert.equal(parseDuration(' 7d '), 604800);
+  assert.throws(() => parseDuration('1.5h'), /Invalid duration/);
+  assert.throws(() => parseDuration('2w'), /Invalid duration/);
+});
+
+test('createRaffle checks levels, duration and prize before sending', async () => {
+  const fake = new FakeRaffles();
+  const contract = fake.contract();
+  const params = { ticketPrice: ethers.parseEther('0.01'), levels: 3, duration: 3600, prize: ethers.parseEther('1') };
+
+  await assert.rejects(createRaffle(contract, { ...params, levels: 33 }), /levels must be an integer from 1 to 32 \(MAX_LEVELS\), got 33/);
+  await assert.rejects(createRaffle(contract, { ...params, levels: 0 }), /levels must be/);
+  await assert.rejects(createRaffle(contract, { ...params, duration: 0 }), /duration must be a positive/);
+  await assert.rejects(createRaffle(contract, { ...params, prize: 0n }), /prize must be more than zero/);
+  assert.equal(fake.created.length, 0);
+
+  const created = await createRaffle(contract, params);
+  assert.deepEqual(created, { raffleId: 5n, txHash: TX_HASH, blockNumber: 12 });
+  assert.deepEqual(fake.created, [{ args: [params.ticketPrice, 3, 3600], value: params.prize }]);
+});
+
+test('lists raffles from RaffleCreated logs across batches', async () => {
+  const logs: RawLog[] = [];
+  const emit = (blockNumber: number, name: string, args: unknown[]) => {
+    logs.push({ blockNumber, logIndex: 0, ...raffleEventsInterface.encodeEventLog(name, args) });
+  };
+  emit(3, 'RaffleCreated', [1n, CREATOR, 1n, 8n, 60n, 10n]);
+  emit(4, 'TicketPurchased', [1n, 0n, fieldToHex(9n)]);
+  emit(9, 'RaffleCreated', [2n, CREATOR, 2n, 16n, 120n, 20n]);
+  emit(20, 'RaffleCreated', [3n, CREATOR, 3n, 4n, 180n, 30n]);
+
+  const requested: [number, number][] = [];
+  const source: RaffleLogSource = {
+    getBlockNumber: async () => 21,
+    getEvents: async (from, to) => {
+      requested.push([from, to]);
+      return logs.filter(log => log.blockNumber >= from && log.blockNumber <= to).map(log => parseRaffleLog(log)!);
+    },
+    getRoot: async () => fieldToHex(0n),
+  };
+
+  const created = await listCreatedRaffles(source, 2, 8);
+  assert.deepEqual(created.map(event => [event.raffleId, event.maxParticipants, event.blockNumber]), [
+    [1n, 8n, 3],
+    [2n, 16n, 9],
+    [3n, 4n, 20],
+  ]);
+  assert.deepEqual(requested, [[2, 9], [10, 17], [18, 21]]);
+});
+
+test('describes open, drawing and closed raffles', async () => {
+  const fake = new FakeRaffles();
+  fake.add(1n);
+  fake.add(2n, { endTime: BigInt(NOW - 10), randomnessRequested: true, requestId: 4n });
+  fake.add(3n, { endTime: BigInt(NOW - 10), status: BigInt(RaffleStatus.Closed), randomnessRequested: true, requestId: 5n, winnerIndex: 1n });
+  fake.add(4n, { endTime: BigInt(NOW - 10) });
+  const contract = fake.contract();
+
+  assert.deepEqual(await describeRaffle(contract, 1n, NOW), {
+    raffleId: 1n,
+    creator: CREATOR,
+    status: 'Active',
+    ticketPrice: ethers.parseEther('0.01'),
+    prizePool: ethers.parseEther('1.02'),
+    participants: 2,
+    maxParticipants: 8,
+    levels: 3,
+    createdAt: NOW - 1800,
+    endTime: NOW + 5400,
+    timeRemaining: 5400,
+    canDraw: false,
+    randomnessRequested: false,
+    requestId: null,
+    winnerIndex: null,
+  });
+
+  const drawing = await describeRaffle(contract, 2n, NOW);
+  assert.equal(drawing.timeRemaining, 0);
+  assert.equal(drawing.canDraw, false);
+  assert.equal(drawing.requestId, 4n);
+  assert.equal(drawing.winnerIndex, null);
+
+  const closed = await describeRaffle(contract, 3n, NOW);
+  assert.equal(closed.status, 'Closed');
+  assert.equal(closed.winnerIndex, 1);
+
+  assert.equal((await describeRaffle(contract, 4n, NOW)).canDraw, true);
+  await assert.rejects(describeRaffle(contract, 9n, NOW), /Raffle 9 does not exist/);
+});
+
+test('describes a long list a few raffles at a time, in order', async () => {
+  const fake = new FakeRaffles();
+  const ids = Array.from({ length: 12 }, (_, i) => BigInt(i + 1));
+  ids.forEach(raffleId => fake.add(raffleId));
+  const contract = fake.contract();
+
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const getRaffle = contract.getRaffle;
+  (contract as any).getRaffle = async (raffleId: bigint) => {
+    maxInFlight = Math.max(maxInFlight, ++inFlight);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    inFlight--;
+    return getRaffle(raffleId);
+  };
+
+  const summaries = await describeRaffles(contract, ids, NOW, 5);
+  assert.deepEqual(summaries.map(summary => summary.raffleId), ids);
+  assert.equal(maxInFlight, 5);
+});
+
+test('drawRaffle explains why a raffle cannot be drawn, and sends nothing', async () => {
+  const fake = new FakeRaffles();
+  fake.add(1n);
+  fake.add(2n, { endTime: BigInt(NOW - 10), status: BigInt(RaffleStatus.Closed) });
+  fake.add(3n, { endTime: BigInt(NOW - 10) });
+  const contract = fake.contract();
+
+  await assert.rejects(drawRaffle(contract, 1n), new RegExp(`Raffle 1 cannot be drawn: RaffleNotEnded \\(timestamp ${NOW}, endTime ${NOW + 5400}\\)`));
+  await assert.rejects(drawRaffle(contract, 2n), /Raffle 2 cannot be drawn: RaffleNotActive \(status Closed\)/);
+  assert.deepEqual(fake.drawn, []);
+
+  assert.deepEqual(await drawRaffle(contract, 3n), { txHash: TX_HASH, requestId: 77n });
+  assert.deepEqual(fake.drawn, [3n]);
+});
@@ -0,0 +1,57 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { RaffleProver } from '../src/prover.js';
+import { ZERO_VALUE, fieldToHex } from '../src/field.js';
+import { NOIR_VECTORS } from './vectors.js';
+
+const MERKLE_TREE_SOL = path.resolve(__dirname, '../../src/IncrementalMerkleTree.sol');
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+let hasher: Poseidon2Hasher;
+
+before(async () => {
+  hasher = await Poseidon2Hasher.create();
+});
+
+after(async () => {
+  await hasher.destroy();
+});
+
+test('hash1 / hash2 match the Noir test vectors', async () => {
+  assert.equal(await hasher.nullifierHash(42n), NOIR_VECTORS.hash1_42);
+  assert.equal(await hasher.hash([1n, 2n]), NOIR_VECTORS.hash2_1_2);
+  assert.equal(await hasher.commitment(123n, 456n), NOIR_VECTORS.commitment_123_456);
+  assert.equal(await hasher.nullifierHash(456n), NOIR_VECTORS.nullifierHash_456);
+  assert.equal(
+    await hasher.recipientBinding(NOIR_VECTORS.nullifierHash_456, RECIPIENT),
+    NOIR_VECTORS.recipientBinding_456_1111
+  );
+});
+
+test('zero chain matches IncrementalMerkleTree.zeros()', async () => {
+  const source = fs.readFileSync(MERKLE_TREE_SOL, 'utf-8');
+  const zeros = [...source.matchAll(/bytes32\(\s*(0x[0-9a-fA-F]{64})\s*\)/g)].map(m => BigInt(m[1]));
+  assert.equal(zeros.length, 33);
+  assert.equal(zeros[0], ZERO_VALUE);
+
+  for (let i = 1; i < zeros.length; i++) {
+    assert.equal(await hasher.hash([zeros[i - 1], zeros[i - 1]]), zeros[i], `zeros(${i})`);
+  }
+});
+
+test('RaffleProver hashes match the circuit', async () => {
+  // Hashing is initialised before the circuit is loaded, so a missing circuit is fine here
+  const prover = new RaffleProver('/nonexistent/circuit.json');
+  await assert.rejects(prover.initialize());
+
+  const nullifierHash = await prover.computeNullifierHash('456');
+  assert.equal(nullifierHash, fieldToHex(NOIR_VECTORS.nullifierHash_456));
+
+  const binding = await prover.computeRecipientBinding(nullifierHash, BigInt(RECIPIENT).toString());
+  assert.equal(binding, fieldToHex(NOIR_VECTORS.recipientBinding_456_1111));
+
+  await prover.destroy();
+});
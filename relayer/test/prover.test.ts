@@ -0,0 +1,114 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { Noir } from '@noir-lang/noir_js';
+import { RaffleProver, ProofInputs } from '../src/prover.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { CircuitAbi, CircuitInputError, loadCircuit } from '../src/circuit.js';
+import { ZERO_VALUE } from '../src/field.js';
+
+const CIRCUIT_PATH = path.resolve(__dirname, '../../circuits/target/raffle_circuits.json');
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+let prover: RaffleProver;
+let hasher: Poseidon2Hasher;
+let validInputs: ProofInputs;
+
+before(async () => {
+  prover = new RaffleProver(CIRCUIT_PATH);
+  await prover.initialize();
+  hasher = await Poseidon2Hasher.create();
+
+  // Depth-2 tree holding one ticket at index 2: [z, z, commitment, z]
+  const commitment = await hasher.commitment(123n, 456n);
+  const zero1 = await hasher.hash([ZERO_VALUE, ZERO_VALUE]);
+  const right = await hasher.hash([commitment, ZERO_VALUE]);
+  const root = await hasher.hash([zero1, right]);
+
+  validInputs = {
+    secret: '123',
+    nullifier: '456',
+    siblings: [ZERO_VALUE.toString(), zero1.toString()],
+    recipient: RECIPIENT,
+    root: root.toString(),
+    raffleId: '1',
+    winnerIndex: '2',
+    treeDepth: '2',
+  };
+});
+
+after(async () => {
+  await prover.destroy();
+  await hasher.destroy();
+});
+
+test('MAX_DEPTH is read from the compiled circuit', () => {
+  assert.equal(prover.maxDepth, 32);
+});
+
+test('path indices are the little-endian bits of winnerIndex', () => {
+  assert.deepEqual(prover.computePathIndices(0n, 3), ['0', '0', '0']);
+  assert.deepEqual(prover.computePathIndices(6n, 3), ['0', '1', '1']);
+  assert.deepEqual(prover.computePathIndices(5n, 4), ['1', '0', '1', '0']);
+});
+
+test('circuit inputs are padded to MAX_DEPTH and accepted by noir.execute', async () => {
+  const inputs = await prover.buildCircuitInputs(validInputs);
+
+  assert.equal(inputs.siblings.length, 32);
+  assert.deepEqual((inputs.path_indices as string[]).slice(0, 3), ['0', '1', '0']);
+
+  const noir = new Noir(loadCircuit(CIRCUIT_PATH));
+  const { witness } = await noir.execute(inputs);
+  assert.ok(witness.length > 0);
+});
+
+test('rejects inputs that do not fit the circuit', async () => {
+  await assert.rejects(
+    prover.buildCircuitInputs({ ...validInputs, treeDepth: '33' }),
+    (error: Error) => error instanceof CircuitInputError && /between 1 and 32/.test(error.message)
+  );
+  await assert.rejects(
+    prover.buildCircuitInputs({ ...validInputs, winnerIndex: '4' }),
+    /does not fit in a tree of depth 2/
+  );
+  await assert.rejects(
+    prover.buildCircuitInputs({ ...validInputs, siblings: ['0'] }),
+    /Expected 2 siblings/
+  );
+  await assert.rejects(
+    prover.buildCircuitInputs({ ...validInputs, secret: 'not-a-field' }),
+    /secret: Invalid field string/
+  );
+});
+
+test('CircuitAbi rejects inputs that differ from the declared ABI', async () => {
+  const abi = new CircuitAbi(loadCircuit(CIRCUIT_PATH));
+  const inputs = await prover.buildCircuitInputs(validInputs);
+
+  assert.deepEqual(abi.publicParameterNames, [
+    'root',
+    'nullifier_hash',
+    'recipient_binding',
+    'raffle_id',
+    'winner_index',
+    'tree_depth',
+  ]);
+
+  const { path_indices, ...missing } = inputs;
+  assert.throws(() => abi.validate(missing), /Missing circuit input "path_indices"/);
+  assert.throws(() => abi.validate({ ...inputs, extra: '1' }), /not declared in ABI: extra/);
+  assert.throws(
+    () => abi.validate({ ...inputs, siblings: (inputs.siblings as string[]).slice(0, 20) }),
+    /"siblings" must be an array of length 32, got length 20/
+  );
+});
+
+test('CircuitAbi rejects a circuit without path_indices', () => {
+  const circuit = loadCircuit(CIRCUIT_PATH);
+  const parameters = circuit.abi.parameters.filter(p => p.name !== 'path_indices');
+  assert.throws(
+    () => new CircuitAbi({ ...circuit, abi: { ...circuit.abi, parameters } }),
+    /missing parameters: path_indices/
+  );
+});
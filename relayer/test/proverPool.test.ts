@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { ProverBusyError, ProverPool, WorkerRequest, WorkerResponse } from '../src/prover/pool.js';
+import { ProofInputs } from '../src/prover.js';
+import { CircuitInputError } from '../src/circuit.js';
+import { WitnessEnvelopeError } from '../src/witness.js';
+
+const INPUTS: ProofInputs = {
+  secret: '123',
+  nullifier: '456',
+  siblings: ['1', '2'],
+  recipient: '1',
+  root: '789',
+  raffleId: '1',
+  winnerIndex: '3',
+  treeDepth: '2',
+};
+
+/**
+ * Worker thread stand-in; answers only when the test says so
+ */
+class FakeWorker extends EventEmitter {
+  requests: WorkerRequest[] = [];
+
+  constructor(loadError?: string) {
+    super();
+    setImmediate(() => this.emit('message', loadError ? { type: 'failed', error: loadError } : { type: 'ready' }));
+  }
+
+  postMessage(request: WorkerRequest): void {
+    this.requests.push(request);
+  }
+
+  reply(response: WorkerResponse): void {
+    this.emit('message', response);
+  }
+
+  prove(): void {
+    const { id } = this.requests[this.requests.length - 1];
+    this.reply({ type: 'proof', id, proof: new Uint8Array([id]), publicInputs: ['0x01'] });
+  }
+
+  async terminate(): Promise<number> {
+    this.emit('exit', 1);
+    return 1;
+  }
+}
+
+async function setup(options: { workers: number; maxConcurrentProofs: number }) {
+  const workers: FakeWorker[] = [];
+  let now = 0;
+  const pool = new ProverPool({
+    circuitPath: 'circuit.json',
+    ...options,
+    createWorker: () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker;
+    },
+    now: () => now,
+  });
+  await pool.initialize();
+  return { pool, workers, advance: (ms: number) => { now += ms; } };
+}
+
+test('proves on free workers, queues the rest and refuses beyond the limit', async () => {
+  const { pool, workers, advance } = await setup({ workers: 2, maxConcurrentProofs: 3 });
+
+  const first = pool.generateProof(INPUTS);
+  const second = pool.generateProof(INPUTS);
+  const third = pool.generateProof(INPUTS);
+  assert.deepEqual(workers.map(w => w.requests.length), [1, 1]);
+  assert.deepEqual([pool.metrics().busy, pool.metrics().queued], [2, 1]);
+
+  // Before any proof completes, retry-after assumes 10s per proof: (1 queued + 1) / 2 workers
+  const busy = await pool.generateProof(INPUTS).catch(error => error);
+  assert.ok(busy instanceof ProverBusyError);
+  assert.equal(busy.retryAfter, 10);
+  assert.deepEqual(busy.toJSON(), { error: 'Prover is busy; retry in 10s', code: 'PROVER_BUSY', details: { retryAfter: '10' } });
+  assert.throws(() => pool.checkCapacity(), ProverBusyError);
+
+  advance(4000);
+  workers[0].prove();
+  assert.deepEqual((await first).proof, new Uint8Array([1]));
+  assert.equal(workers[0].requests.length, 2, 'the queued proof goes to the worker that freed up');
+  assert.doesNotThrow(() => pool.checkCapacity());
+
+  advance(2000);
+  workers[1].prove();
+  workers[0].prove();
+  await Promise.all([second, third]);
+
+  const metrics = pool.metrics();
+  assert.deepEqual(
+    [metrics.workers, metrics.busy, metrics.queued, metrics.completed, metrics.failed, metrics.rejected],
+    [2, 0, 0, 3, 0, 2]
+  );
+  assert.deepEqual(metrics.proving, { samples: 3, meanMs: 4000, p50Ms: 4000, p95Ms: 6000, maxMs: 6000 });
+  assert.deepEqual(metrics.waiting, { samples: 3, meanMs: 1333, p50Ms: 0, p95Ms: 4000, maxMs: 4000 });
+
+  await pool.destroy();
+});
+
+test('passes input errors through and replaces a worker that dies mid-proof', async () => {
+  const { pool, workers } = await setup({ workers: 1, maxConcurrentProofs: 2 });
+
+  const invalid = pool.generateProof(INPUTS);
+  workers[0].reply({ type: 'error', id: 1, error: { name: 'CircuitInputError', message: 'treeDepth must be ...' } });
+  await assert.rejects(invalid, CircuitInputError);
+  const sealed = pool.generateProof(INPUTS);
+  workers[0].reply({ type: 'error', id: 2, error: { name: 'WitnessEnvelopeError', message: 'Witness does not decrypt' } });
+  await assert.rejects(sealed, WitnessEnvelopeError);
+
+  const crashed = pool.generateProof(INPUTS);
+  const waiting = pool.generateProof(INPUTS);
+  workers[0].emit('error', new Error('out of memory'));
+  workers[0].emit('exit', 1);
+  await assert.rejects(crashed, /out of memory/);
+  assert.equal(pool.ready, false);
+
+  // The replacement loads the circuit and takes the waiting proof
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(workers.length, 2);
+  assert.equal(workers[1].requests.length, 1);
+  workers[1].prove();
+  await waiting;
+  assert.deepEqual([pool.metrics().completed, pool.metrics().failed], [1, 3]);
+
+  await pool.destroy();
+});
+
+test('initialize fails, and stops the other workers, when the circuit does not load', async () => {
+  const workers: FakeWorker[] = [];
+  const pool = new ProverPool({
+    circuitPath: 'missing.json',
+    workers: 2,
+    createWorker: () => {
+      const worker = new FakeWorker(workers.length === 0 ? 'ENOENT: missing.json' : undefined);
+      workers.push(worker);
+      return worker;
+    },
+  });
+
+  await assert.rejects(pool.initialize(), /ENOENT/);
+  assert.equal(pool.ready, false);
+  await assert.rejects(pool.generateProof(INPUTS), /not initialized/);
+});
@@ -0,0 +1,324 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaimBackend, ClaimQueue, ClaimReceipt } from '../src/claim/queue.js';
+import { ClaimJobStatus, FileClaimJobStore, MemoryClaimJobStore } from '../src/claim/jobs.js';
+import { ClaimError } from '../src/claim/errors.js';
+import { ProverBusyError } from '../src/prover/pool.js';
+import { ClaimRequest } from '../src/claim/preflight.js';
+import { ProofInputs } from '../src/prover.js';
+import { fieldToHex } from '../src/field.js';
+
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+
+const CLAIM: ClaimRequest = {
+  raffleId: '1',
+  proof: '0xabcd',
+  publicInputs: [1n, 2n, 3n, 1n, 3n, 2n].map(x => fieldToHex(x)),
+  recipient: RECIPIENT,
+  relayerFee: '1000',
+};
+
+const PROOF_INPUTS: ProofInputs = {
+  secret: '123',
+  nullifier: '456',
+  siblings: ['1', '2'],
+  recipient: BigInt(RECIPIENT).toString(),
+  root: '789',
+  raffleId: '1',
+  winnerIndex: '3',
+  treeDepth: '2',
+};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Backend that records calls; receipts resolve when the test says so
+ */
+class FakeBackend implements ClaimBackend {
+  proved: ProofInputs[] = [];
+  submitted: ClaimRequest[] = [];
+  watched: string[] = [];
+  preflightError: Error | null = null;
+  receipts = new Map<string, ReturnType<typeof deferred<ClaimReceipt>>>();
+
+  async prove(inputs: ProofInputs) {
+    this.proved.push(inputs);
+    return { proof: '0xbeef', publicInputs: CLAIM.publicInputs };
+  }
+
+  async preflight(): Promise<void> {
+    if (this.preflightError) throw this.preflightError;
+  }
+
+  async submit(claim: ClaimRequest, beforeBroadcast: (txHash: string) => Promise<void>): Promise<string> {
+    this.submitted.push(claim);
+    const txHash = fieldToHex(BigInt(this.submitted.length));
+    await beforeBroadcast(txHash);
+    return txHash;
+  }
+
+  waitForReceipt(txHash: string): Promise<ClaimReceipt> {
+    this.watched.push(txHash);
+    return this.receipt(txHash).promise;
+  }
+
+  receipt(txHash: string) {
+    if (!this.receipts.has(txHash)) this.receipts.set(txHash, deferred<ClaimReceipt>());
+    return this.receipts.get(txHash)!;
+  }
+}
+
+async function waitForStatus(queue: ClaimQueue, jobId: string, status: ClaimJobStatus): Promise<void> {
+  // File stores need real I/O time, not just a few turns of the event loop
+  for (let i = 0; i < 200; i++) {
+    if (queue.getJob(jobId)?.status === status) return;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  assert.fail(`job ${jobId} never reached ${status} (is ${queue.getJob(jobId)?.status})`);
+}
+
+test('a claim goes queued -> submitted -> confirmed without the caller waiting', async () => {
+  const backend = new FakeBackend();
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueueClaim(CLAIM);
+  assert.equal(job.status, 'queued');
+
+  await waitForStatus(queue, job.id, 'submitted');
+  const submitted = queue.getJob(job.id)!;
+  assert.equal(submitted.txHash, fieldToHex(1n));
+  assert.deepEqual(backend.submitted, [CLAIM]);
+
+  backend.receipt(submitted.txHash!).resolve({ txHash: fieldToHex(1n), blockNumber: 42, success: true });
+  await queue.drain();
+
+  const confirmed = queue.getJob(job.id)!;
+  assert.equal(confirmed.status, 'confirmed');
+  assert.equal(confirmed.blockNumber, 42);
+  assert.equal(confirmed.claim, null);
+});
+
+test('proof generation jobs report proving and submit the generated proof', async () => {
+  const backend = new FakeBackend();
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueueProofGeneration(PROOF_INPUTS, RECIPIENT, '1000');
+  assert.equal(job.needsProof, true);
+
+  await waitForStatus(queue, job.id, 'submitted');
+  assert.deepEqual(backend.proved, [PROOF_INPUTS]);
+  assert.deepEqual(backend.submitted, [{ ...CLAIM, proof: '0xbeef' }]);
+
+  backend.receipt(queue.getJob(job.id)!.txHash!).resolve({ txHash: fieldToHex(1n), blockNumber: 7, success: false });
+  await queue.drain();
+
+  const failed = queue.getJob(job.id)!;
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.error!.code, 'CLAIM_REVERTED');
+  assert.equal(failed.blockNumber, 7);
+});
+
+test('proofs are generated concurrently, but claims are sent in queue order', async () => {
+  const backend = new FakeBackend();
+  const proofs = [0, 1].map(() => deferred<{ proof: string; publicInputs: string[] }>());
+  backend.prove = inputs => {
+    backend.proved.push(inputs);
+    return proofs[backend.proved.length - 1].promise;
+  };
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const first = await queue.enqueueProofGeneration(PROOF_INPUTS, RECIPIENT, '1000');
+  const second = await queue.enqueueProofGeneration({ ...PROOF_INPUTS, raffleId: '2' }, RECIPIENT, '1000');
+  assert.equal(first.status, 'proving');
+  assert.equal(backend.proved.length, 2, 'both proofs started without waiting for the first');
+
+  proofs[1].resolve({ proof: '0x02', publicInputs: CLAIM.publicInputs });
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(backend.submitted.length, 0, 'the second claim waits for the first');
+
+  proofs[0].resolve({ proof: '0x01', publicInputs: CLAIM.publicInputs });
+  await waitForStatus(queue, second.id, 'submitted');
+  assert.deepEqual(backend.submitted.map(claim => claim.proof), ['0x01', '0x02']);
+});
+
+test('a proof the pool turns away fails the job with PROVER_BUSY and when to retry', async () => {
+  const backend = new FakeBackend();
+  backend.prove = async () => {
+    throw new ProverBusyError(12);
+  };
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueueProofGeneration(PROOF_INPUTS, RECIPIENT, '1000');
+  await queue.drain();
+
+  assert.deepEqual(queue.getJob(job.id)!.error, {
+    error: 'Prover is busy; retry in 12s',
+    code: 'PROVER_BUSY',
+    details: { retryAfter: '12' },
+  });
+  assert.equal(backend.submitted.length, 0);
+});
+
+test('a failed pre-flight check fails the job with the decoded error and sends nothing', async () => {
+  const backend = new FakeBackend();
+  backend.preflightError = new ClaimError('NOT_WINNER', 403, 'Proof winner index is not the selected winner', {
+    proofWinnerIndex: '3',
+    winnerIndex: '5',
+  });
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueueClaim(CLAIM);
+  await queue.drain();
+
+  const failed = queue.getJob(job.id)!;
+  assert.equal(failed.status, 'failed');
+  assert.deepEqual(failed.error, {
+    error: 'Proof winner index is not the selected winner',
+    code: 'NOT_WINNER',
+    details: { proofWinnerIndex: '3', winnerIndex: '5' },
+  });
+  assert.equal(failed.claim, null);
+  assert.equal(backend.submitted.length, 0);
+});
+
+test('jobs survive a restart: sent transactions are watched, not resent', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffle-claims-'));
+  const jobsPath = path.join(dir, 'claims.json');
+
+  const before = new FakeBackend();
+  const first = new ClaimQueue({ store: new FileClaimJobStore(jobsPath), backend: before });
+  await first.initialize();
+
+  const sent = await first.enqueueClaim(CLAIM);
+  await waitForStatus(first, sent.id, 'submitted');
+  // Receipt never arrives: the process "dies" once the hash is on disk
+
+  let onDisk = JSON.parse(fs.readFileSync(jobsPath, 'utf-8'));
+  for (let i = 0; i < 100 && onDisk.jobs[sent.id].status !== 'submitted'; i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    onDisk = JSON.parse(fs.readFileSync(jobsPath, 'utf-8'));
+  }
+  assert.equal(onDisk.jobs[sent.id].status, 'submitted');
+  assert.equal(onDisk.jobs[sent.id].txHash, fieldToHex(1n));
+
+  const after = new FakeBackend();
+  after.receipt(fieldToHex(1n)).resolve({ txHash: fieldToHex(1n), blockNumber: 99, success: true });
+  const second = new ClaimQueue({ store: new FileClaimJobStore(jobsPath), backend: after });
+  await second.initialize();
+  await second.drain();
+
+  assert.deepEqual(after.watched, [fieldToHex(1n)]);
+  assert.equal(after.submitted.length, 0);
+  assert.equal(second.getJob(sent.id)!.status, 'confirmed');
+  assert.equal(second.getJob(sent.id)!.blockNumber, 99);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('a restart requeues unsent claims and fails unproved ones', async () => {
+  const store = new MemoryClaimJobStore();
+  const now = Date.now();
+  await store.save({
+    version: 1,
+    jobs: {
+      unsent: {
+        id: 'unsent', status: 'proving', raffleId: '1', needsProof: true, claim: CLAIM,
+        txHash: null, blockNumber: null, error: null, createdAt: now, updatedAt: now,
+      },
+      // Crashed after the hash was saved, maybe before or after the broadcast
+      signed: {
+        id: 'signed', status: 'queued', raffleId: '1', needsProof: false, claim: CLAIM,
+        txHash: fieldToHex(0x5157n), blockNumber: null, error: null, createdAt: now, updatedAt: now,
+      },
+      unproved: {
+        id: 'unproved', status: 'proving', raffleId: '1', needsProof: true, claim: null,
+        txHash: null, blockNumber: null, error: null, createdAt: now, updatedAt: now,
+      },
+    },
+  });
+
+  const backend = new FakeBackend();
+  const queue = new ClaimQueue({ store, backend });
+  await queue.initialize();
+  await waitForStatus(queue, 'unsent', 'submitted');
+
+  assert.deepEqual(backend.submitted, [CLAIM]);
+  assert.equal(backend.proved.length, 0);
+  assert.equal(queue.getJob('unproved')!.status, 'failed');
+  assert.equal(queue.getJob('unproved')!.error!.code, 'INTERRUPTED');
+  assert.equal(queue.getJob('signed')!.status, 'submitted');
+  assert.deepEqual(backend.watched, [fieldToHex(0x5157n), fieldToHex(1n)]);
+});
+
+test('the hash is saved before the claim is broadcast, and dropped if broadcasting fails', async () => {
+  const backend = new FakeBackend();
+  const store = new MemoryClaimJobStore();
+  const queue = new ClaimQueue({ store, backend });
+  await queue.initialize();
+
+  let saved: string | null = null;
+  let jobId = '';
+  backend.submit = async (claim, beforeBroadcast) => {
+    await beforeBroadcast(fieldToHex(7n));
+    saved = (await store.load())!.jobs[jobId].txHash;
+    throw new Error('connection reset');
+  };
+  jobId = (await queue.enqueueClaim(CLAIM)).id;
+  await queue.drain();
+
+  assert.equal(saved, fieldToHex(7n));
+  const failed = queue.getJob(jobId)!;
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.txHash, null);
+});
+
+test('finished jobs are pruned after the retention period, unfinished ones never', async () => {
+  const store = new MemoryClaimJobStore();
+  const old = Date.now() - 2 * 60_000;
+  const job = (id: string, status: ClaimJobStatus) => ({
+    id, status, raffleId: '1', needsProof: false, claim: null,
+    txHash: fieldToHex(1n), blockNumber: null, error: null, createdAt: old, updatedAt: old,
+  });
+  await store.save({ version: 1, jobs: { done: job('confirmed', 'confirmed'), sent: job('sent', 'submitted') } });
+
+  const queue = new ClaimQueue({ store, backend: new FakeBackend(), retentionMs: 60_000 });
+  await queue.initialize();
+
+  assert.equal(queue.getJob('done'), undefined);
+  assert.equal(queue.getJob('sent')!.status, 'submitted');
+  assert.deepEqual(Object.keys((await store.load())!.jobs), ['sent']);
+});
+
+test('records the mined replacement hash, and fails jobs whose transaction was dropped', async () => {
+  const backend = new FakeBackend();
+  const queue = new ClaimQueue({ store: new MemoryClaimJobStore(), backend });
+  await queue.initialize();
+
+  const bumped = await queue.enqueueClaim(CLAIM);
+  await waitForStatus(queue, bumped.id, 'submitted');
+  backend.receipt(fieldToHex(1n)).resolve({ txHash: fieldToHex(0xb0b0n), blockNumber: 5, success: true });
+  await queue.drain();
+  assert.equal(queue.getJob(bumped.id)!.txHash, fieldToHex(0xb0b0n));
+
+  const dropped = await queue.enqueueClaim(CLAIM);
+  await waitForStatus(queue, dropped.id, 'submitted');
+  backend.receipt(fieldToHex(2n)).reject(new ClaimError('TRANSACTION_DROPPED', 502, 'Claim transaction was dropped'));
+  await queue.drain();
+  assert.equal(queue.getJob(dropped.id)!.error!.code, 'TRANSACTION_DROPPED');
+});
@@ -0,0 +1,98 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  TICKET_SEED_DOMAIN,
+  TICKET_SEED_MESSAGE,
+  TICKET_SEED_TYPES,
+  deriveNote,
+  deriveTicketSecrets,
+  recoverTickets,
+  seedFromMnemonic,
+  seedFromSignature,
+  signTicketSeed,
+} from '../src/seed.js';
+import { Poseidon2Hasher } from '../src/poseidon.js';
+import { MODULUS } from '../src/field.js';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const position = { chainId: 31337n, contract: CONTRACT, raffleId: 1n, index: 0 };
+
+let hasher: Poseidon2Hasher;
+after(() => hasher?.destroy());
+
+test('derives the same secrets for the same ticket, and different ones anywhere else', () => {
+  const seed = seedFromMnemonic(MNEMONIC);
+  const ticket = deriveTicketSecrets(seed, position);
+
+  assert.deepEqual(deriveTicketSecrets(seedFromMnemonic(MNEMONIC), position), ticket);
+  assert.ok(ticket.secret < MODULUS && ticket.nullifier < MODULUS);
+  assert.notEqual(ticket.secret, ticket.nullifier);
+
+  const others = [
+    { ...position, index: 1 },
+    { ...position, raffleId: 2n },
+    { ...position, chainId: 1n },
+    { ...position, contract: '0x000000000000000000000000000000000000dEaD' },
+  ].map(p => deriveTicketSecrets(seed, p).secret);
+  others.push(deriveTicketSecrets(seedFromMnemonic(MNEMONIC, 'passphrase'), position).secret);
+  assert.equal(new Set([ticket.secret, ...others]).size, 6);
+
+  // Checksummed or not, it is the same deployment
+  assert.deepEqual(deriveTicketSecrets(seed, { ...position, contract: CONTRACT.toLowerCase() }), ticket);
+});
+
+test('rejects invalid mnemonics, seeds and indices', () => {
+  assert.throws(() => seedFromMnemonic('test test test'), /Invalid BIP-39 mnemonic/);
+  assert.throws(() => deriveTicketSecrets(new Uint8Array(16), position), /32 bytes/);
+  assert.throws(() => deriveTicketSecrets(seedFromMnemonic(MNEMONIC), { ...position, index: -1 }), /non-negative/);
+});
+
+test('a wallet signature gives a stable seed whatever the encoding of v', async () => {
+  const wallet = ethers.Wallet.fromPhrase(MNEMONIC);
+  const signature = await wallet.signTypedData(TICKET_SEED_DOMAIN, TICKET_SEED_TYPES, TICKET_SEED_MESSAGE);
+  const seed = seedFromSignature(signature);
+
+  assert.deepEqual(await signTicketSeed(wallet), seed);
+
+  const { r, s, yParity } = ethers.Signature.from(signature);
+  const compactV = ethers.concat([r, s, ethers.toBeHex(yParity, 1)]);
+  assert.deepEqual(seedFromSignature(compactV), seed);
+
+  const other = await ethers.Wallet.createRandom().signTypedData(TICKET_SEED_DOMAIN, TICKET_SEED_TYPES, TICKET_SEED_MESSAGE);
+  assert.notDeepEqual(seedFromSignature(other), seed);
+});
+
+test('recovers derived tickets among other commitments, up to the gap limit', async () => {
+  hasher ??= await Poseidon2Hasher.create();
+  const seed = seedFromMnemonic(MNEMONIC);
+  const commitment = async (index: number) => {
+    const { secret, nullifier } = deriveTicketSecrets(seed, { ...position, index });
+    return hasher.commitment(secret, nullifier);
+  };
+
+  // Tickets 0, 2 and 6 were bought, between other people's tickets
+  const commitments = [11n, await commitment(2), 12n, await commitment(0), await commitment(6), 13n];
+
+  const found = await recoverTickets({
+    seed,
+    ...position,
+    commitments,
+    commitment: (secret, nullifier) => hasher.commitment(secret, nullifier),
+    gapLimit: 3,
+  });
+
+  assert.deepEqual(found, [
+    { ...deriveNote(seed, { ...position, index: 0 }), leafIndex: 3 },
+    { ...deriveNote(seed, { ...position, index: 2 }), leafIndex: 1 },
+  ]);
+
+  const wider = await recoverTickets({
+    seed,
+    ...position,
+    commitments,
+    commitment: (secret, nullifier) => hasher.commitment(secret, nullifier),
+  });
+  assert.deepEqual(wider.map(note => note.leafIndex), [3, 1, 4]);
+});
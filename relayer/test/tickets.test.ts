@@ -0,0 +1,330 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { PRIVATE_RAFFLE_ABI, Raffle, RaffleOutput, RaffleStatus, PrizeType } from '../src/contracts/PrivateRaffle.js';
+import { TicketError, fromFeeQuoteError, fromPurchaseError } from '../src/tickets/errors.js';
+import { assertOnSale, validateTicketRequest, verifyPayment } from '../src/tickets/preflight.js';
+import { TicketBackend, TicketQueue, TicketReceipt } from '../src/tickets/queue.js';
+import { MemoryTicketJobStore, TicketJobStatus } from '../src/tickets/jobs.js';
+import { FeeEngine } from '../src/fees/engine.js';
+import { FeeQuoteError } from '../src/fees/quote.js';
+import { MODULUS, fieldToHex } from '../src/field.js';
+
+const iface = new ethers.Interface(PRIVATE_RAFFLE_ABI);
+const CHAIN_ID = 534351n;
+const RAFFLE_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const GWEI = 10n ** 9n;
+const PRICE = ethers.parseEther('0.01');
+const COMMITMENT = fieldToHex(0x1234n);
+
+const relayer = ethers.Wallet.createRandom();
+const buyer = ethers.Wallet.createRandom();
+
+async function signedPayment(overrides: Partial<ethers.TransactionRequest> = {}): Promise<string> {
+  return buyer.signTransaction({
+    type: 2,
+    chainId: CHAIN_ID,
+    nonce: 0,
+    to: relayer.address,
+    value: PRICE + 1000n,
+    gasLimit: 21_000n,
+    maxFeePerGas: 2n * GWEI,
+    maxPriorityFeePerGas: GWEI,
+    ...overrides,
+  });
+}
+
+function ticketErrorCode(fn: () => unknown): string {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof TicketError, `expected TicketError, got ${error}`);
+    return error.code;
+  }
+  assert.fail('expected a TicketError');
+}
+
+function raffle(patch: Partial<Raffle> = {}): Raffle {
+  return {
+    creator: ethers.ZeroAddress,
+    ticketPrice: PRICE,
+    maxParticipants: 8n,
+    duration: 3600n,
+    endTime: 2_000n,
+    levels: 3n,
+    nextIndex: 2n,
+    root: ethers.ZeroHash,
+    prizeType: PrizeType.NativeToken,
+    prizePool: 2n * PRICE,
+    status: RaffleStatus.Active,
+    winnerIndex: 0n,
+    requestId: 0n,
+    randomnessRequested: false,
+    createdAt: 0n,
+    ...patch,
+  };
+}
+
+const expected = { chainId: CHAIN_ID, relayer: relayer.address, minValue: PRICE + 1000n };
+
+test('accepts a signed transfer to the relayer that covers price and fee', async () => {
+  const raw = await signedPayment();
+  const payment = verifyPayment(raw, expected);
+
+  assert.equal(payment.hash, ethers.keccak256(raw));
+  assert.equal(payment.value, PRICE + 1000n);
+  assert.equal(payment.from, buyer.address);
+  assert.equal(payment.nonce, 0);
+});
+
+test('rejects payments to someone else, on another chain, with calldata, unsigned or too small', async () => {
+  const other = ethers.Wallet.createRandom().address;
+  assert.equal(ticketErrorCode(() => verifyPayment(ethers.hexlify('0x1234'), expected)), 'INVALID_PAYMENT');
+  assert.equal(ticketErrorCode(() => verifyPayment(
+    ethers.Transaction.from({ type: 2, chainId: CHAIN_ID, to: relayer.address, value: PRICE }).unsignedSerialized,
+    expected
+  )), 'INVALID_PAYMENT');
+  assert.equal(ticketErrorCode(() => verifyPayment(ethers.ZeroHash, expected)), 'INVALID_PAYMENT');
+
+  for (const overrides of [{ to: other }, { chainId: 1n }, { data: '0x01' }]) {
+    const raw = await signedPayment(overrides);
+    assert.equal(ticketErrorCode(() => verifyPayment(raw, expected)), 'INVALID_PAYMENT', Object.keys(overrides)[0]);
+  }
+
+  const short = await signedPayment({ value: PRICE });
+  try {
+    verifyPayment(short, expected);
+    assert.fail('underpayment accepted');
+  } catch (error) {
+    assert.ok(error instanceof TicketError);
+    assert.equal(error.code, 'INSUFFICIENT_PAYMENT');
+    assert.equal(error.status, 402);
+    assert.deepEqual(error.details, { required: (PRICE + 1000n).toString(), paid: PRICE.toString() });
+  }
+});
+
+test('validates the request shape', () => {
+  const payment = '0x02f8';
+  assert.deepEqual(validateTicketRequest({ raffleId: 1, commitment: COMMITMENT.toUpperCase().replace('0X', '0x'), payment }), {
+    raffleId: '1',
+    commitment: COMMITMENT,
+    payment,
+  });
+  assert.equal(ticketErrorCode(() => validateTicketRequest({ raffleId: 'x', commitment: COMMITMENT, payment })), 'INVALID_REQUEST');
+  assert.equal(ticketErrorCode(() => validateTicketRequest({ raffleId: 1, commitment: '0x12', payment })), 'INVALID_REQUEST');
+  assert.equal(ticketErrorCode(() => validateTicketRequest({ raffleId: 1, commitment: fieldToHex(MODULUS - 1n).replace(/^0x../, '0xff'), payment })), 'INVALID_REQUEST');
+  assert.equal(ticketErrorCode(() => validateTicketRequest({ raffleId: 1, commitment: COMMITMENT })), 'INVALID_REQUEST');
+});
+
+test('refuses raffles that are closed, over or full before taking a payment', () => {
+  assertOnSale(raffle(), 1_000);
+  assert.equal(ticketErrorCode(() => assertOnSale(raffle({ status: RaffleStatus.Closed }), 1_000)), 'RAFFLE_NOT_ACTIVE');
+  assert.equal(ticketErrorCode(() => assertOnSale(raffle(), 2_000)), 'RAFFLE_ENDED');
+  assert.equal(ticketErrorCode(() => assertOnSale(raffle({ nextIndex: 8n }), 1_000)), 'RAFFLE_FULL');
+});
+
+test('fromPurchaseError maps purchaseTicket reverts', () => {
+  const revert = (name: string, args: unknown[] = []) => ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data: iface.encodeErrorResult(name, args),
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+  } as any);
+
+  const full = fromPurchaseError(revert('RaffleFull', [8n, 8n])) as TicketError;
+  assert.equal(full.code, 'RAFFLE_FULL');
+  assert.equal(full.details.error, 'RaffleFull');
+  assert.equal((fromPurchaseError(revert('CommitmentAlreadyUsed')) as TicketError).code, 'COMMITMENT_ALREADY_USED');
+  assert.equal((fromPurchaseError(revert('RaffleNotActive', [1n])) as TicketError).details.status, 'Closed');
+  assert.equal((fromPurchaseError(revert('OnlyOwner')) as TicketError).code, 'PURCHASE_REVERTED');
+
+  const plain = new Error('network down');
+  assert.equal(fromPurchaseError(plain), plain);
+});
+
+test('ticket quotes add the fee to the price and are not interchangeable with claim quotes', async () => {
+  const output = { ...raffle(), prizeType: 0n, status: 0n } as RaffleOutput;
+  const engine = new FeeEngine({
+    provider: {
+      getNetwork: async () => new ethers.Network('fake', CHAIN_ID),
+      getFeeData: async () => new ethers.FeeData(null, 2n * GWEI, GWEI),
+    },
+    contract: { getRaffle: (async () => output) as any, getAddress: async () => RAFFLE_ADDRESS },
+    signer: relayer,
+    claimGas: 3_000_000n,
+    ticketGas: 500_000n,
+    marginPercent: 20,
+    maxPrizePercent: 10,
+    quoteTtlSeconds: 300,
+  });
+  await engine.initialize();
+
+  const quote = await engine.quoteTicket('1');
+  // 500,000 gas x 2 gwei x 1.2
+  assert.equal(quote.feeWei, (1_200_000n * GWEI).toString());
+  assert.equal(quote.total, (PRICE + 1_200_000n * GWEI).toString());
+  assert.equal(engine.verifyTicket(quote, '1'), 1_200_000n * GWEI);
+
+  const claimQuote = await engine.quote('1');
+  assert.throws(() => engine.verifyTicket(claimQuote, '1'), FeeQuoteError);
+  assert.throws(() => engine.verify(quote, '1'), { code: 'INVALID_FEE_QUOTE' });
+  assert.equal(ticketErrorCode(() => {
+    try {
+      engine.verifyTicket(claimQuote, '1');
+    } catch (error) {
+      throw fromFeeQuoteError(error);
+    }
+  }), 'INVALID_FEE_QUOTE');
+
+  engine.recordTicketGas(600_000n);
+  assert.equal(engine.ticketGasEstimate, 600_000n);
+});
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+/**
+ * Backend that records calls; receipts resolve when the test says so
+ */
+class FakeBackend implements TicketBackend {
+  paid: string[] = [];
+  rebroadcasts: boolean[] = [];
+  submitted: string[] = [];
+  payError: Error | null = null;
+  preflightError: Error | null = null;
+  receipts = new Map<string, ReturnType<typeof deferred<TicketReceipt>>>();
+
+  async pay(_payment: string, paymentHash: string, rebroadcast: boolean) {
+    this.paid.push(paymentHash);
+    this.rebroadcasts.push(rebroadcast);
+    if (this.payError) throw this.payError;
+  }
+
+  async preflight() {
+    if (this.preflightError) throw this.preflightError;
+  }
+
+  async submit(_raffleId: string, commitment: string) {
+    this.submitted.push(commitment);
+    return fieldToHex(BigInt(this.submitted.length));
+  }
+
+  waitForReceipt(txHash: string) {
+    return this.receipt(txHash).promise;
+  }
+
+  receipt(txHash: string) {
+    if (!this.receipts.has(txHash)) this.receipts.set(txHash, deferred<TicketReceipt>());
+    return this.receipts.get(txHash)!;
+  }
+}
+
+async function waitForStatus(queue: TicketQueue, jobId: string, status: TicketJobStatus): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (queue.getJob(jobId)?.status === status) return;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  assert.fail(`job ${jobId} never reached ${status} (is ${queue.getJob(jobId)?.status})`);
+}
+
+const purchase = (n = 1) => ({
+  raffleId: '1',
+  commitment: fieldToHex(BigInt(n)),
+  payment: '0x02',
+  paymentHash: fieldToHex(BigInt(1000 + n)),
+  feeWei: '1000',
+});
+
+test('a purchase is paid, submitted and confirmed with its leaf index', async () => {
+  const backend = new FakeBackend();
+  const queue = new TicketQueue({ store: new MemoryTicketJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueue(purchase());
+  await waitForStatus(queue, job.id, 'submitted');
+  assert.deepEqual(backend.paid, [purchase().paymentHash]);
+  assert.deepEqual(backend.rebroadcasts, [false]);
+  assert.deepEqual(backend.submitted, [purchase().commitment]);
+  assert.equal(queue.getJob(job.id)!.payment, null);
+
+  backend.receipt(fieldToHex(1n)).resolve({ txHash: fieldToHex(1n), blockNumber: 9, success: true, leafIndex: 4 });
+  await queue.drain();
+
+  const confirmed = queue.getJob(job.id)!;
+  assert.equal(confirmed.status, 'confirmed');
+  assert.equal(confirmed.leafIndex, 4);
+  assert.equal(confirmed.commitment, null);
+});
+
+test('a payment or an in-flight commitment cannot be used twice', async () => {
+  const backend = new FakeBackend();
+  const queue = new TicketQueue({ store: new MemoryTicketJobStore(), backend });
+  await queue.initialize();
+  await queue.enqueue(purchase(1));
+
+  await assert.rejects(queue.enqueue({ ...purchase(2), paymentHash: purchase(1).paymentHash }), { code: 'PAYMENT_ALREADY_USED' });
+  await assert.rejects(queue.enqueue({ ...purchase(1), paymentHash: fieldToHex(99n) }), { code: 'COMMITMENT_ALREADY_USED' });
+});
+
+test('a purchase refused after payment fails and keeps the payment hash for a refund', async () => {
+  const backend = new FakeBackend();
+  backend.preflightError = new TicketError('COMMITMENT_ALREADY_USED', 409, 'Commitment is already in the raffle');
+  const queue = new TicketQueue({ store: new MemoryTicketJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueue(purchase());
+  await queue.drain();
+
+  const failed = queue.getJob(job.id)!;
+  assert.equal(failed.status, 'failed');
+  assert.equal(failed.error!.code, 'COMMITMENT_ALREADY_USED');
+  assert.equal(failed.paymentHash, purchase().paymentHash);
+  assert.deepEqual(backend.submitted, []);
+  assert.ok(queue.hasPayment(purchase().paymentHash));
+});
+
+test('a failed payment fails the job without buying', async () => {
+  const backend = new FakeBackend();
+  backend.payError = new TicketError('PAYMENT_FAILED', 422, 'Payment was not mined');
+  const queue = new TicketQueue({ store: new MemoryTicketJobStore(), backend });
+  await queue.initialize();
+
+  const job = await queue.enqueue(purchase());
+  await queue.drain();
+
+  assert.equal(queue.getJob(job.id)!.error!.code, 'PAYMENT_FAILED');
+  assert.deepEqual(backend.submitted, []);
+});
+
+test('a restart pays again for jobs cut short and watches sent purchases', async () => {
+  const store = new MemoryTicketJobStore();
+  const first = new FakeBackend();
+  first.payError = new Error('never returns in time');
+  const queue = new TicketQueue({ store, backend: first });
+  await queue.initialize();
+
+  // Simulate a crash mid-payment and one purchase already sent
+  const paying = await queue.enqueue(purchase(1));
+  await queue.drain();
+  const state = (await store.load())!;
+  Object.assign(state.jobs[paying.id], { status: 'paying', error: null, payment: '0x02', commitment: purchase(1).commitment });
+  await store.save(state);
+
+  const second = new FakeBackend();
+  const restarted = new TicketQueue({ store, backend: second });
+  await restarted.initialize();
+
+  await waitForStatus(restarted, paying.id, 'submitted');
+  assert.deepEqual(second.paid, [purchase(1).paymentHash]);
+  assert.deepEqual(second.rebroadcasts, [true], 'only a payment that may be out already is rebroadcast');
+  second.receipt(fieldToHex(1n)).resolve({ txHash: fieldToHex(1n), blockNumber: 3, success: true, leafIndex: 0 });
+  await restarted.drain();
+  assert.equal(restarted.getJob(paying.id)!.status, 'confirmed');
+});
@@ -0,0 +1,284 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { TransactionDroppedError, TransactionManager, TransactionProvider } from '../src/tx/manager.js';
+import { FileTransactionStore } from '../src/tx/store.js';
+
+// anvil's first default account
+const ANVIL_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const TARGET = '0x000000000000000000000000000000000000dEaD';
+const GWEI = 10n ** 9n;
+
+/**
+ * One-account chain with automine off: broadcasts sit in the mempool until
+ * mine(), and replacements follow geth's 10% rule
+ */
+class FakeChain implements TransactionProvider {
+  maxFeePerGas = 2n * GWEI;
+  maxPriorityFeePerGas = 1n * GWEI;
+  minedNonce = 0;
+  blockNumber = 100;
+  mempool = new Map<number, ethers.Transaction>();
+  receipts = new Map<string, ethers.TransactionReceipt>();
+  broadcasts: ethers.Transaction[] = [];
+
+  async getNetwork() {
+    return new ethers.Network('fake', 31337n);
+  }
+
+  async getFeeData() {
+    return new ethers.FeeData(null, this.maxFeePerGas, this.maxPriorityFeePerGas);
+  }
+
+  async estimateGas() {
+    return 50_000n;
+  }
+
+  async getTransactionCount(_address: ethers.AddressLike, blockTag?: ethers.BlockTag) {
+    let nonce = this.minedNonce;
+    if (blockTag === 'pending') {
+      while (this.mempool.has(nonce)) nonce++;
+    }
+    return nonce;
+  }
+
+  async broadcastTransaction(signed: string): Promise<ethers.TransactionResponse> {
+    const tx = ethers.Transaction.from(signed);
+    if (tx.nonce < this.minedNonce) {
+      throw ethers.makeError('nonce too low', 'NONCE_EXPIRED', { transaction: tx });
+    }
+    const existing = this.mempool.get(tx.nonce);
+    if (existing && (tx.maxFeePerGas! * 10n < existing.maxFeePerGas! * 11n
+        || tx.maxPriorityFeePerGas! * 10n < existing.maxPriorityFeePerGas! * 11n)) {
+      throw ethers.makeError('replacement transaction underpriced', 'REPLACEMENT_UNDERPRICED', { transaction: tx });
+    }
+    this.mempool.set(tx.nonce, tx);
+    this.broadcasts.push(tx);
+    return { hash: tx.hash } as ethers.TransactionResponse;
+  }
+
+  async getTransactionReceipt(hash: string) {
+    return this.receipts.get(hash) ?? null;
+  }
+
+  async waitForTransaction(hash: string) {
+    return this.receipts.get(hash) ?? null;
+  }
+
+  /**
+   * Mine every mempool transaction that is next in nonce order
+   */
+  mine(): void {
+    this.blockNumber++;
+    while (this.mempool.has(this.minedNonce)) {
+      const tx = this.mempool.get(this.minedNonce)!;
+      this.mempool.delete(this.minedNonce);
+      this.receipts.set(tx.hash!, {
+        hash: tx.hash!,
+        blockNumber: this.blockNumber,
+        status: 1,
+        gasUsed: 42_000n,
+      } as ethers.TransactionReceipt);
+      this.minedNonce++;
+    }
+  }
+
+  /**
+   * The same key sends a transaction the manager does not know about
+   */
+  useNonceElsewhere(): void {
+    this.mempool.delete(this.minedNonce);
+    this.minedNonce++;
+    this.blockNumber++;
+  }
+}
+
+function setup(chain = new FakeChain(), options: { store?: FileTransactionStore; maxFeePerGas?: bigint } = {}) {
+  const clock = { now: 1_000_000 };
+  const manager = new TransactionManager({
+    signer: new ethers.Wallet(ANVIL_KEY),
+    provider: chain,
+    store: options.store,
+    stuckAfterMs: 30_000,
+    maxFeePerGas: options.maxFeePerGas,
+    now: () => clock.now,
+  });
+  return { chain, clock, manager };
+}
+
+const request = (data = '0x') => ({ to: TARGET, data });
+
+test('assigns consecutive nonces to concurrent sends', async () => {
+  const { chain, manager } = setup();
+  await manager.initialize();
+
+  await Promise.all([manager.send(request('0x01')), manager.send(request('0x02')), manager.send(request('0x03'))]);
+
+  assert.deepEqual(chain.broadcasts.map(tx => [tx.nonce, tx.data]), [[0, '0x01'], [1, '0x02'], [2, '0x03']]);
+  assert.deepEqual(manager.pending.map(p => p.nonce), [0, 1, 2]);
+});
+
+test('replaces a transaction that is not mined within the window', async () => {
+  const { chain, clock, manager } = setup();
+  await manager.initialize();
+
+  const hash = await manager.send(request());
+  const receipt = manager.wait(hash);
+
+  clock.now += 29_000;
+  await manager.tick();
+  assert.equal(chain.broadcasts.length, 1, 'bumped before the window');
+
+  chain.maxFeePerGas = 2n * GWEI; // market unchanged: the bump alone must satisfy the node
+  clock.now += 1_000;
+  await manager.tick();
+  assert.equal(chain.broadcasts.length, 2);
+
+  const [original, replacement] = chain.broadcasts;
+  assert.equal(replacement.nonce, original.nonce);
+  assert.equal(replacement.maxFeePerGas, original.maxFeePerGas! * 115n / 100n);
+  assert.equal(replacement.maxPriorityFeePerGas, original.maxPriorityFeePerGas! * 115n / 100n);
+
+  chain.mine();
+  await manager.tick();
+
+  assert.deepEqual(await receipt, {
+    hash: replacement.hash,
+    blockNumber: chain.blockNumber,
+    status: 1,
+    gasUsed: 42_000n,
+  });
+  assert.equal(manager.pending.length, 0);
+  // Late waiters for the original hash still learn about the replacement
+  assert.equal((await manager.wait(hash)).hash, replacement.hash);
+});
+
+test('follows the market when it moved more than the bump', async () => {
+  const { chain, clock, manager } = setup();
+  await manager.initialize();
+  await manager.send(request());
+
+  chain.maxFeePerGas = 10n * GWEI;
+  chain.maxPriorityFeePerGas = 3n * GWEI;
+  clock.now += 30_000;
+  await manager.tick();
+
+  assert.equal(chain.broadcasts[1].maxFeePerGas, 10n * GWEI);
+  assert.equal(chain.broadcasts[1].maxPriorityFeePerGas, 3n * GWEI);
+});
+
+test('stops bumping at the configured fee cap', async () => {
+  const { chain, clock, manager } = setup(new FakeChain(), { maxFeePerGas: 2n * GWEI + 1n });
+  await manager.initialize();
+  await manager.send(request());
+
+  clock.now += 30_000;
+  await manager.tick();
+
+  assert.equal(chain.broadcasts.length, 1);
+});
+
+test('resyncs with the chain nonce after a nonce error', async () => {
+  const { chain, manager } = setup();
+  await manager.initialize();
+
+  await manager.send(request('0x01'));
+  chain.mine();
+  await manager.tick();
+
+  // Nonce 1 is taken behind the manager's back
+  chain.useNonceElsewhere();
+  await manager.send(request('0x02'));
+
+  assert.deepEqual(chain.broadcasts.map(tx => tx.nonce), [0, 2]);
+});
+
+test('rejects waiters when the nonce is used by another transaction', async () => {
+  const { chain, manager } = setup();
+  await manager.initialize();
+
+  const hash = await manager.send(request());
+  const receipt = manager.wait(hash);
+
+  chain.useNonceElsewhere();
+  await manager.tick();
+
+  await assert.rejects(receipt, TransactionDroppedError);
+  await assert.rejects(manager.wait(hash), TransactionDroppedError);
+
+  await manager.send(request());
+  assert.equal(chain.broadcasts.at(-1)!.nonce, 1);
+});
+
+test('keeps bumping and settles replacements after a restart', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffle-tx-'));
+  const statePath = path.join(dir, 'transactions.json');
+  const chain = new FakeChain();
+
+  const first = setup(chain, { store: new FileTransactionStore(statePath) });
+  await first.manager.initialize();
+  const hash = await first.manager.send(request());
+
+  const second = setup(chain, { store: new FileTransactionStore(statePath) });
+  await second.manager.initialize();
+  assert.deepEqual(second.manager.pending.map(p => p.hashes), [[hash]]);
+
+  second.clock.now += 30_000;
+  await second.manager.tick();
+  const replacement = chain.broadcasts[1];
+
+  const receipt = second.manager.wait(hash);
+  chain.mine();
+  await second.manager.tick();
+
+  assert.equal((await receipt).hash, replacement.hash);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// anvil --no-mining   (or any anvil; automine is switched off for the test)
+// ANVIL_RPC_URL=http://127.0.0.1:8545 npm test
+test('bumps and resyncs against anvil with automine off', { skip: !process.env.ANVIL_RPC_URL }, async () => {
+  const provider = new ethers.JsonRpcProvider(process.env.ANVIL_RPC_URL);
+  await provider.send('evm_setAutomine', [false]);
+
+  try {
+    const clock = { now: 1_000_000 };
+    const manager = new TransactionManager({
+      signer: new ethers.Wallet(ANVIL_KEY, provider),
+      provider,
+      stuckAfterMs: 30_000,
+      now: () => clock.now,
+    });
+    await manager.initialize();
+
+    const hash = await manager.send(request());
+    const receipt = manager.wait(hash);
+
+    clock.now += 30_000;
+    await manager.tick();
+    const [pending] = manager.pending;
+    assert.equal(pending.hashes.length, 2, 'anvil rejected the replacement');
+
+    await provider.send('evm_mine', []);
+    await manager.tick();
+    const mined = await receipt;
+    assert.equal(mined.hash, pending.hashes[1]);
+    assert.equal(mined.status, 1);
+
+    // Use the next nonce from outside the manager, then send through it again
+    const outside = new ethers.Wallet(ANVIL_KEY, provider);
+    await outside.sendTransaction({ to: TARGET, nonce: await provider.getTransactionCount(outside.address, 'pending') });
+    await provider.send('evm_mine', []);
+
+    const next = await manager.send(request());
+    await provider.send('evm_mine', []);
+    await manager.tick();
+    assert.equal((await manager.wait(next)).status, 1);
+  } finally {
+    await provider.send('evm_setAutomine', [true]);
+    provider.destroy();
+  }
+});
@@ -0,0 +1,16 @@
+/**
+ * Poseidon2 vectors pinned in the Noir tests (circuits/src/main.nr)
+ */
+
+export const NOIR_VECTORS = {
+  // test_hash1: hash1(42)
+  hash1_42: 0x255ee8299be9389b21052fd317f8cae762f9c89f756ac79262fb648a70ee7a08n,
+  // test_hash2: hash2(1, 2)
+  hash2_1_2: 0x038682aa1cb5ae4e0a3f13da432a95c77c5c111f6f030faf9cad641ce1ed7383n,
+  // test_simple_merkle_proof: commitment = hash2(secret = 123, nullifier = 456)
+  commitment_123_456: 0x148c4666e2c5bce33dc53b30430808464f7ed76b28daf8a36722e93b49a31a5en,
+  // test_nullifier_hash: hash1(456)
+  nullifierHash_456: 0x2b5e2e032c8c028717d5c04dbc403bad8e40126798465625f58460fcd3e9d418n,
+  // test_recipient_binding: hash2(hash1(456), 0x1111111111111111111111111111111111111111)
+  recipientBinding_456_1111: 0x177d154637c9eba85dd9b068d5ac258c52f276e78883a48c25b9b0d32bff3284n,
+};
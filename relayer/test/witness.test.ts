@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EncryptedProofInputs,
+  WitnessEnvelopeError,
+  checkWitnessEnvelope,
+  describeWitnessKey,
+  encryptWitness,
+  generateWitnessKey,
+  loadWitnessKey,
+  withWitness,
+  witnessKeyFromPrivate,
+} from '../src/witness.js';
+import { MODULUS } from '../src/field.js';
+
+const PUBLIC_INPUTS = {
+  siblings: ['1', '2'],
+  recipient: BigInt('0x000000000000000000000000000000000000dEaD').toString(),
+  root: '0x' + '0'.repeat(62) + '2a',
+  raffleId: '1',
+  winnerIndex: '3',
+  treeDepth: '2',
+};
+const WITNESS = { secret: 0x1234n, nullifier: MODULUS - 1n };
+
+function sealed(key = generateWitnessKey()): { key: ReturnType<typeof generateWitnessKey>; inputs: EncryptedProofInputs } {
+  const witness = encryptWitness(describeWitnessKey(key), WITNESS, PUBLIC_INPUTS);
+  return { key, inputs: { ...PUBLIC_INPUTS, witness } };
+}
+
+// Flip one hex digit
+function tamper(hex: string, offset: number): string {
+  const i = hex.length - offset;
+  return hex.slice(0, i) + (hex[i] === '0' ? '1' : '0') + hex.slice(i + 1);
+}
+
+test('round-trips a witness sealed to the relayer key', async () => {
+  const { key, inputs } = sealed();
+  assert.deepEqual(await withWitness(key, inputs, async witness => witness), WITNESS);
+
+  // Same public inputs written differently still open it
+  const decimalRoot = { ...inputs, root: '42' };
+  assert.deepEqual(await withWitness(key, decimalRoot, async witness => witness), WITNESS);
+});
+
+test('an envelope only opens with its key and for the public inputs it was sealed for', async () => {
+  const { key, inputs } = sealed();
+  const open = (k: typeof key, i: EncryptedProofInputs) => withWitness(k, i, async () => null);
+
+  await assert.rejects(open(key, { ...inputs, recipient: '1' }), /does not decrypt/);
+  await assert.rejects(open(key, { ...inputs, winnerIndex: '2' }), /does not decrypt/);
+  await assert.rejects(open(key, { ...inputs, witness: { ...inputs.witness, ciphertext: tamper(inputs.witness.ciphertext, 40) } }), WitnessEnvelopeError);
+
+  const other = generateWitnessKey();
+  await assert.rejects(open(other, inputs), /encrypted to key/);
+  await assert.rejects(open(other, { ...inputs, witness: { ...inputs.witness, keyId: describeWitnessKey(other).keyId } }), /does not decrypt/);
+});
+
+test('checks envelope shape without decrypting', () => {
+  const { key, inputs } = sealed();
+  const keyId = describeWitnessKey(key).keyId;
+
+  checkWitnessEnvelope(inputs.witness, keyId);
+  assert.throws(() => checkWitnessEnvelope({ ...inputs.witness, version: 2 }, keyId), /version 2/);
+  assert.throws(() => checkWitnessEnvelope({ ...inputs.witness, nonce: '0x00' }, keyId), /nonce must be 12 bytes/);
+  assert.throws(() => checkWitnessEnvelope('0xabcd', keyId), WitnessEnvelopeError);
+});
+
+test('creates the key file once, readable by its owner only, and reloads it', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'raffero-witness-'));
+  const file = path.join(dir, 'data', 'witness-key.json');
+  try {
+    const created = loadWitnessKey(file);
+    assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+    assert.deepEqual(loadWitnessKey(file), created);
+    assert.deepEqual(witnessKeyFromPrivate(created.privateKey).publicKey, created.publicKey);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -4,49 +4,7 @@ pragma solidity ^0.8.20;
 import {Test, console} from "forge-std/Test.sol";
 import {PrivateRaffle, Poseidon2} from "../src/PrivateRaffle.sol";
 import {HonkVerifier} from "../src/UltraVerifier.sol";
-import {ISupraRouter} from "../src/interfaces/ISupraRouter.sol";
-
-contract MockSupraRouter is ISupraRouter {
-    uint256 public nextRequestId = 1;
-
-    function generateRequest(
-        string memory _functionSig,
-        uint8 _rngCount,
-        uint256 _numConfirmations,
-        uint256 _clientSeed,
-        address _clientWalletAddress
-    ) external returns (uint256 requestId) {
-        requestId = nextRequestId++;
-    }
-
-    function fulfill(
-        address consumer,
-        uint256 requestId,
-        uint256 randomness
-    ) external {
-        uint256[] memory words = new uint256[](1);
-        words[0] = randomness;
-
-        // llama el callback del consumer (tu PrivateRaffle)
-        (bool ok, bytes memory ret) = consumer.call(
-            abi.encodeWithSignature(
-                "supraCallback(uint256,uint256[])",
-                requestId,
-                words
-            )
-        );
-
-        if (!ok) {
-            // bubble revert reason si existe
-            if (ret.length > 0) {
-                assembly {
-                    revert(add(ret, 32), mload(ret))
-                }
-            }
-            revert("MockSupraRouter: callback failed");
-        }
-    }
-}
+import {MockSupraRouter} from "./harness/MockSupraRouter.sol";
 
 /**
  * @title PrivateRaffleTest
@@ -292,6 +250,41 @@ contract PrivateRaffleTest is Test {
         assertLt(r.winnerIndex, 5);
     }
 
+    function test_DrawWinner_DroppedCallback() public {
+        vm.prank(creator);
+        uint256 raffleId = raffle.createRaffle{value: PRIZE_AMOUNT}(
+            TICKET_PRICE,
+            LEVELS,
+            DURATION
+        );
+
+        (bytes32 _commitment, , ) = _getCommitment();
+        vm.prank(participant1);
+        raffle.purchaseTicket{value: TICKET_PRICE}(raffleId, _commitment);
+
+        vm.warp(block.timestamp + DURATION + 1);
+        raffle.drawWinner(raffleId);
+        PrivateRaffle.Raffle memory r = raffle.getRaffle(raffleId);
+        assertEq(supraRouter.consumers(r.requestId), address(raffle));
+
+        supraRouter.setDropCallbacks(true);
+        supraRouter.fulfill(address(raffle), r.requestId, 777);
+
+        // Stuck: still drawable according to canDrawWinner, but not again
+        r = raffle.getRaffle(raffleId);
+        assertEq(uint256(r.status), uint256(PrivateRaffle.RaffleStatus.Active));
+        assertTrue(r.randomnessRequested);
+        assertTrue(raffle.canDrawWinner(raffleId));
+        vm.expectRevert(PrivateRaffle.VRFAlreadyRequested.selector);
+        raffle.drawWinner(raffleId);
+
+        // A late callback still closes it
+        supraRouter.setDropCallbacks(false);
+        supraRouter.fulfill(address(raffle), r.requestId, 777);
+        r = raffle.getRaffle(raffleId);
+        assertEq(uint256(r.status), uint256(PrivateRaffle.RaffleStatus.Closed));
+    }
+
     // =========================================================================
     // PRIZE CLAIM TESTS
     // =========================================================================
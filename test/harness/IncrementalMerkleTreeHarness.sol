@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IncrementalMerkleTree, Poseidon2} from "../../src/IncrementalMerkleTree.sol";
+
+/**
+ * @title IncrementalMerkleTreeHarness
+ * @notice Exposes _initTree and _insert so relayer/test/differential.test.ts
+ *         can compare getLastRoot() with the relayer's PoseidonIMT on anvil
+ */
+contract IncrementalMerkleTreeHarness is IncrementalMerkleTree {
+    constructor(Poseidon2 _hasher) IncrementalMerkleTree(_hasher) {}
+
+    function initTree(uint256 treeId, uint32 depth) external {
+        _initTree(treeId, depth);
+    }
+
+    function insertMany(uint256 treeId, bytes32[] calldata leaves) external {
+        for (uint256 i = 0; i < leaves.length; i++) {
+            _insert(treeId, leaves[i]);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ISupraRouter} from "../../src/interfaces/ISupraRouter.sol";
+
+/**
+ * @notice Supra router stand-in. Callbacks only happen when fulfill() is
+ * called, so a test delays one by calling it later; with dropCallbacks set,
+ * fulfill() swallows the callback the way a lost request would.
+ */
+contract MockSupraRouter is ISupraRouter {
+    uint256 public nextRequestId = 1;
+    bool public dropCallbacks;
+    mapping(uint256 => address) public consumers;
+
+    event RequestReceived(uint256 indexed requestId, address indexed consumer);
+    event CallbackDropped(uint256 indexed requestId);
+
+    function setDropCallbacks(bool drop) external {
+        dropCallbacks = drop;
+    }
+
+    function generateRequest(
+        string memory _functionSig,
+        uint8 _rngCount,
+        uint256 _numConfirmations,
+        uint256 _clientSeed,
+        address _clientWalletAddress
+    ) external returns (uint256 requestId) {
+        requestId = nextRequestId++;
+        consumers[requestId] = msg.sender;
+        emit RequestReceived(requestId, msg.sender);
+    }
+
+    function fulfill(
+        address consumer,
+        uint256 requestId,
+        uint256 randomness
+    ) external {
+        if (dropCallbacks) {
+            emit CallbackDropped(requestId);
+            return;
+        }
+
+        uint256[] memory words = new uint256[](1);
+        words[0] = randomness;
+
+        // llama el callback del consumer (tu PrivateRaffle)
+        (bool ok, bytes memory ret) = consumer.call(
+            abi.encodeWithSignature(
+                "supraCallback(uint256,uint256[])",
+                requestId,
+                words
+            )
+        );
+
+        if (!ok) {
+            // bubble revert reason si existe
+            if (ret.length > 0) {
+                assembly {
+                    revert(add(ret, 32), mload(ret))
+                }
+            }
+            revert("MockSupraRouter: callback failed");
+        }
+    }
+}